@@ -3,7 +3,6 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { Routes, Route } from "react-router-dom";
-import { Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { AuthGuard } from "@/components/auth/AuthGuard";
 import Index from "./pages/Index";
@@ -11,6 +10,10 @@ import Auth from "./pages/Auth";
 import Search from "./pages/Search";
 import Review from "./pages/Review";
 import Profile from "./pages/Profile";
+import Stats from "./pages/Stats";
+import Glossary from "./pages/Glossary";
+import ImportCards from "./pages/ImportCards";
+import MockExam from "./pages/MockExam";
 import AddMaterial from "./pages/AddMaterial";
 import ReviewText from "./pages/ReviewText";
 import MaterialDetails from "./pages/MaterialDetails";
@@ -85,6 +88,14 @@ const App = () => (
               </AuthGuard>
             }
           />
+          <Route
+            path="/stats"
+            element={
+              <AuthGuard>
+                <Stats />
+              </AuthGuard>
+            }
+          />
           <Route
             path="/profile"
             element={
@@ -93,6 +104,30 @@ const App = () => (
               </AuthGuard>
             }
           />
+          <Route
+            path="/glossary"
+            element={
+              <AuthGuard>
+                <Glossary />
+              </AuthGuard>
+            }
+          />
+          <Route
+            path="/import"
+            element={
+              <AuthGuard>
+                <ImportCards />
+              </AuthGuard>
+            }
+          />
+          <Route
+            path="/exam"
+            element={
+              <AuthGuard>
+                <MockExam />
+              </AuthGuard>
+            }
+          />
           <Route
             path="/debug"
             element={
@@ -1,6 +1,6 @@
 import { useProfile } from '@/hooks/useProfile';
 import { Button } from '@/components/ui/button';
-import { SupportedLanguage } from '@/lib/translations';
+import { SupportedLanguage, SUPPORTED_LANGUAGES, LANGUAGE_CODES, LANGUAGE_NAMES } from '@/lib/languages';
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
@@ -55,15 +55,16 @@ export function LanguageSwitcher({ type, size = 'sm' }: LanguageSwitcherProps) {
 
   return (
     <div className="flex gap-1">
-      {(['ru', 'de', 'en'] as const).map((lang) => (
+      {SUPPORTED_LANGUAGES.map((lang) => (
         <Button
           key={lang}
           variant={currentLang === lang ? 'default' : 'ghost'}
           size={size}
           onClick={() => handleChange(lang)}
           className="uppercase px-2 text-xs font-medium"
+          title={LANGUAGE_NAMES[lang]}
         >
-          {lang}
+          {LANGUAGE_CODES[lang]}
         </Button>
       ))}
     </div>
@@ -1,4 +1,4 @@
-import { Home, Search, RotateCcw, User } from 'lucide-react';
+import { Home, Search, RotateCcw, BarChart3, User } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
@@ -7,6 +7,7 @@ const navItems = [
   { icon: Home, path: '/', labelKey: 'nav.home' },
   { icon: Search, path: '/search', labelKey: 'nav.search' },
   { icon: RotateCcw, path: '/review', labelKey: 'nav.review' },
+  { icon: BarChart3, path: '/stats', labelKey: 'nav.stats' },
   { icon: User, path: '/profile', labelKey: 'nav.profile' },
 ];
 
@@ -0,0 +1,103 @@
+import { ReactNode, useEffect, useMemo, useRef } from 'react';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { GlossarySegment, GlossaryTerm, findGlossaryHits } from '@/lib/glossary';
+import { SourceSpan } from '@/lib/grounding';
+import { LANGUAGE_CODES, SUPPORTED_LANGUAGES, SupportedLanguage } from '@/lib/languages';
+
+interface GlossaryTextProps {
+  text: string;
+  terms: GlossaryTerm[];
+  language: SupportedLanguage;
+  // Passage to mark and scroll to (the source of a card or question)
+  highlight?: SourceSpan | null;
+}
+
+/**
+ * Split segments at the edges of the highlighted span; glossary terms are
+ * kept whole and marked when they overlap it
+ */
+function splitAtHighlight(segments: GlossarySegment[], highlight: SourceSpan | null | undefined) {
+  if (!highlight) return segments.map((segment) => ({ ...segment, marked: false }));
+
+  const result: (GlossarySegment & { marked: boolean })[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    const start = offset;
+    const end = offset + segment.text.length;
+    offset = end;
+
+    const from = Math.max(start, highlight.start);
+    const to = Math.min(end, highlight.end);
+    if (from >= to) {
+      result.push({ ...segment, marked: false });
+    } else if (segment.term) {
+      result.push({ ...segment, marked: true });
+    } else {
+      const parts = [
+        { text: segment.text.slice(0, from - start), marked: false },
+        { text: segment.text.slice(from - start, to - start), marked: true },
+        { text: segment.text.slice(to - start), marked: false },
+      ];
+      for (const part of parts) if (part.text) result.push({ ...segment, ...part });
+    }
+  }
+  return result;
+}
+
+/**
+ * Lecture text with glossary terms underlined; hovering shows the
+ * definition and the term in the other languages.
+ */
+export function GlossaryText({ text, terms, language, highlight }: GlossaryTextProps) {
+  const segments = useMemo(
+    () => splitAtHighlight(findGlossaryHits(text, terms, language), highlight),
+    [text, terms, language, highlight]
+  );
+  const markRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (highlight) markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlight]);
+
+  const firstMarked = segments.findIndex((segment) => segment.marked);
+  const mark = (i: number, content: ReactNode) =>
+    segments[i].marked ? (
+      <mark key={i} ref={i === firstMarked ? markRef : undefined} className="rounded-sm bg-warning/30 text-inherit">
+        {content}
+      </mark>
+    ) : (
+      content
+    );
+
+  return (
+    <pre className="whitespace-pre-wrap font-mono text-sm leading-relaxed">
+      {segments.map((segment, i) =>
+        mark(i, segment.term ? (
+          <HoverCard key={i} openDelay={150}>
+            <HoverCardTrigger asChild>
+              <span className="cursor-help underline decoration-primary/60 decoration-dotted underline-offset-4">
+                {segment.text}
+              </span>
+            </HoverCardTrigger>
+            <HoverCardContent className="w-72 space-y-2 font-sans">
+              <p className="font-semibold">{segment.term.term}</p>
+              {segment.term.definition && (
+                <p className="text-sm text-muted-foreground">{segment.term.definition}</p>
+              )}
+              <dl className="grid grid-cols-[auto_1fr] gap-x-2 text-xs">
+                {SUPPORTED_LANGUAGES.filter((lang) => segment.term!.variants[lang]).map((lang) => (
+                  <div key={lang} className="contents">
+                    <dt className="text-muted-foreground">{LANGUAGE_CODES[lang]}</dt>
+                    <dd>{segment.term!.variants[lang]}</dd>
+                  </div>
+                ))}
+              </dl>
+            </HoverCardContent>
+          </HoverCard>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        ))
+      )}
+    </pre>
+  );
+}
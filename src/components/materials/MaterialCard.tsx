@@ -5,33 +5,35 @@ import { FileText, Image } from 'lucide-react';
 import { Material } from '@/lib/types';
 import { TOPIC_LABELS } from '@/lib/constants';
 import { formatDistanceToNow } from 'date-fns';
-import { ru, de, enUS } from 'date-fns/locale';
 import { Link } from 'react-router-dom';
 import { 
-  parseI18nData, 
+  toI18nData,
   getTitleInLanguage, 
   getTextInLanguage, 
   SupportedLanguage,
   LANGUAGE_CODES 
 } from '@/lib/translations';
+import { DATE_LOCALES } from '@/lib/languages';
+import { SearchSource, splitHighlights } from '@/lib/search';
 
 interface MaterialCardProps {
   material: Material;
+  // Search results: highlighted snippet and where the match was found
+  snippet?: string | null;
+  matchedSource?: SearchSource | null;
 }
 
-const locales = { ru, de, en: enUS };
-
-export function MaterialCard({ material }: MaterialCardProps) {
+export function MaterialCard({ material, snippet, matchedSource }: MaterialCardProps) {
   const { t, i18n } = useTranslation();
   const currentLang = i18n.language as SupportedLanguage;
-  const locale = locales[currentLang] || ru;
+  const locale = DATE_LOCALES[currentLang] || DATE_LOCALES.ru;
   
   // Handle nullable arrays from database
   const images = material.images ?? [];
   const tags = material.tags ?? [];
   
-  // Parse i18n data from notes
-  const i18nData = parseI18nData(material.notes);
+  // Combine the language versions loaded with the material
+  const i18nData = toI18nData(material.source_language, material.material_versions);
   
   // Get localized title - prefer i18n, fallback to material.title
   const localizedTitle = i18nData 
@@ -92,7 +94,24 @@ export function MaterialCard({ material }: MaterialCardProps) {
                 ))}
               </div>
               
-              {displayText && (
+              {snippet ? (
+                <p className="text-sm text-muted-foreground line-clamp-3">
+                  {matchedSource && (
+                    <span className="mr-1 text-xs font-medium">
+                      {t(`search.matchedIn.${matchedSource}`)}:
+                    </span>
+                  )}
+                  {splitHighlights(snippet).map((segment, index) =>
+                    segment.highlighted ? (
+                      <mark key={index} className="rounded bg-primary/20 px-0.5 text-foreground">
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )}
+                </p>
+              ) : displayText && (
                 <p className="text-sm text-muted-foreground line-clamp-2">
                   {displayText.slice(0, 100)}...
                 </p>
@@ -0,0 +1,81 @@
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { LANGUAGE_NAMES, LANGUAGE_CODES, SUPPORTED_LANGUAGES, SupportedLanguage } from '@/lib/translations';
+
+interface MultilingualImportPreviewProps {
+  sourceText: string;
+  sourceLanguage: SupportedLanguage;
+  texts: Partial<Record<SupportedLanguage, string>>;
+  warnings: string[];
+  accepted: SupportedLanguage[];
+  onToggle: (language: SupportedLanguage, accepted: boolean) => void;
+}
+
+/**
+ * The source text next to each language transform-text produced; only the
+ * ticked languages are saved.
+ */
+export function MultilingualImportPreview({
+  sourceText,
+  sourceLanguage,
+  texts,
+  warnings,
+  accepted,
+  onToggle,
+}: MultilingualImportPreviewProps) {
+  const { t } = useTranslation();
+
+  // The source language keeps the user's own text
+  const languages = SUPPORTED_LANGUAGES.filter((lang) => lang !== sourceLanguage && texts[lang]?.trim());
+
+  return (
+    <div className="space-y-3">
+      {warnings.length > 0 && (
+        <div className="flex gap-2 p-3 rounded-lg bg-warning/10 border border-warning/30 text-xs text-warning-foreground">
+          <AlertTriangle className="h-4 w-4 shrink-0 text-warning" />
+          <div>
+            {warnings.map((warning, i) => (
+              <div key={i}>{warning}</div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {languages.map((lang) => {
+        const id = `import-${lang}`;
+        return (
+          <div key={lang} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={id}
+                checked={accepted.includes(lang)}
+                onCheckedChange={(checked) => onToggle(lang, checked === true)}
+              />
+              <Label htmlFor={id} className="cursor-pointer">
+                {LANGUAGE_NAMES[lang]}
+              </Label>
+            </div>
+            <div className="grid gap-2 md:grid-cols-2">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {t('import.source')}: {LANGUAGE_CODES[sourceLanguage]}
+                </p>
+                <p className="max-h-48 overflow-y-auto whitespace-pre-wrap rounded bg-muted/50 p-2 text-sm">
+                  {sourceText}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">{LANGUAGE_CODES[lang]}</p>
+                <p className="max-h-48 overflow-y-auto whitespace-pre-wrap rounded bg-muted/50 p-2 text-sm">
+                  {texts[lang]}
+                </p>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,12 +3,14 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { ConfidenceBadge } from '@/components/ai/ConfidenceBadge';
 import { useTranslation } from 'react-i18next';
-import { FileText } from 'lucide-react';
+import { ArrowRight, FileText } from 'lucide-react';
+import { OcrPagePreview } from '@/hooks/useClientOcr';
 
 interface OcrPreviewProps {
   text: string;
   confidence: 'high' | 'medium' | 'low';
   onTextChange: (text: string) => void;
+  previews?: OcrPagePreview[];
 }
 
 const MOCK_PLACEHOLDER = `MOCK OCR: Paste your lecture text here. OCR will be enabled later.
@@ -17,7 +19,51 @@ const MOCK_PLACEHOLDER = `MOCK OCR: Paste your lecture text here. OCR will be en
 
 MOCK OCR: Вставьте текст лекции здесь. OCR будет включён позже.`;
 
-export function OcrPreview({ text, confidence, onTextChange }: OcrPreviewProps) {
+/**
+ * Each photo next to the cleaned-up image OCR read, to check that the page
+ * was cut out and straightened correctly
+ */
+export function OcrImagePreviews({ previews }: { previews: OcrPagePreview[] }) {
+  const { t } = useTranslation();
+
+  if (previews.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{t('material.ocrPreviews')}</p>
+      <div className="flex gap-4 overflow-x-auto pb-1">
+        {previews.map((preview, i) => (
+          <figure key={i} className="shrink-0 space-y-1">
+            <div className="flex items-center gap-1">
+              <img
+                src={preview.original}
+                alt={t('material.ocrBefore')}
+                className="h-32 w-auto rounded border bg-muted object-contain"
+              />
+              <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+              {preview.processed ? (
+                <img
+                  src={preview.processed}
+                  alt={t('material.ocrAfter')}
+                  className="h-32 w-auto rounded border bg-white object-contain"
+                />
+              ) : (
+                <div className="flex h-32 w-24 items-center justify-center rounded border p-2 text-center text-xs text-muted-foreground">
+                  {t('material.ocrNotProcessed')}
+                </div>
+              )}
+            </div>
+            <figcaption className="text-xs text-muted-foreground">
+              {t('material.ocrPage', { page: i + 1 })}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function OcrPreview({ text, confidence, onTextChange, previews = [] }: OcrPreviewProps) {
   const { t } = useTranslation();
 
   // Prefill with mock text if empty
@@ -42,6 +88,8 @@ export function OcrPreview({ text, confidence, onTextChange }: OcrPreviewProps)
         </div>
         <ConfidenceBadge confidence={confidence} />
       </div>
+
+      <OcrImagePreviews previews={previews} />
       
       {/* Editable Textarea */}
       <div className="space-y-2">
@@ -0,0 +1,36 @@
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface OutdatedNoticeProps {
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+  isBusy?: boolean;
+}
+
+/**
+ * Shown above a translation or generated content whose source text has
+ * changed since it was made, with a one-click refresh.
+ */
+export function OutdatedNotice({ message, actionLabel, onAction, isBusy = false }: OutdatedNoticeProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-2">
+      <div className="flex items-center gap-2 text-warning text-sm font-medium">
+        <AlertTriangle className="h-4 w-4" />
+        {t('outdated.badge')}
+      </div>
+      <p className="text-xs text-warning-foreground">{message}</p>
+      <Button size="sm" variant="outline" onClick={onAction} disabled={isBusy}>
+        {isBusy ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <RefreshCw className="mr-2 h-4 w-4" />
+        )}
+        {actionLabel}
+      </Button>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { X } from 'lucide-react';
 import { TOPICS, TOPIC_LABELS } from '@/lib/constants';
+import { SupportedLanguage } from '@/lib/languages';
 import { Topic } from '@/lib/types';
 import { useState } from 'react';
 
@@ -28,7 +29,7 @@ export function TopicSelector({
   const { t, i18n } = useTranslation();
   const [tagInput, setTagInput] = useState('');
 
-  const lang = i18n.language as 'ru' | 'de' | 'en';
+  const lang = i18n.language as SupportedLanguage;
 
   const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' || e.key === ',') {
@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ClozeSegment, isClozeAnswerCorrect, parseCloze } from '@/lib/cloze';
+import { cn } from '@/lib/utils';
+
+type IndexedSegment = ClozeSegment & { index: number };
+
+function indexSegments(text: string): IndexedSegment[] {
+  let blank = 0;
+  return parseCloze(text).map((segment) => ({
+    ...segment,
+    index: segment.type === 'blank' ? blank++ : -1,
+  }));
+}
+
+/**
+ * Cloze text with the blanks filled in and highlighted (card lists)
+ */
+export function ClozeText({ text, className }: { text: string; className?: string }) {
+  const segments = useMemo(() => parseCloze(text), [text]);
+
+  return (
+    <p className={className}>
+      {segments.map((segment, i) =>
+        segment.type === 'blank' ? (
+          <span key={i} className="rounded bg-primary/10 px-1 font-medium text-primary">
+            {segment.answer}
+          </span>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+interface ClozeReviewProps {
+  text: string;
+  checked: boolean;
+  onCheck: () => void;
+}
+
+/**
+ * Cloze card in review: one input per blank, checked with tolerant matching.
+ * Render with `key={card.id}` so the inputs reset for every card.
+ */
+export function ClozeReview({ text, checked, onCheck }: ClozeReviewProps) {
+  const { t } = useTranslation();
+  const segments = useMemo(() => indexSegments(text), [text]);
+  const [answers, setAnswers] = useState<string[]>([]);
+
+  const blanks = segments.filter((segment) => segment.type === 'blank');
+  const isCorrect = (segment: IndexedSegment) =>
+    segment.type === 'blank' && isClozeAnswerCorrect(segment.answer, answers[segment.index] ?? '');
+  const correctCount = blanks.filter(isCorrect).length;
+
+  return (
+    <form
+      className="w-full space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!checked) onCheck();
+      }}
+    >
+      <p className="text-lg leading-loose">
+        {segments.map((segment, i) => {
+          if (segment.type === 'text') return <span key={i}>{segment.text}</span>;
+
+          const correct = isCorrect(segment);
+          return (
+            <span key={i} className="inline-flex items-baseline gap-1">
+              <Input
+                value={answers[segment.index] ?? ''}
+                onChange={(e) => {
+                  const next = [...answers];
+                  next[segment.index] = e.target.value;
+                  setAnswers(next);
+                }}
+                readOnly={checked}
+                placeholder={segment.hint ?? '…'}
+                autoFocus={segment.index === 0}
+                autoComplete="off"
+                spellCheck={false}
+                style={{ width: `${Math.max(6, segment.answer.length + 2)}ch` }}
+                className={cn(
+                  'mx-1 inline-flex h-8 px-2 text-base',
+                  checked && (correct ? 'border-green-500 text-green-700' : 'border-red-500 text-red-600')
+                )}
+              />
+              {checked && !correct && (
+                <span className="font-medium text-green-700">{segment.answer}</span>
+              )}
+            </span>
+          );
+        })}
+      </p>
+
+      {checked ? (
+        <p className="text-sm text-muted-foreground">
+          {t('review.clozeResult', { correct: correctCount, total: blanks.length })}
+        </p>
+      ) : (
+        <Button type="submit" size="lg">
+          <Check className="mr-2 h-4 w-4" />
+          {t('review.check')}
+        </Button>
+      )}
+    </form>
+  );
+}
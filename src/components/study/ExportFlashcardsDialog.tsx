@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { buildApkg, loadSqlJs, toDelimited } from '@/lib/anki';
+import { TOPICS, TOPIC_LABELS } from '@/lib/constants';
+import { ExportScope, loadExportCards } from '@/lib/flashcards';
+import { LANGUAGES, SupportedLanguage } from '@/lib/languages';
+import { Topic } from '@/lib/types';
+
+type ExportFormat = 'apkg' | 'csv' | 'tsv';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  apkg: 'application/octet-stream',
+  csv: 'text/csv;charset=utf-8',
+  tsv: 'text/tab-separated-values;charset=utf-8',
+};
+
+interface ExportFlashcardsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Export one material's deck; without it a topic or everything can be chosen
+  material?: { id: string; title: string };
+  defaultLanguage: SupportedLanguage;
+}
+
+function downloadFile(data: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function fileSlug(name: string): string {
+  return name.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'flashcards';
+}
+
+export function ExportFlashcardsDialog({ open, onOpenChange, material, defaultLanguage }: ExportFlashcardsDialogProps) {
+  const { t, i18n } = useTranslation();
+  const lang = i18n.language as SupportedLanguage;
+  const [topic, setTopic] = useState<Topic | 'all'>('all');
+  const [language, setLanguage] = useState<SupportedLanguage>(defaultLanguage);
+  const [format, setFormat] = useState<ExportFormat>('apkg');
+  const [includeScheduling, setIncludeScheduling] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (open) setLanguage(defaultLanguage);
+  }, [open, defaultLanguage]);
+
+  const handleExport = async () => {
+    const scope: ExportScope = material
+      ? { kind: 'material', materialId: material.id }
+      : topic === 'all'
+        ? { kind: 'all' }
+        : { kind: 'topic', topic };
+    const deckName = material
+      ? `StudySnap::${material.title}`
+      : topic === 'all'
+        ? 'StudySnap'
+        : `StudySnap::${TOPIC_LABELS[topic][lang] ?? topic}`;
+    const filename = `${fileSlug(deckName.replace('StudySnap::', ''))}-${language}.${format}`;
+
+    setIsExporting(true);
+    try {
+      const cards = await loadExportCards(scope, language);
+      if (cards.length === 0) {
+        toast.info(t('export.empty'));
+        return;
+      }
+
+      if (format === 'apkg') {
+        const SQL = await loadSqlJs();
+        downloadFile(await buildApkg(SQL, cards, { deckName, includeScheduling }), filename, MIME_TYPES.apkg);
+      } else {
+        downloadFile(toDelimited(cards, format), filename, MIME_TYPES[format]);
+      }
+
+      toast.success(t('export.done', { count: cards.length }));
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error exporting flashcards:', error);
+      toast.error(t('export.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            {t('export.title')}
+          </DialogTitle>
+          <DialogDescription>{material ? material.title : t('export.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!material && (
+            <div className="space-y-2">
+              <Label>{t('export.scope')}</Label>
+              <Select value={topic} onValueChange={(value) => setTopic(value as Topic | 'all')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('export.allTopics')}</SelectItem>
+                  {TOPICS.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {TOPIC_LABELS[item][lang] ?? item}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{t('export.language')}</Label>
+            <Select value={language} onValueChange={(value) => setLanguage(value as SupportedLanguage)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LANGUAGES.map((item) => (
+                  <SelectItem key={item.code} value={item.code}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('export.format')}</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(['apkg', 'csv', 'tsv'] as ExportFormat[]).map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {t(`export.formats.${item}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {format === 'apkg' && (
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="export-scheduling"
+                checked={includeScheduling}
+                onCheckedChange={(checked) => setIncludeScheduling(checked === true)}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="export-scheduling">{t('export.includeScheduling')}</Label>
+                <p className="text-xs text-muted-foreground">{t('export.includeSchedulingHint')}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            {t('export.action')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
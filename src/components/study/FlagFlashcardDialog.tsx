@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Flag, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+
+interface FlagFlashcardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  question: string;
+  onSubmit: (comment: string) => Promise<void>;
+}
+
+export function FlagFlashcardDialog({ open, onOpenChange, question, onSubmit }: FlagFlashcardDialogProps) {
+  const { t } = useTranslation();
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) setComment('');
+  }, [open]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(comment);
+      onOpenChange(false);
+    } catch {
+      // Reported by the caller; keep the dialog open to retry
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5" />
+            {t('flashcards.flag')}
+          </DialogTitle>
+          <DialogDescription className="line-clamp-3">{question}</DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder={t('flashcards.flagPlaceholder')}
+          className="min-h-[80px]"
+        />
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('flashcards.sendFlag')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ClozeText } from '@/components/study/ClozeCard';
+import { CardType, hasCloze } from '@/lib/cloze';
+import { FlashcardDraft } from '@/lib/flashcards';
+
+interface FlashcardEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The card being edited; null adds a new card
+  card: FlashcardDraft | null;
+  onSave: (draft: FlashcardDraft) => Promise<void>;
+}
+
+const EMPTY_DRAFT: FlashcardDraft = { card_type: 'basic', question: '', answer: '' };
+
+export function FlashcardEditorDialog({ open, onOpenChange, card, onSave }: FlashcardEditorDialogProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<FlashcardDraft>(card ?? EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the card every time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(card ?? EMPTY_DRAFT);
+  }, [open, card]);
+
+  const isCloze = draft.card_type === 'cloze';
+  const isValid = isCloze
+    ? hasCloze(draft.question)
+    : draft.question.trim() !== '' && draft.answer.trim() !== '';
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onOpenChange(false);
+    } catch {
+      // Reported by the caller; keep the dialog open to retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{card ? t('flashcards.edit') : t('flashcards.add')}</DialogTitle>
+          <DialogDescription>{t('flashcards.manualNote')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* The type of an existing card stays fixed */}
+          {!card && (
+            <div className="flex gap-2">
+              {(['basic', 'cloze'] as CardType[]).map((type) => (
+                <Button
+                  key={type}
+                  type="button"
+                  size="sm"
+                  variant={draft.card_type === type ? 'default' : 'outline'}
+                  onClick={() => setDraft({ ...draft, card_type: type })}
+                >
+                  {t(`flashcards.type.${type}`)}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="flashcard-question">
+              {isCloze ? t('flashcards.clozeText') : t('flashcards.question')}
+            </Label>
+            <Textarea
+              id="flashcard-question"
+              value={draft.question}
+              onChange={(e) => setDraft({ ...draft, question: e.target.value })}
+              placeholder={isCloze ? 'Die Händedesinfektion dauert {{c1::30 Sekunden}}.' : undefined}
+              className="min-h-[80px]"
+            />
+            {isCloze && (
+              <p className="text-xs text-muted-foreground">{t('flashcards.clozeHint', { syntax: '{{c1::...}}' })}</p>
+            )}
+          </div>
+
+          {isCloze ? (
+            hasCloze(draft.question) && (
+              <div className="rounded-lg bg-muted p-3">
+                <ClozeText text={draft.question} className="text-sm" />
+              </div>
+            )
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="flashcard-answer">{t('flashcards.answer')}</Label>
+              <Textarea
+                id="flashcard-answer"
+                value={draft.answer}
+                onChange={(e) => setDraft({ ...draft, answer: e.target.value })}
+                className="min-h-[80px]"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
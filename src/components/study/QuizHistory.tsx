@@ -0,0 +1,48 @@
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { QuizAttempt } from '@/lib/quizAttempts';
+import { DATE_LOCALES, SupportedLanguage } from '@/lib/languages';
+
+interface QuizHistoryProps {
+  attempts: QuizAttempt[];
+}
+
+export function QuizHistory({ attempts }: QuizHistoryProps) {
+  const { t, i18n } = useTranslation();
+  const locale = DATE_LOCALES[i18n.language as SupportedLanguage] || DATE_LOCALES.ru;
+
+  if (attempts.length === 0) return null;
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <History className="h-4 w-4" />
+        {t('quiz.history')}
+      </p>
+      <ul className="space-y-1">
+        {attempts.map((attempt) => {
+          const percent = Math.round((attempt.correct_count / attempt.total_count) * 100);
+          return (
+            <li key={attempt.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">
+                {format(new Date(attempt.completed_at), 'PPp', { locale })}
+              </span>
+              <span className="flex items-center gap-2">
+                {attempt.mode === 'retry' && (
+                  <Badge variant="outline" className="text-xs">
+                    {t('quiz.retryBadge')}
+                  </Badge>
+                )}
+                <span className={percent >= 80 ? 'text-green-600 dark:text-green-400' : undefined}>
+                  {attempt.correct_count}/{attempt.total_count} ({percent}%)
+                </span>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
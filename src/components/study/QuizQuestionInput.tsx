@@ -0,0 +1,148 @@
+import { useTranslation } from 'react-i18next';
+import { Check, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  QuizAnswer,
+  QuizQuestionFields,
+  initialOrder,
+  isAnswerCorrect,
+  moveItem,
+  toggleOption,
+} from '@/lib/quizQuestions';
+import { cn } from '@/lib/utils';
+
+const CORRECT_CLASS = 'bg-green-500/20 border-green-500 text-green-700 dark:text-green-300';
+const WRONG_CLASS = 'bg-destructive/20 border-destructive text-destructive';
+const SELECTED_CLASS = 'bg-primary/10 border-primary';
+
+interface QuizQuestionInputProps {
+  question: QuizQuestionFields;
+  answer: QuizAnswer | null | undefined;
+  onChange: (answer: QuizAnswer) => void;
+  // Show the correct answer; the answer can no longer be changed
+  revealed: boolean;
+}
+
+/**
+ * Answer options of a quiz question of any type
+ */
+export function QuizQuestionInput({ question, answer, onChange, revealed }: QuizQuestionInputProps) {
+  const { t } = useTranslation();
+
+  if (question.question_type === 'ordering') {
+    const order = Array.isArray(answer) ? answer : initialOrder(question);
+    const correct = question.correct_indices ?? [];
+
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">{t('quiz.orderHint')}</p>
+        {order.map((optionIndex, position) => {
+          const inPlace = correct[position] === optionIndex;
+          return (
+            <div
+              key={optionIndex}
+              className={cn(
+                'flex items-center gap-2 rounded-md border px-3 py-2 text-sm',
+                revealed && (inPlace ? CORRECT_CLASS : WRONG_CLASS)
+              )}
+            >
+              <span className="font-medium">{position + 1}.</span>
+              <span className="flex-1">{question.options[optionIndex]}</span>
+              {revealed ? (
+                !inPlace && (
+                  <span className="text-xs">{t('quiz.correctPosition', { position: correct.indexOf(optionIndex) + 1 })}</span>
+                )
+              ) : (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onChange(moveItem(order, position, -1))}
+                    disabled={position === 0}
+                    aria-label={t('quiz.moveUp')}
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onChange(moveItem(order, position, 1))}
+                    disabled={position === order.length - 1}
+                    aria-label={t('quiz.moveDown')}
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const isMultiple = question.question_type === 'multiple';
+  const correctSet = new Set(isMultiple ? question.correct_indices ?? [] : [question.correct_index]);
+  const isSelected = (index: number) => (Array.isArray(answer) ? answer.includes(index) : answer === index);
+
+  return (
+    <div className={cn(question.question_type === 'true_false' ? 'grid grid-cols-2 gap-2' : 'space-y-2')}>
+      {isMultiple && <p className="text-xs text-muted-foreground">{t('quiz.multipleHint')}</p>}
+      {question.options.map((option, index) => {
+        const selected = isSelected(index);
+        const correct = correctSet.has(index);
+
+        return (
+          <Button
+            key={index}
+            variant="outline"
+            className={cn(
+              'h-auto w-full justify-start px-3 py-2 text-left',
+              revealed ? (correct ? CORRECT_CLASS : selected && WRONG_CLASS) : selected && SELECTED_CLASS
+            )}
+            onClick={() => onChange(isMultiple ? toggleOption(answer, index) : index)}
+            disabled={revealed}
+          >
+            {isMultiple ? (
+              <span
+                className={cn(
+                  'mr-2 flex h-4 w-4 shrink-0 items-center justify-center rounded-sm border border-current',
+                  selected && 'bg-primary text-primary-foreground'
+                )}
+              >
+                {selected && <Check className="h-3 w-3" />}
+              </span>
+            ) : (
+              question.question_type === 'single' && (
+                <span className="mr-2 font-medium">{String.fromCharCode(65 + index)}.</span>
+              )
+            )}
+            <span className="flex-1 whitespace-normal">{option}</span>
+            {revealed && isMultiple && selected !== correct && (
+              correct ? <Check className="ml-2 h-4 w-4" /> : <X className="ml-2 h-4 w-4" />
+            )}
+          </Button>
+        );
+      })}
+      {revealed && isMultiple && !isAnswerCorrect(question, answer) && (
+        <p className="text-xs text-muted-foreground">{t('quiz.multipleAllNeeded')}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Clinical case shown above the questions that belong to it
+ */
+export function CaseVignette({ text }: { text: string }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-1 rounded-lg border-l-4 border-primary bg-muted p-3 text-sm">
+      <p className="text-xs font-medium uppercase text-muted-foreground">{t('quiz.case')}</p>
+      <p className="whitespace-pre-line">{text}</p>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { CalendarClock, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { TOPIC_LABELS } from '@/lib/constants';
+import { SupportedLanguage, LANGUAGE_CODES } from '@/lib/languages';
+import { StudyPlan } from '@/lib/planner';
+import { cn } from '@/lib/utils';
+
+const VISIBLE_DAYS = 7;
+
+interface StudyPlanCardProps {
+  plan: StudyPlan | null;
+  loading: boolean;
+  language: SupportedLanguage;
+}
+
+export function StudyPlanCard({ plan, loading, language }: StudyPlanCardProps) {
+  const { t, i18n } = useTranslation();
+  const lang = i18n.language as SupportedLanguage;
+
+  const today = plan?.days[0];
+  const upcoming = plan?.days.slice(0, VISIBLE_DAYS) ?? [];
+  const maxTotal = Math.max(1, ...upcoming.map((day) => day.total));
+
+  return (
+    <Card className="bg-primary/5 border-primary/20">
+      <CardContent className="space-y-4 p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+              <RotateCcw className="h-6 w-6 text-primary" />
+            </div>
+            <div>
+              <div className="flex items-center gap-2">
+                <p className="text-sm text-muted-foreground">{t('home.reviewToday')}</p>
+                <Badge variant="outline" className="text-xs uppercase">
+                  {LANGUAGE_CODES[language]}
+                </Badge>
+              </div>
+              <p className="text-2xl font-bold">
+                {loading || !today ? '...' : today.total}{' '}
+                <span className="text-sm font-normal text-muted-foreground">{t('home.cards')}</span>
+              </p>
+              {today && today.newCards > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {t('plan.reviewsAndNew', { reviews: today.reviews, newCards: today.newCards })}
+                </p>
+              )}
+            </div>
+          </div>
+          {today && today.total > 0 && (
+            <Button asChild size="sm">
+              <Link to={`/review?lang=${language}`}>{t('home.startReview')}</Link>
+            </Button>
+          )}
+        </div>
+
+        {/* Exam countdown */}
+        {plan?.examDate ? (
+          <div className="flex items-center gap-2 text-sm">
+            <CalendarClock className="h-4 w-4 text-primary" />
+            <span>{t('plan.daysUntilExam', { days: plan.daysLeft })}</span>
+          </div>
+        ) : (
+          !loading && (
+            <Link to="/profile" className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+              <CalendarClock className="h-4 w-4" />
+              {t('plan.setExamDate')}
+            </Link>
+          )
+        )}
+
+        {/* Upcoming days */}
+        {!loading && upcoming.length > 0 && (
+          <div className="space-y-1.5">
+            {upcoming.map((day, index) => (
+              <div key={day.date} className="flex items-center gap-2 text-xs">
+                <span className={cn('w-12 shrink-0 text-muted-foreground', index === 0 && 'font-semibold text-foreground')}>
+                  {index === 0 ? t('plan.today') : format(parseISO(day.date), 'dd.MM')}
+                </span>
+                <div className="h-2 flex-1 overflow-hidden rounded-full bg-primary/10">
+                  <div
+                    className="h-full rounded-full bg-primary"
+                    style={{ width: `${(day.total / maxTotal) * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 shrink-0 text-right font-medium">{day.total}</span>
+                {day.quizTopic && (
+                  <Badge variant="secondary" className="shrink-0 text-[10px]">
+                    {t('plan.quiz')}: {TOPIC_LABELS[day.quizTopic][lang] ?? day.quizTopic}
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface AiQuota {
+  daily_limit: number;
+  daily_used: number;
+  monthly_limit: number;
+  monthly_used: number;
+}
+
+/**
+ * Current AI request limits and usage for the signed-in user
+ * (enforced server-side by the edge functions).
+ */
+export function useAiQuota() {
+  const { user } = useAuth();
+  const [quota, setQuota] = useState<AiQuota | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchQuota = useCallback(async () => {
+    if (!user) {
+      setQuota(null);
+      setIsLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_ai_quota');
+
+    if (error) {
+      console.error('Failed to fetch AI quota:', error);
+    } else {
+      setQuota(data?.[0] ?? null);
+    }
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchQuota();
+  }, [fetchQuota]);
+
+  return {
+    quota,
+    isLoading,
+    dailyRemaining: quota ? Math.max(0, quota.daily_limit - quota.daily_used) : null,
+    monthlyRemaining: quota ? Math.max(0, quota.monthly_limit - quota.monthly_used) : null,
+    refetch: fetchQuota,
+  };
+}
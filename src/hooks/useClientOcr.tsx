@@ -1,6 +1,8 @@
 import { useState, useRef, useCallback } from 'react';
 import { createWorker, Worker, OEM, PSM } from 'tesseract.js';
 import { SupportedLanguage, detectSourceLanguage } from '@/lib/translations';
+import { getTesseractLangs } from '@/lib/languages';
+import { preprocessImage, toRgba } from '@/lib/imagePreprocess';
 
 export interface OcrProgress {
   current: number;
@@ -15,47 +17,68 @@ export interface ClientOcrResult {
   warnings: string[];
 }
 
+// A photo next to the cleaned-up image that was recognized (null when
+// preprocessing failed and the photo was recognized as it is)
+export interface OcrPagePreview {
+  original: string;
+  processed: string | null;
+}
+
 interface UseClientOcrOptions {
   timeoutPerImage?: number;
   improvedQuality?: boolean;
+  preferredLanguage?: SupportedLanguage; // picks the OCR packs (see getTesseractLangs)
 }
 
 const DEFAULT_TIMEOUT = 12000; // 12 seconds per image
 const IMPROVED_TIMEOUT = 25000; // 25 seconds for improved quality
+const DEFAULT_MAX_SIDE = 2000; // longer side of the image Tesseract reads, in px
+const IMPROVED_MAX_SIDE = 3000;
 
-/**
- * Detect language hint for Tesseract based on simple character analysis
- * Returns tesseract language codes
- */
-function detectLanguageHint(imageData?: string): string {
-  // Default to English if no data
-  if (!imageData) return 'eng';
-  
-  // We can't really detect from image data before OCR
-  // So default to 'eng+deu+rus' multi-language
-  return 'eng+deu+rus';
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load image'));
+    img.src = src;
+  });
 }
 
 /**
- * Map detected text language to Tesseract language for potential re-run
+ * Clean up a photo for recognition (see lib/imagePreprocess.ts) and return
+ * the result as a PNG data URL
  */
-function getTesseractLangCode(lang: SupportedLanguage): string {
-  switch (lang) {
-    case 'ru': return 'rus';
-    case 'de': return 'deu';
-    case 'en': return 'eng';
-    default: return 'eng';
-  }
+async function preprocessForOcr(src: string, maxSide: number): Promise<string> {
+  const img = await loadImage(src);
+  // Let the canvas do the first part of shrinking large photos; the
+  // pipeline averages the rest down to maxSide
+  const scale = Math.min(1, (maxSide * 2) / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas not available');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const { image, corners, skew } = preprocessImage(ctx.getImageData(0, 0, canvas.width, canvas.height), { maxSide });
+  console.log(`[OCR] Preprocessed ${image.width}x${image.height}, page ${corners ? 'found' : 'not found'}, skew ${skew}°`);
+
+  const rgba = toRgba(image);
+  canvas.width = image.width;
+  canvas.height = image.height;
+  ctx.putImageData(new ImageData(rgba.data, image.width, image.height), 0, 0);
+  return canvas.toDataURL('image/png');
 }
 
 export function useClientOcr(options: UseClientOcrOptions = {}) {
-  const { timeoutPerImage = DEFAULT_TIMEOUT, improvedQuality = false } = options;
+  const { timeoutPerImage = DEFAULT_TIMEOUT, improvedQuality = false, preferredLanguage } = options;
   
   const [progress, setProgress] = useState<OcrProgress>({
     current: 0,
     total: 0,
     status: 'idle',
   });
+  const [previews, setPreviews] = useState<OcrPagePreview[]>([]);
   
   const cancelledRef = useRef(false);
   const workerRef = useRef<Worker | null>(null);
@@ -88,15 +111,19 @@ export function useClientOcr(options: UseClientOcrOptions = {}) {
     cancelledRef.current = false;
     const warnings: string[] = [];
     const textParts: string[] = [];
+    const pagePreviews: OcrPagePreview[] = [];
     const timeout = improvedQuality ? IMPROVED_TIMEOUT : timeoutPerImage;
+    const maxSide = improvedQuality ? IMPROVED_MAX_SIDE : DEFAULT_MAX_SIDE;
+    setPreviews([]);
 
     setProgress({ current: 0, total: images.length, status: 'loading', message: 'Loading OCR engine...' });
     onProgress?.({ current: 0, total: images.length, status: 'loading', message: 'Loading OCR engine...' });
 
     try {
-      // Create worker with multi-language support
-      console.log('[OCR] Creating Tesseract worker...');
-      const worker = await createWorker('eng+deu+rus', OEM.LSTM_ONLY, {
+      // Create worker with a pack for every supported language
+      const langs = getTesseractLangs(preferredLanguage);
+      console.log(`[OCR] Creating Tesseract worker (${langs})...`);
+      const worker = await createWorker(langs, OEM.LSTM_ONLY, {
         logger: (m) => {
           if (m.status === 'recognizing text') {
             const pct = Math.round((m.progress || 0) * 100);
@@ -135,6 +162,17 @@ export function useClientOcr(options: UseClientOcrOptions = {}) {
           message: `OCR ${imageNum}/${images.length}`,
         });
 
+        let input = images[i];
+        try {
+          input = await preprocessForOcr(images[i], maxSide);
+          pagePreviews.push({ original: images[i], processed: input });
+        } catch (err) {
+          console.warn(`[OCR] Preprocessing image ${imageNum} failed:`, err);
+          warnings.push(`Page ${imageNum}: Could not clean up the photo, recognized it as it is`);
+          pagePreviews.push({ original: images[i], processed: null });
+        }
+        setPreviews([...pagePreviews]);
+
         try {
           // Create timeout promise
           const timeoutPromise = new Promise<null>((_, reject) => {
@@ -142,7 +180,7 @@ export function useClientOcr(options: UseClientOcrOptions = {}) {
           });
 
           // OCR promise
-          const ocrPromise = worker.recognize(images[i]);
+          const ocrPromise = worker.recognize(input);
 
           // Race between OCR and timeout
           const result = await Promise.race([ocrPromise, timeoutPromise]);
@@ -239,11 +277,12 @@ export function useClientOcr(options: UseClientOcrOptions = {}) {
       
       return null;
     }
-  }, [timeoutPerImage, improvedQuality, cleanup]);
+  }, [timeoutPerImage, improvedQuality, preferredLanguage, cleanup]);
 
   return {
     processImages,
     progress,
+    previews,
     cancel,
     isProcessing: progress.status === 'loading' || progress.status === 'processing',
   };
@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlossaryTerm, fetchGlossary } from '@/lib/glossary';
+
+/**
+ * The signed-in user's glossary terms
+ */
+export function useGlossary() {
+  const { user } = useAuth();
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadTerms = useCallback(async () => {
+    if (!user) {
+      setTerms([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setTerms(await fetchGlossary());
+    } catch (err) {
+      console.error('Failed to fetch glossary:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadTerms();
+  }, [loadTerms]);
+
+  return { terms, isLoading, refetch: loadTerms };
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { processOcr, edgeFailToHuman } from '@/lib/ai';
 
 interface OcrResult {
   text: string;
@@ -36,24 +36,17 @@ export function useOcr() {
     try {
       console.log('Starting OCR processing via Gemini Vision...');
       
-      const { data, error: fnError } = await supabase.functions.invoke('process-ocr', {
-        body: { imageBase64 },
-      });
+      const res = await processOcr({ imageBase64 });
 
-      if (fnError) {
-        console.error('OCR function error:', fnError);
-        throw new Error(fnError.message || 'OCR processing failed');
-      }
-
-      if (data?.error) {
-        console.error('OCR response error:', data.error);
-        throw new Error(data.error);
+      if (res.success === false) {
+        console.error('OCR function error:', res.code, res.message);
+        throw new Error(edgeFailToHuman(res));
       }
 
       console.log('OCR completed successfully');
       return {
-        text: data?.text || '',
-        confidence: data?.confidence || 'medium',
+        text: res.data.text || '',
+        confidence: res.data.confidence || 'medium',
       };
     } catch (err) {
       console.error('OCR error, falling back to mock:', err);
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { SupportedLanguage } from '@/lib/translations';
+import { SupportedLanguage, toSupportedLanguage } from '@/lib/languages';
 import i18n from '@/i18n';
 
 export interface UserProfile {
@@ -41,8 +41,8 @@ export function useProfile() {
       if (data) {
         const userProfile: UserProfile = {
           id: data.id,
-          preferred_study_language: (data.preferred_study_language as SupportedLanguage) || 'ru',
-          ui_language: (data.ui_language as SupportedLanguage) || 'ru',
+          preferred_study_language: toSupportedLanguage(data.preferred_study_language),
+          ui_language: toSupportedLanguage(data.ui_language),
           exam_date: data.exam_date,
           created_at: data.created_at,
         };
@@ -116,12 +116,35 @@ export function useProfile() {
     }
   }, [user]);
 
+  const updateExamDate = useCallback(async (examDate: string | null): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({ exam_date: examDate })
+        .eq('id', user.id);
+
+      if (updateError) {
+        console.error('Failed to update exam date:', updateError);
+        return false;
+      }
+
+      setProfile(prev => prev ? { ...prev, exam_date: examDate } : null);
+      return true;
+    } catch (err) {
+      console.error('Update exam date error:', err);
+      return false;
+    }
+  }, [user]);
+
   return {
     profile,
     isLoading,
     error,
     updateStudyLanguage,
     updateUiLanguage,
+    updateExamDate,
     refetch: fetchProfile,
   };
 }
@@ -5,6 +5,8 @@ import LanguageDetector from 'i18next-browser-languagedetector';
 import ru from './locales/ru.json';
 import de from './locales/de.json';
 import en from './locales/en.json';
+import tr from './locales/tr.json';
+import srLatn from './locales/sr-Latn.json';
 
 i18n
   .use(LanguageDetector)
@@ -14,6 +16,8 @@ i18n
       ru: { translation: ru },
       de: { translation: de },
       en: { translation: en },
+      tr: { translation: tr },
+      'sr-Latn': { translation: srLatn },
     },
     fallbackLng: 'ru',
     interpolation: {
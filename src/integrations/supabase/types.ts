@@ -14,39 +14,202 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_quotas: {
+        Row: {
+          daily_limit: number
+          monthly_limit: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          daily_limit: number
+          monthly_limit: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          daily_limit?: number
+          monthly_limit?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ai_usage: {
+        Row: {
+          completion_tokens: number | null
+          created_at: string
+          function_name: string
+          id: string
+          input_chars: number
+          material_id: string | null
+          model: string
+          output_chars: number
+          prompt_tokens: number | null
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number | null
+          created_at?: string
+          function_name: string
+          id?: string
+          input_chars?: number
+          material_id?: string | null
+          model: string
+          output_chars?: number
+          prompt_tokens?: number | null
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number | null
+          created_at?: string
+          function_name?: string
+          id?: string
+          input_chars?: number
+          material_id?: string | null
+          model?: string
+          output_chars?: number
+          prompt_tokens?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "materials"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flashcard_feedback: {
+        Row: {
+          answer: string
+          comment: string | null
+          created_at: string
+          flashcard_id: string | null
+          id: string
+          question: string
+          user_id: string
+        }
+        Insert: {
+          answer: string
+          comment?: string | null
+          created_at?: string
+          flashcard_id?: string | null
+          id?: string
+          question: string
+          user_id: string
+        }
+        Update: {
+          answer?: string
+          comment?: string | null
+          created_at?: string
+          flashcard_id?: string | null
+          id?: string
+          question?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcard_feedback_flashcard_id_fkey"
+            columns: ["flashcard_id"]
+            isOneToOne: false
+            referencedRelation: "flashcards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       flashcards: {
         Row: {
           answer: string
+          answer_language: string | null
+          archived_at: string | null
+          card_type: string
           confidence: string | null
           created_at: string | null
           due_date: string | null
+          ease_factor: number
           id: string
+          interval_days: number
+          is_manual: boolean
           language: string | null
+          lapses: number
+          last_reviewed_at: string | null
           material_id: string
           question: string
+          reverse_due_date: string
+          reverse_ease_factor: number
+          reverse_interval_days: number
+          reverse_lapses: number
+          reverse_last_reviewed_at: string | null
+          reverse_stage: number
+          source_end: number | null
+          source_hash: string | null
+          source_quote: string | null
+          source_start: number | null
           stage: number | null
+          suspended_at: string | null
         }
         Insert: {
           answer: string
+          answer_language?: string | null
+          archived_at?: string | null
+          card_type?: string
           confidence?: string | null
           created_at?: string | null
           due_date?: string | null
+          ease_factor?: number
           id?: string
+          interval_days?: number
+          is_manual?: boolean
           language?: string | null
+          lapses?: number
+          last_reviewed_at?: string | null
           material_id: string
           question: string
+          reverse_due_date?: string
+          reverse_ease_factor?: number
+          reverse_interval_days?: number
+          reverse_lapses?: number
+          reverse_last_reviewed_at?: string | null
+          reverse_stage?: number
+          source_end?: number | null
+          source_hash?: string | null
+          source_quote?: string | null
+          source_start?: number | null
           stage?: number | null
+          suspended_at?: string | null
         }
         Update: {
           answer?: string
+          answer_language?: string | null
+          archived_at?: string | null
+          card_type?: string
           confidence?: string | null
           created_at?: string | null
           due_date?: string | null
+          ease_factor?: number
           id?: string
+          interval_days?: number
+          is_manual?: boolean
           language?: string | null
+          lapses?: number
+          last_reviewed_at?: string | null
           material_id?: string
           question?: string
+          reverse_due_date?: string
+          reverse_ease_factor?: number
+          reverse_interval_days?: number
+          reverse_lapses?: number
+          reverse_last_reviewed_at?: string | null
+          reverse_stage?: number
+          source_end?: number | null
+          source_hash?: string | null
+          source_quote?: string | null
+          source_start?: number | null
           stage?: number | null
+          suspended_at?: string | null
         }
         Relationships: [
           {
@@ -58,6 +221,83 @@ export type Database = {
           },
         ]
       }
+      glossary_terms: {
+        Row: {
+          created_at: string
+          definition: string | null
+          id: string
+          term: string
+          topic: string | null
+          updated_at: string
+          user_id: string
+          variants: Json
+        }
+        Insert: {
+          created_at?: string
+          definition?: string | null
+          id?: string
+          term: string
+          topic?: string | null
+          updated_at?: string
+          user_id: string
+          variants?: Json
+        }
+        Update: {
+          created_at?: string
+          definition?: string | null
+          id?: string
+          term?: string
+          topic?: string | null
+          updated_at?: string
+          user_id?: string
+          variants?: Json
+        }
+        Relationships: []
+      }
+      material_versions: {
+        Row: {
+          created_at: string
+          id: string
+          is_manual: boolean
+          language: string
+          material_id: string
+          source_hash: string | null
+          text: string
+          title: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_manual?: boolean
+          language: string
+          material_id: string
+          source_hash?: string | null
+          text?: string
+          title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_manual?: boolean
+          language?: string
+          material_id?: string
+          source_hash?: string | null
+          text?: string
+          title?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "material_versions_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "materials"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       materials: {
         Row: {
           created_at: string | null
@@ -66,6 +306,7 @@ export type Database = {
           notes: string | null
           ocr_text: string | null
           photos: Json | null
+          source_language: string | null
           tags: string[] | null
           title: string | null
           topic: string
@@ -79,6 +320,7 @@ export type Database = {
           notes?: string | null
           ocr_text?: string | null
           photos?: Json | null
+          source_language?: string | null
           tags?: string[] | null
           title?: string | null
           topic: string
@@ -92,6 +334,7 @@ export type Database = {
           notes?: string | null
           ocr_text?: string | null
           photos?: Json | null
+          source_language?: string | null
           tags?: string[] | null
           title?: string | null
           topic?: string
@@ -124,10 +367,105 @@ export type Database = {
         }
         Relationships: []
       }
+      quiz_attempt_answers: {
+        Row: {
+          answered_at: string
+          attempt_id: string
+          id: string
+          is_correct: boolean
+          question_id: string
+          selected_index: number | null
+          selected_indices: Json | null
+          user_id: string
+        }
+        Insert: {
+          answered_at?: string
+          attempt_id: string
+          id?: string
+          is_correct: boolean
+          question_id: string
+          selected_index?: number | null
+          selected_indices?: Json | null
+          user_id: string
+        }
+        Update: {
+          answered_at?: string
+          attempt_id?: string
+          id?: string
+          is_correct?: boolean
+          question_id?: string
+          selected_index?: number | null
+          selected_indices?: Json | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempt_answers_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempt_answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_attempts: {
+        Row: {
+          completed_at: string
+          correct_count: number
+          duration_seconds: number | null
+          id: string
+          language: string
+          material_id: string | null
+          mode: string
+          total_count: number
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string
+          correct_count: number
+          duration_seconds?: number | null
+          id?: string
+          language: string
+          material_id?: string | null
+          mode?: string
+          total_count: number
+          user_id: string
+        }
+        Update: {
+          completed_at?: string
+          correct_count?: number
+          duration_seconds?: number | null
+          id?: string
+          language?: string
+          material_id?: string | null
+          mode?: string
+          total_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "materials"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quiz_questions: {
         Row: {
+          archived_at: string | null
+          case_text: string | null
           confidence: string | null
-          correct_index: number
+          correct_index: number | null
+          correct_indices: Json | null
           created_at: string | null
           explanation: string | null
           id: string
@@ -135,10 +473,18 @@ export type Database = {
           material_id: string
           options: Json
           question: string
+          question_type: string
+          source_end: number | null
+          source_hash: string | null
+          source_quote: string | null
+          source_start: number | null
         }
         Insert: {
+          archived_at?: string | null
+          case_text?: string | null
           confidence?: string | null
-          correct_index: number
+          correct_index?: number | null
+          correct_indices?: Json | null
           created_at?: string | null
           explanation?: string | null
           id?: string
@@ -146,10 +492,18 @@ export type Database = {
           material_id: string
           options?: Json
           question: string
+          question_type?: string
+          source_end?: number | null
+          source_hash?: string | null
+          source_quote?: string | null
+          source_start?: number | null
         }
         Update: {
+          archived_at?: string | null
+          case_text?: string | null
           confidence?: string | null
-          correct_index?: number
+          correct_index?: number | null
+          correct_indices?: Json | null
           created_at?: string | null
           explanation?: string | null
           id?: string
@@ -157,6 +511,11 @@ export type Database = {
           material_id?: string
           options?: Json
           question?: string
+          question_type?: string
+          source_end?: number | null
+          source_hash?: string | null
+          source_quote?: string | null
+          source_start?: number | null
         }
         Relationships: [
           {
@@ -168,6 +527,97 @@ export type Database = {
           },
         ]
       }
+      review_logs: {
+        Row: {
+          flashcard_id: string
+          grade: string
+          id: string
+          new_interval: number
+          previous_interval: number
+          reversed: boolean
+          reviewed_at: string
+          time_to_answer_ms: number | null
+          user_id: string
+        }
+        Insert: {
+          flashcard_id: string
+          grade: string
+          id?: string
+          new_interval: number
+          previous_interval?: number
+          reversed?: boolean
+          reviewed_at?: string
+          time_to_answer_ms?: number | null
+          user_id: string
+        }
+        Update: {
+          flashcard_id?: string
+          grade?: string
+          id?: string
+          new_interval?: number
+          previous_interval?: number
+          reversed?: boolean
+          reviewed_at?: string
+          time_to_answer_ms?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_logs_flashcard_id_fkey"
+            columns: ["flashcard_id"]
+            isOneToOne: false
+            referencedRelation: "flashcards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_documents: {
+        Row: {
+          content: string
+          heading: string
+          id: string
+          language: string | null
+          material_id: string
+          source_id: string | null
+          source_kind: string
+          ts_config: unknown
+          tsv: unknown | null
+          user_id: string
+        }
+        Insert: {
+          content?: string
+          heading?: string
+          id?: string
+          language?: string | null
+          material_id: string
+          source_id?: string | null
+          source_kind: string
+          ts_config?: unknown
+          tsv?: never
+          user_id: string
+        }
+        Update: {
+          content?: string
+          heading?: string
+          id?: string
+          language?: string | null
+          material_id?: string
+          source_id?: string | null
+          source_kind?: string
+          ts_config?: unknown
+          tsv?: never
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "search_documents_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "materials"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       summaries: {
         Row: {
           generated_at: string | null
@@ -177,6 +627,8 @@ export type Database = {
           material_id: string
           medium_summary: string | null
           short_summary: string | null
+          source_hash: string | null
+          sources: Json
           warnings: string[] | null
         }
         Insert: {
@@ -187,6 +639,8 @@ export type Database = {
           material_id: string
           medium_summary?: string | null
           short_summary?: string | null
+          source_hash?: string | null
+          sources?: Json
           warnings?: string[] | null
         }
         Update: {
@@ -197,6 +651,8 @@ export type Database = {
           material_id?: string
           medium_summary?: string | null
           short_summary?: string | null
+          source_hash?: string | null
+          sources?: Json
           warnings?: string[] | null
         }
         Relationships: [
@@ -214,7 +670,42 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_ai_quota: {
+        Args: { p_user_id?: string }
+        Returns: {
+          daily_limit: number
+          daily_used: number
+          monthly_limit: number
+          monthly_used: number
+        }[]
+      }
+      search_materials: {
+        Args: {
+          p_limit?: number
+          p_offset?: number
+          p_query: string
+          p_topic?: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          images: string[]
+          matched_language: string
+          matched_source: string
+          notes: string
+          ocr_text: string
+          photos: Json
+          rank: number
+          snippet: string
+          source_language: string
+          tags: string[]
+          title: string
+          topic: string
+          total_count: number
+          updated_at: string
+          user_id: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,4 +1,8 @@
-import { supabase } from "@/lib/supabase";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import i18n from "@/i18n";
+import type { SupportedLanguage } from "@/lib/languages";
+import type { CardType } from "@/lib/cloze";
 
 /**
  * Успешный ответ от edge function
@@ -22,6 +26,12 @@ export type EdgeFail = {
     | "UNAUTHORIZED"
     | "FORBIDDEN"
     | "BAD_REQUEST"
+    | "CONFIG_ERROR"
+    | "AI_GATEWAY_ERROR"
+    | "AI_TIMEOUT"
+    | "INVALID_AI_RESPONSE"
+    | "DB_ERROR"
+    | "INTERNAL_ERROR"
     | "NETWORK_ERROR"
     | "EDGE_NON_2XX"
     | "EDGE_ERROR"
@@ -40,34 +50,63 @@ type InvokeOptions = {
   // если хочешь — можно будет добавить headers позже
 };
 
-function asString(x: unknown): string {
-  if (typeof x === "string") return x;
-  try {
-    return JSON.stringify(x);
-  } catch {
-    return String(x);
-  }
+/**
+ * То, что supabase-js (или fetch) может положить в error
+ */
+type ErrorLike = {
+  message?: unknown;
+  error_description?: unknown;
+  status?: number;
+  context?: unknown;
+  response?: { status?: number };
+};
+
+function asErrorLike(x: unknown): ErrorLike {
+  return x && typeof x === "object" ? (x as ErrorLike) : {};
+}
+
+/**
+ * Проверяем, что payload уже в формате { success, code, message, data }
+ */
+function isEnvelope(x: unknown): x is EdgeResult<unknown> {
+  return !!x && typeof x === "object" && "success" in x && "code" in x;
 }
 
 /**
  * Пытаемся вытащить статус из supabase.functions.invoke error.
  * (Supabase иногда прячет статус внутри error/context)
  */
-function extractStatus(err: any): number | undefined {
-  return (
-    err?.status ??
-    err?.context?.status ??
-    err?.context?.response?.status ??
-    err?.response?.status ??
-    undefined
-  );
+function extractStatus(err: unknown): number | undefined {
+  const e = asErrorLike(err);
+  const context = asErrorLike(e.context);
+  return e.status ?? context.status ?? context.response?.status ?? e.response?.status ?? undefined;
+}
+
+/**
+ * При non-2xx supabase-js кладёт исходный Response в error.context.
+ * Наши функции всегда отвечают конвертом — достаём его оттуда.
+ */
+async function readFailEnvelope(err: unknown): Promise<EdgeFail | null> {
+  const context = asErrorLike(err).context;
+  if (typeof Response === "undefined" || !(context instanceof Response)) return null;
+
+  try {
+    const body: unknown = await context.clone().json();
+    if (isEnvelope(body) && body.success === false) {
+      return { ...body, status: context.status };
+    }
+  } catch {
+    // тело не JSON — нормализуем по статусу ниже
+  }
+  return null;
 }
 
 /**
  * Маппим частые статусы/сообщения в удобные коды.
  */
-function normalizeErrorCode(err: any, status?: number): EdgeFail["code"] {
-  const msg = (err?.message ?? err?.error_description ?? "").toString().toLowerCase();
+function normalizeErrorCode(err: unknown, status?: number): EdgeFail["code"] {
+  const e = asErrorLike(err);
+  const msg = String(e.message ?? e.error_description ?? "").toLowerCase();
 
   if (status === 402 || msg.includes("insufficient") || msg.includes("credit")) return "CREDITS_EXHAUSTED";
   if (status === 429 || msg.includes("rate") || msg.includes("too many")) return "RATE_LIMITED";
@@ -90,22 +129,25 @@ export async function invokeEdge<T>(opts: InvokeOptions): Promise<EdgeResult<T>>
       body: opts.body ?? {},
     });
 
-    // 1) Если Supabase вернул ошибку — нормализуем и возвращаем EdgeFail
+    // 1) Если Supabase вернул ошибку — сначала ищем наш конверт в теле ответа,
+    // иначе нормализуем и возвращаем EdgeFail
     if (error) {
+      const envelope = await readFailEnvelope(error);
+      if (envelope) return envelope;
+
       const status = extractStatus(error);
       const code = normalizeErrorCode(error, status);
       return {
         success: false,
         code,
-        message: error.message ?? "Edge function error",
+        message: String(asErrorLike(error).message ?? "Edge function error"),
         status,
         details: error,
       };
     }
 
-    // 2) Если data уже в нашем формате success:false/true — просто возвращаем
-    // (идеальный мир: edge всегда отдаёт 200 и structured payload)
-    if (data && typeof data === "object" && "success" in (data as any)) {
+    // 2) Edge отдал конверт success:true/false — просто возвращаем
+    if (isEnvelope(data)) {
       return data as EdgeResult<T>;
     }
 
@@ -116,14 +158,15 @@ export async function invokeEdge<T>(opts: InvokeOptions): Promise<EdgeResult<T>>
       message: null,
       data: data as T,
     };
-  } catch (e: any) {
+  } catch (e: unknown) {
     // 4) Любые неожиданные исключения (например, сеть) — тоже в EdgeFail
     const status = extractStatus(e);
     const code = normalizeErrorCode(e, status);
+    const message = asErrorLike(e).message;
     return {
       success: false,
       code,
-      message: e?.message ? String(e.message) : "Unknown error",
+      message: message ? String(message) : "Unknown error",
       status,
       details: e,
     };
@@ -131,76 +174,159 @@ export async function invokeEdge<T>(opts: InvokeOptions): Promise<EdgeResult<T>>
 }
 
 /**
- * Удобный helper: превращает EdgeFail в читаемую строку для UI.
+ * Удобный helper: превращает EdgeFail в читаемую строку для UI
+ * (на языке интерфейса, ключи errors.*).
  */
 export function edgeFailToHuman(err: EdgeFail): string {
-  switch (err.code) {
-    case "CREDITS_EXHAUSTED":
-      return "AI временно недоступен: закончились кредиты.";
-    case "RATE_LIMITED":
-      return "AI временно перегружен. Попробуй позже.";
-    case "UNAUTHORIZED":
-      return "Нет доступа (401). Проверь ключи/авторизацию.";
-    case "FORBIDDEN":
-      return "Доступ запрещён (403). Проверь политики/права.";
-    case "NETWORK_ERROR":
-      return "Проблема с сетью. Проверь интернет и попробуй снова.";
-    default:
-      return err.message || "Произошла ошибка.";
-  }
+  const key = `errors.${err.code}`;
+  if (i18n.exists(key)) return i18n.t(key);
+  return err.message || i18n.t("errors.UNKNOWN_ERROR");
 }
 
 /* ----------------------------
-   Дальше — конкретные вызовы.
-   Подстрой имена функций под твой проект.
+   Типизированные обёртки над edge functions.
+   Все клиентские вызовы идут только через них.
 ----------------------------- */
 
-export type TranslateResponse = {
-  translated_text: string;
-  language: string;
+export type Confidence = "high" | "medium" | "low";
+
+export type MergeStats = {
+  kept: number;
+  added: number;
+  archived: number;
 };
 
-export async function translateText(params: {
-  text: string;
-  from: string; // "RU" | "DE" | "EN" etc
-  to: string;
-  material_id?: string;
-}): Promise<EdgeResult<TranslateResponse>> {
-  return invokeEdge<TranslateResponse>({
-    functionName: "translate-text",
+/**
+ * merge — обновить существующие элементы с сохранением прогресса,
+ * replace — создать заново: старые вопросы теста архивируются (ответы попыток остаются),
+ * из карточек удаляются только созданные не вручную
+ */
+export type GenerateMode = "merge" | "replace";
+
+export type GenerateSummaryData = {
+  summary: Tables<"summaries">;
+  confidence: Confidence;
+};
+
+export async function generateSummary(params: {
+  materialId: string;
+  language: string;
+}): Promise<EdgeResult<GenerateSummaryData>> {
+  return invokeEdge<GenerateSummaryData>({
+    functionName: "generate-summary",
     body: {
-      text: params.text,
-      from: params.from,
-      to: params.to,
-      material_id: params.material_id ?? null,
+      material_id: params.materialId,
+      language: params.language,
     },
   });
 }
 
-export type QuizQuestion = {
-  question: string;
-  options: string[];
-  answerIndex?: number; // если у тебя есть
-  explanation?: string;
+export type GenerateFlashcardsData = {
+  flashcards: Tables<"flashcards">[];
+  warnings: string[];
+  merge: MergeStats;
 };
 
-export type QuizResponse = {
-  questions: QuizQuestion[];
+export async function generateFlashcards(params: {
+  materialId: string;
+  language: string;
+  // Answers in another language than the questions (bilingual deck)
+  answerLanguage?: string | null;
+  cardType?: CardType;
+  count?: number;
+  mode?: GenerateMode;
+}): Promise<EdgeResult<GenerateFlashcardsData>> {
+  return invokeEdge<GenerateFlashcardsData>({
+    functionName: "generate-flashcards",
+    body: {
+      material_id: params.materialId,
+      language: params.language,
+      answer_language: params.answerLanguage ?? null,
+      card_type: params.cardType ?? "basic",
+      count: params.count ?? 15,
+      mode: params.mode ?? "merge",
+    },
+  });
+}
+
+export type GenerateQuizData = {
+  questions: Tables<"quiz_questions">[];
+  warnings: string[];
+  merge: MergeStats;
 };
 
 export async function generateQuiz(params: {
-  material_id: string;
-  ocr_text: string;
-  language: string; // "de" | "en" etc
+  materialId: string;
+  language: string;
   count?: number;
-}): Promise<EdgeResult<QuizResponse>> {
-  return invokeEdge<QuizResponse>({
+  mode?: GenerateMode;
+}): Promise<EdgeResult<GenerateQuizData>> {
+  return invokeEdge<GenerateQuizData>({
     functionName: "generate-quiz",
     body: {
-      material_id: params.material_id,
-      ocr_text: params.ocr_text,
+      material_id: params.materialId,
       language: params.language,
       count: params.count ?? 8,
+      mode: params.mode ?? "merge",
+    },
+  });
+}
+
+export type ProcessOcrData = {
+  text: string;
+  confidence: Confidence;
+};
+
+export async function processOcr(params: {
+  imageBase64: string;
+}): Promise<EdgeResult<ProcessOcrData>> {
+  return invokeEdge<ProcessOcrData>({
+    functionName: "process-ocr",
+    body: { imageBase64: params.imageBase64 },
+  });
+}
+
+export type TransformTextData = {
+  detected_language: string;
+  texts: Record<SupportedLanguage, string>;
+  warnings: string[];
+};
+
+export async function transformText(params: {
+  ocrText: string;
+}): Promise<EdgeResult<TransformTextData>> {
+  return invokeEdge<TransformTextData>({
+    functionName: "transform-text",
+    body: { ocr_text: params.ocrText },
+  });
+}
+
+export type TranslateData = {
+  translatedText: string;
+  translatedTitle?: string;
+  isManual: boolean;
+  // Хэш исходного текста, из которого сделан перевод (нет у ручных версий)
+  sourceHash?: string;
+};
+
+/**
+ * Перевод сохранённого материала (результат сохраняется на сервере).
+ * Ручные версии перезаписываются только с overwriteManual (после
+ * подтверждения пользователем), иначе возвращаются как есть с isManual: true.
+ */
+export async function translateText(params: {
+  materialId: string;
+  targetLanguage: string;
+  includeTitle?: boolean;
+  overwriteManual?: boolean;
+}): Promise<EdgeResult<TranslateData>> {
+  return invokeEdge<TranslateData>({
+    functionName: "translate-text",
+    body: {
+      materialId: params.materialId,
+      targetLanguage: params.targetLanguage,
+      includeTitle: params.includeTitle ?? false,
+      overwriteManual: params.overwriteManual ?? false,
     },
   });
 }
@@ -0,0 +1,428 @@
+/**
+ * Anki packages and text files
+ *
+ * `buildApkg` writes an Anki package (.apkg): a zip with an SQLite
+ * collection (`collection.anki2`, schema 11) and an empty media list. Basic
+ * cards become notes of a "Basic" type, cloze cards notes of a "Cloze" type.
+ * All blanks of a card are numbered c1, so Anki asks them at once as review
+ * does here. Notes keep the card id as guid, so importing a newer export
+ * updates the notes instead of duplicating them.
+ *
+ * `toDelimited` writes the same cards as CSV or as TSV for Anki's text import.
+ * `readApkg` reads the notes of a shared package back for the importer.
+ */
+
+import type { Database, SqlJsStatic } from 'sql.js';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import { CardType, revealCloze } from './cloze';
+
+export interface ExportCard {
+  id: string;
+  card_type: CardType;
+  question: string;
+  answer: string;
+  tags: string[]; // material topic and tags
+  stage: number;
+  interval_days: number;
+  ease_factor: number;
+  lapses: number;
+  due_date: string | null;
+  suspended: boolean;
+}
+
+export interface ApkgOptions {
+  deckName: string;
+  // Carry review progress over; otherwise every card starts as new in Anki
+  includeScheduling: boolean;
+  now?: Date;
+}
+
+const SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n'
+  + '.cloze { font-weight: bold; color: blue; }';
+
+const LATEX_PRE = '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n'
+  + '\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n';
+
+// Fixed ids, so every export uses the same note types
+const BASIC_MODEL_ID = 1706000000001;
+const CLOZE_MODEL_ID = 1706000000002;
+const DEFAULT_DECK_ID = 1;
+
+// Anki card types and queues
+const CARD_NEW = 0;
+const CARD_REVIEW = 2;
+const QUEUE_SUSPENDED = -1;
+
+function field(name: string, ord: number) {
+  return { name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] };
+}
+
+function model(id: number, deckId: number, nowSec: number, type: CardType) {
+  const isCloze = type === 'cloze';
+  return {
+    id,
+    name: isCloze ? 'StudySnap Cloze' : 'StudySnap Basic',
+    type: isCloze ? 1 : 0,
+    mod: nowSec,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{
+      name: isCloze ? 'Cloze' : 'Card 1',
+      ord: 0,
+      qfmt: isCloze ? '{{cloze:Text}}' : '{{Front}}',
+      afmt: isCloze ? '{{cloze:Text}}<br>{{Back Extra}}' : '{{FrontSide}}<hr id=answer>{{Back}}',
+      did: null,
+      bqfmt: '',
+      bafmt: '',
+    }],
+    flds: isCloze ? [field('Text', 0), field('Back Extra', 1)] : [field('Front', 0), field('Back', 1)],
+    css: CSS,
+    latexPre: LATEX_PRE,
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', [0]]],
+  };
+}
+
+function deck(id: number, name: string, nowSec: number) {
+  return {
+    id,
+    name,
+    desc: '',
+    mod: nowSec,
+    usn: -1,
+    collapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    dyn: 0,
+    conf: 1,
+    extendNew: 10,
+    extendRev: 50,
+  };
+}
+
+const DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+  rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: true, minSpace: 1 },
+  lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+};
+
+const COLLECTION_CONFIG = {
+  nextPos: 1,
+  estTimes: true,
+  activeDecks: [DEFAULT_DECK_ID],
+  sortType: 'noteFld',
+  timeLim: 0,
+  sortBackwards: false,
+  addToCur: true,
+  curDeck: DEFAULT_DECK_ID,
+  newBury: true,
+  newSpread: 0,
+  dueCounts: true,
+  curModel: String(BASIC_MODEL_ID),
+  collapseTime: 1200,
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Anki tags are separated by spaces, so spaces inside a tag become "_"
+ */
+export function toAnkiTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, '_');
+}
+
+function noteTags(tags: string[]): string {
+  const unique = Array.from(new Set(tags.map(toAnkiTag).filter(Boolean)));
+  return unique.length ? ` ${unique.join(' ')} ` : '';
+}
+
+// First 8 hex digits of the SHA-1 of the sort field, as Anki uses to find duplicates
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4), (b) => b.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex, 16);
+}
+
+function noteFields(card: ExportCard): string[] {
+  if (card.card_type === 'cloze') {
+    return [escapeHtml(card.question.replace(/\{\{c\d+::/g, '{{c1::')), ''];
+  }
+  return [escapeHtml(card.question), escapeHtml(card.answer)];
+}
+
+function schedule(card: ExportCard, today: Date, position: number, includeScheduling: boolean) {
+  const reviewed = includeScheduling && card.stage > 0 && card.interval_days > 0 && card.due_date;
+  const base = reviewed
+    ? {
+        type: CARD_REVIEW,
+        queue: CARD_REVIEW,
+        // Days since the collection was created, which is today
+        due: differenceInCalendarDays(parseISO(card.due_date), today),
+        ivl: card.interval_days,
+        factor: Math.round(card.ease_factor * 1000),
+        reps: card.stage,
+        lapses: card.lapses,
+      }
+    : { type: CARD_NEW, queue: CARD_NEW, due: position, ivl: 0, factor: 0, reps: 0, lapses: 0 };
+
+  return card.suspended ? { ...base, queue: QUEUE_SUSPENDED } : base;
+}
+
+async function fillCollection(db: Database, cards: ExportCard[], options: ApkgOptions): Promise<void> {
+  const now = options.now ?? new Date();
+  const today = startOfDay(now);
+  const nowSec = Math.floor(now.getTime() / 1000);
+  const deckId = now.getTime();
+
+  db.run(SCHEMA);
+  db.run(
+    'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+    [
+      Math.floor(today.getTime() / 1000),
+      now.getTime(),
+      now.getTime(),
+      JSON.stringify(COLLECTION_CONFIG),
+      JSON.stringify({
+        [BASIC_MODEL_ID]: model(BASIC_MODEL_ID, deckId, nowSec, 'basic'),
+        [CLOZE_MODEL_ID]: model(CLOZE_MODEL_ID, deckId, nowSec, 'cloze'),
+      }),
+      JSON.stringify({
+        [DEFAULT_DECK_ID]: deck(DEFAULT_DECK_ID, 'Default', nowSec),
+        [deckId]: deck(deckId, options.deckName, nowSec),
+      }),
+      JSON.stringify({ 1: DECK_CONFIG }),
+      '{}',
+    ]
+  );
+
+  const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+  const insertCard = db.prepare(
+    'INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')'
+  );
+
+  try {
+    // Note and card ids are millisecond timestamps in Anki; count up from now
+    for (const [index, card] of cards.entries()) {
+      const id = now.getTime() + index;
+      const fields = noteFields(card);
+      const sortField = card.card_type === 'cloze' ? revealCloze(card.question) : card.question;
+      const sched = schedule(card, today, index + 1, options.includeScheduling);
+
+      insertNote.run([
+        id,
+        card.id,
+        card.card_type === 'cloze' ? CLOZE_MODEL_ID : BASIC_MODEL_ID,
+        nowSec,
+        noteTags(card.tags),
+        fields.join('\x1f'),
+        sortField,
+        await fieldChecksum(sortField),
+      ]);
+      insertCard.run([
+        id,
+        id,
+        deckId,
+        nowSec,
+        sched.type,
+        sched.queue,
+        sched.due,
+        sched.ivl,
+        sched.factor,
+        sched.reps,
+        sched.lapses,
+      ]);
+    }
+  } finally {
+    insertNote.free();
+    insertCard.free();
+  }
+}
+
+/**
+ * Build an .apkg file with the given cards in one deck
+ */
+export async function buildApkg(SQL: SqlJsStatic, cards: ExportCard[], options: ApkgOptions): Promise<Uint8Array> {
+  const db = new SQL.Database();
+  try {
+    await fillCollection(db, cards, options);
+    return zipSync({
+      'collection.anki2': db.export(),
+      media: strToU8('{}'),
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load sql.js with its WebAssembly file bundled by Vite
+ */
+export async function loadSqlJs(): Promise<SqlJsStatic> {
+  const [{ default: initSqlJs }, { default: wasmUrl }] = await Promise.all([
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm.wasm?url'),
+  ]);
+  return initSqlJs({ locateFile: () => wasmUrl });
+}
+
+export interface AnkiNote {
+  card_type: CardType;
+  question: string;
+  answer: string;
+  tags: string[];
+}
+
+export interface ApkgReadResult {
+  notes: AnkiNote[];
+  error: 'notAPackage' | 'newFormat' | null;
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Plain text of an Anki field: line breaks kept, markup, images and sounds
+ * dropped
+ */
+export function ankiFieldToText(html: string): string {
+  return html
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>|<\/(?:div|p|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return Number.isNaN(code) ? entity : String.fromCodePoint(code);
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * The notes of an .apkg file. The first two fields of a note become question
+ * and answer; notes of a cloze note type (or with cloze markup, when the
+ * package has no legacy note type list) become cloze cards.
+ */
+export function readApkg(SQL: SqlJsStatic, data: Uint8Array): ApkgReadResult {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    return { notes: [], error: 'notAPackage' };
+  }
+
+  // Packages exported for current Anki versions only keep the real
+  // collection zstd-compressed in collection.anki21b next to a placeholder
+  // collection.anki2; they need "Support older Anki versions" on export
+  if (files['collection.anki21b'] && !files['collection.anki21']) return { notes: [], error: 'newFormat' };
+  const collection = files['collection.anki21'] ?? files['collection.anki2'];
+  if (!collection) return { notes: [], error: 'notAPackage' };
+
+  const db = new SQL.Database(collection);
+  try {
+    const [col] = db.exec('SELECT models FROM col');
+    const models: Record<string, { type?: number }> = col ? JSON.parse(String(col.values[0][0]) || '{}') : {};
+    const [notes] = db.exec('SELECT mid, flds, tags FROM notes ORDER BY id');
+
+    const result = (notes?.values ?? []).map(([mid, flds, tags]): AnkiNote => {
+      const fields = String(flds).split('\x1f');
+      const model = models[String(mid)];
+      const isCloze = model ? model.type === 1 : /\{\{c\d+::/.test(fields[0]);
+      const question = ankiFieldToText(fields[0] ?? '');
+      return {
+        card_type: isCloze ? 'cloze' : 'basic',
+        question,
+        answer: isCloze ? revealCloze(question) : ankiFieldToText(fields[1] ?? ''),
+        tags: String(tags).split(/\s+/).filter(Boolean),
+      };
+    });
+    return { notes: result, error: null };
+  } catch {
+    return { notes: [], error: 'notAPackage' };
+  } finally {
+    db.close();
+  }
+}
+
+function quote(value: string, separator: string): string {
+  return value.includes(separator) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Cards as CSV (with a header row) or as TSV for Anki's "Import File".
+ * The TSV starts with Anki's file headers; cloze cards keep their markup,
+ * which Anki's text import recognises when the Cloze note type is chosen.
+ */
+export function toDelimited(cards: ExportCard[], format: 'csv' | 'tsv'): string {
+  const separator = format === 'csv' ? ',' : '\t';
+  const lines = format === 'csv'
+    ? ['question,answer,type,tags,due_date']
+    : ['#separator:tab', '#html:false', '#tags column:3'];
+
+  for (const card of cards) {
+    const tags = Array.from(new Set(card.tags.map(toAnkiTag).filter(Boolean))).join(' ');
+    const answer = card.card_type === 'cloze' ? revealCloze(card.question) : card.answer;
+    const row = format === 'csv'
+      ? [card.question, answer, card.card_type, tags, card.due_date ?? '']
+      : [card.question, card.card_type === 'cloze' ? '' : card.answer, tags];
+    lines.push(row.map((value) => quote(value, separator)).join(separator));
+  }
+
+  return lines.join('\n') + '\n';
+}
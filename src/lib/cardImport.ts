@@ -0,0 +1,421 @@
+/**
+ * Importing shared decks
+ *
+ * Parses CSV/TSV files (including Anki's text export with its `#` file
+ * headers), Quizlet text exports and the notes of Anki packages (see
+ * `readApkg` in lib/anki.ts) into flashcards and quiz questions. Every row
+ * that cannot be used is reported with its row number instead of failing the
+ * whole file. Imported flashcards are saved as manual cards, so generating
+ * cards from the material's text never replaces them; imported quiz
+ * questions are replaced like generated ones when the quiz is regenerated.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { AnkiNote } from './anki';
+import { CardType, hasCloze, revealCloze } from './cloze';
+import { SupportedLanguage } from './languages';
+import { fetchAllRows } from './pagination';
+
+export type ImportItem =
+  | { row: number; kind: 'flashcard'; card_type: CardType; question: string; answer: string; tags: string[] }
+  | { row: number; kind: 'quiz'; question: string; options: string[]; correct_index: number; explanation: string | null };
+
+export type ImportErrorReason = 'missingQuestion' | 'missingAnswer' | 'tooFewOptions' | 'invalidCorrect';
+
+export interface ImportRowError {
+  row: number;
+  reason: ImportErrorReason;
+  text: string;
+}
+
+export interface ParsedImport {
+  items: ImportItem[];
+  errors: ImportRowError[];
+}
+
+export type ImportStatus = 'new' | 'duplicate' | 'duplicateInFile';
+
+// Header names per column, in the languages of the app and of common exports
+const HEADER_NAMES: Record<'question' | 'answer' | 'tags' | 'correct' | 'explanation', string[]> = {
+  question: ['question', 'front', 'term', 'text', 'frage', 'begriff', 'вопрос', 'термин', 'soru', 'pitanje'],
+  answer: ['answer', 'back', 'definition', 'antwort', 'ответ', 'определение', 'cevap', 'odgovor'],
+  tags: ['tags', 'tag', 'schlagwörter', 'теги', 'etiketler', 'oznake'],
+  correct: ['correct', 'correct answer', 'richtig', 'правильный', 'doğru', 'tačno'],
+  explanation: ['explanation', 'erklärung', 'объяснение', 'açıklama', 'objašnjenje'],
+};
+const OPTION_HEADER = /^(?:option|choice|antwort|вариант|seçenek|opcija)\s*\d+$|^[a-f]$/i;
+
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' ',
+  colon: ':',
+};
+
+interface DelimitedRecord {
+  line: number; // 1-based line the record starts on
+  cells: string[];
+}
+
+function splitRecords(text: string, separator: string, firstLine: number): DelimitedRecord[] {
+  const records: DelimitedRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let atCellStart = true;
+  let line = firstLine;
+  let recordLine = firstLine;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim() !== '')) records.push({ line: recordLine, cells });
+    cells = [];
+    cell = '';
+    atCellStart = true;
+    recordLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && atCellStart) {
+      quoted = true;
+      atCellStart = false;
+    } else if (char === separator) {
+      cells.push(cell);
+      cell = '';
+      atCellStart = true;
+    } else if (char === '\n') {
+      line++;
+      endRecord();
+    } else {
+      cell += char;
+      atCellStart = false;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRecord();
+
+  return records;
+}
+
+function detectSeparator(line: string): string {
+  if (line.includes('\t')) return '\t';
+  const semicolons = line.split(';').length;
+  const commas = line.split(',').length;
+  return semicolons > commas ? ';' : ',';
+}
+
+function headerColumn(header: string): keyof typeof HEADER_NAMES | 'option' | null {
+  const name = header.trim().toLowerCase();
+  for (const [column, names] of Object.entries(HEADER_NAMES)) {
+    if (names.includes(name)) return column as keyof typeof HEADER_NAMES;
+  }
+  return OPTION_HEADER.test(name) ? 'option' : null;
+}
+
+function splitTags(value: string | undefined): string[] {
+  return (value ?? '').split(/[\s,]+/).filter(Boolean);
+}
+
+function correctIndex(value: string, options: string[]): number | null {
+  const trimmed = value.trim();
+  if (/^[a-f]$/i.test(trimmed)) {
+    const index = trimmed.toLowerCase().charCodeAt(0) - 97;
+    return index < options.length ? index : null;
+  }
+  if (/^\d+$/.test(trimmed)) {
+    const index = Number(trimmed) - 1;
+    return index >= 0 && index < options.length ? index : null;
+  }
+  const index = options.findIndex((option) => option.trim().toLowerCase() === trimmed.toLowerCase());
+  return index >= 0 ? index : null;
+}
+
+function flashcardRow(row: number, question: string, answer: string, tags: string[], result: ParsedImport) {
+  question = question.trim();
+  answer = answer.trim();
+  if (!question) {
+    result.errors.push({ row, reason: 'missingQuestion', text: answer });
+  } else if (hasCloze(question)) {
+    result.items.push({ row, kind: 'flashcard', card_type: 'cloze', question, answer: revealCloze(question), tags });
+  } else if (!answer) {
+    result.errors.push({ row, reason: 'missingAnswer', text: question });
+  } else {
+    result.items.push({ row, kind: 'flashcard', card_type: 'basic', question, answer, tags });
+  }
+}
+
+/**
+ * Parse a CSV or TSV file. The separator is detected unless Anki's
+ * `#separator:` header names it. A first row with known column names is a
+ * header; with option columns (option 1, A, ...) and a correct column the
+ * rows are quiz questions. Without a header the columns are question and
+ * answer, plus tags where Anki's `#tags column:` header says so.
+ */
+export function parseDelimited(text: string): ParsedImport {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  let separator: string | null = null;
+  let tagsColumn: number | null = null;
+
+  // Anki's file headers
+  let headerLines = 0;
+  while (headerLines < lines.length && lines[headerLines].startsWith('#')) {
+    const match = lines[headerLines].match(/^#([\w ]+):(.*)$/);
+    if (match && match[1] === 'separator') {
+      const value = match[2].trim();
+      separator = ANKI_SEPARATORS[value.toLowerCase()] ?? value.charAt(0);
+    }
+    if (match && match[1] === 'tags column') tagsColumn = Number(match[2]) - 1;
+    headerLines++;
+  }
+
+  const body = lines.slice(headerLines).join('\n');
+  const firstDataLine = lines.slice(headerLines).find((line) => line.trim() !== '') ?? '';
+  const records = splitRecords(body, separator ?? detectSeparator(firstDataLine), headerLines + 1);
+  const result: ParsedImport = { items: [], errors: [] };
+  if (records.length === 0) return result;
+
+  const columns = records[0].cells.map(headerColumn);
+  const hasHeader = columns[0] === 'question' || (columns.includes('question') && columns.includes('answer'));
+  const dataRecords = hasHeader ? records.slice(1) : records;
+  const column = (name: ReturnType<typeof headerColumn>) => (hasHeader ? columns.indexOf(name) : -1);
+  const optionColumns = hasHeader ? columns.flatMap((name, index) => (name === 'option' ? [index] : [])) : [];
+
+  for (const { line, cells } of dataRecords) {
+    if (optionColumns.length > 0 && column('correct') >= 0) {
+      const question = (cells[column('question')] ?? '').trim();
+      const options = optionColumns.map((index) => (cells[index] ?? '').trim()).filter(Boolean);
+      const correct = correctIndex(cells[column('correct')] ?? '', options);
+
+      if (!question) result.errors.push({ row: line, reason: 'missingQuestion', text: options.join(' / ') });
+      else if (options.length < 2) result.errors.push({ row: line, reason: 'tooFewOptions', text: question });
+      else if (correct === null) result.errors.push({ row: line, reason: 'invalidCorrect', text: question });
+      else {
+        const explanation = column('explanation') >= 0 ? (cells[column('explanation')] ?? '').trim() : '';
+        result.items.push({
+          row: line,
+          kind: 'quiz',
+          question,
+          options,
+          correct_index: correct,
+          explanation: explanation || null,
+        });
+      }
+      continue;
+    }
+
+    const questionIndex = hasHeader ? Math.max(column('question'), 0) : 0;
+    const answerIndex = hasHeader ? column('answer') : 1;
+    const tagsIndex = hasHeader ? column('tags') : tagsColumn ?? -1;
+    flashcardRow(
+      line,
+      cells[questionIndex] ?? '',
+      answerIndex >= 0 ? cells[answerIndex] ?? '' : '',
+      tagsIndex >= 0 ? splitTags(cells[tagsIndex]) : [],
+      result
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Parse a Quizlet text export: one card per row, term and definition split at
+ * the first term separator. Quizlet does not quote fields, so the separators
+ * chosen on export must not occur in the cards.
+ */
+export function parseQuizlet(text: string, termSeparator = '\t', rowSeparator = '\n'): ParsedImport {
+  const result: ParsedImport = { items: [], errors: [] };
+  const rows = text.replace(/\r\n?/g, '\n').split(rowSeparator);
+
+  rows.forEach((rowText, index) => {
+    if (rowText.trim() === '') return;
+    const at = rowText.indexOf(termSeparator);
+    const question = at >= 0 ? rowText.slice(0, at) : rowText;
+    const answer = at >= 0 ? rowText.slice(at + termSeparator.length) : '';
+    flashcardRow(index + 1, question, answer, [], result);
+  });
+
+  return result;
+}
+
+/**
+ * Notes read from an Anki package, numbered in package order
+ */
+export function fromAnkiNotes(notes: AnkiNote[]): ParsedImport {
+  const result: ParsedImport = { items: [], errors: [] };
+  notes.forEach((note, index) => {
+    flashcardRow(index + 1, note.question, note.card_type === 'cloze' ? '' : note.answer, note.tags, result);
+  });
+  return result;
+}
+
+export function normalizeQuestion(question: string): string {
+  return question
+    .toLocaleLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.,;:!?]+$/, '')
+    .trim();
+}
+
+/**
+ * Compare every item with the existing questions of the same kind and with
+ * the items before it in the file
+ */
+export function markDuplicates(
+  items: ImportItem[],
+  existing: { flashcards: string[]; quiz: string[] }
+): ImportStatus[] {
+  const known = {
+    flashcard: new Set(existing.flashcards.map(normalizeQuestion)),
+    quiz: new Set(existing.quiz.map(normalizeQuestion)),
+  };
+  const seen = { flashcard: new Set<string>(), quiz: new Set<string>() };
+
+  return items.map((item) => {
+    const key = normalizeQuestion(item.question);
+    if (known[item.kind].has(key)) return 'duplicate';
+    if (seen[item.kind].has(key)) return 'duplicateInFile';
+    seen[item.kind].add(key);
+    return 'new';
+  });
+}
+
+/**
+ * Questions of the user's active flashcards and quiz questions in a language
+ */
+export async function loadExistingQuestions(
+  language: SupportedLanguage
+): Promise<{ flashcards: string[]; quiz: string[] }> {
+  const [cards, quiz] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from('flashcards')
+        .select('question')
+        .eq('language', language)
+        .is('archived_at', null)
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('quiz_questions')
+        .select('question')
+        .eq('language', language)
+        .is('archived_at', null)
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  return {
+    flashcards: cards.map((row) => row.question),
+    quiz: quiz.map((row) => row.question),
+  };
+}
+
+export type ImportTarget =
+  | { kind: 'existing'; materialId: string }
+  | { kind: 'new'; title: string; topic: string };
+
+const INSERT_BATCH_SIZE = 500;
+
+async function insertInBatches<T extends 'flashcards' | 'quiz_questions'>(
+  table: T,
+  rows: TablesInsert<T>[]
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from(table).insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw error;
+  }
+}
+
+/**
+ * Save the items to an existing material or to a new one, which gets the
+ * tags found in the file. Returns the material's id. A new material is
+ * removed again, with whatever was saved to it, if saving fails.
+ */
+export async function saveImport(
+  userId: string,
+  target: ImportTarget,
+  language: SupportedLanguage,
+  items: ImportItem[]
+): Promise<string> {
+  let materialId: string;
+  if (target.kind === 'existing') {
+    materialId = target.materialId;
+  } else {
+    const tags = Array.from(new Set(items.flatMap((item) => (item.kind === 'flashcard' ? item.tags : []))));
+    const { data, error } = await supabase
+      .from('materials')
+      .insert({
+        user_id: userId,
+        title: target.title.trim() || null,
+        topic: target.topic,
+        tags,
+        source_language: language,
+        ocr_text: null,
+        images: [],
+        photos: [],
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+    materialId = data.id;
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  try {
+    await insertInBatches(
+      'flashcards',
+      items.flatMap((item) =>
+        item.kind === 'flashcard'
+          ? [{
+              material_id: materialId,
+              language,
+              card_type: item.card_type,
+              question: item.question,
+              answer: item.answer,
+              is_manual: true,
+              confidence: 'high',
+              stage: 0,
+              due_date: today,
+            }]
+          : []
+      )
+    );
+    await insertInBatches(
+      'quiz_questions',
+      items.flatMap((item) =>
+        item.kind === 'quiz'
+          ? [{
+              material_id: materialId,
+              language,
+              question: item.question,
+              options: item.options,
+              correct_index: item.correct_index,
+              explanation: item.explanation,
+              confidence: 'high',
+            }]
+          : []
+      )
+    );
+  } catch (err) {
+    if (target.kind === 'new') await supabase.from('materials').delete().eq('id', materialId);
+    throw err;
+  }
+
+  return materialId;
+}
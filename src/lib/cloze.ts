@@ -0,0 +1,105 @@
+/**
+ * Cloze-deletion cards
+ *
+ * A cloze card keeps a sentence from the lecture text in `question` with the
+ * spans to memorise marked Anki-style: `{{c1::500 mg}}`, optionally with a
+ * hint `{{c1::500 mg::Dosis}}`. `answer` holds the sentence with every span
+ * filled in. All spans of a card are blanked at once and typed in review.
+ */
+
+export type CardType = 'basic' | 'cloze';
+
+export type ClozeSegment =
+  | { type: 'text'; text: string }
+  | { type: 'blank'; number: number; answer: string; hint: string | null };
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+// Characters that end a sentence when followed by whitespace
+const SENTENCE_END = /[.!?]/;
+
+// Words whose trailing period does not end a sentence: abbreviations
+// ("z.B.", "ca.", "Dr."), single letters and German ordinals ("3. Tag")
+const NON_FINAL_WORD = /^(?:(?:\p{L}\.)*\p{L}|\d+|bzw|ca|ggf|evtl|usw|vgl|inkl|max|min|mind|Dr|Nr|Abs|Art)$/iu;
+
+export function hasCloze(text: string): boolean {
+  return new RegExp(CLOZE_PATTERN.source).test(text);
+}
+
+/**
+ * Split a cloze text into plain text and blanks
+ */
+export function parseCloze(text: string): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ type: 'text', text: text.slice(last, start) });
+    segments.push({ type: 'blank', number: Number(match[1]), answer: match[2], hint: match[3] ?? null });
+    last = start + match[0].length;
+  }
+  if (last < text.length) segments.push({ type: 'text', text: text.slice(last) });
+  return segments;
+}
+
+/**
+ * The cloze text with every blank filled in
+ */
+export function revealCloze(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_match, _number, answer: string) => answer);
+}
+
+function foldAnswer(value: string, expandUmlauts: boolean): string {
+  let folded = value.toLocaleLowerCase('de').replace(/\s+/g, ' ').trim();
+  if (expandUmlauts) {
+    folded = folded.replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue');
+  }
+  return folded
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/^[\s.,;:!?"'()]+|[\s.,;:!?"'()]+$/g, '');
+}
+
+/**
+ * Compare a typed answer with a blank. Case, surrounding punctuation and
+ * extra spaces do not matter, and umlauts may be typed as "ae" or "a".
+ */
+export function isClozeAnswerCorrect(expected: string, given: string): boolean {
+  return (
+    foldAnswer(expected, true) === foldAnswer(given, true) ||
+    foldAnswer(expected, false) === foldAnswer(given, false)
+  );
+}
+
+function isSentenceEnd(text: string, index: number): boolean {
+  if (text[index] === '\n') return true;
+  if (!SENTENCE_END.test(text[index])) return false;
+  if (index + 1 < text.length && !/\s/.test(text[index + 1])) return false;
+  if (text[index] !== '.') return true;
+
+  const word = text.slice(0, index).split(/\s/).pop() ?? '';
+  return !NON_FINAL_WORD.test(word);
+}
+
+/**
+ * Turn a selection in a text into a cloze card: the sentence(s) around the
+ * selection with the selected span blanked. Returns null for an empty
+ * selection.
+ */
+export function clozeFromSelection(text: string, start: number, end: number): string | null {
+  // Leave surrounding whitespace out of the blank
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (start >= end) return null;
+
+  let sentenceStart = start;
+  while (sentenceStart > 0 && !isSentenceEnd(text, sentenceStart - 1)) sentenceStart--;
+  let sentenceEnd = end;
+  while (sentenceEnd < text.length && !isSentenceEnd(text, sentenceEnd)) sentenceEnd++;
+  if (sentenceEnd < text.length && text[sentenceEnd] !== '\n') sentenceEnd++;
+
+  const before = text.slice(sentenceStart, start).replace(/^\s+/, '');
+  const after = text.slice(end, sentenceEnd).replace(/\s+$/, '');
+  return `${before}{{c1::${text.slice(start, end)}}}${after}`;
+}
@@ -1,4 +1,5 @@
 import { Topic } from './types';
+import { SupportedLanguage } from './languages';
 
 export const TOPICS: Topic[] = [
   'Anatomie',
@@ -9,16 +10,24 @@ export const TOPICS: Topic[] = [
   'Sonstiges',
 ];
 
-export const TOPIC_LABELS: Record<Topic, { ru: string; de: string; en: string }> = {
-  'Anatomie': { ru: 'Анатомия', de: 'Anatomie', en: 'Anatomy' },
-  'Hygiene': { ru: 'Гигиена', de: 'Hygiene', en: 'Hygiene' },
-  'Pflegepraxis': { ru: 'Уход за пациентами', de: 'Pflegepraxis', en: 'Nursing Practice' },
-  'Recht/Ethik': { ru: 'Право и этика', de: 'Recht/Ethik', en: 'Law/Ethics' },
-  'Medikamente': { ru: 'Медикаменты', de: 'Medikamente', en: 'Medications' },
-  'Sonstiges': { ru: 'Прочее', de: 'Sonstiges', en: 'Other' },
+export const TOPIC_LABELS: Record<Topic, Record<SupportedLanguage, string>> = {
+  'Anatomie': { ru: 'Анатомия', de: 'Anatomie', en: 'Anatomy', tr: 'Anatomi', 'sr-Latn': 'Anatomija' },
+  'Hygiene': { ru: 'Гигиена', de: 'Hygiene', en: 'Hygiene', tr: 'Hijyen', 'sr-Latn': 'Higijena' },
+  'Pflegepraxis': { ru: 'Уход за пациентами', de: 'Pflegepraxis', en: 'Nursing Practice', tr: 'Hasta Bakımı', 'sr-Latn': 'Nega pacijenata' },
+  'Recht/Ethik': { ru: 'Право и этика', de: 'Recht/Ethik', en: 'Law/Ethics', tr: 'Hukuk/Etik', 'sr-Latn': 'Pravo i etika' },
+  'Medikamente': { ru: 'Медикаменты', de: 'Medikamente', en: 'Medications', tr: 'İlaçlar', 'sr-Latn': 'Lekovi' },
+  'Sonstiges': { ru: 'Прочее', de: 'Sonstiges', en: 'Other', tr: 'Diğer', 'sr-Latn': 'Ostalo' },
 };
 
-export const SPACED_REPETITION_INTERVALS = [1, 2, 4, 7]; // days for stages 0, 1, 2, 3
+// SM-2 scheduling parameters (see lib/scheduler.ts)
+export const SM2_INITIAL_EASE = 2.5;
+export const SM2_MIN_EASE = 1.3;
+export const SM2_MAX_INTERVAL_DAYS = 3650; // 10 years
+
+// Study planner (see lib/planner.ts)
+export const EXAM_MIN_REVIEWS = 3; // every card is reviewed at least this often before the exam
+export const PLAN_DEFAULT_DAYS = 7; // plan length when no exam date is set
+export const PLAN_DEFAULT_NEW_PER_DAY = 10;
 
 export const DEFAULT_FLASHCARD_COUNT = 15;
 export const DEFAULT_QUIZ_COUNT = 8;
@@ -28,3 +37,20 @@ export const CONFIDENCE_COLORS = {
   medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
   low: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
 };
+
+// Search (see lib/search.ts)
+export const SEARCH_PAGE_SIZE = 20;
+
+// Mock exam (see lib/mockExam.ts)
+export const EXAM_QUESTION_COUNTS = [20, 30, 50];
+export const EXAM_DEFAULT_QUESTION_COUNT = 30;
+export const EXAM_SECONDS_PER_QUESTION = 90;
+// Share of each topic in a mock exam; 0 leaves the topic out
+export const EXAM_TOPIC_WEIGHTS: Record<Topic, number> = {
+  'Anatomie': 2,
+  'Hygiene': 2,
+  'Pflegepraxis': 3,
+  'Recht/Ethik': 1,
+  'Medikamente': 2,
+  'Sonstiges': 1,
+};
@@ -0,0 +1,145 @@
+/**
+ * Flashcards written and maintained by hand
+ *
+ * Generated cards come from the generate-flashcards edge function. Cards
+ * created or edited here are marked manual, so regeneration never changes,
+ * archives or deletes them. Suspended cards are left out of review.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { ExportCard } from './anki';
+import { CardType, revealCloze } from './cloze';
+import { SupportedLanguage } from './languages';
+import { fetchAllRows } from './pagination';
+
+export interface FlashcardDraft {
+  card_type: CardType;
+  question: string; // for cloze cards: the text with {{c1::...}} blanks
+  answer: string; // ignored for cloze cards
+}
+
+function draftColumns(draft: FlashcardDraft) {
+  const question = draft.question.trim();
+  return {
+    card_type: draft.card_type,
+    question,
+    answer: draft.card_type === 'cloze' ? revealCloze(question) : draft.answer.trim(),
+    is_manual: true,
+  };
+}
+
+/**
+ * Add a card to a deck. Like a new generated card it is due today; it has no
+ * source hash, so later edits of the text never flag it as outdated.
+ */
+export async function createFlashcard(
+  materialId: string,
+  language: SupportedLanguage,
+  answerLanguage: SupportedLanguage | null,
+  draft: FlashcardDraft
+): Promise<void> {
+  const { error } = await supabase.from('flashcards').insert({
+    ...draftColumns(draft),
+    material_id: materialId,
+    language,
+    answer_language: answerLanguage,
+    confidence: 'high',
+    stage: 0,
+    due_date: new Date().toISOString().split('T')[0],
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Change a card's text. Review progress is kept.
+ */
+export async function updateFlashcard(id: string, draft: FlashcardDraft): Promise<void> {
+  const { error } = await supabase.from('flashcards').update(draftColumns(draft)).eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteFlashcards(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const { error } = await supabase.from('flashcards').delete().in('id', ids);
+  if (error) throw error;
+}
+
+export async function setFlashcardSuspended(id: string, suspended: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('flashcards')
+    .update({ suspended_at: suspended ? new Date().toISOString() : null })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Report a card as wrong. The card text is stored with the report.
+ */
+export async function flagFlashcard(
+  userId: string,
+  card: { id: string; question: string; answer: string },
+  comment: string
+): Promise<void> {
+  const { error } = await supabase.from('flashcard_feedback').insert({
+    user_id: userId,
+    flashcard_id: card.id,
+    question: card.question,
+    answer: card.answer,
+    comment: comment.trim() || null,
+  });
+  if (error) throw error;
+}
+
+export type ExportScope =
+  | { kind: 'material'; materialId: string }
+  | { kind: 'topic'; topic: string }
+  | { kind: 'all' };
+
+interface ExportRow {
+  id: string;
+  card_type: string;
+  question: string;
+  answer: string;
+  stage: number | null;
+  interval_days: number;
+  ease_factor: number;
+  lapses: number;
+  due_date: string | null;
+  suspended_at: string | null;
+  materials: { topic: string; tags: string[] | null } | null;
+}
+
+/**
+ * The active cards of a material, a topic or all materials in one language,
+ * tagged with their material's topic and tags. Suspended cards are included
+ * and marked, so they stay suspended after export.
+ */
+export async function loadExportCards(scope: ExportScope, language: SupportedLanguage): Promise<ExportCard[]> {
+  const data = await fetchAllRows((from, to) => {
+    let query = supabase
+      .from('flashcards')
+      .select('id, card_type, question, answer, stage, interval_days, ease_factor, lapses, due_date, suspended_at, materials!inner(topic, tags)')
+      .eq('language', language)
+      .is('archived_at', null);
+
+    if (scope.kind === 'material') query = query.eq('material_id', scope.materialId);
+    if (scope.kind === 'topic') query = query.eq('materials.topic', scope.topic);
+
+    return query.order('created_at', { ascending: true }).order('id', { ascending: true }).range(from, to);
+  });
+
+  return (data as unknown as ExportRow[]).map((row) => ({
+    id: row.id,
+    card_type: row.card_type as CardType,
+    question: row.question,
+    answer: row.answer,
+    tags: [row.materials?.topic, ...(row.materials?.tags ?? [])].filter(Boolean),
+    stage: row.stage ?? 0,
+    interval_days: row.interval_days,
+    ease_factor: row.ease_factor,
+    lapses: row.lapses,
+    due_date: row.due_date,
+    suspended: row.suspended_at !== null,
+  }));
+}
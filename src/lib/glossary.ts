@@ -0,0 +1,155 @@
+/**
+ * Personal medical glossary
+ *
+ * Each user keeps their own list of terms with the term in every study
+ * language. The edge functions pass matching terms to the AI so translations
+ * and generated content use the same wording; the lecture view highlights
+ * them with their definition.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { SupportedLanguage } from './languages';
+
+export type GlossaryVariants = Partial<Record<SupportedLanguage, string>>;
+
+export interface GlossaryEntry {
+  term: string;
+  variants: GlossaryVariants;
+  definition: string | null;
+  topic: string | null;
+}
+
+export interface GlossaryTerm extends GlossaryEntry {
+  id: string;
+}
+
+export interface GlossarySegment {
+  text: string;
+  term: GlossaryTerm | null; // set when the text is a glossary hit
+}
+
+const GLOSSARY_COLUMNS = 'id, term, variants, definition, topic';
+
+function toGlossaryTerm(row: Pick<Tables<'glossary_terms'>, 'id' | 'term' | 'variants' | 'definition' | 'topic'>): GlossaryTerm {
+  const variants =
+    row.variants && typeof row.variants === 'object' && !Array.isArray(row.variants)
+      ? (row.variants as GlossaryVariants)
+      : {};
+  return { id: row.id, term: row.term, variants, definition: row.definition, topic: row.topic };
+}
+
+/**
+ * The signed-in user's glossary, alphabetically
+ */
+export async function fetchGlossary(): Promise<GlossaryTerm[]> {
+  const { data, error } = await supabase
+    .from('glossary_terms')
+    .select(GLOSSARY_COLUMNS)
+    .order('term', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(toGlossaryTerm);
+}
+
+/**
+ * Add a term or replace the one with the same name
+ */
+export async function saveGlossaryTerm(userId: string, entry: GlossaryEntry): Promise<GlossaryTerm> {
+  const { data, error } = await supabase
+    .from('glossary_terms')
+    .upsert(
+      {
+        user_id: userId,
+        term: entry.term.trim(),
+        variants: entry.variants,
+        definition: entry.definition?.trim() || null,
+        topic: entry.topic || null,
+      },
+      { onConflict: 'user_id,term' }
+    )
+    .select(GLOSSARY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toGlossaryTerm(data);
+}
+
+export async function deleteGlossaryTerm(id: string): Promise<void> {
+  const { error } = await supabase.from('glossary_terms').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Copy bundled entries into the user's glossary. Terms the user already has
+ * (possibly edited) are left alone. Returns how many were added.
+ */
+export async function seedGlossary(userId: string, entries: GlossaryEntry[]): Promise<number> {
+  const { data, error } = await supabase
+    .from('glossary_terms')
+    .upsert(
+      entries.map((entry) => ({
+        user_id: userId,
+        term: entry.term,
+        variants: entry.variants,
+        definition: entry.definition,
+        topic: entry.topic,
+      })),
+      { onConflict: 'user_id,term', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+/**
+ * The spellings of a term to look for in a text of the given language
+ */
+export function termForms(term: GlossaryEntry, language: SupportedLanguage): string[] {
+  const forms = [term.variants[language], term.term]
+    .map((form) => form?.trim())
+    .filter((form): form is string => !!form);
+  return [...new Set(forms)];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Split a text into plain parts and glossary hits. Whole words only,
+ * case-insensitive; longer terms win over terms they contain.
+ */
+export function findGlossaryHits(
+  text: string,
+  terms: GlossaryTerm[],
+  language: SupportedLanguage
+): GlossarySegment[] {
+  const byForm = new Map<string, GlossaryTerm>();
+  for (const term of terms) {
+    for (const form of termForms(term, language)) {
+      const key = form.toLocaleLowerCase();
+      if (!byForm.has(key)) byForm.set(key, term);
+    }
+  }
+  if (!text || byForm.size === 0) return [{ text, term: null }];
+
+  const alternatives = [...byForm.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'giu');
+
+  const segments: GlossarySegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), term: null });
+    segments.push({ text: match[0], term: byForm.get(match[0].toLocaleLowerCase()) ?? null });
+    last = start + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), term: null });
+
+  return segments;
+}
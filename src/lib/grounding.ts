@@ -0,0 +1,95 @@
+/**
+ * Source grounding
+ *
+ * Generated cards, quiz questions and summary points carry the passage of
+ * the lecture text they are based on (see supabase/functions/_shared/
+ * grounding.ts, which finds it when the item is generated). The offsets
+ * point into the text the item was generated from; after the text changed
+ * the quote is looked up again in the current text.
+ */
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export interface GroundedItem {
+  source_quote: string | null;
+  source_start: number | null;
+  source_end: number | null;
+  source_hash: string | null;
+}
+
+// Entry of summaries.sources
+export interface SummarySource {
+  point: string;
+  quote: string;
+  start: number | null;
+  end: number | null;
+}
+
+// Left out when comparing: whitespace, hyphens and dashes (line-break
+// hyphenation, "5-10" vs "5 – 10") and quotation marks
+const IGNORED = /[\s\-\u00AD\u2010-\u2015"'\u00AB\u00BB\u2018-\u201F]/;
+
+// Quoted passages may skip text with an ellipsis
+const ELLIPSIS = /\.\.\.|\u2026/;
+
+// Shorter quotes match too easily to prove anything
+const MIN_QUOTE_LENGTH = 8;
+
+function normalize(text: string): { chars: string; index: number[] } {
+  let chars = '';
+  const index: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (IGNORED.test(text[i])) continue;
+    for (const c of text[i].normalize('NFKC').toLowerCase()) {
+      chars += c;
+      index.push(i);
+    }
+  }
+  return { chars, index };
+}
+
+/**
+ * Where a quote occurs in the text, ignoring case, spacing, hyphenation and
+ * quotation marks; null when it is not in the text
+ */
+export function locateQuote(text: string, quote: string): SourceSpan | null {
+  const parts = quote.split(ELLIPSIS).map((part) => normalize(part).chars).filter(Boolean);
+  if (parts.join('').length < MIN_QUOTE_LENGTH) return null;
+
+  const source = normalize(text);
+  let from = 0;
+  let start = -1;
+  for (const part of parts) {
+    const found = source.chars.indexOf(part, from);
+    if (found === -1) return null;
+    if (start === -1) start = found;
+    from = found + part.length;
+  }
+
+  return { start: source.index[start], end: source.index[from - 1] + 1 };
+}
+
+/**
+ * Generated with a quote that is not in the text: the item may not be
+ * backed by the lecture. Items without a quote (manual, imported, older)
+ * are not flagged.
+ */
+export function isUngrounded(item: Pick<GroundedItem, 'source_quote' | 'source_start'>): boolean {
+  return item.source_quote !== null && item.source_start === null;
+}
+
+/**
+ * The passage of `text` an item is based on. `textHash` is the hash of
+ * `text`; when it is the one the item was generated from, the stored
+ * offsets are used as they are.
+ */
+export function findSource(item: GroundedItem, text: string, textHash: string | null): SourceSpan | null {
+  if (!item.source_quote) return null;
+  if (item.source_start !== null && item.source_end !== null && item.source_hash === textHash) {
+    return { start: item.source_start, end: item.source_end };
+  }
+  return locateQuote(text, item.source_quote);
+}
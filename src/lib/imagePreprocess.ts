@@ -0,0 +1,447 @@
+/**
+ * Image preprocessing for OCR
+ *
+ * Phone photos of handouts are cleaned up before Tesseract reads them (see
+ * hooks/useClientOcr.tsx): converted to grayscale and downscaled, the page
+ * is cut out along its detected corners and its perspective corrected, the
+ * remaining skew of the text lines is rotated away and the result is
+ * binarised with a threshold that follows uneven lighting. Everything works
+ * on plain pixel buffers, so the pipeline runs in Node as well as on a
+ * canvas.
+ */
+
+// RGBA pixels, laid out like ImageData
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// One luminance value per pixel
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Page corners: top left, top right, bottom right, bottom left
+export type Quad = [Point, Point, Point, Point];
+
+export interface PreprocessResult {
+  image: GrayImage;
+  // Page corners in the downscaled photo; null when no page edges were found
+  corners: Quad | null;
+  // Angle of the text lines in degrees that was rotated away
+  skew: number;
+}
+
+// Page corners are searched in a copy of at most this size
+const DETECT_SIDE = 320;
+// A detected page has to cover this share of the photo
+const MIN_PAGE_AREA = 0.2;
+// Corners this close to the photo corners (share of its diagonal) mean the
+// page fills the photo and there is nothing to cut out
+const FULL_FRAME_MARGIN = 0.03;
+
+// Skew is measured on a copy of at most this size, up to MAX_SKEW degrees
+const SKEW_SIDE = 800;
+const MAX_SKEW = 10;
+const MAX_SKEW_POINTS = 20000;
+// Smaller angles are not worth the blur of rotating
+const MIN_SKEW = 0.2;
+
+// A pixel is ink when it is this much darker than its surroundings
+const THRESHOLD_SENSITIVITY = 0.15;
+
+export function toGrayscale(image: RgbaImage): GrayImage {
+  const { width, height, data } = image;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { width, height, data: gray };
+}
+
+export function toRgba(image: GrayImage): RgbaImage {
+  const { width, height, data } = image;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i++) {
+    rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = data[i];
+    rgba[i * 4 + 3] = 255;
+  }
+  return { width, height, data: rgba };
+}
+
+/**
+ * Shrink so the longer side is at most `maxSide`, averaging the pixels
+ * each output pixel covers
+ */
+export function downscale(image: GrayImage, maxSide: number): GrayImage {
+  const { width, height, data } = image;
+  const scale = maxSide / Math.max(width, height);
+  if (scale >= 1) return image;
+
+  const outWidth = Math.max(1, Math.round(width * scale));
+  const outHeight = Math.max(1, Math.round(height * scale));
+  const out = new Uint8ClampedArray(outWidth * outHeight);
+  for (let oy = 0; oy < outHeight; oy++) {
+    const y0 = Math.floor((oy * height) / outHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((oy + 1) * height) / outHeight));
+    for (let ox = 0; ox < outWidth; ox++) {
+      const x0 = Math.floor((ox * width) / outWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((ox + 1) * width) / outWidth));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += data[y * width + x];
+      }
+      out[oy * outWidth + ox] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return { width: outWidth, height: outHeight, data: out };
+}
+
+/**
+ * Binarise against the mean of a window around each pixel (Bradley–Roth),
+ * so shadows and a gradient of light do not swallow the text. Ink becomes
+ * 0, everything else 255.
+ */
+export function adaptiveThreshold(image: GrayImage, sensitivity = THRESHOLD_SENSITIVITY): GrayImage {
+  const { width, height, data } = image;
+  const half = Math.max(7, Math.round(Math.min(width, height) / 24));
+
+  // Summed-area table with an extra zero row and column
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const out = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum =
+        integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      const count = (y1 - y0) * (x1 - x0);
+      out[y * width + x] = data[y * width + x] * count < sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+  return { width, height, data: out };
+}
+
+// Gray level that best separates dark and bright pixels (Otsu)
+function otsuLevel(image: GrayImage): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of image.data) histogram[value]++;
+
+  const total = image.data.length;
+  let totalSum = 0;
+  for (let i = 0; i < 256; i++) totalSum += i * histogram[i];
+
+  let best = 0;
+  let bestVariance = -1;
+  let darkCount = 0;
+  let darkSum = 0;
+  for (let level = 0; level < 256; level++) {
+    darkCount += histogram[level];
+    darkSum += level * histogram[level];
+    const brightCount = total - darkCount;
+    if (darkCount === 0 || brightCount === 0) continue;
+    const difference = darkSum / darkCount - (totalSum - darkSum) / brightCount;
+    const variance = darkCount * brightCount * difference * difference;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+}
+
+// Pixel indices of the largest 4-connected region of the mask
+function largestRegion(mask: Uint8Array, width: number, height: number): Int32Array {
+  const visited = new Uint8Array(mask.length);
+  const queue = new Int32Array(mask.length);
+  let best = new Int32Array(0);
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    visited[start] = 1;
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbours) {
+        if (n < 0 || n >= mask.length || !mask[n] || visited[n]) continue;
+        visited[n] = 1;
+        queue[tail++] = n;
+      }
+    }
+    if (tail > best.length) best = queue.slice(0, tail);
+  }
+  return best;
+}
+
+function quadArea(quad: Quad): number {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+function isConvex(quad: Quad): boolean {
+  const signs = quad.map((a, i) => {
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    return Math.sign((b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x));
+  });
+  return signs.every((sign) => sign === signs[0] && sign !== 0);
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Corners of the page: the largest bright region of the photo, with its
+ * corners at the extremes along the diagonals. Null when there is no page
+ * standing out from the background or it already fills the photo.
+ */
+export function detectPageCorners(image: GrayImage): Quad | null {
+  const small = downscale(image, DETECT_SIDE);
+  const { width, height, data } = small;
+  const level = otsuLevel(small);
+  const mask = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) mask[i] = data[i] > level ? 1 : 0;
+
+  const region = largestRegion(mask, width, height);
+  if (region.length < MIN_PAGE_AREA * width * height) return null;
+
+  let topLeft = region[0];
+  let topRight = region[0];
+  let bottomRight = region[0];
+  let bottomLeft = region[0];
+  const sum = (i: number) => (i % width) + Math.floor(i / width);
+  const diff = (i: number) => (i % width) - Math.floor(i / width);
+  for (const i of region) {
+    if (sum(i) < sum(topLeft)) topLeft = i;
+    if (sum(i) > sum(bottomRight)) bottomRight = i;
+    if (diff(i) > diff(topRight)) topRight = i;
+    if (diff(i) < diff(bottomLeft)) bottomLeft = i;
+  }
+
+  // Back to the coordinates of the full image, at pixel centres
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+  const toPoint = (i: number): Point => ({
+    x: ((i % width) + 0.5) * scaleX - 0.5,
+    y: (Math.floor(i / width) + 0.5) * scaleY - 0.5,
+  });
+  const corners: Quad = [toPoint(topLeft), toPoint(topRight), toPoint(bottomRight), toPoint(bottomLeft)];
+
+  if (!isConvex(corners) || quadArea(corners) < MIN_PAGE_AREA * image.width * image.height) return null;
+
+  const frame: Quad = [
+    { x: 0, y: 0 },
+    { x: image.width - 1, y: 0 },
+    { x: image.width - 1, y: image.height - 1 },
+    { x: 0, y: image.height - 1 },
+  ];
+  const margin = FULL_FRAME_MARGIN * Math.hypot(image.width, image.height);
+  if (corners.every((corner, i) => distance(corner, frame[i]) <= margin)) return null;
+
+  return corners;
+}
+
+// Solve a linear system by Gaussian elimination with partial pivoting
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+// Projective transform taking the corners of `from` to those of `to`
+function homography(from: Quad, to: Quad): number[] {
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  return [...solve(a, b), 1];
+}
+
+// Bilinear sample; `fill` outside the image
+function sample(image: GrayImage, x: number, y: number, fill: number): number {
+  const { width, height, data } = image;
+  if (x < 0 || y < 0 || x > width - 1 || y > height - 1) return fill;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+  const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/**
+ * Cut out the page between the corners as a flat rectangle, sized after
+ * its longer edges
+ */
+export function warpPerspective(image: GrayImage, corners: Quad): GrayImage {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const width = Math.max(1, Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight))) + 1);
+  const height = Math.max(1, Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight))) + 1);
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 },
+  ];
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = homography(target, corners);
+
+  const out = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h6 * x + h7 * y + 1;
+      out[y * width + x] = sample(image, (h0 * x + h1 * y + h2) / w, (h3 * x + h4 * y + h5) / w, 255);
+    }
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * Angle of the text lines in degrees, positive when they fall to the right:
+ * the angle at which the ink piles up in the fewest, fullest rows
+ */
+export function estimateSkew(image: GrayImage): number {
+  const ink = adaptiveThreshold(downscale(image, SKEW_SIDE));
+  const { width, height, data } = ink;
+
+  let inkCount = 0;
+  for (const value of data) if (value === 0) inkCount++;
+  if (inkCount < 50) return 0;
+
+  const step = Math.max(1, Math.floor(inkCount / MAX_SKEW_POINTS));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let seen = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] !== 0 || seen++ % step !== 0) continue;
+    xs.push((i % width) - width / 2);
+    ys.push(Math.floor(i / width) - height / 2);
+  }
+
+  const offset = Math.ceil(Math.hypot(width, height) / 2) + 1;
+  const rows = new Float64Array(offset * 2 + 1);
+  const score = (degrees: number) => {
+    const angle = (degrees * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    rows.fill(0);
+    for (let i = 0; i < xs.length; i++) rows[Math.round(ys[i] * cos - xs[i] * sin) + offset]++;
+    let total = 0;
+    for (const count of rows) total += count * count;
+    return total;
+  };
+
+  // Coarse search in steps of 0.5°, then 0.1° around the best angle
+  let best = 0;
+  let bestScore = score(0);
+  for (let tenths = -MAX_SKEW * 10; tenths <= MAX_SKEW * 10; tenths += 5) {
+    const value = score(tenths / 10);
+    if (value > bestScore) {
+      bestScore = value;
+      best = tenths;
+    }
+  }
+  const coarse = best;
+  for (let tenths = coarse - 4; tenths <= coarse + 4; tenths++) {
+    const value = score(tenths / 10);
+    if (value > bestScore) {
+      bestScore = value;
+      best = tenths;
+    }
+  }
+  return best / 10;
+}
+
+/**
+ * Rotate lines at `degrees` (as measured by estimateSkew) to horizontal.
+ * The image grows to keep its corners; the new area is white.
+ */
+export function rotate(image: GrayImage, degrees: number): GrayImage {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const width = Math.ceil(image.width * Math.abs(cos) + image.height * Math.abs(sin));
+  const height = Math.ceil(image.width * Math.abs(sin) + image.height * Math.abs(cos));
+  const centerX = (image.width - 1) / 2;
+  const centerY = (image.height - 1) / 2;
+
+  const out = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const dy = y - (height - 1) / 2;
+    for (let x = 0; x < width; x++) {
+      const dx = x - (width - 1) / 2;
+      out[y * width + x] = sample(image, dx * cos - dy * sin + centerX, dx * sin + dy * cos + centerY, 255);
+    }
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * The full pipeline: grayscale, downscale to `maxSide`, cut out the page,
+ * straighten the text and binarise
+ */
+export function preprocessImage(image: RgbaImage, options: { maxSide: number }): PreprocessResult {
+  let gray = downscale(toGrayscale(image), options.maxSide);
+
+  const corners = detectPageCorners(gray);
+  if (corners) gray = warpPerspective(gray, corners);
+
+  let skew = estimateSkew(gray);
+  if (Math.abs(skew) >= MIN_SKEW) gray = rotate(gray, skew);
+  else skew = 0;
+
+  return { image: adaptiveThreshold(gray), corners, skew };
+}
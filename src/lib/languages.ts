@@ -0,0 +1,83 @@
+import { ru, de, enUS, tr, srLatn } from 'date-fns/locale';
+import type { Locale } from 'date-fns';
+
+/**
+ * Study and UI languages. Everything language-specific in the app (names,
+ * OCR packs, date formatting, language buttons) is derived from this list;
+ * supabase/functions/_shared/languages.ts holds the same list for the AI.
+ */
+export const LANGUAGES = [
+  { code: 'ru', name: 'Русский', shortCode: 'RU', tesseract: 'rus', dateLocale: ru },
+  { code: 'de', name: 'Deutsch', shortCode: 'DE', tesseract: 'deu', dateLocale: de },
+  { code: 'en', name: 'English', shortCode: 'EN', tesseract: 'eng', dateLocale: enUS },
+  { code: 'tr', name: 'Türkçe', shortCode: 'TR', tesseract: 'tur', dateLocale: tr },
+  { code: 'sr-Latn', name: 'Srpski', shortCode: 'SR', tesseract: 'srp_latn', dateLocale: srLatn },
+] as const satisfies readonly {
+  code: string;
+  name: string;
+  shortCode: string;
+  tesseract: string;
+  dateLocale: Locale;
+}[];
+
+export type SupportedLanguage = (typeof LANGUAGES)[number]['code'];
+
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = LANGUAGES.map((language) => language.code);
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = 'ru';
+
+export function isSupportedLanguage(value: unknown): value is SupportedLanguage {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * A supported language for a stored or detected code, else the fallback
+ */
+export function toSupportedLanguage(
+  value: string | null | undefined,
+  fallback: SupportedLanguage = DEFAULT_LANGUAGE
+): SupportedLanguage {
+  return isSupportedLanguage(value) ? value : fallback;
+}
+
+function byLanguage<T>(pick: (language: (typeof LANGUAGES)[number]) => T): Record<SupportedLanguage, T> {
+  return Object.fromEntries(LANGUAGES.map((language) => [language.code, pick(language)])) as Record<SupportedLanguage, T>;
+}
+
+/**
+ * Language display names
+ */
+export const LANGUAGE_NAMES: Record<SupportedLanguage, string> = byLanguage((language) => language.name);
+
+/**
+ * Short language codes for display
+ */
+export const LANGUAGE_CODES: Record<SupportedLanguage, string> = byLanguage((language) => language.shortCode);
+
+/**
+ * date-fns locale for each language
+ */
+export const DATE_LOCALES: Record<SupportedLanguage, Locale> = byLanguage((language) => language.dateLocale);
+
+/**
+ * Tesseract language pack for a language
+ */
+export function getTesseractLangCode(language: SupportedLanguage): string {
+  return LANGUAGES.find((entry) => entry.code === language)?.tesseract ?? 'eng';
+}
+
+// Second pack for OCR: the handouts are mostly German, and German
+// handouts quote English terms
+const OCR_FALLBACK_PACKS = ['deu', 'eng'];
+
+/**
+ * Packs to load for OCR: the expected language first (Tesseract prefers
+ * earlier packs when scripts are ambiguous) and one fallback. Every pack is
+ * a few MB to download and slows recognition, so not all are loaded.
+ */
+export function getTesseractLangs(preferred: SupportedLanguage = DEFAULT_LANGUAGE): string {
+  const first = getTesseractLangCode(preferred);
+  const fallback = OCR_FALLBACK_PACKS.find((pack) => pack !== first);
+  return [first, fallback].join('+');
+}
+
@@ -0,0 +1,138 @@
+/**
+ * Mock exams across materials
+ *
+ * Draws quiz questions from all of the user's materials in one language.
+ * Each topic gets a share of the exam by its weight; within a topic,
+ * questions answered wrongly before are drawn more often than known ones.
+ * Questions never answered count as half known. The report breaks the
+ * result down by topic and lists the lectures with wrong answers.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { TOPICS } from './constants';
+import { SupportedLanguage } from './languages';
+import { fetchAllRows } from './pagination';
+import { QuestionStats } from './quizAttempts';
+import { QuizAnswer, QuizQuestionFields, isAnswerCorrect, parseQuizQuestion } from './quizQuestions';
+import { Topic } from './types';
+
+export interface ExamQuestion extends QuizQuestionFields {
+  material_id: string;
+  material_title: string | null;
+  topic: Topic;
+  question: string;
+  explanation: string | null;
+}
+
+export interface ExamTopicResult {
+  topic: Topic;
+  correct: number;
+  total: number;
+}
+
+export interface ExamMaterialResult {
+  material_id: string;
+  title: string | null;
+  topic: Topic;
+  wrong: number;
+  total: number;
+}
+
+export interface ExamReport {
+  correct: number;
+  total: number;
+  byTopic: ExamTopicResult[];
+  needsWork: ExamMaterialResult[]; // most wrong answers first
+}
+
+// Error rate assumed for questions never answered
+const UNKNOWN_ERROR_RATE = 0.5;
+
+/**
+ * Weighted random sample without replacement (Efraimidis–Spirakis): every
+ * question gets the key random^(1/weight) and the highest keys win, so the
+ * exam comes out shuffled as well.
+ */
+export function pickExamQuestions(
+  questions: ExamQuestion[],
+  count: number,
+  topicWeights: Record<Topic, number>,
+  stats: Record<string, QuestionStats>,
+  random: () => number = Math.random
+): ExamQuestion[] {
+  const perTopic = new Map<Topic, number>();
+  for (const question of questions) perTopic.set(question.topic, (perTopic.get(question.topic) ?? 0) + 1);
+
+  return questions
+    .filter((question) => (topicWeights[question.topic] ?? 0) > 0)
+    .map((question) => {
+      const errorRate = stats[question.id]?.errorRate ?? UNKNOWN_ERROR_RATE;
+      const weight = (topicWeights[question.topic] / perTopic.get(question.topic)) * (0.5 + errorRate);
+      return { question, key: Math.pow(random(), 1 / weight) };
+    })
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map(({ question }) => question);
+}
+
+export function examReport(questions: ExamQuestion[], answers: Record<string, QuizAnswer | null>): ExamReport {
+  const topics = new Map<Topic, ExamTopicResult>();
+  const materials = new Map<string, ExamMaterialResult>();
+  let correct = 0;
+
+  for (const question of questions) {
+    const isCorrect = isAnswerCorrect(question, answers[question.id]);
+    if (isCorrect) correct++;
+
+    const topic = topics.get(question.topic) ?? { topic: question.topic, correct: 0, total: 0 };
+    topic.total++;
+    if (isCorrect) topic.correct++;
+    topics.set(question.topic, topic);
+
+    const material = materials.get(question.material_id) ?? {
+      material_id: question.material_id,
+      title: question.material_title,
+      topic: question.topic,
+      wrong: 0,
+      total: 0,
+    };
+    material.total++;
+    if (!isCorrect) material.wrong++;
+    materials.set(question.material_id, material);
+  }
+
+  return {
+    correct,
+    total: questions.length,
+    byTopic: TOPICS.filter((topic) => topics.has(topic)).map((topic) => topics.get(topic)),
+    needsWork: Array.from(materials.values())
+      .filter((material) => material.wrong > 0)
+      .sort((a, b) => b.wrong / b.total - a.wrong / a.total || b.wrong - a.wrong),
+  };
+}
+
+/**
+ * All active quiz questions of the user's materials in a language
+ */
+export async function loadExamQuestions(language: SupportedLanguage): Promise<ExamQuestion[]> {
+  const rows = await fetchAllRows((from, to) =>
+    supabase
+      .from('quiz_questions')
+      .select(
+        'id, material_id, question, question_type, options, correct_index, correct_indices, case_text, explanation, materials!inner(title, topic)'
+      )
+      .eq('language', language)
+      .is('archived_at', null)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  return rows.map(({ materials, ...row }) => {
+    const material = materials as unknown as { title: string | null; topic: Topic };
+    return {
+      ...parseQuizQuestion(row),
+      material_title: material.title,
+      topic: material.topic,
+    };
+  });
+}
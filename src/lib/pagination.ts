@@ -0,0 +1,27 @@
+/**
+ * Reading past the row limit
+ *
+ * PostgREST returns at most 1000 rows per request and cuts off the rest
+ * without an error, so queries that can grow past that are read page by
+ * page. The query has to be ordered by a unique key, otherwise pages can
+ * skip or repeat rows.
+ */
+
+// Rows per request: the PostgREST default limit
+export const FETCH_PAGE_SIZE = 1000;
+
+/**
+ * All rows of a query; `page` runs the query for the rows `from`..`to`
+ * (inclusive, as in `.range()`)
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await page(from, from + FETCH_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < FETCH_PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,170 @@
+import type { GlossaryEntry } from './glossary';
+
+/**
+ * Bundled nursing (Pflege) glossary a user can copy into their own glossary.
+ * Definitions follow German nursing school usage.
+ */
+export const PFLEGE_GLOSSARY: GlossaryEntry[] = [
+  {
+    term: 'Dekubitus',
+    variants: { de: 'Dekubitus', en: 'pressure ulcer', ru: 'пролежень', tr: 'bası yarası', 'sr-Latn': 'dekubitus' },
+    definition: 'Lokale Schädigung von Haut und Gewebe durch anhaltenden Druck, meist über Knochenvorsprüngen.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Dekubitusprophylaxe',
+    variants: { de: 'Dekubitusprophylaxe', en: 'pressure ulcer prevention', ru: 'профилактика пролежней', tr: 'bası yarası önleme', 'sr-Latn': 'prevencija dekubitusa' },
+    definition: 'Maßnahmen zur Vermeidung eines Dekubitus, z. B. Lagerung, Mobilisation und Hautpflege.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Pflegeanamnese',
+    variants: { de: 'Pflegeanamnese', en: 'nursing assessment', ru: 'сестринский анамнез', tr: 'hemşirelik anamnezi', 'sr-Latn': 'sestrinska anamneza' },
+    definition: 'Strukturierte Erhebung der pflegerelevanten Informationen bei der Aufnahme.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Pflegeplanung',
+    variants: { de: 'Pflegeplanung', en: 'care plan', ru: 'план сестринского ухода', tr: 'bakım planı', 'sr-Latn': 'plan nege' },
+    definition: 'Schriftliche Festlegung von Pflegeproblemen, Zielen und Maßnahmen im Pflegeprozess.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Mobilisation',
+    variants: { de: 'Mobilisation', en: 'mobilization', ru: 'мобилизация', tr: 'mobilizasyon', 'sr-Latn': 'mobilizacija' },
+    definition: 'Förderung der Bewegung eines Patienten, vom Aufsetzen im Bett bis zum Gehen.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Kontraktur',
+    variants: { de: 'Kontraktur', en: 'contracture', ru: 'контрактура', tr: 'kontraktür', 'sr-Latn': 'kontraktura' },
+    definition: 'Dauerhafte Bewegungseinschränkung eines Gelenks durch Verkürzung von Muskeln, Sehnen oder Kapsel.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Sturzprophylaxe',
+    variants: { de: 'Sturzprophylaxe', en: 'fall prevention', ru: 'профилактика падений', tr: 'düşme önleme', 'sr-Latn': 'prevencija padova' },
+    definition: 'Einschätzung des Sturzrisikos und Maßnahmen, die Stürze verhindern.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Pneumonieprophylaxe',
+    variants: { de: 'Pneumonieprophylaxe', en: 'pneumonia prevention', ru: 'профилактика пневмонии', tr: 'pnömoni önleme', 'sr-Latn': 'prevencija pneumonije' },
+    definition: 'Maßnahmen wie Atemübungen und Oberkörperhochlagerung, die einer Lungenentzündung vorbeugen.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Thromboseprophylaxe',
+    variants: { de: 'Thromboseprophylaxe', en: 'thrombosis prevention', ru: 'профилактика тромбоза', tr: 'tromboz önleme', 'sr-Latn': 'prevencija tromboze' },
+    definition: 'Maßnahmen wie Kompressionsstrümpfe, Bewegung und Heparin gegen Blutgerinnsel in den Venen.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Vitalzeichen',
+    variants: { de: 'Vitalzeichen', en: 'vital signs', ru: 'жизненные показатели', tr: 'yaşam bulguları', 'sr-Latn': 'vitalni znaci' },
+    definition: 'Puls, Blutdruck, Atmung, Temperatur und Bewusstsein.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Händedesinfektion',
+    variants: { de: 'Händedesinfektion', en: 'hand disinfection', ru: 'дезинфекция рук', tr: 'el dezenfeksiyonu', 'sr-Latn': 'dezinfekcija ruku' },
+    definition: 'Einreiben der Hände mit alkoholischem Desinfektionsmittel; wichtigste Maßnahme gegen Infektionsübertragung.',
+    topic: 'Hygiene',
+  },
+  {
+    term: 'nosokomiale Infektion',
+    variants: { de: 'nosokomiale Infektion', en: 'hospital-acquired infection', ru: 'внутрибольничная инфекция', tr: 'hastane enfeksiyonu', 'sr-Latn': 'bolnička infekcija' },
+    definition: 'Infektion, die im Zusammenhang mit einer medizinischen Behandlung erworben wurde.',
+    topic: 'Hygiene',
+  },
+  {
+    term: 'Asepsis',
+    variants: { de: 'Asepsis', en: 'asepsis', ru: 'асептика', tr: 'asepsi', 'sr-Latn': 'asepsa' },
+    definition: 'Keimfreiheit; alle Maßnahmen, die das Eindringen von Keimen verhindern.',
+    topic: 'Hygiene',
+  },
+  {
+    term: 'Isolierung',
+    variants: { de: 'Isolierung', en: 'isolation', ru: 'изоляция', tr: 'izolasyon', 'sr-Latn': 'izolacija' },
+    definition: 'Räumliche Trennung infektiöser oder besonders gefährdeter Patienten.',
+    topic: 'Hygiene',
+  },
+  {
+    term: 'Herzinsuffizienz',
+    variants: { de: 'Herzinsuffizienz', en: 'heart failure', ru: 'сердечная недостаточность', tr: 'kalp yetmezliği', 'sr-Latn': 'srčana insuficijencija' },
+    definition: 'Das Herz kann den Körper nicht ausreichend mit Blut versorgen.',
+    topic: 'Anatomie',
+  },
+  {
+    term: 'Herzkammer',
+    variants: { de: 'Herzkammer', en: 'ventricle', ru: 'желудочек сердца', tr: 'karıncık', 'sr-Latn': 'srčana komora' },
+    definition: 'Einer der beiden muskulären Hohlräume des Herzens, die Blut in den Kreislauf pumpen.',
+    topic: 'Anatomie',
+  },
+  {
+    term: 'Vorhof',
+    variants: { de: 'Vorhof', en: 'atrium', ru: 'предсердие', tr: 'kulakçık', 'sr-Latn': 'pretkomora' },
+    definition: 'Herzhöhle, die das Blut aus den Venen aufnimmt und an die Kammer weitergibt.',
+    topic: 'Anatomie',
+  },
+  {
+    term: 'Dysphagie',
+    variants: { de: 'Dysphagie', en: 'dysphagia', ru: 'дисфагия', tr: 'disfaji', 'sr-Latn': 'disfagija' },
+    definition: 'Schluckstörung; erhöht das Risiko einer Aspiration.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Aspiration',
+    variants: { de: 'Aspiration', en: 'aspiration', ru: 'аспирация', tr: 'aspirasyon', 'sr-Latn': 'aspiracija' },
+    definition: 'Eindringen von Nahrung, Flüssigkeit oder Speichel in die Atemwege.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Inkontinenz',
+    variants: { de: 'Inkontinenz', en: 'incontinence', ru: 'недержание', tr: 'inkontinans', 'sr-Latn': 'inkontinencija' },
+    definition: 'Unvermögen, Urin oder Stuhl willkürlich zurückzuhalten.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Exsikkose',
+    variants: { de: 'Exsikkose', en: 'dehydration', ru: 'эксикоз', tr: 'dehidratasyon', 'sr-Latn': 'dehidratacija' },
+    definition: 'Austrocknung des Körpers durch Flüssigkeitsmangel; bei älteren Menschen häufig.',
+    topic: 'Pflegepraxis',
+  },
+  {
+    term: 'Applikation',
+    variants: { de: 'Applikation', en: 'administration', ru: 'введение препарата', tr: 'uygulama', 'sr-Latn': 'primena' },
+    definition: 'Verabreichung eines Arzneimittels, z. B. oral, subkutan oder intravenös.',
+    topic: 'Medikamente',
+  },
+  {
+    term: 'subkutan',
+    variants: { de: 'subkutan', en: 'subcutaneous', ru: 'подкожно', tr: 'deri altı', 'sr-Latn': 'potkožno' },
+    definition: 'In das Unterhautfettgewebe, z. B. bei Insulin- oder Heparininjektionen.',
+    topic: 'Medikamente',
+  },
+  {
+    term: 'Antikoagulanzien',
+    variants: { de: 'Antikoagulanzien', en: 'anticoagulants', ru: 'антикоагулянты', tr: 'antikoagülanlar', 'sr-Latn': 'antikoagulansi' },
+    definition: 'Gerinnungshemmende Arzneimittel; Blutungszeichen müssen beobachtet werden.',
+    topic: 'Medikamente',
+  },
+  {
+    term: 'Schweigepflicht',
+    variants: { de: 'Schweigepflicht', en: 'duty of confidentiality', ru: 'врачебная тайна', tr: 'sır saklama yükümlülüğü', 'sr-Latn': 'obaveza čuvanja tajne' },
+    definition: 'Gesetzliche Pflicht, Informationen über Patienten nicht an Unbefugte weiterzugeben.',
+    topic: 'Recht/Ethik',
+  },
+  {
+    term: 'Patientenverfügung',
+    variants: { de: 'Patientenverfügung', en: 'advance directive', ru: 'распоряжение пациента', tr: 'hasta vasiyeti', 'sr-Latn': 'anticipirane smernice' },
+    definition: 'Schriftliche Festlegung, welche Behandlungen ein Mensch wünscht oder ablehnt, falls er nicht mehr entscheiden kann.',
+    topic: 'Recht/Ethik',
+  },
+  {
+    term: 'freiheitsentziehende Maßnahme',
+    variants: { de: 'freiheitsentziehende Maßnahme', en: 'physical restraint', ru: 'меры ограничения свободы', tr: 'özgürlüğü kısıtlayıcı önlem', 'sr-Latn': 'mera ograničenja slobode' },
+    definition: 'Einschränkung der Bewegungsfreiheit, z. B. Bettgitter; nur mit Einwilligung oder richterlicher Genehmigung.',
+    topic: 'Recht/Ethik',
+  },
+];
@@ -0,0 +1,223 @@
+/**
+ * Exam-date-aware study planner
+ *
+ * Pure functions only. Takes the user's flashcards (due and new), quiz
+ * coverage per topic and an optional exam date, and produces a day-by-day
+ * plan with card quotas. Intervals are compressed so that every card is
+ * reviewed at least EXAM_MIN_REVIEWS times before the exam.
+ *
+ * Without an exam date the plan simply covers the next PLAN_DEFAULT_DAYS
+ * days with the regular SM-2 intervals.
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { Topic } from './types';
+import { TOPICS, EXAM_MIN_REVIEWS, PLAN_DEFAULT_DAYS, PLAN_DEFAULT_NEW_PER_DAY } from './constants';
+import {
+  ReviewGrade,
+  REVIEW_GRADES,
+  SchedulingState,
+  ScheduleResult,
+  nextInterval,
+  scheduleReview,
+  toSchedulingState,
+} from './scheduler';
+
+export interface PlannerCard extends Partial<SchedulingState> {
+  id: string;
+  due_date: string | null;
+  topic?: Topic | string | null;
+}
+
+export interface TopicCoverage {
+  topic: Topic;
+  materials: number;
+  quizzedMaterials: number; // materials with at least one quiz question
+}
+
+export interface PlanDay {
+  date: string; // yyyy-MM-dd
+  reviews: number; // cards already in rotation
+  newCards: number; // cards seen for the first time
+  total: number;
+  quizTopic: Topic | null; // weakest-covered topic to practise with a quiz
+}
+
+export interface StudyPlan {
+  examDate: string | null;
+  daysLeft: number | null; // calendar days until the exam (0 = exam is today)
+  days: PlanDay[];
+  newCardsPerDay: number;
+  dueToday: number;
+  newTotal: number;
+}
+
+const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * A card that was never answered (interval 0, stage 0) counts as new.
+ */
+export function isNewCard(card: Partial<SchedulingState>): boolean {
+  return (card.interval_days ?? 0) === 0 && (card.stage ?? 0) === 0;
+}
+
+/**
+ * Limit an interval so that the reviews a card still needs before the exam
+ * fit into the remaining days. `stage` is the card's stage *after* the review
+ * being scheduled; stage counts consecutive successful reviews, so a lapse
+ * resets the requirement.
+ */
+export function capIntervalForExam(
+  interval: number,
+  stage: number,
+  daysUntilExam: number,
+  minReviews: number = EXAM_MIN_REVIEWS
+): number {
+  const needed = minReviews - stage;
+  // Reviews must happen before exam day, i.e. on days 1 .. daysUntilExam - 1
+  const available = daysUntilExam - 1;
+  if (needed <= 0 || available < 1) return interval;
+  return Math.max(1, Math.min(interval, Math.floor(available / needed)));
+}
+
+/**
+ * Apply the exam cap to a scheduling result from `scheduleReview`.
+ * Returns the result unchanged when there is no upcoming exam.
+ */
+export function applyExamDate(result: ScheduleResult, examDate: string | null, now: Date = new Date()): ScheduleResult {
+  if (!examDate) return result;
+  const daysUntilExam = differenceInCalendarDays(parseISO(examDate), now);
+  if (daysUntilExam <= 0) return result;
+
+  const interval = capIntervalForExam(result.interval_days, result.stage, daysUntilExam);
+  if (interval === result.interval_days) return result;
+
+  return {
+    ...result,
+    interval_days: interval,
+    due_date: dayKey(addDays(now, interval)),
+  };
+}
+
+/**
+ * Like `previewIntervals`, but with the exam cap applied (for button labels).
+ */
+export function previewExamIntervals(
+  state: SchedulingState,
+  examDate: string | null,
+  now: Date = new Date()
+): Record<ReviewGrade, number> {
+  return Object.fromEntries(
+    REVIEW_GRADES.map((grade) => [grade, applyExamDate(scheduleReview(state, grade, now), examDate, now).interval_days])
+  ) as Record<ReviewGrade, number>;
+}
+
+/**
+ * Order topics by quiz coverage, weakest first. Topics without materials
+ * are left out.
+ */
+export function rankTopicsByCoverage(coverage: TopicCoverage[]): Topic[] {
+  return coverage
+    .filter((entry) => entry.materials > 0)
+    .map((entry) => ({ topic: entry.topic, ratio: entry.quizzedMaterials / entry.materials }))
+    .sort((a, b) => a.ratio - b.ratio || TOPICS.indexOf(a.topic) - TOPICS.indexOf(b.topic))
+    .map((entry) => entry.topic);
+}
+
+/**
+ * Build a day-by-day study plan from today until the day before the exam.
+ */
+export function buildStudyPlan(
+  cards: PlannerCard[],
+  coverage: TopicCoverage[],
+  examDate: string | null,
+  now: Date = new Date()
+): StudyPlan {
+  const today = startOfDay(now);
+  const daysLeft = examDate ? differenceInCalendarDays(parseISO(examDate), today) : null;
+  const hasExam = daysLeft !== null && daysLeft > 0;
+  const horizon = hasExam ? daysLeft : PLAN_DEFAULT_DAYS;
+
+  const reviews = new Array<number>(horizon).fill(0);
+  const newCards = new Array<number>(horizon).fill(0);
+
+  // Walk a card forward through the plan assuming "good" answers
+  const simulate = (state: SchedulingState, startDay: number) => {
+    let current = state;
+    let day = startDay;
+    while (day < horizon) {
+      reviews[day]++;
+      let interval = nextInterval(current, 'good');
+      const stage = current.stage + 1;
+      if (hasExam) interval = capIntervalForExam(interval, stage, daysLeft - day);
+      current = { ...current, stage, interval_days: interval };
+      day += interval;
+    }
+  };
+
+  const todayKey = dayKey(today);
+  const fresh: PlannerCard[] = [];
+  let dueToday = 0;
+
+  for (const card of cards) {
+    const state = toSchedulingState(card);
+    if (isNewCard(state)) {
+      fresh.push(card);
+      continue;
+    }
+    const due = card.due_date ?? todayKey;
+    let startDay = due <= todayKey ? 0 : differenceInCalendarDays(parseISO(due), today);
+    if (due <= todayKey) dueToday++;
+    // Pull reviews that would land after the exam forward so the card still
+    // gets its minimum number of reviews
+    if (hasExam) {
+      const latest = Math.max(0, horizon - Math.max(1, EXAM_MIN_REVIEWS - state.stage));
+      startDay = Math.min(startDay, latest);
+    }
+    simulate(state, startDay);
+  }
+
+  // New cards: spread evenly over the days that still leave room for the
+  // minimum number of reviews before the exam
+  const introWindow = hasExam ? Math.max(1, horizon - EXAM_MIN_REVIEWS + 1) : horizon;
+  const newCardsPerDay = hasExam
+    ? Math.ceil(fresh.length / introWindow)
+    : Math.min(fresh.length, PLAN_DEFAULT_NEW_PER_DAY);
+
+  fresh.forEach((card, index) => {
+    if (newCardsPerDay === 0) return;
+    const day = Math.floor(index / newCardsPerDay);
+    if (day >= horizon) return;
+    newCards[day]++;
+    const state = toSchedulingState(card);
+    // The first answer counts as the first review; simulate from the next one
+    let interval = nextInterval(state, 'good');
+    if (hasExam) interval = capIntervalForExam(interval, 1, daysLeft - day);
+    simulate({ ...state, stage: 1, interval_days: interval }, day + interval);
+  });
+
+  const weakTopics = rankTopicsByCoverage(coverage).filter((topic) => {
+    const entry = coverage.find((c) => c.topic === topic);
+    return entry && entry.quizzedMaterials < entry.materials;
+  });
+
+  const days: PlanDay[] = [];
+  for (let i = 0; i < horizon; i++) {
+    days.push({
+      date: dayKey(addDays(today, i)),
+      reviews: reviews[i],
+      newCards: newCards[i],
+      total: reviews[i] + newCards[i],
+      quizTopic: weakTopics.length > 0 ? weakTopics[i % weakTopics.length] : null,
+    });
+  }
+
+  return {
+    examDate: hasExam ? examDate : null,
+    daysLeft: hasExam ? daysLeft : null,
+    days,
+    newCardsPerDay,
+    dueToday,
+    newTotal: fresh.length,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Quiz attempts
+ *
+ * Every submitted quiz is saved with its score and the answer to every
+ * question. The answers give the error rate per question and the questions
+ * to retry: those answered wrongly the last time they were asked. Mock exams
+ * (see lib/mockExam.ts) are saved the same way without a material.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { SupportedLanguage } from './languages';
+import { fetchAllRows } from './pagination';
+
+export type QuizMode = 'full' | 'retry' | 'exam';
+
+export interface QuizAnswerRecord {
+  question_id: string;
+  selected_index: number | null;
+  selected_indices: number[] | null; // multiple and ordering questions (see lib/quizQuestions.ts)
+  is_correct: boolean;
+}
+
+export interface QuizAttempt {
+  id: string;
+  mode: QuizMode;
+  correct_count: number;
+  total_count: number;
+  completed_at: string;
+}
+
+export interface AnswerRow {
+  question_id: string;
+  is_correct: boolean;
+  answered_at: string;
+}
+
+export interface QuestionStats {
+  answered: number;
+  wrong: number;
+  errorRate: number; // 0..1
+  lastCorrect: boolean;
+}
+
+const HISTORY_LIMIT = 20;
+// Question ids per stats request, to keep the request URL short
+const STATS_CHUNK_SIZE = 100;
+
+/**
+ * Answer counts per question. Rows may come in any order; the latest answer
+ * decides `lastCorrect`.
+ */
+export function questionStats(rows: AnswerRow[]): Record<string, QuestionStats> {
+  const stats: Record<string, QuestionStats> = {};
+  const lastAnsweredAt: Record<string, string> = {};
+
+  for (const row of rows) {
+    const entry = (stats[row.question_id] ??= { answered: 0, wrong: 0, errorRate: 0, lastCorrect: true });
+    entry.answered++;
+    if (!row.is_correct) entry.wrong++;
+    entry.errorRate = entry.wrong / entry.answered;
+
+    const last = lastAnsweredAt[row.question_id];
+    if (last === undefined || row.answered_at >= last) {
+      lastAnsweredAt[row.question_id] = row.answered_at;
+      entry.lastCorrect = row.is_correct;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Ids of the questions whose latest answer was wrong
+ */
+export function questionsToRetry(stats: Record<string, QuestionStats>): Set<string> {
+  return new Set(Object.entries(stats).filter(([, entry]) => !entry.lastCorrect).map(([id]) => id));
+}
+
+export async function saveQuizAttempt(
+  userId: string,
+  materialId: string | null, // null for mock exams
+  language: SupportedLanguage,
+  mode: QuizMode,
+  answers: QuizAnswerRecord[],
+  durationSeconds: number | null = null
+): Promise<void> {
+  const { data: attempt, error } = await supabase
+    .from('quiz_attempts')
+    .insert({
+      user_id: userId,
+      material_id: materialId,
+      language,
+      mode,
+      correct_count: answers.filter((answer) => answer.is_correct).length,
+      total_count: answers.length,
+      duration_seconds: durationSeconds,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const { error: answersError } = await supabase
+    .from('quiz_attempt_answers')
+    .insert(answers.map((answer) => ({ ...answer, attempt_id: attempt.id, user_id: userId })));
+
+  if (answersError) {
+    // Don't keep a score without its answers
+    await supabase.from('quiz_attempts').delete().eq('id', attempt.id);
+    throw answersError;
+  }
+}
+
+/**
+ * The latest attempts at a material's quiz in a language, newest first
+ */
+export async function loadQuizHistory(materialId: string, language: SupportedLanguage): Promise<QuizAttempt[]> {
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .select('id, mode, correct_count, total_count, completed_at')
+    .eq('material_id', materialId)
+    .eq('language', language)
+    .order('completed_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+  if (error) throw error;
+  return (data ?? []) as QuizAttempt[];
+}
+
+/**
+ * Stats of the given questions from every answer given to them
+ */
+export async function loadQuestionStats(questionIds: string[]): Promise<Record<string, QuestionStats>> {
+  const rows: AnswerRow[] = [];
+  for (let i = 0; i < questionIds.length; i += STATS_CHUNK_SIZE) {
+    const chunk = questionIds.slice(i, i + STATS_CHUNK_SIZE);
+    rows.push(
+      ...(await fetchAllRows((from, to) =>
+        supabase
+          .from('quiz_attempt_answers')
+          .select('question_id, is_correct, answered_at')
+          .in('question_id', chunk)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ))
+    );
+  }
+  return questionStats(rows);
+}
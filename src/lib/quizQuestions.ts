@@ -0,0 +1,156 @@
+/**
+ * Quiz question types
+ *
+ * - single: one correct option (`correct_index`)
+ * - true_false: a statement with the options "true" and "false" in the quiz
+ *   language, scored like single
+ * - multiple: every correct option has to be chosen (`correct_indices`)
+ * - ordering: the options put in order (`correct_indices` lists the option
+ *   indices in the correct order)
+ *
+ * Questions of a clinical case share the vignette in `case_text`. An answer
+ * only counts as correct when it is right as a whole; there is no partial
+ * credit, as in the written exams.
+ */
+
+import { QuizAnswerRecord } from './quizAttempts';
+
+export type QuizQuestionType = 'single' | 'multiple' | 'true_false' | 'ordering';
+
+// The chosen option (single, true_false), the chosen options (multiple) or
+// the option indices in the chosen order (ordering)
+export type QuizAnswer = number | number[];
+
+export interface QuizQuestionFields {
+  id: string;
+  question_type: QuizQuestionType;
+  options: string[];
+  correct_index: number | null;
+  correct_indices: number[] | null;
+  case_text: string | null;
+}
+
+export interface CaseGroup<T extends QuizQuestionFields> {
+  caseText: string | null;
+  questions: T[];
+}
+
+const fromJson = (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+/**
+ * Normalize a quiz_questions row: JSON columns may come back as strings,
+ * and rows from before the question types have no type
+ */
+export function parseQuizQuestion<
+  T extends { options: unknown; question_type?: string; correct_indices?: unknown; case_text?: string | null },
+>(row: T) {
+  return {
+    ...row,
+    question_type: (row.question_type ?? 'single') as QuizQuestionType,
+    options: fromJson(row.options) as string[],
+    correct_indices: (fromJson(row.correct_indices) ?? null) as number[] | null,
+    case_text: row.case_text ?? null,
+  };
+}
+
+export function isAnswered(question: QuizQuestionFields, answer: QuizAnswer | null | undefined): boolean {
+  if (answer === null || answer === undefined) return false;
+  return question.question_type === 'multiple' ? Array.isArray(answer) && answer.length > 0 : true;
+}
+
+export function isAnswerCorrect(question: QuizQuestionFields, answer: QuizAnswer | null | undefined): boolean {
+  if (answer === null || answer === undefined) return false;
+
+  switch (question.question_type) {
+    case 'multiple': {
+      if (!Array.isArray(answer)) return false;
+      const chosen = [...new Set(answer)].sort((a, b) => a - b);
+      const correct = [...(question.correct_indices ?? [])].sort((a, b) => a - b);
+      return chosen.length === correct.length && chosen.every((index, i) => index === correct[i]);
+    }
+    case 'ordering': {
+      const correct = question.correct_indices ?? [];
+      return Array.isArray(answer) && answer.length === correct.length && answer.every((index, i) => index === correct[i]);
+    }
+    default:
+      return answer === question.correct_index;
+  }
+}
+
+/**
+ * Add or remove an option from a multiple-choice answer
+ */
+export function toggleOption(answer: QuizAnswer | null | undefined, index: number): number[] {
+  const chosen = Array.isArray(answer) ? answer : [];
+  return chosen.includes(index)
+    ? chosen.filter((i) => i !== index)
+    : [...chosen, index].sort((a, b) => a - b);
+}
+
+/**
+ * Move an item of an ordering answer one place up (-1) or down (+1)
+ */
+export function moveItem(order: number[], position: number, direction: -1 | 1): number[] {
+  const target = position + direction;
+  if (target < 0 || target >= order.length) return order;
+  const moved = [...order];
+  [moved[position], moved[target]] = [moved[target], moved[position]];
+  return moved;
+}
+
+/**
+ * The order an ordering question is shown in before it is answered:
+ * shuffled, the same on every render, and never already correct
+ */
+export function initialOrder(question: QuizQuestionFields): number[] {
+  const order = question.options.map((_, i) => i);
+  if (order.length < 2) return order;
+
+  // FNV-1a hash of the id seeds a linear congruential generator
+  let seed = 2166136261;
+  for (let i = 0; i < question.id.length; i++) {
+    seed = Math.imul(seed ^ question.id.charCodeAt(i), 16777619) >>> 0;
+  }
+  for (let i = order.length - 1; i > 0; i--) {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    const j = seed % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  return isAnswerCorrect(question, order) ? [...order.slice(1), order[0]] : order;
+}
+
+export function toAnswerRecord(question: QuizQuestionFields, answer: QuizAnswer | null | undefined): QuizAnswerRecord {
+  return {
+    question_id: question.id,
+    selected_index: typeof answer === 'number' ? answer : null,
+    selected_indices: Array.isArray(answer) ? answer : null,
+    is_correct: isAnswerCorrect(question, answer),
+  };
+}
+
+/**
+ * Questions of the same case next to each other, in the order the cases
+ * first appear; questions without a case form a group of their own
+ */
+export function groupByCase<T extends QuizQuestionFields>(questions: T[]): CaseGroup<T>[] {
+  const groups: CaseGroup<T>[] = [];
+  const byCase = new Map<string, CaseGroup<T>>();
+
+  for (const question of questions) {
+    if (!question.case_text) {
+      groups.push({ caseText: null, questions: [question] });
+      continue;
+    }
+    const group = byCase.get(question.case_text);
+    if (group) {
+      group.questions.push(question);
+    } else {
+      const created = { caseText: question.case_text, questions: [question] };
+      byCase.set(question.case_text, created);
+      groups.push(created);
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,176 @@
+/**
+ * Spaced repetition scheduling (SM-2 with four-button grading)
+ *
+ * Pure functions only - no database access. `Review` feeds the current
+ * scheduling columns of a flashcard in and writes the result back.
+ *
+ * Grades:
+ *   again - forgot the card: lapse, interval resets to 1 day
+ *   hard  - recalled with effort: small interval growth, ease decreases
+ *   good  - normal recall: interval grows by the ease factor
+ *   easy  - effortless recall: bigger jump, ease increases
+ */
+
+import { addDays, format } from 'date-fns';
+import {
+  SM2_INITIAL_EASE,
+  SM2_MIN_EASE,
+  SM2_MAX_INTERVAL_DAYS,
+} from './constants';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface SchedulingState {
+  stage: number; // consecutive successful reviews (0 = new or lapsed)
+  ease_factor: number;
+  interval_days: number;
+  lapses: number;
+}
+
+export interface ScheduleResult extends SchedulingState {
+  due_date: string; // yyyy-MM-dd
+}
+
+const EASE_DELTA: Record<ReviewGrade, number> = {
+  again: -0.2,
+  hard: -0.15,
+  good: 0,
+  easy: 0.15,
+};
+
+const HARD_INTERVAL_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+/**
+ * Build a scheduling state from a (possibly partial) database row.
+ * Missing columns fall back to the defaults of a brand new card.
+ */
+export function toSchedulingState(card: Partial<SchedulingState> & { stage?: number | null }): SchedulingState {
+  return {
+    stage: Math.max(0, card.stage ?? 0),
+    ease_factor: card.ease_factor ?? SM2_INITIAL_EASE,
+    interval_days: Math.max(0, card.interval_days ?? 0),
+    lapses: card.lapses ?? 0,
+  };
+}
+
+// Schedule of the reverse direction of a bilingual card (answer side first)
+export interface ReverseSchedulingColumns {
+  reverse_stage: number;
+  reverse_ease_factor: number;
+  reverse_interval_days: number;
+  reverse_lapses: number;
+  reverse_due_date: string;
+}
+
+export function toReverseSchedulingState(card: Partial<ReverseSchedulingColumns>): SchedulingState {
+  return toSchedulingState({
+    stage: card.reverse_stage,
+    ease_factor: card.reverse_ease_factor,
+    interval_days: card.reverse_interval_days,
+    lapses: card.reverse_lapses,
+  });
+}
+
+export function toReverseColumns(result: ScheduleResult): ReverseSchedulingColumns {
+  return {
+    reverse_stage: result.stage,
+    reverse_ease_factor: result.ease_factor,
+    reverse_interval_days: result.interval_days,
+    reverse_lapses: result.lapses,
+    reverse_due_date: result.due_date,
+  };
+}
+
+function clampEase(ease: number): number {
+  return Math.max(SM2_MIN_EASE, Math.round(ease * 100) / 100);
+}
+
+function clampInterval(days: number): number {
+  return Math.min(SM2_MAX_INTERVAL_DAYS, Math.max(1, Math.round(days)));
+}
+
+/**
+ * Compute the next interval (in days) for a grade without touching dates.
+ */
+export function nextInterval(state: SchedulingState, grade: ReviewGrade): number {
+  const ease = clampEase(state.ease_factor + EASE_DELTA[grade]);
+  const previous = state.interval_days;
+
+  if (grade === 'again') return 1;
+
+  // First successful reviews follow the classic SM-2 steps (1 day, 6 days)
+  if (state.stage === 0) {
+    if (grade === 'easy') return 4;
+    return 1;
+  }
+
+  if (state.stage === 1 && grade !== 'hard') {
+    return clampInterval(grade === 'easy' ? 6 * EASY_BONUS : 6);
+  }
+
+  let interval: number;
+  switch (grade) {
+    case 'hard':
+      interval = previous * HARD_INTERVAL_MULTIPLIER;
+      break;
+    case 'easy':
+      interval = previous * ease * EASY_BONUS;
+      break;
+    default:
+      interval = previous * ease;
+  }
+
+  // Always move forward by at least one day after a successful review
+  return clampInterval(Math.max(previous + 1, interval));
+}
+
+/**
+ * Apply a grade to a card and return its new scheduling state and due date.
+ */
+export function scheduleReview(
+  state: SchedulingState,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ScheduleResult {
+  const interval = nextInterval(state, grade);
+  const ease = clampEase(state.ease_factor + EASE_DELTA[grade]);
+
+  const isLapse = grade === 'again';
+
+  return {
+    stage: isLapse ? 0 : state.stage + 1,
+    ease_factor: ease,
+    interval_days: interval,
+    // Forgetting a brand new card is not a lapse - it was never learned
+    lapses: isLapse && state.stage > 0 ? state.lapses + 1 : state.lapses,
+    due_date: format(addDays(now, interval), 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * Preview the interval each grade would produce (for button labels).
+ */
+export function previewIntervals(state: SchedulingState): Record<ReviewGrade, number> {
+  return {
+    again: nextInterval(state, 'again'),
+    hard: nextInterval(state, 'hard'),
+    good: nextInterval(state, 'good'),
+    easy: nextInterval(state, 'easy'),
+  };
+}
+
+export type IntervalUnit = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Interval in the largest fitting unit for a short label, e.g. 3 weeks or
+ * 1.5 years; the unit is translated by the caller (review.interval.*)
+ */
+export function splitInterval(days: number): { value: number; unit: IntervalUnit } {
+  if (days < 14) return { value: days, unit: 'day' };
+  if (days < 60) return { value: Math.round(days / 7), unit: 'week' };
+  if (days < 365) return { value: Math.round(days / 30), unit: 'month' };
+  return { value: Math.round((days / 365) * 10) / 10, unit: 'year' };
+}
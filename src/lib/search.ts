@@ -0,0 +1,114 @@
+/**
+ * Server-side material search
+ *
+ * Thin wrapper over the search_materials RPC (Postgres full-text search over
+ * material text, every language version, summaries and flashcards) plus helpers
+ * for rendering its highlighted snippets.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { SEARCH_PAGE_SIZE } from './constants';
+import { Material, PhotoData } from './types';
+import { MATERIAL_VERSION_COLUMNS, MaterialVersionRow } from './translations';
+
+export type SearchSource = 'material' | 'version' | 'summary' | 'flashcard';
+
+export interface SearchResult {
+  material: Material;
+  rank: number;
+  snippet: string | null; // matches wrapped in <mark>…</mark>
+  matchedSource: SearchSource | null;
+  matchedLanguage: string | null;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  total: number;
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export async function searchMaterials(params: {
+  query: string;
+  topic?: string | null;
+  offset?: number;
+}): Promise<SearchPage> {
+  const { data, error } = await supabase.rpc('search_materials', {
+    p_query: params.query,
+    p_topic: params.topic ?? undefined,
+    p_limit: SEARCH_PAGE_SIZE,
+    p_offset: params.offset ?? 0,
+  });
+
+  if (error) throw error;
+
+  const rows = data ?? [];
+
+  // Language versions for the cards' localized title and text
+  const versionsByMaterial = new Map<string, MaterialVersionRow[]>();
+  if (rows.length > 0) {
+    const { data: versions, error: versionsError } = await supabase
+      .from('material_versions')
+      .select(`material_id, ${MATERIAL_VERSION_COLUMNS}`)
+      .in('material_id', rows.map((row) => row.id));
+
+    if (versionsError) throw versionsError;
+
+    for (const version of versions ?? []) {
+      const list = versionsByMaterial.get(version.material_id) ?? [];
+      list.push(version);
+      versionsByMaterial.set(version.material_id, list);
+    }
+  }
+
+  return {
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    results: rows.map((row) => ({
+      material: {
+        id: row.id,
+        user_id: row.user_id,
+        title: row.title,
+        topic: row.topic,
+        tags: row.tags,
+        ocr_text: row.ocr_text,
+        notes: row.notes,
+        source_language: row.source_language,
+        images: row.images,
+        photos: row.photos as unknown as PhotoData[] | null,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        material_versions: versionsByMaterial.get(row.id) ?? [],
+      },
+      rank: row.rank,
+      snippet: row.snippet,
+      matchedSource: row.matched_source as SearchSource | null,
+      matchedLanguage: row.matched_language,
+    })),
+  };
+}
+
+/**
+ * Split a ts_headline snippet into plain and highlighted parts, so it can be
+ * rendered as text nodes instead of HTML.
+ */
+export function splitHighlights(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  const pattern = /<mark>(.*?)<\/mark>/gs;
+  let last = 0;
+
+  for (const match of snippet.matchAll(pattern)) {
+    if (match.index > last) {
+      segments.push({ text: snippet.slice(last, match.index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    last = match.index + match[0].length;
+  }
+
+  if (last < snippet.length) {
+    segments.push({ text: snippet.slice(last), highlighted: false });
+  }
+  return segments;
+}
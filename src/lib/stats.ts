@@ -0,0 +1,140 @@
+/**
+ * Retention analytics helpers
+ *
+ * Pure aggregation over review_logs rows and flashcard due dates.
+ * The Stats page fetches the raw rows and feeds them through these.
+ */
+
+import { addDays, format, parseISO, startOfDay, subDays } from 'date-fns';
+import { Topic } from './types';
+import { ReviewGrade } from './scheduler';
+
+export interface ReviewLog {
+  id: string;
+  flashcard_id: string;
+  grade: ReviewGrade;
+  time_to_answer_ms: number | null;
+  previous_interval: number;
+  new_interval: number;
+  reviewed_at: string;
+}
+
+export interface ReviewLogWithTopic extends ReviewLog {
+  topic: Topic | string | null;
+}
+
+export interface DailyReviews {
+  date: string; // yyyy-MM-dd
+  reviews: number;
+  lapses: number;
+}
+
+export interface TopicRetention {
+  topic: string;
+  reviews: number;
+  retained: number;
+  rate: number; // 0..100
+}
+
+export interface DueForecastDay {
+  date: string; // yyyy-MM-dd
+  due: number;
+}
+
+const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Count reviews per day for the last `days` days (oldest first, today last).
+ */
+export function dailyReviewCounts(logs: ReviewLog[], days: number, now: Date = new Date()): DailyReviews[] {
+  const today = startOfDay(now);
+  const buckets = new Map<string, DailyReviews>();
+
+  for (let i = days - 1; i >= 0; i--) {
+    const key = dayKey(subDays(today, i));
+    buckets.set(key, { date: key, reviews: 0, lapses: 0 });
+  }
+
+  for (const log of logs) {
+    const bucket = buckets.get(dayKey(parseISO(log.reviewed_at)));
+    if (!bucket) continue;
+    bucket.reviews++;
+    if (log.grade === 'again') bucket.lapses++;
+  }
+
+  return Array.from(buckets.values());
+}
+
+/**
+ * Whether a review counts towards retention.
+ * First-time reviews of new cards (no previous interval) measure learning,
+ * not retention, so they are left out.
+ */
+export function isRetentionReview(log: ReviewLog): boolean {
+  return log.previous_interval > 0;
+}
+
+/**
+ * Retention rate per topic: share of mature reviews not graded "again".
+ * Topics are returned in the given order; topics without reviews are skipped.
+ */
+export function retentionByTopic(logs: ReviewLogWithTopic[], topics: readonly string[]): TopicRetention[] {
+  const byTopic = new Map<string, { reviews: number; retained: number }>();
+
+  for (const log of logs) {
+    if (!isRetentionReview(log)) continue;
+    const topic = log.topic && topics.includes(log.topic) ? log.topic : 'Sonstiges';
+    const entry = byTopic.get(topic) ?? { reviews: 0, retained: 0 };
+    entry.reviews++;
+    if (log.grade !== 'again') entry.retained++;
+    byTopic.set(topic, entry);
+  }
+
+  return topics
+    .filter((topic) => byTopic.has(topic))
+    .map((topic) => {
+      const { reviews, retained } = byTopic.get(topic)!;
+      return {
+        topic,
+        reviews,
+        retained,
+        rate: Math.round((retained / reviews) * 100),
+      };
+    });
+}
+
+/**
+ * Overall retention rate (0..100) or null when there are no mature reviews yet.
+ */
+export function overallRetention(logs: ReviewLog[]): number | null {
+  const mature = logs.filter(isRetentionReview);
+  if (mature.length === 0) return null;
+  const retained = mature.filter((log) => log.grade !== 'again').length;
+  return Math.round((retained / mature.length) * 100);
+}
+
+/**
+ * Number of cards due on each of the next `days` days (today first).
+ * Overdue cards are counted as due today.
+ */
+export function dueForecast(cards: Array<{ due_date: string | null }>, days: number, now: Date = new Date()): DueForecastDay[] {
+  const today = startOfDay(now);
+  const todayKey = dayKey(today);
+  const forecast: DueForecastDay[] = [];
+  const index = new Map<string, DueForecastDay>();
+
+  for (let i = 0; i < days; i++) {
+    const entry = { date: dayKey(addDays(today, i)), due: 0 };
+    forecast.push(entry);
+    index.set(entry.date, entry);
+  }
+
+  for (const card of cards) {
+    if (!card.due_date) continue;
+    const key = card.due_date < todayKey ? todayKey : card.due_date;
+    const entry = index.get(key);
+    if (entry) entry.due++;
+  }
+
+  return forecast;
+}
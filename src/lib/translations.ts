@@ -1,25 +1,36 @@
 /**
  * Translation storage utilities
  * 
- * Translations are stored in the `notes` field of materials table as JSON:
+ * Every language version of a material is a row in `material_versions`
+ * (one per material and language); the language the material was written in
+ * is `materials.source_language`. In the app they are combined into I18nData:
  * {
- *   "i18n": {
- *     "sourceLanguage": "ru|de|en",
- *     "versions": {
- *       "ru": { "title": "...", "text": "...", "isManual": true|false },
- *       "de": { "title": "...", "text": "...", "isManual": true|false },
- *       "en": { "title": "...", "text": "...", "isManual": true|false }
- *     }
+ *   sourceLanguage: "ru|de|en|tr|sr-Latn",
+ *   versions: {
+ *     "ru": { title: "...", text: "...", isManual: true|false },
+ *     "de": { title: "...", text: "...", isManual: true|false },
+ *     "en": { title: "...", text: "...", isManual: true|false }
  *   }
  * }
  */
 
-export type SupportedLanguage = 'ru' | 'de' | 'en';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { SupportedLanguage, isSupportedLanguage } from './languages';
+
+export {
+  type SupportedLanguage,
+  SUPPORTED_LANGUAGES,
+  LANGUAGE_NAMES,
+  LANGUAGE_CODES,
+  isSupportedLanguage,
+} from './languages';
 
 export interface LanguageVersion {
   title?: string;
   text: string;
   isManual: boolean;
+  sourceHash?: string | null; // hash of the source text it was translated from
 }
 
 export interface I18nData {
@@ -27,127 +38,132 @@ export interface I18nData {
   versions: Partial<Record<SupportedLanguage, LanguageVersion>>;
 }
 
-export interface NotesData {
-  i18n: I18nData;
+/**
+ * The columns of a material_versions row the app works with
+ */
+export type MaterialVersionRow = Pick<Tables<'material_versions'>, 'language' | 'title' | 'text' | 'is_manual' | 'source_hash'>;
+
+export const MATERIAL_VERSION_COLUMNS = 'language, title, text, is_manual, source_hash';
+
+/**
+ * Combine a material's version rows into i18n data.
+ * Without a stored source language the first manual version is the source.
+ */
+export function toI18nData(
+  sourceLanguage: string | null,
+  rows: MaterialVersionRow[] | null | undefined
+): I18nData | null {
+  if (!rows || rows.length === 0) return null;
+
+  const versions: Partial<Record<SupportedLanguage, LanguageVersion>> = {};
+  for (const row of rows) {
+    versions[row.language as SupportedLanguage] = {
+      ...(row.title && { title: row.title }),
+      text: row.text,
+      isManual: row.is_manual,
+      sourceHash: row.source_hash,
+    };
+  }
+
+  const source = sourceLanguage ?? rows.find((row) => row.is_manual)?.language ?? rows[0].language;
+  return {
+    sourceLanguage: source as SupportedLanguage,
+    versions,
+  };
 }
 
-// Legacy format for migration
-interface LegacyTranslationData {
-  originalText: string;
-  sourceLanguage: SupportedLanguage;
-  translations: Partial<Record<SupportedLanguage, string>>;
+/**
+ * Load the i18n data of a material
+ */
+export async function fetchI18nData(
+  materialId: string,
+  sourceLanguage: string | null
+): Promise<I18nData | null> {
+  const { data, error } = await supabase
+    .from('material_versions')
+    .select(MATERIAL_VERSION_COLUMNS)
+    .eq('material_id', materialId);
+
+  if (error) throw error;
+  return toI18nData(sourceLanguage, data);
 }
 
-// New format with title translations
-interface NewFormatTranslationData {
-  originalLanguage: SupportedLanguage;
-  originalText: {
-    title: string;
-    text: string;
+function toVersionRow(materialId: string, language: SupportedLanguage, version: LanguageVersion) {
+  return {
+    material_id: materialId,
+    language,
+    title: version.title ?? null,
+    text: version.text,
+    is_manual: version.isManual,
+    source_hash: version.sourceHash ?? null,
   };
-  translations: Partial<Record<SupportedLanguage, { title: string; text: string }>>;
 }
 
 /**
- * Parse the notes field to extract i18n data
- * Handles new format, current format, and legacy format migration
+ * Store one language version (insert or replace)
  */
-export function parseI18nData(notes: string | null): I18nData | null {
-  if (!notes) return null;
-  
-  try {
-    const parsed = JSON.parse(notes);
-    
-    // Current format: { i18n: { sourceLanguage, versions } }
-    if (parsed?.i18n?.sourceLanguage && parsed?.i18n?.versions) {
-      return parsed.i18n as I18nData;
-    }
-    
-    // New proposed format: { originalLanguage, originalText: {title, text}, translations }
-    if (parsed?.originalLanguage && parsed?.originalText?.text) {
-      return migrateNewFormat(parsed as NewFormatTranslationData);
-    }
-    
-    // Legacy format: { originalText, sourceLanguage, translations }
-    if (parsed?.originalText && typeof parsed.originalText === 'string' && parsed?.sourceLanguage) {
-      const legacy = parsed as LegacyTranslationData;
-      return migrateLegacyFormat(legacy);
-    }
-    
-    return null;
-  } catch {
-    // Notes field contains plain text or invalid JSON
-    return null;
-  }
+export async function saveVersion(
+  materialId: string,
+  language: SupportedLanguage,
+  version: LanguageVersion
+): Promise<void> {
+  const { error } = await supabase
+    .from('material_versions')
+    .upsert(toVersionRow(materialId, language, version), { onConflict: 'material_id,language' });
+
+  if (error) throw error;
 }
 
 /**
- * Migrate new proposed format to i18n format
+ * Store the source language and every version of a material
  */
-function migrateNewFormat(data: NewFormatTranslationData): I18nData {
-  const versions: Partial<Record<SupportedLanguage, LanguageVersion>> = {};
-  
-  // Source language version is always manual
-  versions[data.originalLanguage] = {
-    title: data.originalText.title,
-    text: data.originalText.text,
-    isManual: true,
-  };
-  
-  // Other translations are auto-generated
-  if (data.translations) {
-    for (const [lang, content] of Object.entries(data.translations)) {
-      if (content && lang !== data.originalLanguage) {
-        versions[lang as SupportedLanguage] = {
-          title: content.title,
-          text: content.text,
-          isManual: false,
-        };
-      }
-    }
-  }
-  
-  return {
-    sourceLanguage: data.originalLanguage,
-    versions,
-  };
+export async function saveI18nData(materialId: string, data: I18nData): Promise<void> {
+  const { error: materialError } = await supabase
+    .from('materials')
+    .update({ source_language: data.sourceLanguage })
+    .eq('id', materialId);
+
+  if (materialError) throw materialError;
+
+  const rows = Object.entries(data.versions)
+    .filter(([, version]) => version)
+    .map(([language, version]) => toVersionRow(materialId, language as SupportedLanguage, version!));
+
+  const { error } = await supabase
+    .from('material_versions')
+    .upsert(rows, { onConflict: 'material_id,language' });
+
+  if (error) throw error;
 }
 
 /**
- * Migrate legacy translation format to new i18n format
+ * SHA-256 of a source text (hex). Must match hashSourceText in
+ * supabase/functions/_shared/hash.ts, which hashes what the AI was given.
  */
-function migrateLegacyFormat(legacy: LegacyTranslationData): I18nData {
-  const versions: Partial<Record<SupportedLanguage, LanguageVersion>> = {};
-  
-  // Source language version is always manual
-  versions[legacy.sourceLanguage] = {
-    text: legacy.originalText,
-    isManual: true,
-  };
-  
-  // Other translations are auto-generated
-  if (legacy.translations) {
-    for (const [lang, text] of Object.entries(legacy.translations)) {
-      if (text && lang !== legacy.sourceLanguage) {
-        versions[lang as SupportedLanguage] = {
-          text,
-          isManual: false,
-        };
-      }
-    }
-  }
-  
-  return {
-    sourceLanguage: legacy.sourceLanguage,
-    versions,
-  };
+export async function hashSourceText(text: string): Promise<string> {
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
 }
 
 /**
- * Serialize i18n data to store in notes field
+ * Something made from a source text is outdated when the text it recorded
+ * differs from the current one. Unknown hashes (older rows) never count.
  */
-export function serializeI18nData(data: I18nData): string {
-  return JSON.stringify({ i18n: data });
+export function isOutdated(recordedHash: string | null | undefined, currentHash: string | null): boolean {
+  return !!recordedHash && !!currentHash && recordedHash !== currentHash;
+}
+
+/**
+ * Check if a translated version was made from an older source text
+ */
+export function isVersionOutdated(
+  data: I18nData | null,
+  language: SupportedLanguage,
+  currentSourceHash: string | null
+): boolean {
+  if (!data || language === data.sourceLanguage) return false;
+  return isOutdated(data.versions[language]?.sourceHash, currentSourceHash);
 }
 
 /**
@@ -172,13 +188,15 @@ export function createI18nData(
 
 /**
  * Add or update a translation version (text only)
- * Will NOT overwrite if existing version is manual and new is auto
+ * Will NOT overwrite if existing version is manual and new is auto.
+ * sourceHash replaces the recorded source hash when given.
  */
 export function setVersion(
   data: I18nData,
   language: SupportedLanguage,
   text: string,
-  isManual: boolean
+  isManual: boolean,
+  sourceHash?: string | null
 ): I18nData {
   const existing = data.versions[language];
   
@@ -195,6 +213,7 @@ export function setVersion(
         ...existing,
         text, 
         isManual,
+        ...(sourceHash !== undefined && { sourceHash }),
       },
     },
   };
@@ -337,43 +356,31 @@ export function getAvailableLanguages(data: I18nData | null): SupportedLanguage[
   if (!data) return [];
   return Object.keys(data.versions).filter(
     (key): key is SupportedLanguage => 
-      ['ru', 'de', 'en'].includes(key) && !!data.versions[key as SupportedLanguage]?.text
+      isSupportedLanguage(key) && !!data.versions[key]?.text
   );
 }
 
-/**
- * Language display names
- */
-export const LANGUAGE_NAMES: Record<SupportedLanguage, string> = {
-  ru: 'Русский',
-  de: 'Deutsch',
-  en: 'English',
-};
-
-/**
- * Short language codes for display
- */
-export const LANGUAGE_CODES: Record<SupportedLanguage, string> = {
-  ru: 'RU',
-  de: 'DE',
-  en: 'EN',
-};
-
 /**
  * Detect likely source language from text (simple heuristic)
  */
 export function detectSourceLanguage(text: string): SupportedLanguage {
-  // Check for Cyrillic characters (Russian)
-  const cyrillicCount = (text.match(/[а-яА-ЯёЁ]/g) || []).length;
-  // Check for German-specific characters
-  const germanCount = (text.match(/[äöüßÄÖÜ]/g) || []).length;
-  
   const totalChars = text.length;
-  
-  if (cyrillicCount > totalChars * 0.1) {
+  const count = (pattern: RegExp) => (text.match(pattern) || []).length;
+
+  // Cyrillic characters (Russian; Serbian is studied in Latin script)
+  if (count(/[а-яА-ЯёЁ]/g) > totalChars * 0.1) {
     return 'ru';
   }
-  if (germanCount > totalChars * 0.01) {
+  // Letters only Turkish uses
+  if (count(/[ğĞışŞİ]/g) > totalChars * 0.005) {
+    return 'tr';
+  }
+  // Serbian Latin diacritics
+  if (count(/[čćžšđČĆŽŠĐ]/g) > totalChars * 0.005) {
+    return 'sr-Latn';
+  }
+  // German-specific characters
+  if (count(/[äöüßÄÖÜ]/g) > totalChars * 0.01) {
     return 'de';
   }
   return 'en';
@@ -386,14 +393,6 @@ export function detectSourceLanguage(text: string): SupportedLanguage {
 
 export type TranslationData = I18nData;
 
-export function parseTranslationData(notes: string | null): I18nData | null {
-  return parseI18nData(notes);
-}
-
-export function serializeTranslationData(data: I18nData): string {
-  return serializeI18nData(data);
-}
-
 export function createTranslationData(
   originalText: string,
   sourceLanguage: SupportedLanguage,
@@ -1,3 +1,5 @@
+import type { MaterialVersionRow } from './translations';
+
 export interface Profile {
   id: string;
   language: string;
@@ -19,10 +21,12 @@ export interface Material {
   tags: string[] | null;
   ocr_text: string | null;
   notes: string | null;
+  source_language: string | null;
   images: string[] | null; // Legacy - keep for backward compatibility
   photos: PhotoData[] | null; // New structure with paths
   created_at: string;
   updated_at: string;
+  material_versions?: MaterialVersionRow[]; // Only when selected with the material
 }
 
 export interface Summary {
@@ -38,11 +42,23 @@ export interface Summary {
 export interface Flashcard {
   id: string;
   material_id: string;
-  question: string;
+  card_type: 'basic' | 'cloze';
+  question: string; // for cloze cards: the text with {{c1::...}} blanks
   answer: string;
   confidence: 'high' | 'medium' | 'low';
   stage: number;
+  ease_factor: number;
+  interval_days: number;
+  lapses: number;
+  last_reviewed_at: string | null;
   due_date: string;
+  // Reverse direction of bilingual cards (see lib/scheduler.ts)
+  reverse_stage: number;
+  reverse_ease_factor: number;
+  reverse_interval_days: number;
+  reverse_lapses: number;
+  reverse_due_date: string;
+  archived_at: string | null;
   created_at: string;
 }
 
@@ -54,6 +70,7 @@ export interface QuizQuestion {
   correct_index: number;
   explanation: string | null;
   confidence: 'high' | 'medium' | 'low';
+  archived_at: string | null;
   created_at: string;
 }
 
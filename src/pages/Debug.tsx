@@ -17,14 +17,18 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import {
-  parseI18nData,
-  serializeI18nData,
+  toI18nData,
+  saveI18nData,
   createI18nData,
   setVersion,
+  MATERIAL_VERSION_COLUMNS,
+  MaterialVersionRow,
   getTextInLanguage,
   getTitleInLanguage,
   SupportedLanguage,
+  SUPPORTED_LANGUAGES,
   LANGUAGE_NAMES,
+  LANGUAGE_CODES,
 } from '@/lib/translations';
 import { Bug, Database, Globe, Trash2, Plus, Languages, RefreshCw } from 'lucide-react';
 
@@ -34,7 +38,9 @@ interface Material {
   topic: string;
   notes: string | null;
   ocr_text: string | null;
+  source_language: string | null;
   created_at: string;
+  material_versions: MaterialVersionRow[];
 }
 
 interface LogEntry {
@@ -70,7 +76,7 @@ export default function Debug() {
     try {
       const { data, error } = await supabase
         .from('materials')
-        .select('id, title, topic, notes, ocr_text, created_at')
+        .select(`id, title, topic, notes, ocr_text, source_language, created_at, material_versions(${MATERIAL_VERSION_COLUMNS})`)
         .eq('user_id', user.id)
         .order('created_at', { ascending: false })
         .limit(20);
@@ -134,13 +140,14 @@ export default function Debug() {
           title: sourceData.title,
           topic: 'Anatomie',
           ocr_text: sourceData.text,
-          notes: serializeI18nData(i18nData),
         })
         .select()
         .single();
 
       if (error) throw error;
 
+      await saveI18nData(data.id, i18nData);
+
       addLog('success', `Created DEBUG material: ${data.id}`);
       loadMaterials();
     } catch (err) {
@@ -158,7 +165,7 @@ export default function Debug() {
     addLog('info', `Generating mock translation for ${currentLang}...`);
 
     try {
-      let i18nData = parseI18nData(selectedMaterial.notes);
+      let i18nData = toI18nData(selectedMaterial.source_language, selectedMaterial.material_versions);
       
       if (!i18nData) {
         // Create new i18n structure from ocr_text
@@ -173,17 +180,22 @@ export default function Debug() {
       
       i18nData = setVersion(i18nData, currentLang, mockTranslation, false);
 
-      const { error } = await supabase
-        .from('materials')
-        .update({ notes: serializeI18nData(i18nData) })
-        .eq('id', selectedMaterial.id);
-
-      if (error) throw error;
+      await saveI18nData(selectedMaterial.id, i18nData);
 
       addLog('success', `Mock translation saved for ${currentLang}`);
       
       // Refresh selected material
-      setSelectedMaterial({ ...selectedMaterial, notes: serializeI18nData(i18nData) });
+      setSelectedMaterial({
+        ...selectedMaterial,
+        source_language: i18nData.sourceLanguage,
+        material_versions: Object.entries(i18nData.versions).map(([language, version]) => ({
+          language,
+          title: version.title ?? null,
+          text: version.text,
+          is_manual: version.isManual,
+          source_hash: version.sourceHash ?? null,
+        })),
+      });
       loadMaterials();
     } catch (err) {
       addLog('error', `Failed to generate: ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -220,7 +232,9 @@ export default function Debug() {
     }
   };
 
-  const i18nData = selectedMaterial ? parseI18nData(selectedMaterial.notes) : null;
+  const i18nData = selectedMaterial
+    ? toI18nData(selectedMaterial.source_language, selectedMaterial.material_versions)
+    : null;
 
   return (
     <AppLayout title="Debug" showNav={false}>
@@ -245,14 +259,14 @@ export default function Debug() {
             
             {/* Language Switcher */}
             <div className="flex gap-2">
-              {(['ru', 'de', 'en'] as SupportedLanguage[]).map((lang) => (
+              {SUPPORTED_LANGUAGES.map((lang) => (
                 <Button
                   key={lang}
                   variant={currentLang === lang ? 'default' : 'outline'}
                   size="sm"
                   onClick={() => handleLanguageSwitch(lang)}
                 >
-                  {lang.toUpperCase()}
+                  {LANGUAGE_CODES[lang]}
                 </Button>
               ))}
             </div>
@@ -355,7 +369,7 @@ export default function Debug() {
 
               {/* Raw JSON */}
               <div>
-                <span className="mb-2 block text-sm font-medium">Raw notes.i18n JSON:</span>
+                <span className="mb-2 block text-sm font-medium">Combined material_versions:</span>
                 <ScrollArea className="h-40 rounded-md border bg-muted/50 p-3">
                   <pre className="text-xs">
                     {i18nData ? JSON.stringify(i18nData, null, 2) : 'null (no i18n structure)'}
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGlossary } from '@/hooks/useGlossary';
+import {
+  GlossaryEntry,
+  GlossaryTerm,
+  GlossaryVariants,
+  deleteGlossaryTerm,
+  saveGlossaryTerm,
+  seedGlossary,
+} from '@/lib/glossary';
+import { PFLEGE_GLOSSARY } from '@/lib/pflegeGlossary';
+import { LANGUAGE_CODES, LANGUAGE_NAMES, SUPPORTED_LANGUAGES, SupportedLanguage } from '@/lib/languages';
+import { TOPICS, TOPIC_LABELS } from '@/lib/constants';
+import { Topic } from '@/lib/types';
+import { toast } from 'sonner';
+import { BookMarked, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+
+const EMPTY_ENTRY: GlossaryEntry = { term: '', variants: {}, definition: '', topic: null };
+
+export default function Glossary() {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const { terms, isLoading, refetch } = useGlossary();
+  const [draft, setDraft] = useState<GlossaryEntry>(EMPTY_ENTRY);
+  const [filter, setFilter] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSeeding, setIsSeeding] = useState(false);
+
+  const lang = i18n.language as SupportedLanguage;
+
+  const setVariant = (language: SupportedLanguage, value: string) => {
+    const variants: GlossaryVariants = { ...draft.variants, [language]: value };
+    if (!value.trim()) delete variants[language];
+    setDraft({ ...draft, variants });
+  };
+
+  const handleSave = async () => {
+    if (!user || !draft.term.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await saveGlossaryTerm(user.id, draft);
+      setDraft(EMPTY_ENTRY);
+      await refetch();
+      toast.success(t('glossary.saved'));
+    } catch (err) {
+      console.error('Failed to save glossary term:', err);
+      toast.error(t('profile.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (term: GlossaryTerm) => {
+    setDraft({ term: term.term, variants: term.variants, definition: term.definition ?? '', topic: term.topic });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = async (term: GlossaryTerm) => {
+    try {
+      await deleteGlossaryTerm(term.id);
+      await refetch();
+    } catch (err) {
+      console.error('Failed to delete glossary term:', err);
+      toast.error(t('glossary.deleteFailed'));
+    }
+  };
+
+  const handleSeed = async () => {
+    if (!user) return;
+
+    setIsSeeding(true);
+    try {
+      const added = await seedGlossary(user.id, PFLEGE_GLOSSARY);
+      await refetch();
+      toast.success(t('glossary.seeded', { count: added }));
+    } catch (err) {
+      console.error('Failed to seed glossary:', err);
+      toast.error(t('profile.saveFailed'));
+    } finally {
+      setIsSeeding(false);
+    }
+  };
+
+  const query = filter.trim().toLocaleLowerCase();
+  const visibleTerms = query
+    ? terms.filter((term) =>
+        [term.term, ...Object.values(term.variants)].some((form) => form?.toLocaleLowerCase().includes(query))
+      )
+    : terms;
+
+  return (
+    <AppLayout title={t('glossary.title')} showLogo={false}>
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">{t('glossary.description')}</p>
+
+        {/* Add / edit */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Plus className="h-5 w-5" />
+              {t('glossary.addTerm')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="glossary-term">{t('glossary.term')}</Label>
+              <Input
+                id="glossary-term"
+                value={draft.term}
+                onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+                placeholder="Dekubitus"
+              />
+            </div>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {SUPPORTED_LANGUAGES.map((language) => (
+                <div key={language} className="space-y-1">
+                  <Label htmlFor={`glossary-${language}`} className="text-xs">
+                    {LANGUAGE_NAMES[language]}
+                  </Label>
+                  <Input
+                    id={`glossary-${language}`}
+                    value={draft.variants[language] ?? ''}
+                    onChange={(e) => setVariant(language, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="glossary-definition">{t('glossary.definition')}</Label>
+              <Textarea
+                id="glossary-definition"
+                value={draft.definition ?? ''}
+                onChange={(e) => setDraft({ ...draft, definition: e.target.value })}
+                className="min-h-[80px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('material.selectTopic')}</Label>
+              <Select value={draft.topic ?? ''} onValueChange={(value) => setDraft({ ...draft, topic: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('material.selectTopic')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {TOPICS.map((topic) => (
+                    <SelectItem key={topic} value={topic}>
+                      {TOPIC_LABELS[topic][lang] ?? topic}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={!draft.term.trim() || isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('common.save')}
+              </Button>
+              {draft !== EMPTY_ENTRY && (
+                <Button variant="ghost" onClick={() => setDraft(EMPTY_ENTRY)}>
+                  {t('common.cancel')}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Terms */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <BookMarked className="h-5 w-5" />
+              {t('glossary.terms', { count: terms.length })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder={t('glossary.filter')}
+                className="flex-1"
+              />
+              <Button variant="outline" onClick={handleSeed} disabled={isSeeding}>
+                {isSeeding && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('glossary.seed')}
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span className="text-sm text-muted-foreground">{t('common.loading')}</span>
+              </div>
+            ) : visibleTerms.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('glossary.empty')}</p>
+            ) : (
+              <ul className="divide-y">
+                {visibleTerms.map((term) => (
+                  <li key={term.id} className="flex items-start gap-2 py-3">
+                    <div className="flex-1 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{term.term}</span>
+                        {term.topic && (
+                          <Badge variant="secondary" className="text-xs">
+                            {TOPIC_LABELS[term.topic as Topic]?.[lang] ?? term.topic}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {SUPPORTED_LANGUAGES.filter((language) => term.variants[language])
+                          .map((language) => `${LANGUAGE_CODES[language]}: ${term.variants[language]}`)
+                          .join(' · ')}
+                      </p>
+                      {term.definition && <p className="text-sm">{term.definition}</p>}
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => handleEdit(term)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(term)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
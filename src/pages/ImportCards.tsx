@@ -0,0 +1,407 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/hooks/useProfile';
+import { supabase } from '@/integrations/supabase/client';
+import { AnkiNote, loadSqlJs, readApkg } from '@/lib/anki';
+import {
+  ImportStatus,
+  ParsedImport,
+  fromAnkiNotes,
+  loadExistingQuestions,
+  markDuplicates,
+  parseDelimited,
+  parseQuizlet,
+  saveImport,
+} from '@/lib/cardImport';
+import { LANGUAGES, SupportedLanguage, toSupportedLanguage } from '@/lib/languages';
+import { TOPICS, TOPIC_LABELS } from '@/lib/constants';
+import { Topic } from '@/lib/types';
+import { toast } from 'sonner';
+import { AlertTriangle, FileUp, Loader2 } from 'lucide-react';
+
+type TextFormat = 'delimited' | 'quizlet';
+
+const QUIZLET_TERM_SEPARATORS = { tab: '\t', comma: ',' } as const;
+const QUIZLET_ROW_SEPARATORS = { newline: '\n', semicolon: ';' } as const;
+
+const PREVIEW_LIMIT = 20;
+
+const STATUS_VARIANTS: Record<ImportStatus, 'default' | 'secondary' | 'outline'> = {
+  new: 'default',
+  duplicate: 'secondary',
+  duplicateInFile: 'outline',
+};
+
+export default function ImportCards() {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const lang = i18n.language as SupportedLanguage;
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [ankiNotes, setAnkiNotes] = useState<AnkiNote[] | null>(null);
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [format, setFormat] = useState<TextFormat>('delimited');
+  const [termSeparator, setTermSeparator] = useState<keyof typeof QUIZLET_TERM_SEPARATORS>('tab');
+  const [rowSeparator, setRowSeparator] = useState<keyof typeof QUIZLET_ROW_SEPARATORS>('newline');
+
+  const [language, setLanguage] = useState<SupportedLanguage | null>(null);
+  const [existing, setExisting] = useState<{ flashcards: string[]; quiz: string[] } | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const [materials, setMaterials] = useState<{ id: string; title: string | null }[]>([]);
+  const [target, setTarget] = useState<string>('new'); // 'new' or a material id
+  const [newTitle, setNewTitle] = useState('');
+  const [newTopic, setNewTopic] = useState<Topic>('Sonstiges');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const importLanguage = language ?? toSupportedLanguage(profile?.preferred_study_language);
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from('materials')
+      .select('id, title')
+      .order('updated_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading materials:', error);
+        setMaterials(data ?? []);
+      });
+  }, [user]);
+
+  useEffect(() => {
+    setExisting(null);
+    loadExistingQuestions(importLanguage)
+      .then(setExisting)
+      .catch((error) => {
+        console.error('Error loading existing questions:', error);
+        setExisting({ flashcards: [], quiz: [] });
+      });
+  }, [importLanguage]);
+
+  const parsed: ParsedImport | null = useMemo(() => {
+    if (ankiNotes) return fromAnkiNotes(ankiNotes);
+    if (!text.trim()) return null;
+    return format === 'quizlet'
+      ? parseQuizlet(text, QUIZLET_TERM_SEPARATORS[termSeparator], QUIZLET_ROW_SEPARATORS[rowSeparator])
+      : parseDelimited(text);
+  }, [ankiNotes, text, format, termSeparator, rowSeparator]);
+
+  const statuses = useMemo(
+    () => (parsed && existing ? markDuplicates(parsed.items, existing) : []),
+    [parsed, existing]
+  );
+
+  const itemsToImport = parsed
+    ? parsed.items.filter((_, index) => includeDuplicates || statuses[index] === 'new')
+    : [];
+  const duplicateCount = statuses.filter((status) => status !== 'new').length;
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setNewTitle((title) => title || file.name.replace(/\.[^.]+$/, ''));
+    setAnkiNotes(null);
+    setText('');
+
+    setIsReadingFile(true);
+    try {
+      if (/\.apkg$/i.test(file.name)) {
+        const SQL = await loadSqlJs();
+        const result = readApkg(SQL, new Uint8Array(await file.arrayBuffer()));
+        if (result.error) {
+          toast.error(t(`import.apkgError.${result.error}`));
+        } else {
+          setAnkiNotes(result.notes);
+        }
+      } else {
+        setText(await file.text());
+      }
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error(t('import.readFailed'));
+    } finally {
+      setIsReadingFile(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || itemsToImport.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      const materialId = await saveImport(
+        user.id,
+        target === 'new' ? { kind: 'new', title: newTitle, topic: newTopic } : { kind: 'existing', materialId: target },
+        importLanguage,
+        itemsToImport
+      );
+      toast.success(t('import.done', { count: itemsToImport.length }));
+      navigate(`/lecture/${materialId}`);
+    } catch (error) {
+      console.error('Error importing cards:', error);
+      toast.error(t('import.failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AppLayout title={t('import.title')} showLogo={false}>
+      <div className="space-y-6">
+        {/* Source */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <FileUp className="h-5 w-5" />
+              {t('import.source')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">{t('import.description')}</p>
+            <div className="space-y-2">
+              <Label htmlFor="import-file">{t('import.file')}</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".apkg,.csv,.tsv,.txt"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+              {isReadingFile && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {t('common.loading')}
+                </div>
+              )}
+            </div>
+
+            {!ankiNotes && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="import-text">{t('import.paste')}</Label>
+                  <Textarea
+                    id="import-text"
+                    value={text}
+                    onChange={(e) => {
+                      setText(e.target.value);
+                      setFileName(null);
+                    }}
+                    placeholder={'Dekubitus\tDruckgeschwür\nAsepsis\tKeimfreiheit'}
+                    className="min-h-[120px] font-mono text-xs"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>{t('import.format')}</Label>
+                  <Select value={format} onValueChange={(value) => setFormat(value as TextFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="delimited">{t('import.formats.delimited')}</SelectItem>
+                      <SelectItem value="quizlet">{t('import.formats.quizlet')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {format === 'quizlet' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label>{t('import.termSeparator')}</Label>
+                      <Select
+                        value={termSeparator}
+                        onValueChange={(value) => setTermSeparator(value as keyof typeof QUIZLET_TERM_SEPARATORS)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="tab">{t('import.separators.tab')}</SelectItem>
+                          <SelectItem value="comma">{t('import.separators.comma')}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>{t('import.rowSeparator')}</Label>
+                      <Select
+                        value={rowSeparator}
+                        onValueChange={(value) => setRowSeparator(value as keyof typeof QUIZLET_ROW_SEPARATORS)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="newline">{t('import.separators.newline')}</SelectItem>
+                          <SelectItem value="semicolon">{t('import.separators.semicolon')}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label>{t('import.language')}</Label>
+              <Select value={importLanguage} onValueChange={(value) => setLanguage(value as SupportedLanguage)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGES.map((item) => (
+                    <SelectItem key={item.code} value={item.code}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Preview */}
+        {parsed && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">{t('import.preview')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {fileName && <p className="text-sm text-muted-foreground">{fileName}</p>}
+              <div className="flex flex-wrap gap-2">
+                <Badge>{t('import.newCount', { count: parsed.items.length - duplicateCount })}</Badge>
+                <Badge variant="secondary">{t('import.duplicateCount', { count: duplicateCount })}</Badge>
+                {parsed.errors.length > 0 && (
+                  <Badge variant="destructive">{t('import.errorCount', { count: parsed.errors.length })}</Badge>
+                )}
+              </div>
+
+              {parsed.errors.length > 0 && (
+                <div className="max-h-48 space-y-1 overflow-y-auto rounded-lg border border-destructive/30 p-3">
+                  {parsed.errors.map((error) => (
+                    <p key={`${error.row}-${error.reason}`} className="flex items-start gap-2 text-sm">
+                      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+                      <span>
+                        {t('import.rowError', { row: error.row, reason: t(`import.errors.${error.reason}`) })}
+                        {error.text && <span className="text-muted-foreground"> — {error.text}</span>}
+                      </span>
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {parsed.items.slice(0, PREVIEW_LIMIT).map((item, index) => (
+                  <div key={item.row} className="rounded-lg bg-muted p-3 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-medium">{item.question}</p>
+                      {statuses[index] && (
+                        <Badge variant={STATUS_VARIANTS[statuses[index]]} className="shrink-0">
+                          {t(`import.status.${statuses[index]}`)}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="mt-1 text-muted-foreground">
+                      {item.kind === 'quiz'
+                        ? item.options.map((option, i) => (i === item.correct_index ? `✓ ${option}` : option)).join(' · ')
+                        : item.answer}
+                    </p>
+                  </div>
+                ))}
+                {parsed.items.length > PREVIEW_LIMIT && (
+                  <p className="text-sm text-muted-foreground">
+                    {t('import.more', { count: parsed.items.length - PREVIEW_LIMIT })}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="import-duplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                />
+                <Label htmlFor="import-duplicates">{t('import.includeDuplicates')}</Label>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Target */}
+        {parsed && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">{t('import.target')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="new">{t('import.newMaterial')}</SelectItem>
+                  {materials.map((material) => (
+                    <SelectItem key={material.id} value={material.id}>
+                      {material.title || t('common.untitled')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {target === 'new' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="import-title">{t('import.materialTitle')}</Label>
+                    <Input id="import-title" value={newTitle} onChange={(e) => setNewTitle(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t('import.topic')}</Label>
+                    <Select value={newTopic} onValueChange={(value) => setNewTopic(value as Topic)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TOPICS.map((topic) => (
+                          <SelectItem key={topic} value={topic}>
+                            {TOPIC_LABELS[topic][lang] ?? topic}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+
+              <Button
+                className="w-full"
+                onClick={handleImport}
+                disabled={isSaving || existing === null || itemsToImport.length === 0}
+              >
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('import.action', { count: itemsToImport.length })}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,25 +1,29 @@
 import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Link } from 'react-router-dom';
-import { Plus, RotateCcw } from 'lucide-react';
+import { ClipboardCheck, FileUp, Plus } from 'lucide-react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { MaterialCard } from '@/components/materials/MaterialCard';
+import { StudyPlanCard } from '@/components/study/StudyPlanCard';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProfile } from '@/hooks/useProfile';
-import { Material, Flashcard } from '@/lib/types';
+import { Material, Topic } from '@/lib/types';
 import { Skeleton } from '@/components/ui/skeleton';
-import { LANGUAGE_NAMES } from '@/lib/translations';
+import { TOPICS } from '@/lib/constants';
+import { StudyPlan, PlannerCard, TopicCoverage, buildStudyPlan } from '@/lib/planner';
+import { MATERIAL_VERSION_COLUMNS } from '@/lib/translations';
+import { fetchAllRows } from '@/lib/pagination';
 
 export default function Index() {
   const { t } = useTranslation();
   const { user } = useAuth();
   const { profile } = useProfile();
   const [materials, setMaterials] = useState<Material[]>([]);
-  const [dueCardsCount, setDueCardsCount] = useState(0);
+  const [plan, setPlan] = useState<StudyPlan | null>(null);
+  const [planLoading, setPlanLoading] = useState(true);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -31,7 +35,7 @@ export default function Index() {
       // Fetch recent materials
       const { data: materialsData } = await supabase
         .from('materials')
-        .select('*')
+        .select(`*, material_versions(${MATERIAL_VERSION_COLUMNS})`)
         .eq('user_id', user.id)
         .order('created_at', { ascending: false })
         .limit(10);
@@ -46,55 +50,66 @@ export default function Index() {
     fetchData();
   }, [user]);
 
-  // Fetch due cards count filtered by study language
+  // Build the study plan from all active cards in the study language
   useEffect(() => {
     if (!user || !profile) return;
 
-    const fetchDueCount = async () => {
-      const today = new Date().toISOString().split('T')[0];
-      const { count } = await supabase
-        .from('flashcards')
-        .select('*', { count: 'exact', head: true })
-        .lte('due_date', today)
-        .eq('language', profile.preferred_study_language);
+    const fetchPlan = async () => {
+      setPlanLoading(true);
 
-      setDueCardsCount(count || 0);
+      try {
+        const [cardRows, materialsData] = await Promise.all([
+          fetchAllRows((from, to) =>
+            supabase
+              .from('flashcards')
+              .select('id, due_date, stage, ease_factor, interval_days, lapses')
+              .eq('language', profile.preferred_study_language)
+              .is('archived_at', null)
+              .is('suspended_at', null)
+              .order('id', { ascending: true })
+              .range(from, to)
+          ),
+          fetchAllRows((from, to) =>
+            supabase
+              .from('materials')
+              .select('id, topic, quiz_questions(count)')
+              .eq('user_id', user.id)
+              .is('quiz_questions.archived_at', null)
+              .order('id', { ascending: true })
+              .range(from, to)
+          ),
+        ]);
+
+        const coverage: TopicCoverage[] = TOPICS.map((topic) => ({ topic, materials: 0, quizzedMaterials: 0 }));
+        const materialRows = materialsData as unknown as Array<{
+          topic: string | null;
+          quiz_questions: Array<{ count: number }>;
+        }>;
+        for (const material of materialRows) {
+          const entry = coverage.find((c) => c.topic === (material.topic as Topic)) ?? coverage[coverage.length - 1];
+          entry.materials++;
+          if ((material.quiz_questions[0]?.count ?? 0) > 0) entry.quizzedMaterials++;
+        }
+
+        setPlan(buildStudyPlan(cardRows as PlannerCard[], coverage, profile.exam_date));
+      } catch (err) {
+        console.error('Failed to load study plan:', err);
+      }
+      setPlanLoading(false);
     };
 
-    fetchDueCount();
+    fetchPlan();
   }, [user, profile]);
 
   return (
     <AppLayout showLanguageSwitcher>
       <div className="space-y-6">
-        {/* Review Today Block */}
-        <Card className="bg-primary/5 border-primary/20">
-          <CardContent className="flex items-center justify-between p-4">
-            <div className="flex items-center gap-3">
-              <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
-                <RotateCcw className="h-6 w-6 text-primary" />
-              </div>
-              <div>
-                <div className="flex items-center gap-2">
-                  <p className="text-sm text-muted-foreground">{t('home.reviewToday')}</p>
-                  {profile && (
-                    <Badge variant="outline" className="text-xs uppercase">
-                      {profile.preferred_study_language}
-                    </Badge>
-                  )}
-                </div>
-                <p className="text-2xl font-bold">
-                  {loading ? '...' : dueCardsCount} <span className="text-sm font-normal text-muted-foreground">{t('home.cards')}</span>
-                </p>
-              </div>
-            </div>
-            {dueCardsCount > 0 && (
-              <Button asChild size="sm">
-                <Link to={`/review?lang=${profile?.preferred_study_language || 'ru'}`}>{t('home.startReview')}</Link>
-              </Button>
-            )}
-          </CardContent>
-        </Card>
+        {/* Study Plan */}
+        <StudyPlanCard
+          plan={plan}
+          loading={planLoading}
+          language={profile?.preferred_study_language || 'ru'}
+        />
 
         {/* Add Material Button */}
         <Button asChild className="w-full" size="lg">
@@ -103,6 +118,18 @@ export default function Index() {
             {t('home.addMaterial')}
           </Link>
         </Button>
+        <Button asChild variant="outline" className="w-full">
+          <Link to="/import">
+            <FileUp className="mr-2 h-4 w-4" />
+            {t('import.title')}
+          </Link>
+        </Button>
+        <Button asChild variant="outline" className="w-full">
+          <Link to="/exam">
+            <ClipboardCheck className="mr-2 h-4 w-4" />
+            {t('exam.title')}
+          </Link>
+        </Button>
 
         {/* Recent Materials */}
         <div className="space-y-3">
@@ -19,6 +19,13 @@ import {
   BookOpen,
   HelpCircle,
   Info,
+  TextCursorInput,
+  Flag,
+  PauseCircle,
+  PlayCircle,
+  Download,
+  RotateCcw,
+  TextQuote,
 } from 'lucide-react';
 
 import {
@@ -50,31 +57,82 @@ import {
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProfile } from '@/hooks/useProfile';
+import { useGlossary } from '@/hooks/useGlossary';
+import {
+  generateSummary,
+  generateFlashcards,
+  generateQuiz,
+  translateText,
+  edgeFailToHuman,
+  MergeStats,
+} from '@/lib/ai';
 
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 
 import { ImageLightbox } from '@/components/materials/ImageLightbox';
 import { TranslationPromptDialog } from '@/components/materials/TranslationPromptDialog';
+import { OutdatedNotice } from '@/components/materials/OutdatedNotice';
+import { GlossaryText } from '@/components/materials/GlossaryText';
+import { ClozeText } from '@/components/study/ClozeCard';
+import { FlashcardEditorDialog } from '@/components/study/FlashcardEditorDialog';
+import { ExportFlashcardsDialog } from '@/components/study/ExportFlashcardsDialog';
+import { FlagFlashcardDialog } from '@/components/study/FlagFlashcardDialog';
+import { QuizHistory } from '@/components/study/QuizHistory';
+import { CaseVignette, QuizQuestionInput } from '@/components/study/QuizQuestionInput';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CardType, clozeFromSelection } from '@/lib/cloze';
+import {
+  QuestionStats,
+  QuizAttempt,
+  QuizMode,
+  loadQuestionStats,
+  loadQuizHistory,
+  questionsToRetry,
+  saveQuizAttempt,
+} from '@/lib/quizAttempts';
+import { GroundedItem, SourceSpan, SummarySource, findSource, isUngrounded } from '@/lib/grounding';
+import {
+  QuizAnswer,
+  QuizQuestionFields,
+  groupByCase,
+  isAnswerCorrect,
+  isAnswered,
+  parseQuizQuestion,
+  toAnswerRecord,
+} from '@/lib/quizQuestions';
+import {
+  FlashcardDraft,
+  createFlashcard,
+  deleteFlashcards,
+  flagFlashcard,
+  setFlashcardSuspended,
+  updateFlashcard,
+} from '@/lib/flashcards';
+import { toSupportedLanguage } from '@/lib/languages';
 
 import { TOPICS } from '@/lib/constants';
 import { Topic, PhotoData } from '@/lib/types';
 import { deletePhoto, deletePhotosWithResults, uploadPhoto } from '@/lib/storage';
 
 import {
-  parseTranslationData,
-  serializeTranslationData,
+  fetchI18nData,
+  saveVersion,
+  saveI18nData,
   TranslationData,
   SupportedLanguage,
+  SUPPORTED_LANGUAGES,
   getTextInLanguage,
   hasTranslation,
   LANGUAGE_NAMES,
   LANGUAGE_CODES,
-  setTranslation,
   setVersion,
   createTranslationData,
   detectSourceLanguage,
   isVersionManual,
+  hashSourceText,
+  isOutdated,
+  isVersionOutdated,
 } from '@/lib/translations';
 
 interface Material {
@@ -83,7 +141,8 @@ interface Material {
   topic: string;
   tags: string[] | null;
   ocr_text: string | null;
-  notes: string | null; // Stores translation data as JSON
+  notes: string | null;
+  source_language: string | null;
   images: string[] | null; // Legacy
   photos: PhotoData[] | null; // New structure
   created_at: string | null;
@@ -96,26 +155,28 @@ interface Summary {
   medium_summary: string | null;
   long_summary: string | null;
   warnings: string[];
+  sources: SummarySource[];
+  source_hash: string | null;
   generated_at: string;
 }
 
-interface Flashcard {
+interface Flashcard extends GroundedItem {
   id: string;
   material_id: string;
+  card_type: CardType;
   question: string;
   answer: string;
   confidence: 'high' | 'medium' | 'low';
   stage: number;
   due_date: string;
+  is_manual: boolean;
+  suspended_at: string | null;
   created_at: string;
 }
 
-interface QuizQuestion {
-  id: string;
+interface QuizQuestion extends QuizQuestionFields, GroundedItem {
   material_id: string;
   question: string;
-  options: string[];
-  correct_index: number;
   explanation: string | null;
   confidence: 'high' | 'medium' | 'low';
   created_at: string;
@@ -131,12 +192,19 @@ interface EditForm {
 
 type SummaryLevel = 'short' | 'medium' | 'long';
 
+// Regeneration merges with existing items - tell the user what happened
+const formatMergeToast = (count: number, noun: string, merge?: MergeStats): string => {
+  if (!merge || merge.kept === 0) return `${count} ${noun} generated!`;
+  return `${count} ${noun}: ${merge.kept} kept with progress, ${merge.added} new, ${merge.archived} archived`;
+};
+
 export default function LectureDetail() {
   const { t, i18n } = useTranslation();
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { profile } = useProfile();
+  const { terms: glossaryTerms } = useGlossary();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [material, setMaterial] = useState<Material | null>(null);
@@ -179,17 +247,48 @@ export default function LectureDetail() {
   const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
   const [isGeneratingFlashcards, setIsGeneratingFlashcards] = useState(false);
   const [flashcardWarnings, setFlashcardWarnings] = useState<string[]>([]);
+  // Answers in another language than the study language (bilingual deck)
+  const [answerLanguage, setAnswerLanguage] = useState<SupportedLanguage | null>(null);
+  // Cloze card proposed from a selection in the lecture text
+  const [clozeDraft, setClozeDraft] = useState<{ language: SupportedLanguage; text: string } | null>(null);
+  const [isSavingCloze, setIsSavingCloze] = useState(false);
+  // Manual card editing: the editor (editingCard null = new card), reports
+  // and deletion of one or several selected cards
+  const [isCardEditorOpen, setIsCardEditorOpen] = useState(false);
+  const [editingCard, setEditingCard] = useState<Flashcard | null>(null);
+  const [flaggingCard, setFlaggingCard] = useState<Flashcard | null>(null);
+  const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
+  const [cardsToDelete, setCardsToDelete] = useState<string[] | null>(null);
+  const [isDeletingCards, setIsDeletingCards] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   // Quiz state
   const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[]>([]);
   const [isGeneratingQuiz, setIsGeneratingQuiz] = useState(false);
   const [quizWarnings, setQuizWarnings] = useState<string[]>([]);
-  const [quizAnswers, setQuizAnswers] = useState<Record<string, number | null>>({});
+  const [quizAnswers, setQuizAnswers] = useState<Record<string, QuizAnswer | null>>({});
   const [showQuizResults, setShowQuizResults] = useState(false);
+  // Saved attempts: score history and per-question stats; 'retry' shows only
+  // the questions answered wrongly last time
+  const [quizMode, setQuizMode] = useState<QuizMode>('full');
+  const [retryQuizIds, setRetryQuizIds] = useState<Set<string>>(new Set());
+  const [quizHistory, setQuizHistory] = useState<QuizAttempt[]>([]);
+  const [quizStats, setQuizStats] = useState<Record<string, QuestionStats>>({});
 
   // Translation state
   const [translationData, setTranslationData] = useState<TranslationData | null>(null);
   const [isTranslating, setIsTranslating] = useState(false);
+  // Edited version the user asked to re-translate, waiting for confirmation
+  const [overwriteLanguage, setOverwriteLanguage] = useState<SupportedLanguage | null>(null);
+
+  // Hashes of the current texts, compared with the hashes recorded on
+  // versions and generated content to flag them as outdated
+  const [sourceHash, setSourceHash] = useState<string | null>(null);
+  const [aiTextHash, setAiTextHash] = useState<string | null>(null);
+
+  // Tab shown, and the passage of the text marked as the source of an item
+  const [activeTab, setActiveTab] = useState('text');
+  const [sourceHighlight, setSourceHighlight] = useState<{ text: string; span: SourceSpan } | null>(null);
 
   // Local view language for Text tab only (does NOT affect global study language)
   const [viewLanguage, setViewLanguage] = useState<SupportedLanguage>('ru');
@@ -197,10 +296,11 @@ export default function LectureDetail() {
 
   // Translation prompt dialog state
   const [showTranslationPrompt, setShowTranslationPrompt] = useState(false);
-  const [pendingAiAction, setPendingAiAction] = useState<'summary' | 'flashcards' | 'quiz' | null>(null);
+  const [pendingAiAction, setPendingAiAction] = useState<'summary' | 'flashcards' | 'cloze' | 'quiz' | null>(null);
 
   // Global study language from profile (used for AI content)
   const studyLanguage = profile?.preferred_study_language || 'ru';
+  const flashcardAnswerLanguage = answerLanguage !== studyLanguage ? answerLanguage : null;
 
   // Initialize view language from profile once
   useEffect(() => {
@@ -225,8 +325,29 @@ export default function LectureDetail() {
     return getTextInLanguage(translationData, translationData.sourceLanguage) || material?.ocr_text || null;
   };
 
+  // Same fallbacks as the server uses for translation and AI generation
+  const currentSourceText = (translationData && getTextInLanguage(translationData, translationData.sourceLanguage))
+    || material?.ocr_text
+    || null;
+  const currentAiText = getTextForAi();
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      currentSourceText ? hashSourceText(currentSourceText) : null,
+      currentAiText ? hashSourceText(currentAiText) : null,
+    ]).then(([source, ai]) => {
+      if (cancelled) return;
+      setSourceHash(source);
+      setAiTextHash(ai);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSourceText, currentAiText]);
+
   // Check if we need to prompt for translation before AI generation
-  const checkTranslationBeforeAi = (action: 'summary' | 'flashcards' | 'quiz'): boolean => {
+  const checkTranslationBeforeAi = (action: 'summary' | 'flashcards' | 'cloze' | 'quiz'): boolean => {
     if (!translationData) return true; // No translation data, proceed with source
     
     // If study language has translation or is source, proceed
@@ -248,6 +369,7 @@ export default function LectureDetail() {
     
     if (action === 'summary') executeGenerateSummary();
     else if (action === 'flashcards') executeGenerateFlashcards();
+    else if (action === 'cloze') executeGenerateFlashcards('cloze');
     else if (action === 'quiz') executeGenerateQuiz();
   };
 
@@ -264,6 +386,7 @@ export default function LectureDetail() {
     // Then run the AI action
     if (action === 'summary') executeGenerateSummary();
     else if (action === 'flashcards') executeGenerateFlashcards();
+    else if (action === 'cloze') executeGenerateFlashcards('cloze');
     else if (action === 'quiz') executeGenerateQuiz();
   };
 
@@ -468,20 +591,27 @@ export default function LectureDetail() {
         .filter((tag) => tag.length > 0);
 
       // Check if text was edited - if so, update i18n data
-      let updatedNotes = material.notes;
       let updatedTranslationData = translationData;
+      let sourceLanguage = material.source_language;
       
       if (textDraft !== material.ocr_text) {
         // Text was changed - update the version for current view language as manual
         if (translationData) {
-          updatedTranslationData = setVersion(translationData, viewLanguage, textDraft, true);
-          updatedNotes = serializeTranslationData(updatedTranslationData);
+          // An edited translation counts as up to date with the current source
+          updatedTranslationData = setVersion(
+            translationData,
+            viewLanguage,
+            textDraft,
+            true,
+            viewLanguage === translationData.sourceLanguage ? undefined : sourceHash
+          );
+          await saveVersion(id, viewLanguage, updatedTranslationData.versions[viewLanguage]!);
         } else {
           // Create new translation data
-          const sourceLanguage = detectSourceLanguage(textDraft);
-          updatedTranslationData = createTranslationData(textDraft, sourceLanguage);
-          updatedNotes = serializeTranslationData(updatedTranslationData);
+          updatedTranslationData = createTranslationData(textDraft, detectSourceLanguage(textDraft));
+          await saveI18nData(id, updatedTranslationData);
         }
+        sourceLanguage = updatedTranslationData.sourceLanguage;
       }
 
       const { error: updateError } = await supabase
@@ -491,7 +621,7 @@ export default function LectureDetail() {
           topic: editForm.topic,
           tags: tagsArray,
           ocr_text: textDraft || null,
-          notes: updatedNotes,
+          source_language: sourceLanguage,
           photos: editForm.photos,
           images: editForm.photos.map(p => p.url), // Keep legacy in sync
         })
@@ -510,7 +640,7 @@ export default function LectureDetail() {
         topic: editForm.topic,
         tags: tagsArray,
         ocr_text: textDraft || null,
-        notes: updatedNotes,
+        source_language: sourceLanguage,
         photos: editForm.photos,
         images: editForm.photos.map(p => p.url),
       });
@@ -602,19 +732,23 @@ export default function LectureDetail() {
       .eq('language', lang)
       .maybeSingle();
     
-    setSummary(data || null);
+    setSummary((data as unknown as Summary) || null);
   };
 
-  // Fetch existing flashcards for current language
-  const fetchFlashcards = async (lang: SupportedLanguage) => {
+  // Fetch existing flashcards for current language and answer language
+  const fetchFlashcards = async (lang: SupportedLanguage, answerLang = flashcardAnswerLanguage) => {
     if (!id) return;
     
-    const { data } = await supabase
+    const query = supabase
       .from('flashcards')
       .select('*')
       .eq('material_id', id)
       .eq('language', lang)
-      .order('created_at', { ascending: true });
+      .is('archived_at', null);
+    const { data } = await (answerLang && answerLang !== lang
+      ? query.eq('answer_language', answerLang)
+      : query.is('answer_language', null)
+    ).order('created_at', { ascending: true });
     
     setFlashcards((data || []) as Flashcard[]);
   };
@@ -627,12 +761,14 @@ export default function LectureDetail() {
     setQuizQuestions([]);
     setQuizAnswers({});
     setShowQuizResults(false);
-    
+    setQuizMode('full');
+
     const { data, error } = await supabase
       .from('quiz_questions')
       .select('*')
       .eq('material_id', id)
       .eq('language', lang)
+      .is('archived_at', null)
       .order('created_at', { ascending: false });
     
     // Debug logging
@@ -645,14 +781,28 @@ export default function LectureDetail() {
     }
     
     if (data && data.length > 0) {
-      // Parse options from JSON if needed
-      const parsed = data.map(q => ({
-        ...q,
-        options: Array.isArray(q.options) ? q.options : JSON.parse(q.options as string),
-      })) as QuizQuestion[];
+      // Parse options and answers from JSON if needed
+      const parsed = data.map(parseQuizQuestion) as QuizQuestion[];
       setQuizQuestions(parsed);
+      fetchQuizProgress(lang, parsed);
     } else {
       setQuizQuestions([]);
+      fetchQuizProgress(lang, []);
+    }
+  };
+
+  // Score history of the material's quiz and answer stats of its questions
+  const fetchQuizProgress = async (lang: SupportedLanguage, questions: QuizQuestion[]) => {
+    if (!id) return;
+    try {
+      const [history, stats] = await Promise.all([
+        loadQuizHistory(id, lang),
+        loadQuestionStats(questions.map((q) => q.id)),
+      ]);
+      setQuizHistory(history);
+      setQuizStats(stats);
+    } catch (error) {
+      console.error('[Quiz] Failed to load attempts:', error);
     }
   };
 
@@ -682,29 +832,15 @@ export default function LectureDetail() {
     setIsGeneratingSummary(true);
 
     try {
-      const response = await supabase.functions.invoke('generate-summary', {
-        body: {
-          material_id: id,
-          ocr_text: textForAi,
-          title: material.title,
-          topic: material.topic,
-          language: studyLanguage,
-        },
-      });
+      const res = await generateSummary({ materialId: id, language: studyLanguage });
 
-      if (response.error) {
-        console.error('Summary error:', response.error);
-        const errorMsg = response.error.message || 'Failed to generate summary';
-        toast.error(errorMsg);
+      if (res.success === false) {
+        console.error('Summary error:', res.code, res.message);
+        toast.error(edgeFailToHuman(res));
         return;
       }
 
-      if (response.data?.error) {
-        toast.error(response.data.error);
-        return;
-      }
-
-      setSummary(response.data.summary);
+      setSummary(res.data.summary as unknown as Summary);
       toast.success('Summary generated!');
     } catch (err) {
       console.error('Generate summary error:', err);
@@ -722,7 +858,7 @@ export default function LectureDetail() {
   };
 
   // Execute flashcards generation (internal - uses getTextForAi)
-  const executeGenerateFlashcards = async () => {
+  const executeGenerateFlashcards = async (cardType: CardType = 'basic') => {
     const textForAi = getTextForAi();
     if (!material || !textForAi || !id) {
       toast.error('No text available to generate flashcards');
@@ -732,31 +868,23 @@ export default function LectureDetail() {
     setIsGeneratingFlashcards(true);
     
     try {
-      const response = await supabase.functions.invoke('generate-flashcards', {
-        body: {
-          material_id: id,
-          ocr_text: textForAi,
-          title: material.title,
-          topic: material.topic,
-          count: 15,
-          language: studyLanguage,
-        },
+      const res = await generateFlashcards({
+        materialId: id,
+        language: studyLanguage,
+        answerLanguage: cardType === 'cloze' ? null : flashcardAnswerLanguage,
+        cardType,
+        count: 15,
       });
 
-      if (response.error) {
-        console.error('Flashcards error:', response.error);
-        toast.error(response.error.message || 'Failed to generate flashcards');
+      if (res.success === false) {
+        console.error('Flashcards error:', res.code, res.message);
+        toast.error(edgeFailToHuman(res));
         return;
       }
 
-      if (response.data?.error) {
-        toast.error(response.data.error);
-        return;
-      }
-
-      setFlashcards(response.data.flashcards);
-      setFlashcardWarnings(response.data.warnings || []);
-      toast.success(`${response.data.flashcards.length} flashcards generated!`);
+      setFlashcards(res.data.flashcards as Flashcard[]);
+      setFlashcardWarnings(res.data.warnings || []);
+      toast.success(formatMergeToast(res.data.flashcards.length, 'flashcards', res.data.merge));
     } catch (err) {
       console.error('Generate flashcards error:', err);
       toast.error('Failed to generate flashcards');
@@ -772,6 +900,176 @@ export default function LectureDetail() {
     }
   };
 
+  const handleGenerateClozeCards = () => {
+    if (checkTranslationBeforeAi('cloze')) {
+      executeGenerateFlashcards('cloze');
+    }
+  };
+
+  // Offer a cloze card for text selected in the lecture text
+  const handleTextSelection = (container: HTMLElement, text: string, language: SupportedLanguage) => {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.commonAncestorContainer)) return;
+
+    // The rendered text matches `text`, so its length up to the selection is the offset
+    const before = document.createRange();
+    before.selectNodeContents(container);
+    before.setEnd(range.startContainer, range.startOffset);
+    const start = before.toString().length;
+
+    const cloze = clozeFromSelection(text, start, start + range.toString().length);
+    if (cloze) setClozeDraft({ language, text: cloze });
+  };
+
+  const handleCreateClozeCard = async () => {
+    if (!id || !clozeDraft) return;
+
+    setIsSavingCloze(true);
+    try {
+      await createFlashcard(id, clozeDraft.language, null, {
+        card_type: 'cloze',
+        question: clozeDraft.text,
+        answer: '',
+      });
+      toast.success(t('cloze.created'));
+      if (clozeDraft.language === studyLanguage && !flashcardAnswerLanguage) {
+        fetchFlashcards(studyLanguage);
+      }
+      setClozeDraft(null);
+    } catch (err) {
+      console.error('Failed to create cloze card:', err);
+      toast.error(t('cloze.createFailed'));
+    } finally {
+      setIsSavingCloze(false);
+    }
+  };
+
+  const openCardEditor = (card: Flashcard | null) => {
+    setEditingCard(card);
+    setIsCardEditorOpen(true);
+  };
+
+  const handleSaveCard = async (draft: FlashcardDraft) => {
+    if (!id) return;
+
+    try {
+      if (editingCard) {
+        await updateFlashcard(editingCard.id, draft);
+      } else {
+        await createFlashcard(id, studyLanguage, draft.card_type === 'cloze' ? null : flashcardAnswerLanguage, draft);
+      }
+      toast.success(t('flashcards.saved'));
+      fetchFlashcards(studyLanguage);
+    } catch (err) {
+      console.error('Failed to save flashcard:', err);
+      toast.error(t('flashcards.saveFailed'));
+      throw err;
+    }
+  };
+
+  const handleToggleSuspended = async (card: Flashcard) => {
+    try {
+      await setFlashcardSuspended(card.id, !card.suspended_at);
+      fetchFlashcards(studyLanguage);
+    } catch (err) {
+      console.error('Failed to suspend flashcard:', err);
+      toast.error(t('flashcards.saveFailed'));
+    }
+  };
+
+  const handleFlagCard = async (comment: string) => {
+    if (!user || !flaggingCard) return;
+
+    try {
+      await flagFlashcard(user.id, flaggingCard, comment);
+      toast.success(t('flashcards.flagged'));
+    } catch (err) {
+      console.error('Failed to flag flashcard:', err);
+      toast.error(t('flashcards.saveFailed'));
+      throw err;
+    }
+  };
+
+  const toggleCardSelected = (cardId: string, selected: boolean) => {
+    setSelectedCardIds((prev) => (selected ? [...prev, cardId] : prev.filter((other) => other !== cardId)));
+  };
+
+  const handleDeleteCards = async () => {
+    if (!cardsToDelete) return;
+
+    setIsDeletingCards(true);
+    try {
+      await deleteFlashcards(cardsToDelete);
+      toast.success(t('flashcards.deleted', { count: cardsToDelete.length }));
+      setSelectedCardIds((prev) => prev.filter((cardId) => !cardsToDelete.includes(cardId)));
+      setCardsToDelete(null);
+      fetchFlashcards(studyLanguage);
+    } catch (err) {
+      console.error('Failed to delete flashcards:', err);
+      toast.error(t('flashcards.deleteFailed'));
+    } finally {
+      setIsDeletingCards(false);
+    }
+  };
+
+  const renderLectureText = (text: string, language: SupportedLanguage) => (
+    <div className="space-y-4">
+      <div onMouseUp={(e) => handleTextSelection(e.currentTarget, text, language)}>
+        <GlossaryText
+          text={text}
+          terms={glossaryTerms}
+          language={language}
+          highlight={sourceHighlight?.text === text ? sourceHighlight.span : null}
+        />
+      </div>
+      {clozeDraft && (
+        <div className="space-y-2 rounded-lg border border-primary/30 bg-primary/5 p-3">
+          <p className="text-xs font-medium text-muted-foreground">{t('cloze.fromSelection')}</p>
+          <ClozeText text={clozeDraft.text} className="text-sm" />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleCreateClozeCard} disabled={isSavingCloze}>
+              {isSavingCloze ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <TextCursorInput className="mr-2 h-4 w-4" />
+              )}
+              {t('cloze.create')}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setClozeDraft(null)}>
+              {t('common.cancel')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  // Mark the passage an item was generated from in the text tab. Items are
+  // generated from the AI text (see getTextForAi), so switch to its language.
+  const handleShowSource = (item: GroundedItem) => {
+    const span = currentAiText ? findSource(item, currentAiText, aiTextHash) : null;
+    if (!span) {
+      toast.error(t('grounding.notFound'));
+      return;
+    }
+    if (translationData) {
+      setViewLanguage(hasTranslation(translationData, studyLanguage) ? studyLanguage : translationData.sourceLanguage);
+    }
+    setSourceHighlight({ text: currentAiText, span });
+    setActiveTab('text');
+  };
+
+  const handleAnswerLanguageChange = (value: string) => {
+    const answerLang = value === 'same' ? null : (value as SupportedLanguage);
+    setAnswerLanguage(answerLang);
+    setFlashcards([]);
+    setFlashcardWarnings([]);
+    fetchFlashcards(studyLanguage, answerLang);
+  };
+
   // Execute quiz generation (internal - uses getTextForAi)
   const executeGenerateQuiz = async () => {
   const textForAi = getTextForAi();
@@ -787,33 +1085,20 @@ export default function LectureDetail() {
   try {
     // Важно: для AI используем именно studyLanguage (глобальный учебный язык),
     // а не i18n.language (язык интерфейса).
-    const lang: SupportedLanguage = (studyLanguage as SupportedLanguage) || 'ru';
-
-    const response = await supabase.functions.invoke('generate-quiz', {
-      body: {
-        material_id: id,
-        ocr_text: textForAi,
-        title: material.title,
-        topic: material.topic,
-        count: 8,
-        language: studyLanguage as 'ru' | 'de' | 'en',
-      },
-    });
+    const res = await generateQuiz({ materialId: id, language: studyLanguage, count: 8 });
 
-    if (response.error) {
-      console.error('Quiz error:', response.error);
-      toast.error(response.error.message || 'Failed to generate quiz');
+    if (res.success === false) {
+      console.error('Quiz error:', res.code, res.message);
+      toast.error(edgeFailToHuman(res));
       return;
     }
 
-    if (response.data?.error) {
-      toast.error(response.data.error);
-      return;
-    }
-
-    setQuizQuestions(response.data.questions || []);
-    setQuizWarnings(response.data.warnings || []);
-    toast.success(`${(response.data.questions || []).length} quiz questions generated!`);
+    const questions = (res.data.questions || []).map(parseQuizQuestion) as unknown as QuizQuestion[];
+    setQuizQuestions(questions);
+    setQuizMode('full');
+    fetchQuizProgress(studyLanguage, questions);
+    setQuizWarnings(res.data.warnings || []);
+    toast.success(formatMergeToast(questions.length, 'quiz questions', res.data.merge));
   } catch (err) {
     console.error('Generate quiz error:', err);
     toast.error('Failed to generate quiz');
@@ -831,42 +1116,72 @@ export default function LectureDetail() {
   };
 
   // Handle quiz answer selection
-  const handleQuizAnswer = (questionId: string, optionIndex: number) => {
+  const handleQuizAnswer = (questionId: string, answer: QuizAnswer) => {
     if (showQuizResults) return; // Don't allow changes after submitting
-    setQuizAnswers(prev => ({ ...prev, [questionId]: optionIndex }));
+    setQuizAnswers(prev => ({ ...prev, [questionId]: answer }));
   };
 
-  // Submit quiz
-  const handleSubmitQuiz = () => {
+  const retryQuestionIds = questionsToRetry(quizStats);
+  const visibleQuizQuestions = quizMode === 'retry'
+    ? quizQuestions.filter((q) => retryQuizIds.has(q.id))
+    : quizQuestions;
+  // Questions of a case are shown together and numbered in that order
+  const quizGroups = groupByCase(visibleQuizQuestions);
+  const quizNumbers = new Map(quizGroups.flatMap((group) => group.questions).map((q, index) => [q.id, index + 1]));
+
+  // Submit quiz and save the attempt
+  const handleSubmitQuiz = async () => {
     setShowQuizResults(true);
+    if (!user || !id) return;
+
+    try {
+      await saveQuizAttempt(
+        user.id,
+        id,
+        studyLanguage,
+        quizMode,
+        visibleQuizQuestions.map((q) => toAnswerRecord(q, quizAnswers[q.id]))
+      );
+      await fetchQuizProgress(studyLanguage, quizQuestions);
+    } catch (error) {
+      console.error('[Quiz] Failed to save attempt:', error);
+      toast.error(t('quiz.saveFailed'));
+    }
   };
 
-  // Reset quiz
-  const handleResetQuiz = () => {
+  // Reset quiz; a retry keeps the questions wrong at this moment
+  const handleResetQuiz = (mode: QuizMode = 'full') => {
     setQuizAnswers({});
     setShowQuizResults(false);
+    setQuizMode(mode);
+    setRetryQuizIds(mode === 'retry' ? retryQuestionIds : new Set());
   };
 
   // Calculate quiz score
   const getQuizScore = () => {
     let correct = 0;
-    quizQuestions.forEach(q => {
-      if (quizAnswers[q.id] === q.correct_index) {
+    visibleQuizQuestions.forEach(q => {
+      if (isAnswerCorrect(q, quizAnswers[q.id])) {
         correct++;
       }
     });
-    return { correct, total: quizQuestions.length };
+    return { correct, total: visibleQuizQuestions.length };
   };
 
-  // Translate text to selected language
-  const handleTranslate = async (targetLang: SupportedLanguage) => {
+  // Translate text to selected language.
+  // refresh re-translates an existing (outdated) version; overwriteManual
+  // is only passed after the user confirmed replacing their own edits.
+  const handleTranslate = async (
+    targetLang: SupportedLanguage,
+    options: { refresh?: boolean; overwriteManual?: boolean } = {}
+  ) => {
     if (!material || !translationData || !id) {
       toast.error('No text available to translate');
       return;
     }
 
     // Don't translate if already exists
-    if (hasTranslation(translationData, targetLang)) {
+    if (hasTranslation(translationData, targetLang) && !options.refresh) {
       setViewLanguage(targetLang);
       return;
     }
@@ -874,32 +1189,37 @@ export default function LectureDetail() {
     setIsTranslating(true);
     
     try {
-      // Use new materialId-based API
-      const response = await supabase.functions.invoke('translate-text', {
-        body: {
-          materialId: id,
-          targetLanguage: targetLang,
-        },
+      const res = await translateText({
+        materialId: id,
+        targetLanguage: targetLang,
+        overwriteManual: options.overwriteManual,
       });
 
-      if (response.error) {
-        console.error('Translation error:', response.error);
-        toast.error(response.error.message || 'Failed to translate');
+      if (res.success === false) {
+        console.error('Translation error:', res.code, res.message);
+        toast.error(edgeFailToHuman(res));
         return;
       }
 
-      if (response.data?.error) {
-        toast.error(response.data.error);
+      setViewLanguage(targetLang);
+      if (res.data.isManual) {
+        // The server kept the user's own version
         return;
       }
 
-      const translatedText = response.data.translatedText;
-      const isManual = response.data.isManual || false;
-      
-      // Update local translation data with new version
-      const updatedData = setTranslation(translationData, targetLang, translatedText);
-      setTranslationData(updatedData);
-      setViewLanguage(targetLang);
+      // Update local translation data with the version the server stored
+      setTranslationData({
+        ...translationData,
+        versions: {
+          ...translationData.versions,
+          [targetLang]: {
+            ...translationData.versions[targetLang],
+            text: res.data.translatedText,
+            isManual: false,
+            sourceHash: res.data.sourceHash ?? null,
+          },
+        },
+      });
 
       // Note: The edge function already saves to DB, so we don't need to save here
       toast.success(`Translated to ${LANGUAGE_NAMES[targetLang]}`);
@@ -911,6 +1231,21 @@ export default function LectureDetail() {
     }
   };
 
+  // Re-translate an outdated version; the user's own edits are only replaced after confirmation
+  const handleRetranslate = (lang: SupportedLanguage) => {
+    if (isVersionManual(translationData, lang)) {
+      setOverwriteLanguage(lang);
+      return;
+    }
+    handleTranslate(lang, { refresh: true });
+  };
+
+  const confirmOverwriteManual = () => {
+    const lang = overwriteLanguage;
+    setOverwriteLanguage(null);
+    if (lang) handleTranslate(lang, { refresh: true, overwriteManual: true });
+  };
+
   useEffect(() => {
     const fetchMaterial = async () => {
       if (!id || !user) {
@@ -938,12 +1273,12 @@ export default function LectureDetail() {
 
         setMaterial(data);
         
-        // Parse translation data from notes field
-        const parsed = parseTranslationData(data.notes);
-        if (parsed) {
-          setTranslationData(parsed);
+        // Load the language versions
+        const stored = await fetchI18nData(data.id, data.source_language);
+        if (stored) {
+          setTranslationData(stored);
         } else if (data.ocr_text) {
-          // Initialize translation data from ocr_text if notes is empty
+          // Initialize translation data from ocr_text if there are no versions yet
           const sourceLanguage = detectSourceLanguage(data.ocr_text);
           const newTranslationData = createTranslationData(data.ocr_text, sourceLanguage);
           setTranslationData(newTranslationData);
@@ -1096,7 +1431,7 @@ export default function LectureDetail() {
         </Card>
 
         {/* Tabs */}
-        <Tabs defaultValue="text" className="w-full">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="w-full grid grid-cols-5">
             <TabsTrigger value="text" className="text-xs px-2">
               <FileText className="h-4 w-4" />
@@ -1130,7 +1465,7 @@ export default function LectureDetail() {
                   </div>
                   {!isEditing && translationData && (
                     <div className="flex gap-1">
-                      {(['ru', 'de', 'en'] as const).map((lang) => {
+                      {SUPPORTED_LANGUAGES.map((lang) => {
                         const available = hasTranslation(translationData, lang);
                         const isSource = translationData.sourceLanguage === lang;
                         const isManual = isVersionManual(translationData, lang);
@@ -1142,9 +1477,12 @@ export default function LectureDetail() {
                             onClick={() => setViewLanguage(lang)}
                             className="text-xs uppercase"
                           >
-                            {lang}
+                            {LANGUAGE_CODES[lang]}
                             {isSource && <span className="ml-1 opacity-50">•</span>}
                             {available && isManual && !isSource && <span className="ml-1 opacity-50">✓</span>}
+                            {available && isVersionOutdated(translationData, lang, sourceHash) && (
+                              <span className="ml-1 text-warning">!</span>
+                            )}
                             {!available && !isSource && <span className="ml-1 opacity-50">?</span>}
                           </Button>
                         );
@@ -1175,9 +1513,17 @@ export default function LectureDetail() {
                     <p className="text-sm text-muted-foreground">{t('ai.translating')}</p>
                   </div>
                 ) : translationData && hasTranslation(translationData, viewLanguage) ? (
-                  <pre className="whitespace-pre-wrap font-mono text-sm leading-relaxed">
-                    {getTextInLanguage(translationData, viewLanguage)}
-                  </pre>
+                  <div className="space-y-4">
+                    {isVersionOutdated(translationData, viewLanguage, sourceHash) && (
+                      <OutdatedNotice
+                        message={t('outdated.version')}
+                        actionLabel={t('outdated.retranslate')}
+                        onAction={() => handleRetranslate(viewLanguage)}
+                        isBusy={isTranslating}
+                      />
+                    )}
+                    {renderLectureText(getTextInLanguage(translationData, viewLanguage), viewLanguage)}
+                  </div>
                 ) : translationData ? (
                   // No translation for selected language - show translate button
                   <div className="text-center py-8 space-y-4">
@@ -1191,9 +1537,10 @@ export default function LectureDetail() {
                     </Button>
                   </div>
                 ) : material.ocr_text ? (
-                  <pre className="whitespace-pre-wrap font-mono text-sm leading-relaxed">
-                    {material.ocr_text}
-                  </pre>
+                  renderLectureText(
+                    material.ocr_text,
+                    toSupportedLanguage(material.source_language, detectSourceLanguage(material.ocr_text))
+                  )
                 ) : (
                   <p className="text-muted-foreground text-sm">
                     {t('material.noText')}
@@ -1233,6 +1580,15 @@ export default function LectureDetail() {
                   </div>
                 ) : summary ? (
                   <>
+                    {isOutdated(summary.source_hash, aiTextHash) && (
+                      <OutdatedNotice
+                        message={t('outdated.summary')}
+                        actionLabel={t('outdated.regenerate')}
+                        onAction={handleGenerateSummary}
+                        isBusy={isGeneratingSummary}
+                      />
+                    )}
+
                     {/* Warnings */}
                     {summary.warnings && summary.warnings.length > 0 && (
                       <div className="p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-2">
@@ -1257,6 +1613,33 @@ export default function LectureDetail() {
                       </pre>
                     </div>
 
+                    {/* Sources of the short summary's points */}
+                    {summaryLevel === 'short' && summary.sources?.length > 0 && (
+                      <div className="space-y-1">
+                        <p className="text-xs font-medium text-muted-foreground">{t('grounding.sources')}</p>
+                        {summary.sources.map((source, idx) => (
+                          <button
+                            key={idx}
+                            className="flex w-full items-start gap-2 rounded p-1 text-left text-xs hover:bg-muted"
+                            onClick={() =>
+                              handleShowSource({
+                                source_quote: source.quote,
+                                source_start: source.start,
+                                source_end: source.end,
+                                source_hash: summary.source_hash,
+                              })
+                            }
+                          >
+                            <TextQuote className="mt-0.5 h-3 w-3 shrink-0" />
+                            <span className="flex-1">{source.point}</span>
+                            {source.start === null && (
+                              <Badge variant="destructive" className="text-xs">{t('grounding.unverified')}</Badge>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
                     <p className="text-xs text-muted-foreground">
                       Generated {new Date(summary.generated_at).toLocaleDateString()}
                     </p>
@@ -1286,6 +1669,22 @@ export default function LectureDetail() {
                     <Badge variant="secondary">{flashcards.length} cards</Badge>
                   )}
                 </div>
+                <div className="flex items-center gap-2 pt-2">
+                  <span className="text-xs text-muted-foreground">{t('ai.answerLanguage')}</span>
+                  <Select value={flashcardAnswerLanguage ?? 'same'} onValueChange={handleAnswerLanguageChange}>
+                    <SelectTrigger className="h-8 w-auto min-w-[140px] text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="same">{t('ai.sameLanguage')}</SelectItem>
+                      {SUPPORTED_LANGUAGES.filter((lang) => lang !== studyLanguage).map((lang) => (
+                        <SelectItem key={lang} value={lang}>
+                          {LANGUAGE_NAMES[lang]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </CardHeader>
               <CardContent className="space-y-4">
                 {isGeneratingFlashcards ? (
@@ -1295,6 +1694,15 @@ export default function LectureDetail() {
                   </div>
                 ) : flashcards.length > 0 ? (
                   <>
+                    {flashcards.some((card) => isOutdated(card.source_hash, aiTextHash)) && (
+                      <OutdatedNotice
+                        message={t('outdated.flashcards')}
+                        actionLabel={t('outdated.regenerate')}
+                        onAction={handleGenerateFlashcards}
+                        isBusy={isGeneratingFlashcards}
+                      />
+                    )}
+
                     {/* Warnings */}
                     {flashcardWarnings.length > 0 && (
                       <div className="p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-2">
@@ -1313,31 +1721,131 @@ export default function LectureDetail() {
                     {/* Start review button */}
                     <Button 
                       className="w-full"
-                      onClick={() => navigate('/review')}
+                      onClick={() =>
+                        navigate(
+                          flashcardAnswerLanguage
+                            ? `/review?lang=${studyLanguage}&answer=${flashcardAnswerLanguage}`
+                            : '/review'
+                        )
+                      }
                     >
                       <BookOpen className="h-4 w-4 mr-2" />
                       {t('ai.startReview')}
                     </Button>
+
+                    {!flashcardAnswerLanguage && (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={handleGenerateClozeCards}
+                        disabled={isGeneratingFlashcards}
+                      >
+                        <TextCursorInput className="h-4 w-4 mr-2" />
+                        {t('cloze.generate')}
+                      </Button>
+                    )}
                     
+                    {/* Manual editing */}
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openCardEditor(null)}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        {t('flashcards.add')}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setIsExportOpen(true)}>
+                        <Download className="h-4 w-4 mr-2" />
+                        {t('export.action')}
+                      </Button>
+                      {selectedCardIds.length > 0 && (
+                        <Button variant="destructive" size="sm" onClick={() => setCardsToDelete(selectedCardIds)}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          {t('flashcards.deleteSelected', { count: selectedCardIds.length })}
+                        </Button>
+                      )}
+                    </div>
+
                     {/* Flashcards list */}
                     <div className="space-y-3">
                       {flashcards.map((card, idx) => (
-                        <Card key={card.id} className="border-l-4" style={{
+                        <Card key={card.id} className={`border-l-4 ${card.suspended_at ? 'opacity-60' : ''}`} style={{
                           borderLeftColor: card.confidence === 'high' ? 'hsl(var(--primary))' : 
                             card.confidence === 'medium' ? 'hsl(var(--warning))' : 'hsl(var(--destructive))'
                         }}>
                           <CardContent className="py-3 space-y-2">
                             <div className="flex items-start justify-between gap-2">
-                              <p className="text-sm font-medium">{idx + 1}. {card.question}</p>
-                              <Badge 
-                                variant={card.confidence === 'high' ? 'default' : 
-                                  card.confidence === 'medium' ? 'secondary' : 'destructive'}
-                                className="text-xs shrink-0"
-                              >
-                                {card.confidence}
-                              </Badge>
+                              <div className="flex items-start gap-2">
+                                <Checkbox
+                                  className="mt-0.5"
+                                  checked={selectedCardIds.includes(card.id)}
+                                  onCheckedChange={(checked) => toggleCardSelected(card.id, checked === true)}
+                                />
+                                {card.card_type === 'cloze' ? (
+                                  <ClozeText text={card.question} className="text-sm" />
+                                ) : (
+                                  <p className="text-sm font-medium">{idx + 1}. {card.question}</p>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-1 shrink-0">
+                                {card.suspended_at && (
+                                  <Badge variant="outline" className="text-xs">{t('flashcards.suspended')}</Badge>
+                                )}
+                                {card.is_manual && (
+                                  <Badge variant="outline" className="text-xs">{t('flashcards.manual')}</Badge>
+                                )}
+                                {isUngrounded(card) && (
+                                  <Badge variant="destructive" className="text-xs" title={t('grounding.unverifiedHint')}>
+                                    {t('grounding.unverified')}
+                                  </Badge>
+                                )}
+                                <Badge 
+                                  variant={card.confidence === 'high' ? 'default' : 
+                                    card.confidence === 'medium' ? 'secondary' : 'destructive'}
+                                  className="text-xs"
+                                >
+                                  {card.confidence}
+                                </Badge>
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button variant="ghost" size="icon" className="h-7 w-7">
+                                      <MoreVertical className="h-4 w-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    {card.source_quote && (
+                                      <DropdownMenuItem onClick={() => handleShowSource(card)}>
+                                        <TextQuote className="h-4 w-4 mr-2" />
+                                        {t('grounding.showSource')}
+                                      </DropdownMenuItem>
+                                    )}
+                                    <DropdownMenuItem onClick={() => openCardEditor(card)}>
+                                      <Pencil className="h-4 w-4 mr-2" />
+                                      {t('flashcards.edit')}
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => handleToggleSuspended(card)}>
+                                      {card.suspended_at ? (
+                                        <PlayCircle className="h-4 w-4 mr-2" />
+                                      ) : (
+                                        <PauseCircle className="h-4 w-4 mr-2" />
+                                      )}
+                                      {card.suspended_at ? t('flashcards.resume') : t('flashcards.suspend')}
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => setFlaggingCard(card)}>
+                                      <Flag className="h-4 w-4 mr-2" />
+                                      {t('flashcards.flag')}
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem
+                                      onClick={() => setCardsToDelete([card.id])}
+                                      className="text-destructive focus:text-destructive"
+                                    >
+                                      <Trash2 className="h-4 w-4 mr-2" />
+                                      {t('common.delete')}
+                                    </DropdownMenuItem>
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              </div>
                             </div>
-                            <p className="text-sm text-muted-foreground">{card.answer}</p>
+                            {card.card_type !== 'cloze' && (
+                              <p className="text-sm text-muted-foreground">{card.answer}</p>
+                            )}
                           </CardContent>
                         </Card>
                       ))}
@@ -1347,12 +1855,32 @@ export default function LectureDetail() {
                   <div className="text-center py-8 space-y-4">
                     <BookOpen className="h-12 w-12 text-muted-foreground/30 mx-auto" />
                     <p className="text-sm text-muted-foreground">
-                      {t('ai.noFlashcardsInLang', { lang: LANGUAGE_NAMES[studyLanguage] })}
+                      {t('ai.noFlashcardsInLang', {
+                        lang: flashcardAnswerLanguage
+                          ? `${LANGUAGE_NAMES[studyLanguage]} → ${LANGUAGE_NAMES[flashcardAnswerLanguage]}`
+                          : LANGUAGE_NAMES[studyLanguage],
+                      })}
                     </p>
                     <Button onClick={handleGenerateFlashcards} disabled={isGeneratingFlashcards}>
                       <BookOpen className="mr-2 h-4 w-4" />
-                      {t('ai.generateIn', { lang: studyLanguage.toUpperCase() })}
+                      {t('ai.generateIn', {
+                        lang: flashcardAnswerLanguage
+                          ? `${LANGUAGE_CODES[studyLanguage]} → ${LANGUAGE_CODES[flashcardAnswerLanguage]}`
+                          : studyLanguage.toUpperCase(),
+                      })}
                     </Button>
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {!flashcardAnswerLanguage && (
+                        <Button variant="ghost" size="sm" onClick={handleGenerateClozeCards} disabled={isGeneratingFlashcards}>
+                          <TextCursorInput className="mr-2 h-4 w-4" />
+                          {t('cloze.generate')}
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => openCardEditor(null)}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        {t('flashcards.add')}
+                      </Button>
+                    </div>
                   </div>
                 )}
               </CardContent>
@@ -1385,6 +1913,15 @@ export default function LectureDetail() {
                   </div>
                 ) : quizQuestions.length > 0 ? (
                   <>
+                    {quizQuestions.some((q) => isOutdated(q.source_hash, aiTextHash)) && (
+                      <OutdatedNotice
+                        message={t('outdated.quiz')}
+                        actionLabel={t('outdated.regenerate')}
+                        onAction={handleGenerateQuiz}
+                        isBusy={isGeneratingQuiz}
+                      />
+                    )}
+
                     {/* Warnings */}
                     {quizWarnings.length > 0 && (
                       <div className="p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-2">
@@ -1400,62 +1937,85 @@ export default function LectureDetail() {
                       </div>
                     )}
                     
-                    {/* Quiz questions */}
+                    {quizMode === 'retry' && (
+                      <div className="flex items-center justify-between gap-2 rounded-lg bg-muted p-3 text-sm">
+                        <span>{t('quiz.retryMode', { count: visibleQuizQuestions.length })}</span>
+                        <Button variant="ghost" size="sm" onClick={() => handleResetQuiz('full')}>
+                          {t('quiz.allQuestions')}
+                        </Button>
+                      </div>
+                    )}
+
+                    {/* Quiz questions; questions of a case follow its vignette */}
                     <div className="space-y-6">
-                      {quizQuestions.map((q, qIdx) => (
-                        <div key={q.id} className="space-y-3">
-                          <div className="flex items-start gap-2">
-                            <span className="font-medium text-sm">{qIdx + 1}.</span>
-                            <div className="flex-1">
-                              <p className="text-sm font-medium">{q.question}</p>
-                              {q.confidence !== 'high' && (
-                                <Badge 
-                                  variant={q.confidence === 'medium' ? 'secondary' : 'destructive'}
-                                  className="text-xs mt-1"
-                                >
-                                  {q.confidence} confidence
-                                </Badge>
+                      {quizGroups.map((group) => (
+                        <div key={group.questions[0].id} className="space-y-6">
+                          {group.caseText && <CaseVignette text={group.caseText} />}
+                          {group.questions.map((q) => (
+                            <div key={q.id} className="space-y-3">
+                              <div className="flex items-start gap-2">
+                                <span className="font-medium text-sm">{quizNumbers.get(q.id)}.</span>
+                                <div className="flex-1">
+                                  <p className="text-sm font-medium">{q.question}</p>
+                                  {q.confidence !== 'high' && (
+                                    <Badge
+                                      variant={q.confidence === 'medium' ? 'secondary' : 'destructive'}
+                                      className="text-xs mt-1"
+                                    >
+                                      {q.confidence} confidence
+                                    </Badge>
+                                  )}
+                                  {quizStats[q.id]?.wrong > 0 && (
+                                    <Badge variant="outline" className="text-xs mt-1 ml-1">
+                                      {t('quiz.errorRate', {
+                                        wrong: quizStats[q.id].wrong,
+                                        answered: quizStats[q.id].answered,
+                                      })}
+                                    </Badge>
+                                  )}
+                                  {isUngrounded(q) && (
+                                    <Badge
+                                      variant="destructive"
+                                      className="text-xs mt-1 ml-1"
+                                      title={t('grounding.unverifiedHint')}
+                                    >
+                                      {t('grounding.unverified')}
+                                    </Badge>
+                                  )}
+                                </div>
+                              </div>
+                              <div className="ml-5">
+                                <QuizQuestionInput
+                                  question={q}
+                                  answer={quizAnswers[q.id]}
+                                  onChange={(answer) => handleQuizAnswer(q.id, answer)}
+                                  revealed={showQuizResults}
+                                />
+                              </div>
+                              {/* Explanation and source after submit */}
+                              {showQuizResults && (q.explanation || q.source_quote) && (
+                                <div className="ml-5 p-3 rounded-lg bg-muted text-sm">
+                                  {q.explanation && (
+                                    <>
+                                      <p className="font-medium text-xs text-muted-foreground mb-1">Explanation:</p>
+                                      <p>{q.explanation}</p>
+                                    </>
+                                  )}
+                                  {q.source_quote && (
+                                    <Button
+                                      variant="link"
+                                      size="sm"
+                                      className="h-auto p-0 mt-1 text-xs"
+                                      onClick={() => handleShowSource(q)}
+                                    >
+                                      <TextQuote className="h-3 w-3 mr-1" />
+                                      {t('grounding.showSource')}
+                                    </Button>
+                                  )}
+                                </div>
                               )}
                             </div>
-                          </div>
-                          <div className="space-y-2 ml-5">
-                            {q.options.map((option, optIdx) => {
-                              const isSelected = quizAnswers[q.id] === optIdx;
-                              const isCorrect = q.correct_index === optIdx;
-                              const showResult = showQuizResults;
-                              
-                              let optionClass = "w-full justify-start text-left h-auto py-2 px-3";
-                              if (showResult) {
-                                if (isCorrect) {
-                                  optionClass += " bg-green-500/20 border-green-500 text-green-700 dark:text-green-300";
-                                } else if (isSelected && !isCorrect) {
-                                  optionClass += " bg-destructive/20 border-destructive text-destructive";
-                                }
-                              } else if (isSelected) {
-                                optionClass += " bg-primary/10 border-primary";
-                              }
-                              
-                              return (
-                                <Button
-                                  key={optIdx}
-                                  variant="outline"
-                                  className={optionClass}
-                                  onClick={() => handleQuizAnswer(q.id, optIdx)}
-                                  disabled={showQuizResults}
-                                >
-                                  <span className="font-medium mr-2">{String.fromCharCode(65 + optIdx)}.</span>
-                                  <span className="flex-1">{option}</span>
-                                </Button>
-                              );
-                            })}
-                          </div>
-                          {/* Explanation after submit */}
-                          {showQuizResults && q.explanation && (
-                            <div className="ml-5 p-3 rounded-lg bg-muted text-sm">
-                              <p className="font-medium text-xs text-muted-foreground mb-1">Explanation:</p>
-                              <p>{q.explanation}</p>
-                            </div>
-                          )}
+                          ))}
                         </div>
                       ))}
                     </div>
@@ -1466,20 +2026,37 @@ export default function LectureDetail() {
                         <Button 
                           className="flex-1"
                           onClick={handleSubmitQuiz}
-                          disabled={Object.keys(quizAnswers).length !== quizQuestions.length}
+                          disabled={visibleQuizQuestions.some((q) => !isAnswered(q, quizAnswers[q.id]))}
                         >
                           Submit Quiz
                         </Button>
                       ) : (
-                        <Button 
-                          variant="outline"
-                          className="flex-1"
-                          onClick={handleResetQuiz}
-                        >
-                          Try Again
-                        </Button>
+                        <>
+                          <Button
+                            variant="outline"
+                            className="flex-1"
+                            onClick={() => handleResetQuiz('full')}
+                          >
+                            Try Again
+                          </Button>
+                          {retryQuestionIds.size > 0 && (
+                            <Button className="flex-1" onClick={() => handleResetQuiz('retry')}>
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              {t('quiz.retryWrong', { count: retryQuestionIds.size })}
+                            </Button>
+                          )}
+                        </>
                       )}
                     </div>
+
+                    {!showQuizResults && quizMode === 'full' && retryQuestionIds.size > 0 && (
+                      <Button variant="ghost" size="sm" className="w-full" onClick={() => handleResetQuiz('retry')}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        {t('quiz.retryWrong', { count: retryQuestionIds.size })}
+                      </Button>
+                    )}
+
+                    <QuizHistory attempts={quizHistory} />
                   </>
                 ) : (
                   <div className="text-center py-8 space-y-4">
@@ -1713,6 +2290,51 @@ export default function LectureDetail() {
           </AlertDialogContent>
         </AlertDialog>
 
+        {/* Flashcard editor and reports */}
+        <FlashcardEditorDialog
+          open={isCardEditorOpen}
+          onOpenChange={setIsCardEditorOpen}
+          card={editingCard}
+          onSave={handleSaveCard}
+        />
+        <FlagFlashcardDialog
+          open={flaggingCard !== null}
+          onOpenChange={(open) => !open && setFlaggingCard(null)}
+          question={flaggingCard?.question ?? ''}
+          onSubmit={handleFlagCard}
+        />
+        <ExportFlashcardsDialog
+          open={isExportOpen}
+          onOpenChange={setIsExportOpen}
+          material={{ id: material.id, title: material.title || 'Untitled' }}
+          defaultLanguage={studyLanguage}
+        />
+
+        {/* Delete flashcards confirmation dialog */}
+        <AlertDialog open={cardsToDelete !== null} onOpenChange={(open) => !open && setCardsToDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('flashcards.deleteTitle', { count: cardsToDelete?.length ?? 0 })}</AlertDialogTitle>
+              <AlertDialogDescription>{t('flashcards.deleteDescription')}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDeletingCards}>{t('common.cancel')}</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDeleteCards}
+                disabled={isDeletingCards}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                {isDeletingCards ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Trash2 className="h-4 w-4 mr-2" />
+                )}
+                {t('common.delete')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         {/* Delete material confirmation dialog */}
         <AlertDialog open={showDeleteMaterial} onOpenChange={setShowDeleteMaterial}>
           <AlertDialogContent>
@@ -1741,6 +2363,24 @@ export default function LectureDetail() {
         </AlertDialog>
 
         {/* Translation prompt dialog */}
+        {/* Confirm replacing a manually edited version */}
+        <AlertDialog open={overwriteLanguage !== null} onOpenChange={(open) => !open && setOverwriteLanguage(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('outdated.overwriteManualTitle')}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {overwriteLanguage && t('outdated.overwriteManualDescription', { lang: LANGUAGE_NAMES[overwriteLanguage] })}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+              <AlertDialogAction onClick={confirmOverwriteManual}>
+                {t('outdated.overwriteManualConfirm')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         <TranslationPromptDialog
           open={showTranslationPrompt}
           onOpenChange={setShowTranslationPrompt}
@@ -1,7 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { ArrowLeft, Save, Loader2, X } from 'lucide-react';
+import { ArrowLeft, Save, Loader2, X, Languages } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -20,9 +20,16 @@ import { TOPICS, Topic, PhotoData } from '@/lib/types';
 import { uploadPhoto, createDraftMaterial } from '@/lib/storage';
 import { 
   createI18nData, 
-  serializeI18nData, 
-  detectSourceLanguage 
+  saveI18nData, 
+  setVersion,
+  hashSourceText,
+  detectSourceLanguage,
+  isSupportedLanguage,
+  SupportedLanguage,
+  SUPPORTED_LANGUAGES,
 } from '@/lib/translations';
+import { transformText, edgeFailToHuman, TransformTextData } from '@/lib/ai';
+import { MultilingualImportPreview } from '@/components/materials/MultilingualImportPreview';
 import { toast } from 'sonner';
 
 export default function MaterialDetails() {
@@ -36,6 +43,22 @@ export default function MaterialDetails() {
   const [tagInput, setTagInput] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
+  // Lecture text from the previous step
+  const [lectureText] = useState(() => sessionStorage.getItem('lectureText') || '');
+
+  // Optional import in all languages (one transform-text call)
+  const [importResult, setImportResult] = useState<TransformTextData | null>(null);
+  const [acceptedLanguages, setAcceptedLanguages] = useState<SupportedLanguage[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // OCR-detected language, else what the import detected, else a guess from the text
+  const sourceLanguage = useMemo<SupportedLanguage>(() => {
+    const savedLanguage = sessionStorage.getItem('detectedLanguage');
+    if (isSupportedLanguage(savedLanguage)) return savedLanguage;
+    if (isSupportedLanguage(importResult?.detected_language)) return importResult.detected_language;
+    return detectSourceLanguage(lectureText);
+  }, [importResult, lectureText]);
+
   // Load data from sessionStorage on mount
   useEffect(() => {
     const savedTitle = sessionStorage.getItem('materialTitle');
@@ -74,6 +97,39 @@ export default function MaterialDetails() {
     }
   };
 
+  const handleImportAll = async () => {
+    if (!lectureText.trim()) {
+      toast.error('Please enter some text');
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const res = await transformText({ ocrText: lectureText });
+
+      if (res.success === false) {
+        console.error('Import error:', res.code, res.message);
+        toast.error(edgeFailToHuman(res));
+        return;
+      }
+
+      setImportResult(res.data);
+      // Every produced language is kept unless the user unticks it
+      setAcceptedLanguages(SUPPORTED_LANGUAGES.filter((lang) => res.data.texts[lang]?.trim()));
+    } catch (err) {
+      console.error('Import error:', err);
+      toast.error('Failed to translate text');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleToggleLanguage = (language: SupportedLanguage, accepted: boolean) => {
+    setAcceptedLanguages((prev) =>
+      accepted ? [...prev, language] : prev.filter((lang) => lang !== language)
+    );
+  };
+
   const handleSave = async () => {
     if (!user) {
       toast.error('Please log in to save');
@@ -93,14 +149,9 @@ export default function MaterialDetails() {
     setIsSaving(true);
 
     try {
-      // Get data from sessionStorage
-      const lectureText = sessionStorage.getItem('lectureText') || '';
+      // Get images from sessionStorage
       const imagesJson = sessionStorage.getItem('materialImages');
       const images: string[] = imagesJson ? JSON.parse(imagesJson) : [];
-      
-      // Get detected language from OCR (or detect from text as fallback)
-      const savedLanguage = sessionStorage.getItem('detectedLanguage');
-      const sourceLanguage = (savedLanguage as 'ru' | 'de' | 'en') || detectSourceLanguage(lectureText);
 
       // Create draft material first to get materialId
       const materialId = await createDraftMaterial(user.id, topic);
@@ -120,10 +171,6 @@ export default function MaterialDetails() {
         }
       }
 
-      // Create i18n data structure with detected/saved language
-      const i18nData = createI18nData(lectureText, sourceLanguage);
-      const notes = serializeI18nData(i18nData);
-
       // Update material with all data
       const { error: updateError } = await supabase
         .from('materials')
@@ -132,7 +179,6 @@ export default function MaterialDetails() {
           topic,
           tags: tags.length > 0 ? tags : null,
           ocr_text: lectureText,
-          notes, // Store translation data as JSON
           images: photos.map(p => p.url), // Keep legacy images array for compatibility
           photos, // New structure with paths
         })
@@ -144,6 +190,20 @@ export default function MaterialDetails() {
         return;
       }
 
+      // The lecture text is the manual source version; accepted imports are
+      // automatic versions made from it
+      let i18nData = createI18nData(lectureText, sourceLanguage);
+      if (importResult) {
+        const sourceHash = await hashSourceText(lectureText);
+        for (const lang of acceptedLanguages) {
+          const text = importResult.texts[lang];
+          if (lang !== sourceLanguage && text?.trim()) {
+            i18nData = setVersion(i18nData, lang, text, false, sourceHash);
+          }
+        }
+      }
+      await saveI18nData(materialId, i18nData);
+
       // Clear sessionStorage after successful save
       sessionStorage.removeItem('lectureText');
       sessionStorage.removeItem('ocrConfidence');
@@ -263,6 +323,42 @@ export default function MaterialDetails() {
             </div>
           )}
         </div>
+
+        {/* Import in all languages */}
+        <div className="space-y-3">
+          <div>
+            <Label>{t('import.allLanguages')}</Label>
+            <p className="text-xs text-muted-foreground">{t('import.allLanguagesDescription')}</p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleImportAll}
+            disabled={isImporting || isSaving || !lectureText.trim()}
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t('import.importing')}
+              </>
+            ) : (
+              <>
+                <Languages className="mr-2 h-4 w-4" />
+                {importResult ? t('import.again') : t('import.allLanguages')}
+              </>
+            )}
+          </Button>
+          {importResult && (
+            <MultilingualImportPreview
+              sourceText={lectureText}
+              sourceLanguage={sourceLanguage}
+              texts={importResult.texts}
+              warnings={importResult.warnings}
+              accepted={acceptedLanguages}
+              onToggle={handleToggleLanguage}
+            />
+          )}
+        </div>
       </main>
 
       {/* Bottom Action */}
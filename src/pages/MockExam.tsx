@@ -0,0 +1,370 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/hooks/useProfile';
+import {
+  EXAM_DEFAULT_QUESTION_COUNT,
+  EXAM_QUESTION_COUNTS,
+  EXAM_SECONDS_PER_QUESTION,
+  EXAM_TOPIC_WEIGHTS,
+  TOPICS,
+  TOPIC_LABELS,
+} from '@/lib/constants';
+import { ExamQuestion, examReport, loadExamQuestions, pickExamQuestions } from '@/lib/mockExam';
+import { QuestionStats, loadQuestionStats, saveQuizAttempt } from '@/lib/quizAttempts';
+import { QuizAnswer, isAnswered, toAnswerRecord } from '@/lib/quizQuestions';
+import { CaseVignette, QuizQuestionInput } from '@/components/study/QuizQuestionInput';
+import { SupportedLanguage, toSupportedLanguage } from '@/lib/languages';
+import { Topic } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { ChevronLeft, ChevronRight, ClipboardCheck, Loader2, Timer } from 'lucide-react';
+
+type Phase = 'setup' | 'running' | 'done';
+
+// Topic weight choices: off, low, normal, high
+const WEIGHT_CHOICES = [0, 1, 2, 3];
+
+function formatRemaining(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function MockExam() {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const lang = i18n.language as SupportedLanguage;
+  const language = toSupportedLanguage(profile?.preferred_study_language);
+
+  const [pool, setPool] = useState<ExamQuestion[] | null>(null);
+  const [stats, setStats] = useState<Record<string, QuestionStats>>({});
+  const [questionCount, setQuestionCount] = useState(EXAM_DEFAULT_QUESTION_COUNT);
+  const [topicWeights, setTopicWeights] = useState<Record<Topic, number>>(EXAM_TOPIC_WEIGHTS);
+
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [questions, setQuestions] = useState<ExamQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer | null>>({});
+  const [current, setCurrent] = useState(0);
+  const [startedAt, setStartedAt] = useState(0);
+  const [deadline, setDeadline] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const finishedRef = useRef(false);
+
+  useEffect(() => {
+    if (!profile) return;
+    setPool(null);
+    loadExamQuestions(language)
+      .then(async (questionPool) => {
+        const questionStats = await loadQuestionStats(questionPool.map((question) => question.id));
+        setPool(questionPool);
+        setStats(questionStats);
+      })
+      .catch((error) => {
+        console.error('Error loading exam questions:', error);
+        toast.error(t('exam.loadFailed'));
+        setPool([]);
+      });
+  }, [profile, language, t]);
+
+  const availableByTopic = useMemo(() => {
+    const counts = new Map<Topic, number>();
+    for (const question of pool ?? []) counts.set(question.topic, (counts.get(question.topic) ?? 0) + 1);
+    return counts;
+  }, [pool]);
+
+  const handleStart = () => {
+    const picked = pickExamQuestions(pool ?? [], questionCount, topicWeights, stats);
+    if (picked.length === 0) return;
+
+    const start = Date.now();
+    finishedRef.current = false;
+    setQuestions(picked);
+    setAnswers({});
+    setCurrent(0);
+    setStartedAt(start);
+    setNow(start);
+    setDeadline(start + picked.length * EXAM_SECONDS_PER_QUESTION * 1000);
+    setPhase('running');
+  };
+
+  const handleFinish = useCallback(async () => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    setPhase('done');
+    if (!user) return;
+
+    try {
+      await saveQuizAttempt(
+        user.id,
+        null,
+        language,
+        'exam',
+        questions.map((question) => toAnswerRecord(question, answers[question.id])),
+        Math.round((Math.min(Date.now(), deadline) - startedAt) / 1000)
+      );
+    } catch (error) {
+      console.error('Error saving exam attempt:', error);
+      toast.error(t('quiz.saveFailed'));
+    }
+  }, [user, language, questions, answers, deadline, startedAt, t]);
+
+  // Countdown; the exam ends when the time is up
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  const remainingSeconds = Math.max(0, Math.ceil((deadline - now) / 1000));
+  useEffect(() => {
+    if (phase === 'running' && remainingSeconds === 0) handleFinish();
+  }, [phase, remainingSeconds, handleFinish]);
+
+  const report = useMemo(
+    () => (phase === 'done' ? examReport(questions, answers) : null),
+    [phase, questions, answers]
+  );
+
+  const topicLabel = (topic: Topic) => TOPIC_LABELS[topic]?.[lang] ?? topic;
+  const question = questions[current];
+  const answeredCount = questions.filter((q) => isAnswered(q, answers[q.id])).length;
+
+  return (
+    <AppLayout title={t('exam.title')} showLogo={false}>
+      <div className="space-y-6">
+        {phase === 'setup' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <ClipboardCheck className="h-5 w-5" />
+                {t('exam.title')}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">{t('exam.description')}</p>
+
+              {pool === null ? (
+                <div className="flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span className="text-sm text-muted-foreground">{t('common.loading')}</span>
+                </div>
+              ) : pool.length === 0 ? (
+                <p className="text-sm">{t('exam.noQuestions')}</p>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label>{t('exam.questionCount')}</Label>
+                    <Select value={String(questionCount)} onValueChange={(value) => setQuestionCount(Number(value))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXAM_QUESTION_COUNTS.map((count) => (
+                          <SelectItem key={count} value={String(count)}>
+                            {t('exam.questionsAndMinutes', {
+                              count,
+                              minutes: Math.round((count * EXAM_SECONDS_PER_QUESTION) / 60),
+                            })}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>{t('exam.topicWeights')}</Label>
+                    {TOPICS.map((topic) => (
+                      <div key={topic} className="flex items-center justify-between gap-2">
+                        <span className="text-sm">
+                          {topicLabel(topic)}{' '}
+                          <span className="text-muted-foreground">({availableByTopic.get(topic) ?? 0})</span>
+                        </span>
+                        <Select
+                          value={String(topicWeights[topic])}
+                          onValueChange={(value) => setTopicWeights({ ...topicWeights, [topic]: Number(value) })}
+                          disabled={!availableByTopic.get(topic)}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {WEIGHT_CHOICES.map((weight) => (
+                              <SelectItem key={weight} value={String(weight)}>
+                                {t(`exam.weights.${weight}`)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+
+                  <Button className="w-full" onClick={handleStart}>
+                    {t('exam.start')}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {phase === 'running' && question && (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                {t('exam.progress', { current: current + 1, total: questions.length })}
+              </span>
+              <Badge variant={remainingSeconds < 60 ? 'destructive' : 'secondary'} className="gap-1">
+                <Timer className="h-3 w-3" />
+                {formatRemaining(remainingSeconds)}
+              </Badge>
+            </div>
+
+            <Card>
+              <CardContent className="space-y-3 pt-6">
+                <p className="text-xs text-muted-foreground">{topicLabel(question.topic)}</p>
+                {question.case_text && <CaseVignette text={question.case_text} />}
+                <p className="font-medium">{question.question}</p>
+                <QuizQuestionInput
+                  question={question}
+                  answer={answers[question.id]}
+                  onChange={(answer) => setAnswers({ ...answers, [question.id]: answer })}
+                  revealed={false}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setCurrent(current - 1)} disabled={current === 0}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => setCurrent(current + 1)}
+                disabled={current === questions.length - 1}
+              >
+                {t('exam.next')}
+                <ChevronRight className="ml-2 h-4 w-4" />
+              </Button>
+            </div>
+
+            {/* Jump to any question; answered ones are filled */}
+            <div className="flex flex-wrap gap-1">
+              {questions.map((q, index) => (
+                <Button
+                  key={q.id}
+                  size="sm"
+                  variant={isAnswered(q, answers[q.id]) ? 'default' : 'outline'}
+                  className={cn('h-8 w-8 p-0', index === current && 'ring-2 ring-ring')}
+                  onClick={() => setCurrent(index)}
+                >
+                  {index + 1}
+                </Button>
+              ))}
+            </div>
+
+            <Button className="w-full" onClick={handleFinish}>
+              {t('exam.finish', { answered: answeredCount, total: questions.length })}
+            </Button>
+          </>
+        )}
+
+        {phase === 'done' && report && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{t('exam.result')}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-3xl font-bold">
+                  {report.correct}/{report.total}{' '}
+                  <span className="text-lg text-muted-foreground">
+                    ({Math.round((report.correct / report.total) * 100)}%)
+                  </span>
+                </p>
+
+                <div className="space-y-3">
+                  {report.byTopic.map((result) => (
+                    <div key={result.topic} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>{topicLabel(result.topic)}</span>
+                        <span className="text-muted-foreground">
+                          {result.correct}/{result.total}
+                        </span>
+                      </div>
+                      <Progress value={(result.correct / result.total) * 100} />
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {report.needsWork.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">{t('exam.needsWork')}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {report.needsWork.map((material) => (
+                    <Link
+                      key={material.material_id}
+                      to={`/lecture/${material.material_id}`}
+                      className="flex items-center justify-between rounded-lg border p-3 text-sm hover:bg-muted"
+                    >
+                      <span>
+                        {material.title || t('common.untitled')}
+                        <span className="ml-2 text-muted-foreground">{topicLabel(material.topic)}</span>
+                      </span>
+                      <Badge variant="destructive">
+                        {t('exam.wrongCount', { wrong: material.wrong, total: material.total })}
+                      </Badge>
+                    </Link>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{t('exam.review')}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {questions.map((q, index) => (
+                  <div key={q.id} className="space-y-2 text-sm">
+                    {q.case_text && <CaseVignette text={q.case_text} />}
+                    <p className="font-medium">
+                      {index + 1}. {q.question}
+                    </p>
+                    {!isAnswered(q, answers[q.id]) && <p className="text-destructive">{t('exam.unanswered')}</p>}
+                    <QuizQuestionInput question={q} answer={answers[q.id]} onChange={() => {}} revealed />
+                    {q.explanation && <p className="text-muted-foreground">{q.explanation}</p>}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Button variant="outline" className="w-full" onClick={() => setPhase('setup')}>
+              {t('exam.again')}
+            </Button>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
@@ -5,14 +6,31 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProfile } from '@/hooks/useProfile';
+import { useAiQuota } from '@/hooks/useAiQuota';
 import { LanguageSwitcher } from '@/components/LanguageSwitcher';
-import { LogOut, Globe, BookOpen, Loader2 } from 'lucide-react';
+import { ExportFlashcardsDialog } from '@/components/study/ExportFlashcardsDialog';
+import { toSupportedLanguage } from '@/lib/languages';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+import { LogOut, Globe, BookOpen, Loader2, CalendarClock, Sparkles, BookMarked, Download } from 'lucide-react';
 
 export default function Profile() {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
-  const { isLoading: profileLoading } = useProfile();
+  const { profile, isLoading: profileLoading, updateExamDate } = useProfile();
+  const { quota, isLoading: quotaLoading, dailyRemaining, monthlyRemaining } = useAiQuota();
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const handleExamDateChange = async (value: string) => {
+    const success = await updateExamDate(value || null);
+    if (success) {
+      toast.success(t('profile.examDateSaved'));
+    } else {
+      toast.error(t('profile.saveFailed'));
+    }
+  };
 
   const handleSignOut = async () => {
     await signOut();
@@ -55,6 +73,64 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        {/* Exam Date */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <CalendarClock className="h-5 w-5" />
+              {t('profile.examDate')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {t('profile.examDateDescription')}
+            </p>
+            <Input
+              type="date"
+              value={profile?.exam_date ?? ''}
+              onChange={(e) => handleExamDateChange(e.target.value)}
+              disabled={profileLoading}
+            />
+          </CardContent>
+        </Card>
+
+        {/* AI Quota */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Sparkles className="h-5 w-5" />
+              {t('profile.aiQuota')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {quotaLoading ? (
+              <div className="flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span className="text-sm text-muted-foreground">{t('common.loading')}</span>
+              </div>
+            ) : quota ? (
+              <>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">{t('profile.aiQuotaToday')}</span>
+                    <span>{t('profile.aiQuotaRemaining', { remaining: dailyRemaining, limit: quota.daily_limit })}</span>
+                  </div>
+                  <Progress value={(quota.daily_used / Math.max(1, quota.daily_limit)) * 100} />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">{t('profile.aiQuotaMonth')}</span>
+                    <span>{t('profile.aiQuotaRemaining', { remaining: monthlyRemaining, limit: quota.monthly_limit })}</span>
+                  </div>
+                  <Progress value={(quota.monthly_used / Math.max(1, quota.monthly_limit)) * 100} />
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t('profile.aiQuotaUnavailable')}</p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* UI Language Settings */}
         <Card>
           <CardHeader>
@@ -78,6 +154,48 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        {/* Glossary */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <BookMarked className="h-5 w-5" />
+              {t('glossary.title')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {t('glossary.description')}
+            </p>
+            <Button variant="outline" onClick={() => navigate('/glossary')}>
+              {t('glossary.open')}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Flashcard export */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Download className="h-5 w-5" />
+              {t('export.title')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {t('export.description')}
+            </p>
+            <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+              {t('export.action')}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <ExportFlashcardsDialog
+          open={isExportOpen}
+          onOpenChange={setIsExportOpen}
+          defaultLanguage={toSupportedLanguage(profile?.preferred_study_language)}
+        />
+
         {/* Sign Out */}
         <Button variant="destructive" onClick={handleSignOut} className="w-full">
           <LogOut className="mr-2 h-4 w-4" />
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useSearchParams, Link } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
@@ -7,14 +7,36 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { ConfidenceBadge } from '@/components/ai/ConfidenceBadge';
+import { ClozeReview } from '@/components/study/ClozeCard';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProfile } from '@/hooks/useProfile';
 import { Flashcard } from '@/lib/types';
-import { SPACED_REPETITION_INTERVALS } from '@/lib/constants';
-import { addDays, format } from 'date-fns';
-import { Check, X, Eye, PartyPopper, Loader2, Sparkles } from 'lucide-react';
-import { LANGUAGE_NAMES } from '@/lib/translations';
+import {
+  ReviewGrade,
+  REVIEW_GRADES,
+  scheduleReview,
+  splitInterval,
+  toReverseColumns,
+  toReverseSchedulingState,
+  toSchedulingState,
+} from '@/lib/scheduler';
+import { applyExamDate, previewExamIntervals } from '@/lib/planner';
+import { ArrowLeftRight, Eye, PartyPopper, Loader2, Sparkles } from 'lucide-react';
+import { LANGUAGE_NAMES, LANGUAGE_CODES, SUPPORTED_LANGUAGES } from '@/lib/translations';
+import { SupportedLanguage, isSupportedLanguage, toSupportedLanguage } from '@/lib/languages';
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'border-red-300 text-red-600 hover:bg-red-50',
+  hard: 'border-orange-300 text-orange-600 hover:bg-orange-50',
+  good: 'border-green-300 text-green-700 hover:bg-green-50',
+  easy: 'border-blue-300 text-blue-600 hover:bg-blue-50',
+};
+
+function reviewPath(lang: SupportedLanguage, answer: SupportedLanguage | null, reverse = false): string {
+  if (!answer) return `/review?lang=${lang}`;
+  return `/review?lang=${lang}&answer=${answer}${reverse ? '&reverse=1' : ''}`;
+}
 
 export default function Review() {
   const { t } = useTranslation();
@@ -26,9 +48,24 @@ export default function Review() {
   const [showAnswer, setShowAnswer] = useState(false);
   const [loading, setLoading] = useState(true);
   const [completed, setCompleted] = useState(0);
+  const shownAt = useRef(Date.now());
   
-  // Use URL param if provided, otherwise fall back to profile language
-  const reviewLanguage = searchParams.get('lang') || profile?.preferred_study_language || 'ru';
+  // Use URL param if it names a supported language, otherwise fall back to profile language
+  const reviewLanguage = toSupportedLanguage(
+    searchParams.get('lang'),
+    profile?.preferred_study_language
+  );
+  // Optional second language for the answers: reviews the bilingual deck of the pair
+  const answerParam = searchParams.get('answer');
+  const answerLanguage =
+    isSupportedLanguage(answerParam) && answerParam !== reviewLanguage ? answerParam : null;
+  // The same bilingual cards asked from the answer side, on their own schedule
+  const reversed = answerLanguage !== null && searchParams.get('reverse') === '1';
+  const [frontLanguage, backLanguage] = reversed ? [answerLanguage, reviewLanguage] : [reviewLanguage, answerLanguage];
+  const deckLabel = backLanguage
+    ? `${LANGUAGE_CODES[frontLanguage]} → ${LANGUAGE_CODES[backLanguage]}`
+    : LANGUAGE_CODES[frontLanguage];
+  const examDate = profile?.exam_date ?? null;
 
   useEffect(() => {
     if (!user) return;
@@ -37,55 +74,105 @@ export default function Review() {
       setLoading(true);
       const today = new Date().toISOString().split('T')[0];
       
-      const { data } = await supabase
+      const query = supabase
         .from('flashcards')
         .select('*')
-        .lte('due_date', today)
         .eq('language', reviewLanguage)
-        .order('due_date', { ascending: true });
+        .is('archived_at', null)
+        .is('suspended_at', null);
+      const { data } = await (reversed
+        // Cloze cards have no answer side to ask from
+        ? query
+            .eq('answer_language', answerLanguage)
+            .eq('card_type', 'basic')
+            .lte('reverse_due_date', today)
+            .order('reverse_due_date', { ascending: true })
+        : (answerLanguage ? query.eq('answer_language', answerLanguage) : query.is('answer_language', null))
+            .lte('due_date', today)
+            .order('due_date', { ascending: true }));
 
       if (data) {
         setCards(data as Flashcard[]);
       }
+      // Switching decks starts a new session
+      setCurrentIndex(0);
+      setCompleted(0);
+      setShowAnswer(false);
       setLoading(false);
     };
 
     fetchDueCards();
-  }, [user, reviewLanguage]);
+  }, [user, reviewLanguage, answerLanguage, reversed]);
+
+  // Time-to-answer is measured from the moment a card is shown
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [currentIndex, cards]);
+
+  const schedulingState = (card: Flashcard) =>
+    reversed ? toReverseSchedulingState(card) : toSchedulingState(card);
 
-  const handleAnswer = async (knew: boolean) => {
+  const handleAnswer = async (grade: ReviewGrade) => {
     const card = cards[currentIndex];
     if (!card) return;
 
-    let newStage = card.stage;
-    let newDueDate: Date;
-
-    if (knew) {
-      newStage = Math.min(card.stage + 1, 3);
-      const interval = SPACED_REPETITION_INTERVALS[newStage];
-      newDueDate = addDays(new Date(), interval);
-    } else {
-      newStage = 0;
-      newDueDate = addDays(new Date(), 1);
-    }
+    const state = schedulingState(card);
+    // Intervals are compressed so every card is seen enough times before the exam
+    const next = applyExamDate(scheduleReview(state, grade), examDate);
+    const reviewedAt = new Date().toISOString();
 
     await supabase
       .from('flashcards')
-      .update({
-        stage: newStage,
-        due_date: format(newDueDate, 'yyyy-MM-dd'),
-      })
+      .update(
+        reversed
+          ? { ...toReverseColumns(next), reverse_last_reviewed_at: reviewedAt }
+          : { ...next, last_reviewed_at: reviewedAt }
+      )
       .eq('id', card.id);
 
+    const { error: logError } = await supabase.from('review_logs').insert({
+      user_id: user!.id,
+      flashcard_id: card.id,
+      grade,
+      time_to_answer_ms: Date.now() - shownAt.current,
+      previous_interval: state.interval_days,
+      new_interval: next.interval_days,
+      reviewed_at: reviewedAt,
+      reversed,
+    });
+    if (logError) console.error('Failed to log review:', logError);
+
     setCompleted((prev) => prev + 1);
     setShowAnswer(false);
     setCurrentIndex((prev) => prev + 1);
   };
 
   const currentCard = cards[currentIndex];
+  const intervals = currentCard ? previewExamIntervals(schedulingState(currentCard), examDate) : null;
   const progress = cards.length > 0 ? (completed / cards.length) * 100 : 0;
   const remaining = cards.length - currentIndex;
 
+  const formatInterval = (days: number) => {
+    const { value, unit } = splitInterval(days);
+    return t(`review.interval.${unit}`, { value });
+  };
+
+  const gradeButtons = intervals && (
+    <div className="grid grid-cols-4 gap-2">
+      {REVIEW_GRADES.map((grade) => (
+        <Button
+          key={grade}
+          variant="outline"
+          className={`h-auto flex-col gap-0.5 py-2 ${GRADE_STYLES[grade]}`}
+          onClick={() => handleAnswer(grade)}
+        >
+          <span className="text-sm font-medium">{t(`review.${grade}`)}</span>
+          <span className="text-xs opacity-70">{formatInterval(intervals[grade])}</span>
+        </Button>
+      ))}
+    </div>
+  );
+
   if (loading || profileLoading) {
     return (
       <AppLayout title={t('review.title')} showLogo={false}>
@@ -111,13 +198,30 @@ export default function Review() {
               <Sparkles className="h-12 w-12 text-muted-foreground/50" />
               <div className="space-y-2">
                 <p className="text-muted-foreground">
-                  {t('review.noCardsInLang', { lang: LANGUAGE_NAMES[reviewLanguage as keyof typeof LANGUAGE_NAMES] || reviewLanguage.toUpperCase() })}
+                  {t('review.noCardsInLang', {
+                    lang: backLanguage
+                      ? `${LANGUAGE_NAMES[frontLanguage]} → ${LANGUAGE_NAMES[backLanguage]}`
+                      : LANGUAGE_NAMES[frontLanguage],
+                  })}
                 </p>
                 <p className="text-sm text-muted-foreground/70">
                   {t('review.generateOrSwitch')}
                 </p>
               </div>
-              <div className="flex gap-2 mt-2">
+              <div className="flex flex-wrap justify-center gap-2 mt-2">
+                {answerLanguage && (
+                  <Button asChild variant="ghost" size="sm" title={t('review.reverse')}>
+                    <Link to={reviewPath(reviewLanguage, answerLanguage, !reversed)}>
+                      <ArrowLeftRight className="mr-1 h-4 w-4" />
+                      {LANGUAGE_CODES[backLanguage]} → {LANGUAGE_CODES[frontLanguage]}
+                    </Link>
+                  </Button>
+                )}
+                {SUPPORTED_LANGUAGES.filter((lang) => lang !== reviewLanguage).map((lang) => (
+                  <Button key={lang} asChild variant="ghost" size="sm" title={LANGUAGE_NAMES[lang]}>
+                    <Link to={`/review?lang=${lang}`}>{LANGUAGE_CODES[lang]}</Link>
+                  </Button>
+                ))}
                 <Button asChild variant="outline" size="sm">
                   <Link to="/profile">{t('review.switchLanguage')}</Link>
                 </Button>
@@ -138,8 +242,15 @@ export default function Review() {
             <div className="flex items-center gap-2">
               <span className="text-muted-foreground">{t('review.remaining')}: {remaining}</span>
               <Badge variant="outline" className="text-xs uppercase">
-                {reviewLanguage}
+                {deckLabel}
               </Badge>
+              {answerLanguage && (
+                <Button asChild variant="ghost" size="icon" className="h-6 w-6" title={t('review.reverse')}>
+                  <Link to={reviewPath(reviewLanguage, answerLanguage, !reversed)}>
+                    <ArrowLeftRight className="h-3 w-3" />
+                  </Link>
+                </Button>
+              )}
             </div>
             <span className="text-muted-foreground">{completed}/{cards.length}</span>
           </div>
@@ -154,39 +265,37 @@ export default function Review() {
               className="mb-4"
             />
             
-            <div className="mb-6 text-lg">
-              <p className="font-medium">{currentCard.question}</p>
-            </div>
-
-            {showAnswer ? (
+            {currentCard.card_type === 'cloze' ? (
               <div className="w-full space-y-4">
-                <div className="rounded-lg bg-muted p-4">
-                  <p>{currentCard.answer}</p>
-                </div>
-                
-                <div className="flex gap-3">
-                  <Button
-                    variant="outline"
-                    className="flex-1 border-red-300 text-red-600 hover:bg-red-50"
-                    onClick={() => handleAnswer(false)}
-                  >
-                    <X className="mr-2 h-4 w-4" />
-                    {t('review.didntKnow')}
-                  </Button>
-                  <Button
-                    className="flex-1 bg-green-600 hover:bg-green-700"
-                    onClick={() => handleAnswer(true)}
-                  >
-                    <Check className="mr-2 h-4 w-4" />
-                    {t('review.knew')}
-                  </Button>
-                </div>
+                <ClozeReview
+                  key={currentCard.id}
+                  text={currentCard.question}
+                  checked={showAnswer}
+                  onCheck={() => setShowAnswer(true)}
+                />
+                {showAnswer && gradeButtons}
               </div>
             ) : (
-              <Button onClick={() => setShowAnswer(true)} size="lg">
-                <Eye className="mr-2 h-4 w-4" />
-                {t('review.showAnswer')}
-              </Button>
+              <>
+                <div className="mb-6 text-lg">
+                  <p className="font-medium">{reversed ? currentCard.answer : currentCard.question}</p>
+                </div>
+
+                {showAnswer ? (
+                  <div className="w-full space-y-4">
+                    <div className="rounded-lg bg-muted p-4">
+                      <p>{reversed ? currentCard.question : currentCard.answer}</p>
+                    </div>
+
+                    {gradeButtons}
+                  </div>
+                ) : (
+                  <Button onClick={() => setShowAnswer(true)} size="lg">
+                    <Eye className="mr-2 h-4 w-4" />
+                    {t('review.showAnswer')}
+                  </Button>
+                )}
+              </>
             )}
           </CardContent>
         </Card>
@@ -10,6 +10,8 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { toast } from 'sonner';
 import { useClientOcr, OcrProgress } from '@/hooks/useClientOcr';
+import { OcrImagePreviews } from '@/components/materials/OcrPreview';
+import { useProfile } from '@/hooks/useProfile';
 import { SupportedLanguage, LANGUAGE_CODES } from '@/lib/translations';
 
 const PLACEHOLDER_TEXT = `Paste your lecture text here.
@@ -21,6 +23,7 @@ const PLACEHOLDER_TEXT = `Paste your lecture text here.
 export default function ReviewText() {
   const { t } = useTranslation();
   const navigate = useNavigate();
+  const { profile } = useProfile();
   
   // Track if user has typed (to avoid overwriting)
   const userHasTypedRef = useRef(false);
@@ -30,8 +33,9 @@ export default function ReviewText() {
   const [improvedQuality, setImprovedQuality] = useState(false);
   
   // OCR hook
-  const { processImages, progress, cancel, isProcessing } = useClientOcr({
+  const { processImages, progress, previews, cancel, isProcessing } = useClientOcr({
     improvedQuality,
+    preferredLanguage: profile?.preferred_study_language,
   });
   
   // Text state - initialized once from sessionStorage or placeholder
@@ -252,6 +256,9 @@ export default function ReviewText() {
               disabled={isProcessing}
             />
           </div>
+
+          {/* Photos before and after preprocessing */}
+          <OcrImagePreviews previews={previews} />
           
           {/* Simple editable textarea */}
           <Textarea
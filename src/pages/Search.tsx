@@ -3,64 +3,67 @@ import { useTranslation } from 'react-i18next';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { MaterialCard } from '@/components/materials/MaterialCard';
-import { Search as SearchIcon } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Search as SearchIcon, Loader2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { Material } from '@/lib/types';
 import { TOPICS, TOPIC_LABELS } from '@/lib/constants';
-import { cn } from '@/lib/utils';
+import { SupportedLanguage } from '@/lib/languages';
+import { searchMaterials, SearchResult } from '@/lib/search';
+import { toast } from 'sonner';
 
 export default function Search() {
   const { t, i18n } = useTranslation();
   const { user } = useAuth();
   const [query, setQuery] = useState('');
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
-  const [materials, setMaterials] = useState<Material[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   useEffect(() => {
     if (!user) return;
 
-    const searchMaterials = async () => {
+    let cancelled = false;
+
+    const runSearch = async () => {
       setLoading(true);
-      
-      let queryBuilder = supabase
-        .from('materials')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(50);
 
-      if (selectedTopic) {
-        queryBuilder = queryBuilder.eq('topic', selectedTopic);
+      try {
+        const page = await searchMaterials({ query, topic: selectedTopic });
+        if (cancelled) return;
+        setResults(page.results);
+        setTotal(page.total);
+      } catch (err) {
+        console.error('Search error:', err);
+        if (!cancelled) toast.error(t('search.error'));
+      } finally {
+        if (!cancelled) setLoading(false);
       }
+    };
 
-      const { data } = await queryBuilder;
-
-      if (data) {
-        let filtered = data as Material[];
-        
-        if (query.trim()) {
-          const lowerQuery = query.toLowerCase();
-          filtered = filtered.filter(
-            (m) =>
-              m.title?.toLowerCase().includes(lowerQuery) ||
-              m.ocr_text?.toLowerCase().includes(lowerQuery) ||
-              m.tags.some((tag) => tag.toLowerCase().includes(lowerQuery))
-          );
-        }
-        
-        setMaterials(filtered);
-      }
-      
-      setLoading(false);
+    const debounce = setTimeout(runSearch, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(debounce);
     };
+  }, [user, query, selectedTopic, t]);
 
-    const debounce = setTimeout(searchMaterials, 300);
-    return () => clearTimeout(debounce);
-  }, [user, query, selectedTopic]);
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await searchMaterials({ query, topic: selectedTopic, offset: results.length });
+      setResults((prev) => [...prev, ...page.results]);
+      setTotal(page.total);
+    } catch (err) {
+      console.error('Search error:', err);
+      toast.error(t('search.error'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   return (
     <AppLayout title={t('search.title')} showLogo={false}>
@@ -93,7 +96,7 @@ export default function Search() {
               className="cursor-pointer"
               onClick={() => setSelectedTopic(topic === selectedTopic ? null : topic)}
             >
-              {TOPIC_LABELS[topic][i18n.language as 'ru' | 'de' | 'en']}
+              {TOPIC_LABELS[topic][i18n.language as SupportedLanguage] ?? topic}
             </Badge>
           ))}
         </div>
@@ -103,11 +106,27 @@ export default function Search() {
           <div className="py-8 text-center text-muted-foreground">
             {t('common.loading')}
           </div>
-        ) : materials.length > 0 ? (
+        ) : results.length > 0 ? (
           <div className="space-y-3">
-            {materials.map((material) => (
-              <MaterialCard key={material.id} material={material} />
+            {query.trim() && (
+              <p className="text-sm text-muted-foreground">
+                {t('search.resultsCount', { total })}
+              </p>
+            )}
+            {results.map((result) => (
+              <MaterialCard
+                key={result.material.id}
+                material={result.material}
+                snippet={result.snippet}
+                matchedSource={result.matchedSource}
+              />
             ))}
+            {results.length < total && (
+              <Button variant="outline" className="w-full" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('search.loadMore')}
+              </Button>
+            )}
           </div>
         ) : (
           <Card>
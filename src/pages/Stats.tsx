@@ -0,0 +1,230 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { TOPICS, TOPIC_LABELS } from '@/lib/constants';
+import { SupportedLanguage } from '@/lib/languages';
+import { Topic } from '@/lib/types';
+import {
+  ReviewLogWithTopic,
+  dailyReviewCounts,
+  retentionByTopic,
+  overallRetention,
+  dueForecast,
+} from '@/lib/stats';
+import { fetchAllRows } from '@/lib/pagination';
+import { BarChart3, Loader2 } from 'lucide-react';
+
+const HISTORY_DAYS = 30;
+const FORECAST_DAYS = 14;
+
+interface ReviewLogRow extends Omit<ReviewLogWithTopic, 'topic'> {
+  flashcards: { materials: { topic: string | null } | null } | null;
+}
+
+export default function Stats() {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const [logs, setLogs] = useState<ReviewLogWithTopic[]>([]);
+  const [dueCards, setDueCards] = useState<Array<{ due_date: string | null }>>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchStats = async () => {
+      setLoading(true);
+      const since = subDays(new Date(), HISTORY_DAYS).toISOString();
+      const forecastEnd = format(addDays(new Date(), FORECAST_DAYS - 1), 'yyyy-MM-dd');
+
+      try {
+        const [logRows, cardRows] = await Promise.all([
+          fetchAllRows((from, to) =>
+            supabase
+              .from('review_logs')
+              .select('id, flashcard_id, grade, time_to_answer_ms, previous_interval, new_interval, reviewed_at, flashcards(materials(topic))')
+              .gte('reviewed_at', since)
+              .order('reviewed_at', { ascending: true })
+              .order('id', { ascending: true })
+              .range(from, to)
+          ),
+          fetchAllRows((from, to) =>
+            supabase
+              .from('flashcards')
+              .select('due_date')
+              .is('archived_at', null)
+              .is('suspended_at', null)
+              .lte('due_date', forecastEnd)
+              .order('id', { ascending: true })
+              .range(from, to)
+          ),
+        ]);
+
+        const rows = logRows as unknown as ReviewLogRow[];
+        setLogs(
+          rows.map(({ flashcards, ...log }) => ({
+            ...log,
+            topic: flashcards?.materials?.topic ?? null,
+          }))
+        );
+        setDueCards(cardRows);
+      } catch (err) {
+        console.error('Failed to load stats:', err);
+      }
+      setLoading(false);
+    };
+
+    fetchStats();
+  }, [user]);
+
+  const lang = i18n.language as SupportedLanguage;
+
+  const reviewsConfig = {
+    reviews: { label: t('stats.reviews'), color: 'hsl(var(--primary))' },
+  } satisfies ChartConfig;
+
+  const retentionConfig = {
+    rate: { label: t('stats.retention'), color: 'hsl(142 71% 45%)' },
+  } satisfies ChartConfig;
+
+  const forecastConfig = {
+    due: { label: t('stats.due'), color: 'hsl(217 91% 60%)' },
+  } satisfies ChartConfig;
+
+  const daily = useMemo(
+    () =>
+      dailyReviewCounts(logs, HISTORY_DAYS).map((day) => ({
+        ...day,
+        label: format(parseISO(day.date), 'dd.MM'),
+      })),
+    [logs]
+  );
+
+  const retention = useMemo(
+    () =>
+      retentionByTopic(logs, TOPICS).map((entry) => ({
+        ...entry,
+        label: TOPIC_LABELS[entry.topic as Topic]?.[lang] ?? entry.topic,
+      })),
+    [logs, lang]
+  );
+
+  const forecast = useMemo(
+    () =>
+      dueForecast(dueCards, FORECAST_DAYS).map((day) => ({
+        ...day,
+        label: format(parseISO(day.date), 'dd.MM'),
+      })),
+    [dueCards]
+  );
+
+  const retentionRate = overallRetention(logs);
+  const totalReviews = logs.length;
+
+  if (loading) {
+    return (
+      <AppLayout title={t('stats.title')} showLogo={false}>
+        <div className="flex h-64 flex-col items-center justify-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <p className="text-muted-foreground">{t('common.loading')}</p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout title={t('stats.title')} showLogo={false}>
+      <div className="space-y-6">
+        {/* Summary */}
+        <div className="grid grid-cols-2 gap-3">
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-2xl font-bold">{totalReviews}</p>
+              <p className="text-xs text-muted-foreground">
+                {t('stats.reviewsLastDays', { days: HISTORY_DAYS })}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-2xl font-bold">
+                {retentionRate === null ? '—' : `${retentionRate}%`}
+              </p>
+              <p className="text-xs text-muted-foreground">{t('stats.retention')}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Daily reviews */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('stats.dailyReviews')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {totalReviews === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('stats.noReviews')}</p>
+            ) : (
+              <ChartContainer config={reviewsConfig} className="h-48 w-full">
+                <BarChart data={daily}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} interval="preserveStartEnd" />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} fontSize={10} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="reviews" fill="var(--color-reviews)" radius={3} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Retention per topic */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('stats.retentionByTopic')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {retention.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('stats.noRetention')}</p>
+            ) : (
+              <ChartContainer config={retentionConfig} className="h-56 w-full">
+                <BarChart data={retention} layout="vertical" margin={{ left: 8 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} fontSize={10} />
+                  <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={96} fontSize={10} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="rate" fill="var(--color-rate)" radius={3} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Due forecast */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <BarChart3 className="h-5 w-5" />
+              {t('stats.dueForecast')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={forecastConfig} className="h-48 w-full">
+              <BarChart data={forecast}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} fontSize={10} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="due" fill="var(--color-due)" radius={3} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,124 @@
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { describe, it, expect, beforeAll } from "vitest";
+import initSqlJs, { type SqlJsStatic } from "sql.js";
+import { strFromU8, unzipSync } from "fflate";
+import { ankiFieldToText, buildApkg, readApkg, toDelimited, type ExportCard } from "@/lib/anki";
+
+const require = createRequire(import.meta.url);
+
+function card(overrides: Partial<ExportCard>): ExportCard {
+  return {
+    id: "card-1",
+    card_type: "basic",
+    question: "Wie lange dauert die Händedesinfektion?",
+    answer: "30 Sekunden",
+    tags: ["Hygiene", "Semester 1"],
+    stage: 0,
+    interval_days: 0,
+    ease_factor: 2.5,
+    lapses: 0,
+    due_date: "2026-03-01",
+    suspended: false,
+    ...overrides,
+  };
+}
+
+describe("buildApkg", () => {
+  let SQL: SqlJsStatic;
+  const now = new Date(2026, 2, 1, 12, 0, 0);
+
+  beforeAll(async () => {
+    SQL = await initSqlJs({ wasmBinary: readFileSync(require.resolve("sql.js/dist/sql-wasm.wasm")) });
+  });
+
+  async function openPackage(cards: ExportCard[], includeScheduling: boolean) {
+    const files = unzipSync(await buildApkg(SQL, cards, { deckName: "StudySnap::Hygiene", includeScheduling, now }));
+    expect(strFromU8(files.media)).toBe("{}");
+    return new SQL.Database(files["collection.anki2"]);
+  }
+
+  it("writes basic and cloze notes with tags into one deck", async () => {
+    const db = await openPackage(
+      [
+        card({}),
+        card({ id: "card-2", card_type: "cloze", question: "Max. {{c1::4 g}} pro {{c2::Tag}}.", answer: "Max. 4 g pro Tag." }),
+      ],
+      false,
+    );
+
+    const [col] = db.exec("SELECT models, decks FROM col");
+    const models = Object.values(JSON.parse(col.values[0][0] as string)) as { id: number; type: number }[];
+    const decks = Object.values(JSON.parse(col.values[0][1] as string)) as { name: string }[];
+    expect(models.map((model) => model.type).sort()).toEqual([0, 1]);
+    expect(decks.map((deck) => deck.name)).toContain("StudySnap::Hygiene");
+
+    const [notes] = db.exec("SELECT guid, flds, tags FROM notes ORDER BY id");
+    expect(notes.values).toEqual([
+      ["card-1", "Wie lange dauert die Händedesinfektion?\x1f30 Sekunden", " Hygiene Semester_1 "],
+      ["card-2", "Max. {{c1::4 g}} pro {{c1::Tag}}.\x1f", " Hygiene Semester_1 "],
+    ]);
+
+    const [cards] = db.exec("SELECT ord, type, queue FROM cards ORDER BY id");
+    expect(cards.values).toEqual([
+      [0, 0, 0],
+      [0, 0, 0],
+    ]);
+    db.close();
+  });
+
+  it("keeps review progress and suspension when asked", async () => {
+    const db = await openPackage(
+      [card({ stage: 3, interval_days: 6, ease_factor: 2.36, lapses: 1, due_date: "2026-03-05", suspended: true })],
+      true,
+    );
+
+    const [cards] = db.exec("SELECT type, queue, due, ivl, factor, reps, lapses FROM cards");
+    expect(cards.values).toEqual([[2, -1, 4, 6, 2360, 3, 1]]);
+    db.close();
+  });
+
+  it("reads exported notes back", async () => {
+    const apkg = await buildApkg(
+      SQL,
+      [card({ answer: "30 <Sekunden>\nmindestens" }), card({ id: "card-2", card_type: "cloze", question: "{{c1::4 g}} pro Tag" })],
+      { deckName: "StudySnap", includeScheduling: false, now },
+    );
+
+    expect(readApkg(SQL, apkg)).toEqual({
+      error: null,
+      notes: [
+        {
+          card_type: "basic",
+          question: "Wie lange dauert die Händedesinfektion?",
+          answer: "30 <Sekunden>\nmindestens",
+          tags: ["Hygiene", "Semester_1"],
+        },
+        { card_type: "cloze", question: "{{c1::4 g}} pro Tag", answer: "4 g pro Tag", tags: ["Hygiene", "Semester_1"] },
+      ],
+    });
+    expect(readApkg(SQL, new Uint8Array([1, 2, 3])).error).toBe("notAPackage");
+  });
+});
+
+describe("ankiFieldToText", () => {
+  it("keeps line breaks and drops markup, sounds and entities", () => {
+    expect(ankiFieldToText("<div><b>Dekubitus</b></div><div>Grad&nbsp;1 &amp; 2</div>[sound:a.mp3]")).toBe(
+      "Dekubitus\nGrad 1 & 2",
+    );
+  });
+});
+
+describe("toDelimited", () => {
+  it("quotes fields with separators, quotes and line breaks", () => {
+    const csv = toDelimited([card({ question: 'Was heißt "MRSA", kurz?', answer: "Methicillin-resistenter\nS. aureus" })], "csv");
+    expect(csv).toBe(
+      'question,answer,type,tags,due_date\n"Was heißt ""MRSA"", kurz?","Methicillin-resistenter\nS. aureus",basic,Hygiene Semester_1,2026-03-01\n',
+    );
+  });
+
+  it("writes Anki's file headers and tags column for TSV", () => {
+    const tsv = toDelimited([card({ card_type: "cloze", question: "{{c1::30 Sekunden}} lang.", answer: "30 Sekunden lang." })], "tsv");
+    expect(tsv).toBe("#separator:tab\n#html:false\n#tags column:3\n{{c1::30 Sekunden}} lang.\t\tHygiene Semester_1\n");
+  });
+});
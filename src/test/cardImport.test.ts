@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { markDuplicates, parseDelimited, parseQuizlet } from "@/lib/cardImport";
+
+describe("parseDelimited", () => {
+  it("reads question and answer columns and reports unusable rows", () => {
+    const result = parseDelimited(
+      'Asepsis,Keimfreiheit\n"Dekubitus, Grad 1","Nicht wegdrückbare\nRötung"\nNur eine Frage\n,Antwort ohne Frage\n',
+    );
+
+    expect(result.items).toEqual([
+      { row: 1, kind: "flashcard", card_type: "basic", question: "Asepsis", answer: "Keimfreiheit", tags: [] },
+      {
+        row: 2,
+        kind: "flashcard",
+        card_type: "basic",
+        question: "Dekubitus, Grad 1",
+        answer: "Nicht wegdrückbare\nRötung",
+        tags: [],
+      },
+    ]);
+    expect(result.errors).toEqual([
+      { row: 4, reason: "missingAnswer", text: "Nur eine Frage" },
+      { row: 5, reason: "missingQuestion", text: "Antwort ohne Frage" },
+    ]);
+  });
+
+  it("honours Anki's file headers and keeps cloze cards", () => {
+    const result = parseDelimited(
+      "#separator:tab\n#html:false\n#tags column:3\n{{c1::30 Sekunden}} lang.\t\tHygiene Semester_1\n",
+    );
+
+    expect(result.items).toEqual([
+      {
+        row: 4,
+        kind: "flashcard",
+        card_type: "cloze",
+        question: "{{c1::30 Sekunden}} lang.",
+        answer: "30 Sekunden lang.",
+        tags: ["Hygiene", "Semester_1"],
+      },
+    ]);
+  });
+
+  it("reads quiz questions from option and correct columns", () => {
+    const result = parseDelimited(
+      "Frage;A;B;C;Richtig;Erklärung\n" +
+        "Wie lange dauert die Händedesinfektion?;15 s;30 s;60 s;B;Laut Hersteller\n" +
+        "Welche Farbe hat der Himmel?;Blau;;;A;\n" +
+        "Was ist Asepsis?;Keimfreiheit;Sauberkeit;;D;\n",
+    );
+
+    expect(result.items).toEqual([
+      {
+        row: 2,
+        kind: "quiz",
+        question: "Wie lange dauert die Händedesinfektion?",
+        options: ["15 s", "30 s", "60 s"],
+        correct_index: 1,
+        explanation: "Laut Hersteller",
+      },
+    ]);
+    expect(result.errors.map(({ row, reason }) => ({ row, reason }))).toEqual([
+      { row: 3, reason: "tooFewOptions" },
+      { row: 4, reason: "invalidCorrect" },
+    ]);
+  });
+});
+
+describe("parseQuizlet", () => {
+  it("splits rows and terms at the chosen separators", () => {
+    const result = parseQuizlet("Asepsis,Keimfreiheit, vollständig;Antisepsis,Keimreduktion;Ohne Definition", ",", ";");
+
+    expect(result.items).toMatchObject([
+      { row: 1, question: "Asepsis", answer: "Keimfreiheit, vollständig" },
+      { row: 2, question: "Antisepsis", answer: "Keimreduktion" },
+    ]);
+    expect(result.errors).toEqual([{ row: 3, reason: "missingAnswer", text: "Ohne Definition" }]);
+  });
+});
+
+describe("markDuplicates", () => {
+  it("matches existing questions and repeats within the file", () => {
+    const { items } = parseDelimited("Asepsis?,Keimfreiheit\nDekubitus,Druckgeschwür\ndekubitus ,Druckgeschwür\n");
+
+    expect(markDuplicates(items, { flashcards: ["asepsis"], quiz: [] })).toEqual([
+      "duplicate",
+      "new",
+      "duplicateInFile",
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { clozeFromSelection, hasCloze, isClozeAnswerCorrect, parseCloze, revealCloze } from "@/lib/cloze";
+
+describe("parseCloze", () => {
+  it("splits text and numbered blanks with optional hints", () => {
+    expect(parseCloze("Max. {{c1::4 g}} Paracetamol pro {{c2::Tag::Zeitraum}}.")).toEqual([
+      { type: "text", text: "Max. " },
+      { type: "blank", number: 1, answer: "4 g", hint: null },
+      { type: "text", text: " Paracetamol pro " },
+      { type: "blank", number: 2, answer: "Tag", hint: "Zeitraum" },
+      { type: "text", text: "." },
+    ]);
+  });
+
+  it("fills the blanks in when revealing", () => {
+    expect(revealCloze("Max. {{c1::4 g}} pro {{c2::Tag::Zeitraum}}.")).toBe("Max. 4 g pro Tag.");
+    expect(hasCloze("Max. 4 g pro Tag.")).toBe(false);
+  });
+});
+
+describe("isClozeAnswerCorrect", () => {
+  it("ignores case, spacing and surrounding punctuation", () => {
+    expect(isClozeAnswerCorrect("Händedesinfektion", "  händedesinfektion. ")).toBe(true);
+    expect(isClozeAnswerCorrect("30 Sekunden", "30  sekunden")).toBe(true);
+  });
+
+  it("accepts umlauts typed as ae/oe/ue or without dots, and ss for ß", () => {
+    expect(isClozeAnswerCorrect("Übelkeit", "Uebelkeit")).toBe(true);
+    expect(isClozeAnswerCorrect("Übelkeit", "Ubelkeit")).toBe(true);
+    expect(isClozeAnswerCorrect("Fußpflege", "Fusspflege")).toBe(true);
+  });
+
+  it("rejects a different answer", () => {
+    expect(isClozeAnswerCorrect("30 Sekunden", "60 Sekunden")).toBe(false);
+  });
+});
+
+describe("clozeFromSelection", () => {
+  const text = "Vor jedem Patientenkontakt. Die Einwirkzeit beträgt 30 Sekunden. Danach trocknen.";
+
+  it("blanks the selection within its sentence", () => {
+    const start = text.indexOf("30 Sekunden");
+    expect(clozeFromSelection(text, start - 1, start + "30 Sekunden".length)).toBe(
+      "Die Einwirkzeit beträgt {{c1::30 Sekunden}}.",
+    );
+  });
+
+  it("keeps abbreviations and decimals inside the sentence", () => {
+    const dose = "Gabe z.B. 2.5 mg alle 8 h\nNächste Zeile";
+    const start = dose.indexOf("2.5 mg");
+    expect(clozeFromSelection(dose, start, start + 6)).toBe("Gabe z.B. {{c1::2.5 mg}} alle 8 h");
+  });
+
+  it("returns null for an empty selection", () => {
+    expect(clozeFromSelection(text, 5, 5)).toBeNull();
+    expect(clozeFromSelection(text, 27, 28)).toBeNull();
+  });
+});
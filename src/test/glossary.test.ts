@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { GlossaryTerm, findGlossaryHits } from "@/lib/glossary";
+
+const decubitus: GlossaryTerm = {
+  id: "1",
+  term: "Dekubitus",
+  variants: { de: "Dekubitus", ru: "пролежень" },
+  definition: "Druckgeschwür",
+  topic: null,
+};
+const prophylaxis: GlossaryTerm = {
+  id: "2",
+  term: "Dekubitusprophylaxe",
+  variants: { ru: "профилактика пролежней" },
+  definition: null,
+  topic: null,
+};
+
+describe("findGlossaryHits", () => {
+  it("marks whole-word hits case-insensitively", () => {
+    expect(findGlossaryHits("Ein DEKUBITUS entsteht.", [decubitus], "de")).toEqual([
+      { text: "Ein ", term: null },
+      { text: "DEKUBITUS", term: decubitus },
+      { text: " entsteht.", term: null },
+    ]);
+  });
+
+  it("prefers the longer term and ignores matches inside words", () => {
+    expect(findGlossaryHits("Dekubitusprophylaxe gegen Dekubitusrisiko", [decubitus, prophylaxis], "de")).toEqual([
+      { text: "Dekubitusprophylaxe", term: prophylaxis },
+      { text: " gegen Dekubitusrisiko", term: null },
+    ]);
+  });
+
+  it("matches the variant of the text language", () => {
+    expect(findGlossaryHits("Риск: пролежень.", [decubitus], "ru")).toEqual([
+      { text: "Риск: ", term: null },
+      { text: "пролежень", term: decubitus },
+      { text: ".", term: null },
+    ]);
+  });
+});
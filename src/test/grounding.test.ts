@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { findSource, isUngrounded, locateQuote } from "@/lib/grounding";
+
+const text = "Die Hände-\ndesinfektion dauert 30 Sekunden.\nDanach „trocknen“ lassen – mindestens 5–10 Sekunden.";
+
+describe("locateQuote", () => {
+  it("finds quotes regardless of case, line breaks, hyphenation and quotation marks", () => {
+    const span = locateQuote(text, "die Händedesinfektion dauert 30 sekunden");
+    expect(span).toEqual({ start: 0, end: 42 });
+    expect(text.slice(span.start, span.end)).toBe("Die Hände-\ndesinfektion dauert 30 Sekunden");
+
+    expect(locateQuote(text, 'Danach "trocknen" lassen - mindestens 5-10 Sekunden.')).not.toBeNull();
+  });
+
+  it("matches the parts of a quote with an ellipsis in order", () => {
+    const span = locateQuote(text, "Die Händedesinfektion … mindestens 5–10 Sekunden");
+    expect(text.slice(span.start, span.end)).toBe(text.slice(0, -1));
+    expect(locateQuote(text, "mindestens 5–10 Sekunden ... Die Händedesinfektion")).toBeNull();
+  });
+
+  it("does not find invented or too short quotes", () => {
+    expect(locateQuote(text, "Die Händedesinfektion dauert 60 Sekunden")).toBeNull();
+    expect(locateQuote(text, "Die")).toBeNull();
+  });
+});
+
+describe("findSource", () => {
+  const item = { source_quote: "dauert 30 Sekunden", source_start: 24, source_end: 42, source_hash: "h1" };
+
+  it("uses the stored offsets for the text the item was generated from", () => {
+    expect(findSource(item, text, "h1")).toEqual({ start: 24, end: 42 });
+  });
+
+  it("looks the quote up again after the text changed", () => {
+    expect(findSource(item, `Neu: ${text}`, "h2")).toEqual({ start: 29, end: 47 });
+  });
+
+  it("flags only items whose quote was not found", () => {
+    expect(isUngrounded(item)).toBe(false);
+    expect(isUngrounded({ source_quote: "erfunden", source_start: null })).toBe(true);
+    expect(isUngrounded({ source_quote: null, source_start: null })).toBe(false);
+  });
+});
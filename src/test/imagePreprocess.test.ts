@@ -0,0 +1,215 @@
+import { describe, it, expect } from "vitest";
+import {
+  GrayImage,
+  Point,
+  Quad,
+  RgbaImage,
+  adaptiveThreshold,
+  detectPageCorners,
+  downscale,
+  estimateSkew,
+  preprocessImage,
+  rotate,
+  toGrayscale,
+  warpPerspective,
+} from "@/lib/imagePreprocess";
+
+// A handout in page coordinates (0..1): lines of "words" inside a margin
+function isInk(u: number, v: number): boolean {
+  if (u < 0.1 || u > 0.9 || v < 0.1 || v > 0.9) return false;
+  const line = (v - 0.1) * 20;
+  if (line - Math.floor(line) < 0.55) return false;
+  return Math.floor(u * 14 + Math.floor(line) * 0.37) % 4 !== 3;
+}
+
+type Placement = (x: number, y: number) => { u: number; v: number } | null;
+
+/**
+ * Photo of the handout on a dark desk, lit from the left; `light` is the
+ * brightness at the right edge
+ */
+function photo(width: number, height: number, place: Placement, light = 0.75): RgbaImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const page = place(x + 0.5, y + 0.5);
+      const base = !page ? 70 : isInk(page.u, page.v) ? 35 : 225;
+      const value = base * (1 - ((1 - light) * x) / width);
+      const i = (y * width + x) * 4;
+      data[i] = value;
+      data[i + 1] = value * 0.97;
+      data[i + 2] = value * 0.9;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+// Page of pageWidth × pageHeight in the middle of the photo, turned by `degrees`
+function turnedPage(width: number, height: number, pageWidth: number, pageHeight: number, degrees: number) {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const place: Placement = (x, y) => {
+    const dx = x - width / 2;
+    const dy = y - height / 2;
+    const u = (dx * cos + dy * sin) / pageWidth + 0.5;
+    const v = (-dx * sin + dy * cos) / pageHeight + 0.5;
+    return u >= 0 && u < 1 && v >= 0 && v < 1 ? { u, v } : null;
+  };
+  const corner = (u: number, v: number): Point => ({
+    x: width / 2 + (u - 0.5) * pageWidth * cos - (v - 0.5) * pageHeight * sin,
+    y: height / 2 + (u - 0.5) * pageWidth * sin + (v - 0.5) * pageHeight * cos,
+  });
+  const corners: Quad = [corner(0, 0), corner(1, 0), corner(1, 1), corner(0, 1)];
+  return { place, corners };
+}
+
+// Page photographed from below: the top edge is narrower than the bottom one
+function keystonePage(width: number, height: number) {
+  const top = 40;
+  const bottom = 260;
+  const halfWidth = (v: number) => 90 + 50 * v;
+  const place: Placement = (x, y) => {
+    const v = (y - top) / (bottom - top);
+    if (v < 0 || v >= 1) return null;
+    const u = (x - width / 2) / (2 * halfWidth(v)) + 0.5;
+    return u >= 0 && u < 1 ? { u, v } : null;
+  };
+  const corners: Quad = [
+    { x: width / 2 - 90, y: top },
+    { x: width / 2 + 90, y: top },
+    { x: width / 2 + 140, y: bottom },
+    { x: width / 2 - 140, y: bottom },
+  ];
+  return { place, corners };
+}
+
+const share = (image: GrayImage, value: number) =>
+  image.data.reduce((count, v) => count + (v === value ? 1 : 0), 0) / image.data.length;
+
+function expectNear(actual: Point[] | null, expected: Point[], tolerance: number) {
+  expect(actual).not.toBeNull();
+  actual.forEach((point, i) => {
+    expect(Math.abs(point.x - expected[i].x)).toBeLessThanOrEqual(tolerance);
+    expect(Math.abs(point.y - expected[i].y)).toBeLessThanOrEqual(tolerance);
+  });
+}
+
+describe("toGrayscale and downscale", () => {
+  it("weights the channels by luminance", () => {
+    const image = { width: 2, height: 1, data: new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255]) };
+    expect([...toGrayscale(image).data]).toEqual([76, 29]);
+  });
+
+  it("averages blocks down to the longer side and leaves small images alone", () => {
+    const image = { width: 4, height: 2, data: new Uint8ClampedArray([0, 100, 200, 200, 100, 200, 0, 0]) };
+    const small = downscale(image, 2);
+    expect(small).toMatchObject({ width: 2, height: 1 });
+    expect([...small.data]).toEqual([100, 100]);
+    expect(downscale(image, 10)).toBe(image);
+  });
+});
+
+describe("adaptiveThreshold", () => {
+  it("separates ink from paper under light falling off to a third", () => {
+    const size = 240;
+    const gray = toGrayscale(photo(size, size, (x, y) => ({ u: x / size, v: y / size }), 0.35));
+    const binary = adaptiveThreshold(gray);
+
+    let inkFound = 0;
+    let inkTotal = 0;
+    let paperKept = 0;
+    let paperTotal = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const black = binary.data[y * size + x] === 0;
+        if (isInk((x + 0.5) / size, (y + 0.5) / size)) {
+          inkTotal++;
+          if (black) inkFound++;
+        } else {
+          paperTotal++;
+          if (!black) paperKept++;
+        }
+      }
+    }
+    expect(inkFound / inkTotal).toBeGreaterThan(0.9);
+    expect(paperKept / paperTotal).toBeGreaterThan(0.97);
+  });
+});
+
+describe("detectPageCorners", () => {
+  it("finds the corners of a turned page", () => {
+    const { place, corners } = turnedPage(400, 300, 220, 200, 8);
+    expectNear(detectPageCorners(toGrayscale(photo(400, 300, place))), corners, 4);
+  });
+
+  it("finds the corners of a page photographed at an angle", () => {
+    const { place, corners } = keystonePage(400, 300);
+    expectNear(detectPageCorners(toGrayscale(photo(400, 300, place))), corners, 4);
+  });
+
+  it("finds nothing when the page fills the photo or there is no page", () => {
+    const filled = photo(300, 200, (x, y) => ({ u: x / 300, v: y / 200 }));
+    expect(detectPageCorners(toGrayscale(filled))).toBeNull();
+    expect(detectPageCorners({ width: 50, height: 50, data: new Uint8ClampedArray(2500).fill(90) })).toBeNull();
+  });
+});
+
+describe("warpPerspective", () => {
+  it("flattens the page to a rectangle with the paper margin at its edges", () => {
+    const { place, corners } = keystonePage(400, 300);
+    const flat = warpPerspective(toGrayscale(photo(400, 300, place)), corners);
+    expect(flat.width).toBe(281);
+    expect(flat.height).toBe(Math.round(Math.hypot(50, 220)) + 1);
+
+    const rowMean = (y: number) => {
+      let sum = 0;
+      for (let x = 3; x < flat.width - 3; x++) sum += flat.data[y * flat.width + x];
+      return sum / (flat.width - 6);
+    };
+    expect(rowMean(3)).toBeGreaterThan(150);
+    expect(rowMean(flat.height - 4)).toBeGreaterThan(150);
+  });
+});
+
+describe("estimateSkew and rotate", () => {
+  it("measures the angle of the text lines and straightens them", () => {
+    for (const degrees of [-6, 3.5]) {
+      const { place } = turnedPage(300, 300, 420, 420, degrees);
+      const gray = toGrayscale(photo(300, 300, place));
+      expect(Math.abs(estimateSkew(gray) - degrees)).toBeLessThanOrEqual(0.3);
+      expect(Math.abs(estimateSkew(rotate(gray, degrees)))).toBeLessThanOrEqual(0.3);
+    }
+  });
+
+  it("grows the image to keep the corners and fills with white", () => {
+    const image = { width: 100, height: 50, data: new Uint8ClampedArray(5000) };
+    const turned = rotate(image, 10);
+    expect(turned.width).toBe(Math.ceil(100 * Math.cos(Math.PI / 18) + 50 * Math.sin(Math.PI / 18)));
+    expect(turned.data[0]).toBe(255);
+  });
+});
+
+describe("preprocessImage", () => {
+  it("cuts out, straightens and binarises a turned page", () => {
+    const { place, corners } = turnedPage(400, 300, 220, 200, 7);
+    const result = preprocessImage(photo(400, 300, place), { maxSide: 2000 });
+
+    expectNear(result.corners, corners, 4);
+    expect(result.skew).toBe(0);
+    expect(Math.abs(result.image.width - 220)).toBeLessThanOrEqual(6);
+    expect(Math.abs(result.image.height - 200)).toBeLessThanOrEqual(6);
+    expect(share(result.image, 0) + share(result.image, 255)).toBe(1);
+    expect(share(result.image, 0)).toBeGreaterThan(0.1);
+  });
+
+  it("rotates text on a page that fills the photo and downscales to the limit", () => {
+    const { place } = turnedPage(400, 400, 560, 560, -4);
+    const result = preprocessImage(photo(400, 400, place), { maxSide: 300 });
+
+    expect(result.corners).toBeNull();
+    expect(Math.abs(result.skew + 4)).toBeLessThanOrEqual(0.3);
+    expect(result.image.width).toBeLessThanOrEqual(Math.ceil(300 * (Math.cos(0.07) + Math.sin(0.07))));
+  });
+});
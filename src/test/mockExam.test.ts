@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { EXAM_TOPIC_WEIGHTS } from "@/lib/constants";
+import { ExamQuestion, examReport, pickExamQuestions } from "@/lib/mockExam";
+import { Topic } from "@/lib/types";
+
+const question = (id: string, topic: Topic, materialId = "m1"): ExamQuestion => ({
+  id,
+  material_id: materialId,
+  material_title: `Lecture ${materialId}`,
+  topic,
+  question_type: "single",
+  question: `Question ${id}?`,
+  options: ["A", "B", "C", "D"],
+  correct_index: 0,
+  correct_indices: null,
+  case_text: null,
+  explanation: null,
+});
+
+// Deterministic stand-in for Math.random
+const sequence = (...values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length];
+};
+
+describe("pickExamQuestions", () => {
+  const pool = [
+    question("a1", "Anatomie"),
+    question("a2", "Anatomie"),
+    question("h1", "Hygiene"),
+    question("r1", "Recht/Ethik"),
+  ];
+
+  it("returns at most the requested number of distinct questions", () => {
+    const picked = pickExamQuestions(pool, 3, EXAM_TOPIC_WEIGHTS, {});
+    expect(picked).toHaveLength(3);
+    expect(new Set(picked.map((q) => q.id)).size).toBe(3);
+    expect(pickExamQuestions(pool, 10, EXAM_TOPIC_WEIGHTS, {})).toHaveLength(4);
+  });
+
+  it("leaves out topics weighted zero", () => {
+    const weights = { ...EXAM_TOPIC_WEIGHTS, Anatomie: 0 };
+    const picked = pickExamQuestions(pool, 10, weights, {});
+    expect(picked.map((q) => q.id).sort()).toEqual(["h1", "r1"]);
+  });
+
+  it("prefers questions answered wrongly before", () => {
+    const stats = {
+      a1: { answered: 4, wrong: 0, errorRate: 0, lastCorrect: true },
+      a2: { answered: 4, wrong: 4, errorRate: 1, lastCorrect: false },
+    };
+    const picked = pickExamQuestions(pool.slice(0, 2), 1, EXAM_TOPIC_WEIGHTS, stats, sequence(0.5));
+    expect(picked.map((q) => q.id)).toEqual(["a2"]);
+  });
+});
+
+describe("examReport", () => {
+  const questions = [
+    question("a1", "Anatomie", "m1"),
+    question("a2", "Anatomie", "m1"),
+    question("h1", "Hygiene", "m2"),
+    question("h2", "Hygiene", "m3"),
+  ];
+
+  it("scores by topic in topic order and lists lectures with wrong answers", () => {
+    const report = examReport(questions, { a1: 0, a2: 2, h1: null, h2: 0 });
+    expect(report.correct).toBe(2);
+    expect(report.total).toBe(4);
+    expect(report.byTopic).toEqual([
+      { topic: "Anatomie", correct: 1, total: 2 },
+      { topic: "Hygiene", correct: 1, total: 2 },
+    ]);
+    expect(report.needsWork).toEqual([
+      { material_id: "m2", title: "Lecture m2", topic: "Hygiene", wrong: 1, total: 1 },
+      { material_id: "m1", title: "Lecture m1", topic: "Anatomie", wrong: 1, total: 2 },
+    ]);
+  });
+});
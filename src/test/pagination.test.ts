@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { FETCH_PAGE_SIZE, fetchAllRows } from "@/lib/pagination";
+
+const table = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+describe("fetchAllRows", () => {
+  it("reads page by page until a page is not full", async () => {
+    const rows = table(FETCH_PAGE_SIZE * 2 + 5);
+    const ranges: [number, number][] = [];
+    const result = await fetchAllRows(async (from, to) => {
+      ranges.push([from, to]);
+      return { data: rows.slice(from, to + 1), error: null };
+    });
+    expect(result).toEqual(rows);
+    expect(ranges).toHaveLength(3);
+  });
+
+  it("asks once more after an exactly full page", async () => {
+    const rows = table(FETCH_PAGE_SIZE);
+    let requests = 0;
+    const result = await fetchAllRows(async (from, to) => {
+      requests++;
+      return { data: rows.slice(from, to + 1), error: null };
+    });
+    expect(result).toHaveLength(FETCH_PAGE_SIZE);
+    expect(requests).toBe(2);
+  });
+
+  it("throws the error of a failed page", async () => {
+    const error = new Error("permission denied");
+    await expect(fetchAllRows(async () => ({ data: null, error }))).rejects.toBe(error);
+  });
+});
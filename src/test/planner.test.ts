@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { buildStudyPlan, capIntervalForExam, applyExamDate, PlannerCard } from "@/lib/planner";
+import { scheduleReview, toSchedulingState } from "@/lib/scheduler";
+import { EXAM_MIN_REVIEWS, PLAN_DEFAULT_DAYS } from "@/lib/constants";
+
+const NOW = new Date(2026, 0, 10, 12, 0, 0);
+
+const newCard = (id: string): PlannerCard => ({ id, due_date: "2026-01-10" });
+
+describe("capIntervalForExam", () => {
+  it("spreads the remaining reviews over the days before the exam", () => {
+    // 10 days left, 2 reviews still needed after this one -> at most every 4 days
+    expect(capIntervalForExam(15, 1, 10)).toBe(4);
+  });
+
+  it("leaves the interval alone once enough reviews are done", () => {
+    expect(capIntervalForExam(15, EXAM_MIN_REVIEWS, 10)).toBe(15);
+  });
+});
+
+describe("applyExamDate", () => {
+  it("moves the due date before the exam", () => {
+    const mature = { stage: 1, ease_factor: 2.5, interval_days: 6, lapses: 0 };
+    const result = applyExamDate(scheduleReview(mature, "good", NOW), "2026-01-17", NOW);
+    expect(result.due_date < "2026-01-17").toBe(true);
+  });
+
+  it("does nothing without an exam date", () => {
+    const result = scheduleReview(toSchedulingState({}), "easy", NOW);
+    expect(applyExamDate(result, null, NOW)).toBe(result);
+  });
+});
+
+describe("buildStudyPlan", () => {
+  it("plans the default horizon without an exam date", () => {
+    const plan = buildStudyPlan([newCard("a")], [], null, NOW);
+    expect(plan.days).toHaveLength(PLAN_DEFAULT_DAYS);
+    expect(plan.examDate).toBeNull();
+    expect(plan.days[0].newCards).toBe(1);
+  });
+
+  it("reviews every card at least the minimum number of times before the exam", () => {
+    const cards = Array.from({ length: 20 }, (_, i) => newCard(`c${i}`));
+    const plan = buildStudyPlan(cards, [], "2026-01-24", NOW);
+    const totalSeen = plan.days.reduce((sum, day) => sum + day.total, 0);
+
+    expect(plan.daysLeft).toBe(14);
+    expect(plan.days).toHaveLength(14);
+    expect(totalSeen).toBeGreaterThanOrEqual(cards.length * EXAM_MIN_REVIEWS);
+  });
+
+  it("suggests quizzes for topics without quiz coverage", () => {
+    const plan = buildStudyPlan([], [
+      { topic: "Hygiene", materials: 2, quizzedMaterials: 2 },
+      { topic: "Anatomie", materials: 1, quizzedMaterials: 0 },
+    ], null, NOW);
+    expect(plan.days.every((day) => day.quizTopic === "Anatomie")).toBe(true);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { questionStats, questionsToRetry } from "@/lib/quizAttempts";
+
+describe("questionStats", () => {
+  const rows = [
+    { question_id: "q1", is_correct: false, answered_at: "2026-01-20T10:00:00Z" },
+    { question_id: "q1", is_correct: true, answered_at: "2026-01-22T10:00:00Z" },
+    { question_id: "q2", is_correct: false, answered_at: "2026-01-22T10:00:00Z" },
+    { question_id: "q1", is_correct: false, answered_at: "2026-01-21T10:00:00Z" },
+    { question_id: "q3", is_correct: true, answered_at: "2026-01-22T10:00:00Z" },
+  ];
+
+  it("counts answers and errors per question, taking the latest answer as last", () => {
+    expect(questionStats(rows)).toEqual({
+      q1: { answered: 3, wrong: 2, errorRate: 2 / 3, lastCorrect: true },
+      q2: { answered: 1, wrong: 1, errorRate: 1, lastCorrect: false },
+      q3: { answered: 1, wrong: 0, errorRate: 0, lastCorrect: true },
+    });
+  });
+
+  it("retries only questions whose latest answer was wrong", () => {
+    expect(questionsToRetry(questionStats(rows))).toEqual(new Set(["q2"]));
+    expect(questionsToRetry({})).toEqual(new Set());
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  QuizQuestionFields,
+  groupByCase,
+  initialOrder,
+  isAnswerCorrect,
+  isAnswered,
+  moveItem,
+  parseQuizQuestion,
+  toAnswerRecord,
+  toggleOption,
+} from "@/lib/quizQuestions";
+
+const question = (fields: Partial<QuizQuestionFields>): QuizQuestionFields => ({
+  id: "q1",
+  question_type: "single",
+  options: ["A", "B", "C", "D"],
+  correct_index: null,
+  correct_indices: null,
+  case_text: null,
+  ...fields,
+});
+
+describe("isAnswerCorrect", () => {
+  it("scores single and true/false questions by the chosen option", () => {
+    const single = question({ correct_index: 2 });
+    expect(isAnswerCorrect(single, 2)).toBe(true);
+    expect(isAnswerCorrect(single, 1)).toBe(false);
+    expect(isAnswerCorrect(single, undefined)).toBe(false);
+
+    const trueFalse = question({ question_type: "true_false", options: ["True", "False"], correct_index: 1 });
+    expect(isAnswerCorrect(trueFalse, 1)).toBe(true);
+  });
+
+  it("needs exactly the correct options of a multiple-choice question", () => {
+    const multiple = question({ question_type: "multiple", correct_indices: [0, 2] });
+    expect(isAnswerCorrect(multiple, [2, 0])).toBe(true);
+    expect(isAnswerCorrect(multiple, [0])).toBe(false);
+    expect(isAnswerCorrect(multiple, [0, 2, 3])).toBe(false);
+    expect(isAnswerCorrect(multiple, 0)).toBe(false);
+  });
+
+  it("needs the exact order of an ordering question", () => {
+    const ordering = question({ question_type: "ordering", options: ["A", "B", "C"], correct_indices: [0, 1, 2] });
+    expect(isAnswerCorrect(ordering, [0, 1, 2])).toBe(true);
+    expect(isAnswerCorrect(ordering, [1, 0, 2])).toBe(false);
+  });
+});
+
+describe("answers", () => {
+  it("counts a multiple-choice question as answered once an option is chosen", () => {
+    const multiple = question({ question_type: "multiple", correct_indices: [0, 2] });
+    expect(isAnswered(multiple, [])).toBe(false);
+    expect(isAnswered(multiple, toggleOption(undefined, 3))).toBe(true);
+    expect(toggleOption([1, 3], 3)).toEqual([1]);
+    expect(toggleOption([3], 1)).toEqual([1, 3]);
+  });
+
+  it("moves ordering items within bounds", () => {
+    expect(moveItem([0, 1, 2], 1, -1)).toEqual([1, 0, 2]);
+    expect(moveItem([0, 1, 2], 2, 1)).toEqual([0, 1, 2]);
+  });
+
+  it("starts ordering questions shuffled, stable and never in the correct order", () => {
+    for (const id of ["a", "b", "c", "d", "e", "f"]) {
+      const ordering = question({ id, question_type: "ordering", options: ["A", "B"], correct_indices: [0, 1] });
+      expect(initialOrder(ordering)).toEqual([1, 0]);
+    }
+    const long = question({ question_type: "ordering", options: ["A", "B", "C", "D", "E"], correct_indices: [0, 1, 2, 3, 4] });
+    expect(initialOrder(long)).toEqual(initialOrder(long));
+    expect([...initialOrder(long)].sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("records single answers as an index and the others as indices", () => {
+    expect(toAnswerRecord(question({ correct_index: 1 }), 1)).toEqual({
+      question_id: "q1",
+      selected_index: 1,
+      selected_indices: null,
+      is_correct: true,
+    });
+    expect(toAnswerRecord(question({ question_type: "multiple", correct_indices: [0, 1] }), [1])).toEqual({
+      question_id: "q1",
+      selected_index: null,
+      selected_indices: [1],
+      is_correct: false,
+    });
+  });
+});
+
+describe("parseQuizQuestion", () => {
+  it("parses JSON columns and defaults the type of older rows", () => {
+    expect(parseQuizQuestion({ id: "q1", options: '["A","B"]', correct_index: 0 })).toEqual({
+      id: "q1",
+      question_type: "single",
+      options: ["A", "B"],
+      correct_index: 0,
+      correct_indices: null,
+      case_text: null,
+    });
+  });
+});
+
+describe("groupByCase", () => {
+  it("keeps the questions of a case together in order of first appearance", () => {
+    const questions = [
+      question({ id: "1", case_text: "Case A" }),
+      question({ id: "2" }),
+      question({ id: "3", case_text: "Case B" }),
+      question({ id: "4", case_text: "Case A" }),
+    ];
+    expect(
+      groupByCase(questions).map((group) => [group.caseText, group.questions.map((q) => q.id)])
+    ).toEqual([
+      ["Case A", ["1", "4"]],
+      [null, ["2"]],
+      ["Case B", ["3"]],
+    ]);
+  });
+});
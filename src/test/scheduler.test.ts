@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  scheduleReview,
+  nextInterval,
+  previewIntervals,
+  splitInterval,
+  toReverseColumns,
+  toReverseSchedulingState,
+  toSchedulingState,
+  SchedulingState,
+} from "@/lib/scheduler";
+import { SM2_INITIAL_EASE, SM2_MIN_EASE, SM2_MAX_INTERVAL_DAYS } from "@/lib/constants";
+
+const NOW = new Date(2026, 0, 10, 12, 0, 0);
+
+const newCard = (): SchedulingState => toSchedulingState({});
+
+describe("toSchedulingState", () => {
+  it("fills defaults for a new card", () => {
+    expect(newCard()).toEqual({
+      stage: 0,
+      ease_factor: SM2_INITIAL_EASE,
+      interval_days: 0,
+      lapses: 0,
+    });
+  });
+
+  it("treats a null stage as 0", () => {
+    expect(toSchedulingState({ stage: null }).stage).toBe(0);
+  });
+});
+
+describe("reverse direction", () => {
+  it("schedules the reverse direction from its own columns", () => {
+    const card = {
+      stage: 4,
+      ease_factor: 2.8,
+      interval_days: 30,
+      lapses: 0,
+      reverse_stage: 1,
+      reverse_ease_factor: 2.3,
+      reverse_interval_days: 1,
+      reverse_lapses: 2,
+    };
+    const state = toReverseSchedulingState(card);
+    expect(state).toEqual({ stage: 1, ease_factor: 2.3, interval_days: 1, lapses: 2 });
+
+    const next = scheduleReview(state, "good", NOW);
+    expect(toReverseColumns(next)).toEqual({
+      reverse_stage: 2,
+      reverse_ease_factor: 2.3,
+      reverse_interval_days: 6,
+      reverse_lapses: 2,
+      reverse_due_date: "2026-01-16",
+    });
+  });
+});
+
+describe("scheduleReview", () => {
+  it("follows the SM-2 learning steps for good answers", () => {
+    const first = scheduleReview(newCard(), "good", NOW);
+    expect(first.interval_days).toBe(1);
+    expect(first.stage).toBe(1);
+    expect(first.due_date).toBe("2026-01-11");
+
+    const second = scheduleReview(first, "good", NOW);
+    expect(second.interval_days).toBe(6);
+    expect(second.stage).toBe(2);
+
+    const third = scheduleReview(second, "good", NOW);
+    expect(third.interval_days).toBe(15); // 6 * 2.5
+    expect(third.ease_factor).toBe(SM2_INITIAL_EASE);
+  });
+
+  it("grows intervals beyond a week for long-term retention", () => {
+    let state = newCard();
+    for (let i = 0; i < 6; i++) {
+      state = scheduleReview(state, "good", NOW);
+    }
+    expect(state.interval_days).toBeGreaterThan(60);
+  });
+
+  it("resets the interval and counts a lapse on again", () => {
+    const learned: SchedulingState = { stage: 4, ease_factor: 2.5, interval_days: 40, lapses: 1 };
+    const result = scheduleReview(learned, "again", NOW);
+    expect(result.stage).toBe(0);
+    expect(result.interval_days).toBe(1);
+    expect(result.lapses).toBe(2);
+    expect(result.ease_factor).toBe(2.3);
+  });
+
+  it("does not count a lapse for a card that was never learned", () => {
+    expect(scheduleReview(newCard(), "again", NOW).lapses).toBe(0);
+  });
+
+  it("never drops the ease factor below the minimum", () => {
+    let state: SchedulingState = { stage: 3, ease_factor: 1.35, interval_days: 10, lapses: 0 };
+    state = scheduleReview(state, "again", NOW);
+    state = scheduleReview(state, "hard", NOW);
+    expect(state.ease_factor).toBe(SM2_MIN_EASE);
+  });
+
+  it("orders intervals again < hard < good < easy for a mature card", () => {
+    const mature: SchedulingState = { stage: 5, ease_factor: 2.5, interval_days: 20, lapses: 0 };
+    const preview = previewIntervals(mature);
+    expect(preview.again).toBeLessThan(preview.hard);
+    expect(preview.hard).toBeLessThan(preview.good);
+    expect(preview.good).toBeLessThan(preview.easy);
+  });
+
+  it("raises the ease factor on easy", () => {
+    expect(scheduleReview(newCard(), "easy", NOW).ease_factor).toBe(2.65);
+  });
+
+  it("caps the interval at the maximum", () => {
+    const ancient: SchedulingState = { stage: 20, ease_factor: 3, interval_days: 3000, lapses: 0 };
+    expect(nextInterval(ancient, "easy")).toBe(SM2_MAX_INTERVAL_DAYS);
+  });
+
+  it("always advances at least one day on hard", () => {
+    const state: SchedulingState = { stage: 2, ease_factor: 1.3, interval_days: 2, lapses: 0 };
+    expect(nextInterval(state, "hard")).toBe(3);
+  });
+});
+
+describe("splitInterval", () => {
+  it("picks days, weeks, months and years", () => {
+    expect(splitInterval(1)).toEqual({ value: 1, unit: "day" });
+    expect(splitInterval(21)).toEqual({ value: 3, unit: "week" });
+    expect(splitInterval(120)).toEqual({ value: 4, unit: "month" });
+    expect(splitInterval(548)).toEqual({ value: 1.5, unit: "year" });
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { splitHighlights } from "@/lib/search";
+
+describe("splitHighlights", () => {
+  it("splits a snippet into plain and highlighted segments", () => {
+    expect(splitHighlights("Das <mark>Herz</mark> hat vier <mark>Kammern</mark>.")).toEqual([
+      { text: "Das ", highlighted: false },
+      { text: "Herz", highlighted: true },
+      { text: " hat vier ", highlighted: false },
+      { text: "Kammern", highlighted: true },
+      { text: ".", highlighted: false },
+    ]);
+  });
+
+  it("keeps markup-like text outside marks as plain text", () => {
+    expect(splitHighlights("<b>5 < 7</b>")).toEqual([{ text: "<b>5 < 7</b>", highlighted: false }]);
+  });
+});
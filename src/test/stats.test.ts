@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  ReviewLog,
+  ReviewLogWithTopic,
+  dailyReviewCounts,
+  dueForecast,
+  overallRetention,
+  retentionByTopic,
+} from "@/lib/stats";
+import { ReviewGrade } from "@/lib/scheduler";
+
+const originalTz = process.env.TZ;
+
+let nextId = 0;
+const log = (reviewed_at: string, grade: ReviewGrade = "good", previous_interval = 3): ReviewLog => ({
+  id: String(nextId++),
+  flashcard_id: "card",
+  grade,
+  time_to_answer_ms: null,
+  previous_interval,
+  new_interval: 6,
+  reviewed_at,
+});
+
+const topicLog = (topic: string | null, grade: ReviewGrade, previous_interval = 3): ReviewLogWithTopic => ({
+  ...log("2026-01-10T10:00:00Z", grade, previous_interval),
+  topic,
+});
+
+describe("dailyReviewCounts", () => {
+  afterEach(() => {
+    process.env.TZ = originalTz;
+  });
+
+  it("returns every day oldest first, with zero-review days", () => {
+    const now = new Date(2026, 0, 10, 12, 0, 0);
+    const days = dailyReviewCounts([log(new Date(2026, 0, 8, 9, 0).toISOString(), "again")], 3, now);
+    expect(days).toEqual([
+      { date: "2026-01-08", reviews: 1, lapses: 1 },
+      { date: "2026-01-09", reviews: 0, lapses: 0 },
+      { date: "2026-01-10", reviews: 0, lapses: 0 },
+    ]);
+  });
+
+  it("buckets reviews by the local day", () => {
+    const logs = [log("2026-01-09T22:30:00Z"), log("2026-01-09T23:30:00Z"), log("2026-01-10T03:00:00Z")];
+
+    process.env.TZ = "Europe/Berlin";
+    expect(dailyReviewCounts(logs, 2, new Date("2026-01-10T12:00:00Z")).map((day) => day.reviews)).toEqual([1, 2]);
+
+    process.env.TZ = "America/New_York";
+    expect(dailyReviewCounts(logs, 2, new Date("2026-01-10T12:00:00Z")).map((day) => day.reviews)).toEqual([3, 0]);
+  });
+
+  it("leaves out reviews older than the window", () => {
+    const now = new Date(2026, 0, 10, 12, 0, 0);
+    const days = dailyReviewCounts([log(new Date(2026, 0, 1, 9, 0).toISOString())], 7, now);
+    expect(days.reduce((sum, day) => sum + day.reviews, 0)).toBe(0);
+  });
+});
+
+describe("retentionByTopic", () => {
+  it("rates mature reviews per topic in the given order and skips empty topics", () => {
+    const logs = [
+      topicLog("Hygiene", "good"),
+      topicLog("Hygiene", "again"),
+      topicLog("Anatomie", "easy"),
+      topicLog("Anatomie", "again", 0), // first review of a new card
+    ];
+    expect(retentionByTopic(logs, ["Anatomie", "Pflegepraxis", "Hygiene"])).toEqual([
+      { topic: "Anatomie", reviews: 1, retained: 1, rate: 100 },
+      { topic: "Hygiene", reviews: 2, retained: 1, rate: 50 },
+    ]);
+  });
+
+  it("counts reviews without a known topic as Sonstiges", () => {
+    const logs = [topicLog(null, "hard"), topicLog("Unbekannt", "again")];
+    expect(retentionByTopic(logs, ["Hygiene", "Sonstiges"])).toEqual([
+      { topic: "Sonstiges", reviews: 2, retained: 1, rate: 50 },
+    ]);
+  });
+
+  it("returns nothing without reviews", () => {
+    expect(retentionByTopic([], ["Hygiene", "Sonstiges"])).toEqual([]);
+  });
+});
+
+describe("overallRetention", () => {
+  it("is null until there are mature reviews", () => {
+    expect(overallRetention([])).toBeNull();
+    expect(overallRetention([log("2026-01-10T10:00:00Z", "good", 0)])).toBeNull();
+  });
+
+  it("rounds the share of mature reviews not graded again", () => {
+    const logs = [log("2026-01-10T10:00:00Z"), log("2026-01-10T10:00:00Z", "hard"), log("2026-01-10T10:00:00Z", "again")];
+    expect(overallRetention(logs)).toBe(67);
+  });
+});
+
+describe("dueForecast", () => {
+  const now = new Date(2026, 0, 10, 12, 0, 0);
+
+  it("counts overdue cards as due today and skips cards without a due date", () => {
+    const cards = [{ due_date: "2026-01-02" }, { due_date: "2026-01-10" }, { due_date: "2026-01-12" }, { due_date: null }];
+    expect(dueForecast(cards, 3, now)).toEqual([
+      { date: "2026-01-10", due: 2 },
+      { date: "2026-01-11", due: 0 },
+      { date: "2026-01-12", due: 1 },
+    ]);
+  });
+
+  it("leaves out cards due after the forecast", () => {
+    expect(dueForecast([{ due_date: "2026-02-01" }], 2, now).every((day) => day.due === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectSourceLanguage,
+  getAvailableLanguages,
+  hashSourceText,
+  isOutdated,
+  isVersionOutdated,
+  toI18nData,
+} from "@/lib/translations";
+import { getTesseractLangs } from "@/lib/languages";
+import { hashSourceText as hashOnServer } from "../../supabase/functions/_shared/hash";
+
+describe("toI18nData", () => {
+  it("combines version rows with the stored source language", () => {
+    const data = toI18nData("ru", [
+      { language: "ru", title: "Сердце", text: "Текст", is_manual: true, source_hash: null },
+      { language: "de", title: null, text: "Text", is_manual: false, source_hash: "abc" },
+    ]);
+
+    expect(data).toEqual({
+      sourceLanguage: "ru",
+      versions: {
+        ru: { title: "Сердце", text: "Текст", isManual: true, sourceHash: null },
+        de: { text: "Text", isManual: false, sourceHash: "abc" },
+      },
+    });
+  });
+
+  it("falls back to the manual version as source", () => {
+    const data = toI18nData(null, [
+      { language: "en", title: null, text: "Text", is_manual: false, source_hash: null },
+      { language: "de", title: null, text: "Text", is_manual: true, source_hash: null },
+    ]);
+    expect(data?.sourceLanguage).toBe("de");
+  });
+
+  it("returns null without versions", () => {
+    expect(toI18nData("ru", [])).toBeNull();
+  });
+});
+
+describe("source hashes", () => {
+  it("matches the hash the edge functions record", async () => {
+    const text = "Das Herz hat vier Kammern.\r\nDie linke Kammer pumpt Blut.";
+    expect(await hashSourceText(text)).toBe(await hashOnServer(text));
+  });
+
+  it("ignores line endings and surrounding whitespace", async () => {
+    expect(await hashSourceText("  a\r\nb\n")).toBe(await hashSourceText("a\nb"));
+    expect(await hashSourceText("a b")).not.toBe(await hashSourceText("a  b"));
+  });
+
+  it("only flags known, differing hashes as outdated", () => {
+    expect(isOutdated("old", "new")).toBe(true);
+    expect(isOutdated("same", "same")).toBe(false);
+    expect(isOutdated(null, "new")).toBe(false);
+    expect(isOutdated("old", null)).toBe(false);
+  });
+
+  it("never flags the source version", () => {
+    const data = toI18nData("ru", [
+      { language: "ru", title: null, text: "Новый текст", is_manual: true, source_hash: "old" },
+      { language: "de", title: null, text: "Alter Text", is_manual: false, source_hash: "old" },
+    ]);
+
+    expect(isVersionOutdated(data, "ru", "new")).toBe(false);
+    expect(isVersionOutdated(data, "de", "new")).toBe(true);
+    expect(isVersionOutdated(data, "en", "new")).toBe(false);
+  });
+});
+
+describe("languages", () => {
+  it("detects every supported language from its characters", () => {
+    expect(detectSourceLanguage("Сердце состоит из четырёх камер.")).toBe("ru");
+    expect(detectSourceLanguage("Das Herz hat vier Kammern und pumpt Blut über die Gefäße.")).toBe("de");
+    expect(detectSourceLanguage("Kalbin dört odacığı vardır ve kanı damarlara pompalar.")).toBe("tr");
+    expect(detectSourceLanguage("Srce ima četiri komore i pumpa krv kroz žile.")).toBe("sr-Latn");
+    expect(detectSourceLanguage("The heart has four chambers.")).toBe("en");
+  });
+
+  it("lists versions in Turkish and Serbian and ignores unknown languages", () => {
+    const data = toI18nData("en", [
+      { language: "en", title: null, text: "Heart", is_manual: true, source_hash: null },
+      { language: "tr", title: null, text: "Kalp", is_manual: false, source_hash: null },
+      { language: "sr-Latn", title: null, text: "Srce", is_manual: false, source_hash: null },
+      { language: "xx", title: null, text: "?", is_manual: false, source_hash: null },
+    ]);
+
+    expect(getAvailableLanguages(data)).toEqual(["en", "tr", "sr-Latn"]);
+  });
+
+  it("loads the OCR pack of the preferred language and one fallback", () => {
+    expect(getTesseractLangs()).toBe("rus+deu");
+    expect(getTesseractLangs("tr")).toBe("tur+deu");
+    expect(getTesseractLangs("de")).toBe("deu+eng");
+  });
+});
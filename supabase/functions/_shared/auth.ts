@@ -0,0 +1,127 @@
+// Caller authentication and material ownership checks for edge functions.
+//
+// Functions run with verify_jwt = false and write with the service role key,
+// so every function must resolve the caller itself. Material-bound functions
+// load the material server-side and use its stored text instead of trusting
+// text sent by the client.
+
+import { createClient, SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { failResponse } from "./http.ts";
+import { I18nData, MATERIAL_VERSION_COLUMNS, MaterialVersionRow, SupportedLanguage, toI18nData } from "./i18n.ts";
+
+export interface MaterialRecord {
+  id: string;
+  user_id: string;
+  title: string | null;
+  topic: string | null;
+  ocr_text: string | null;
+  source_language: string | null;
+  // Language versions from material_versions
+  i18n: I18nData | null;
+}
+
+export type AuthResult =
+  | { ok: true; user: User; supabase: SupabaseClient }
+  | { ok: false; response: Response };
+
+export type MaterialAuthResult =
+  | { ok: true; user: User; supabase: SupabaseClient; material: MaterialRecord }
+  | { ok: false; response: Response };
+
+export function createServiceClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+/**
+ * Resolve the calling user from the Authorization: Bearer <jwt> header.
+ */
+export async function authenticate(req: Request): Promise<AuthResult> {
+  const header = req.headers.get('Authorization') ?? '';
+  const token = header.replace(/^Bearer\s+/i, '').trim();
+
+  if (!token) {
+    return { ok: false, response: failResponse('UNAUTHORIZED', 'Missing authorization token', 401) };
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase.auth.getUser(token);
+
+  if (error || !data?.user) {
+    console.error('Auth failed:', error?.message);
+    return { ok: false, response: failResponse('UNAUTHORIZED', 'Invalid or expired session', 401) };
+  }
+
+  return { ok: true, user: data.user, supabase };
+}
+
+/**
+ * Authenticate the caller and check that they own the given material.
+ */
+export async function authorizeMaterial(req: Request, materialId: string): Promise<MaterialAuthResult> {
+  const auth = await authenticate(req);
+  if (!auth.ok) return auth;
+
+  const { data: material, error } = await auth.supabase
+    .from('materials')
+    .select('id, user_id, title, topic, ocr_text, source_language')
+    .eq('id', materialId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load material:', error);
+    return { ok: false, response: failResponse('DB_ERROR', 'Failed to load material', 500) };
+  }
+
+  // Missing and foreign materials look the same to the caller
+  if (!material || material.user_id !== auth.user.id) {
+    console.warn('Material access denied:', materialId, 'user:', auth.user.id);
+    return { ok: false, response: failResponse('FORBIDDEN', 'You do not have access to this material', 403) };
+  }
+
+  const { data: versions, error: versionsError } = await auth.supabase
+    .from('material_versions')
+    .select(MATERIAL_VERSION_COLUMNS)
+    .eq('material_id', materialId);
+
+  if (versionsError) {
+    console.error('Failed to load material versions:', versionsError);
+    return { ok: false, response: failResponse('DB_ERROR', 'Failed to load material', 500) };
+  }
+
+  return {
+    ...auth,
+    material: {
+      ...(material as Omit<MaterialRecord, 'i18n'>),
+      i18n: toI18nData(material.source_language, versions as MaterialVersionRow[]),
+    },
+  };
+}
+
+/**
+ * Stored text to feed the AI for a language: the version in that language,
+ * falling back to the source version and finally to the raw OCR text.
+ */
+export function resolveMaterialText(material: MaterialRecord, language: string): string {
+  const i18n = material.i18n;
+  if (i18n) {
+    const version = i18n.versions[language as SupportedLanguage];
+    if (version?.text) return version.text;
+    const source = i18n.versions[i18n.sourceLanguage];
+    if (source?.text) return source.text;
+  }
+  return material.ocr_text ?? '';
+}
+
+/**
+ * Stored title for a language, with the same fallbacks as the text.
+ */
+export function resolveMaterialTitle(material: MaterialRecord, language: string): string | null {
+  const i18n = material.i18n;
+  if (i18n) {
+    const version = i18n.versions[language as SupportedLanguage];
+    if (version?.title) return version.title;
+  }
+  return material.title;
+}
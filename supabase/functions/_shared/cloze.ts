@@ -0,0 +1,15 @@
+// Cloze markup shared with the app (src/lib/cloze.ts): spans to memorise are
+// written Anki-style as {{c1::answer}} or {{c1::answer::hint}}.
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export function hasCloze(text: string): boolean {
+  return new RegExp(CLOZE_PATTERN.source).test(text);
+}
+
+/**
+ * The cloze text with every blank filled in
+ */
+export function revealCloze(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_match, _number, answer: string) => answer);
+}
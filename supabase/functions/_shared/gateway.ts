@@ -0,0 +1,292 @@
+// Shared client for the AI gateway (OpenAI-compatible chat completions).
+//
+// Every function goes through callChat / callTool instead of calling fetch
+// itself. The client adds the API key, applies a per-request timeout, retries
+// 429/5xx and timeouts with exponential backoff, falls back to a secondary
+// model when the primary one keeps failing, and validates tool-call arguments
+// against the tool's JSON schema.
+//
+// Configuration (env):
+//   LOVABLE_API_KEY            - gateway API key (required)
+//   AI_GATEWAY_URL             - base URL, e.g. a local mock server in tests
+//   AI_GATEWAY_TIMEOUT_MS      - per-request timeout
+//   AI_GATEWAY_MAX_RETRIES     - retries per model after the first attempt
+//   AI_GATEWAY_RETRY_BASE_MS   - first backoff delay, doubled on each retry
+
+import { failResponse, gatewayFailResponse } from "./http.ts";
+import { JsonSchema, validateSchema } from "./schema.ts";
+
+export const DEFAULT_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1';
+export const DEFAULT_FALLBACK_MODEL = 'google/gemini-2.5-flash';
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_MS = 500;
+const MAX_RETRY_DELAY_MS = 10_000;
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface GatewayUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+export interface GatewayOptions {
+  model: string;
+  // Tried once the primary model is exhausted; null disables the fallback
+  fallbackModel?: string | null;
+  maxTokens?: number;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export type GatewayResult<T> =
+  | { ok: true; data: T; model: string; outputChars: number; usage: GatewayUsage | null }
+  | { ok: false; response: Response };
+
+interface GatewayConfig {
+  url: string;
+  apiKey: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+}
+
+interface CompletionMessage {
+  content?: string | null;
+  tool_calls?: { function?: { name?: string; arguments?: string } }[];
+}
+
+interface CompletionResponse {
+  choices?: { message?: CompletionMessage }[];
+  usage?: GatewayUsage;
+}
+
+type Extracted<T> =
+  | { ok: true; data: T; outputChars: number }
+  | { ok: false; error: string };
+
+// Outcome of all attempts against a single model
+type ModelOutcome =
+  | { ok: true; completion: CompletionResponse }
+  // fallback: whether another model could plausibly succeed
+  | { ok: false; response: Response; fallback: boolean };
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function loadConfig(options: GatewayOptions): GatewayConfig | null {
+  const apiKey = Deno.env.get('LOVABLE_API_KEY');
+  if (!apiKey) return null;
+
+  const baseUrl = (Deno.env.get('AI_GATEWAY_URL') || DEFAULT_GATEWAY_URL).replace(/\/+$/, '');
+
+  return {
+    url: `${baseUrl}/chat/completions`,
+    apiKey,
+    timeoutMs: options.timeoutMs ?? envNumber('AI_GATEWAY_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    maxRetries: options.maxRetries ?? envNumber('AI_GATEWAY_MAX_RETRIES', DEFAULT_MAX_RETRIES),
+    retryBaseMs: envNumber('AI_GATEWAY_RETRY_BASE_MS', DEFAULT_RETRY_BASE_MS),
+  };
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Backoff before retry number `attempt` (0-based): base * 2^attempt plus
+ * jitter, or the gateway's Retry-After when it sends one.
+ */
+function retryDelay(config: GatewayConfig, attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(retryAfterSeconds)) {
+    return Math.min(retryAfterSeconds * 1000, MAX_RETRY_DELAY_MS);
+  }
+  const delay = config.retryBaseMs * 2 ** attempt + Math.random() * config.retryBaseMs;
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Send one request body to one model, retrying transient failures.
+ */
+async function requestModel(
+  config: GatewayConfig,
+  body: Record<string, unknown>,
+): Promise<ModelOutcome> {
+  let lastFailure: Response = failResponse('AI_GATEWAY_ERROR', 'AI gateway request failed', 502);
+
+  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+    let retryAfter: string | null = null;
+
+    try {
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (response.ok) {
+        return { ok: true, completion: await response.json() };
+      }
+
+      const errorText = await response.text();
+      console.error('AI Gateway error:', body.model, response.status, errorText);
+
+      // Out of credits - neither a retry nor another model will help
+      if (response.status === 402) {
+        return { ok: false, response: gatewayFailResponse(402), fallback: false };
+      }
+      if (!isRetryableStatus(response.status)) {
+        return { ok: false, response: gatewayFailResponse(response.status), fallback: false };
+      }
+
+      lastFailure = gatewayFailResponse(response.status);
+      retryAfter = response.headers.get('Retry-After');
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.error('AI Gateway timeout:', body.model, `${config.timeoutMs}ms`);
+        lastFailure = failResponse('AI_TIMEOUT', 'AI request timed out', 504);
+      } else {
+        console.error('AI Gateway network error:', body.model, error);
+        lastFailure = failResponse('AI_GATEWAY_ERROR', 'AI gateway is unreachable', 502);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt < config.maxRetries) {
+      await sleep(retryDelay(config, attempt, retryAfter));
+    }
+  }
+
+  return { ok: false, response: lastFailure, fallback: true };
+}
+
+/**
+ * Run a completion against the primary model and, if needed, the fallback
+ * model. `extract` pulls the result out of a successful completion; an
+ * extraction failure also moves on to the fallback model.
+ */
+async function complete<T>(
+  options: GatewayOptions,
+  body: Record<string, unknown>,
+  extract: (message: CompletionMessage) => Extracted<T>,
+): Promise<GatewayResult<T>> {
+  const config = loadConfig(options);
+  if (!config) {
+    console.error('LOVABLE_API_KEY not configured');
+    return { ok: false, response: failResponse('CONFIG_ERROR', 'API key not configured', 500) };
+  }
+
+  const fallbackModel = options.fallbackModel === undefined ? DEFAULT_FALLBACK_MODEL : options.fallbackModel;
+  const models = [options.model];
+  if (fallbackModel && fallbackModel !== options.model) models.push(fallbackModel);
+
+  let lastFailure: Response | null = null;
+
+  for (const model of models) {
+    const outcome = await requestModel(config, {
+      ...body,
+      model,
+      ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+    });
+
+    if (!outcome.ok) {
+      if (!outcome.fallback) return { ok: false, response: outcome.response };
+      lastFailure = outcome.response;
+      continue;
+    }
+
+    const message = outcome.completion.choices?.[0]?.message ?? {};
+    const extracted = extract(message);
+    if (extracted.ok) {
+      return {
+        ok: true,
+        data: extracted.data,
+        model,
+        outputChars: extracted.outputChars,
+        usage: outcome.completion.usage ?? null,
+      };
+    }
+
+    console.error('Invalid AI response from', model, '-', extracted.error);
+    lastFailure = failResponse('INVALID_AI_RESPONSE', 'Invalid AI response format', 500);
+  }
+
+  if (models.length > 1) console.error('AI fallback model failed as well:', models[1]);
+  return { ok: false, response: lastFailure! };
+}
+
+/**
+ * Plain chat completion; resolves to the assistant's text.
+ */
+export function callChat(messages: ChatMessage[], options: GatewayOptions): Promise<GatewayResult<string>> {
+  return complete(options, { messages }, (message) => {
+    const content = message.content;
+    if (typeof content !== 'string' || !content.trim()) {
+      return { ok: false, error: 'empty message content' };
+    }
+    return { ok: true, data: content, outputChars: content.length };
+  });
+}
+
+/**
+ * Forced tool call; resolves to the parsed arguments once they match the
+ * tool's parameter schema.
+ */
+export function callTool<T>(
+  messages: ChatMessage[],
+  tool: ToolDefinition,
+  options: GatewayOptions,
+): Promise<GatewayResult<T>> {
+  const body = {
+    messages,
+    tools: [{ type: 'function', function: tool }],
+    tool_choice: { type: 'function', function: { name: tool.name } },
+  };
+
+  return complete<T>(options, body, (message) => {
+    const args = message.tool_calls?.[0]?.function?.arguments;
+    if (!args) return { ok: false, error: 'no tool call in response' };
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(args);
+    } catch {
+      return { ok: false, error: 'tool arguments are not valid JSON' };
+    }
+
+    const errors = validateSchema(parsed, tool.parameters);
+    if (errors.length > 0) {
+      return { ok: false, error: `tool arguments do not match schema: ${errors.slice(0, 5).join('; ')}` };
+    }
+
+    return { ok: true, data: parsed as T, outputChars: args.length };
+  });
+}
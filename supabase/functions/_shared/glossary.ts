@@ -0,0 +1,67 @@
+// The caller's glossary (public.glossary_terms) as a prompt section, so
+// translations and generated content render each term the same way.
+//
+// Only terms that occur in the text are sent. A glossary that cannot be
+// loaded is logged and skipped: it improves prompts but never blocks them.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { languageName } from "./languages.ts";
+
+export interface GlossaryEntry {
+  term: string;
+  variants: Record<string, string>;
+  definition: string | null;
+}
+
+// Keeps the prompt bounded for texts that hit a large glossary
+export const MAX_PROMPT_TERMS = 60;
+
+function forms(entry: GlossaryEntry): string[] {
+  return [entry.term, ...Object.values(entry.variants)].filter(
+    (form): form is string => typeof form === "string" && form.trim() !== "",
+  );
+}
+
+/**
+ * Glossary terms of the user that appear in the text (any language variant)
+ */
+export async function loadGlossary(
+  supabase: SupabaseClient,
+  userId: string,
+  text: string,
+): Promise<GlossaryEntry[]> {
+  const { data, error } = await supabase
+    .from("glossary_terms")
+    .select("term, variants, definition")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Failed to load glossary:", error);
+    return [];
+  }
+
+  const haystack = text.toLocaleLowerCase();
+  return ((data ?? []) as GlossaryEntry[])
+    .map((row) => ({ ...row, variants: row.variants ?? {} }))
+    .filter((entry) => forms(entry).some((form) => haystack.includes(form.toLocaleLowerCase())))
+    .slice(0, MAX_PROMPT_TERMS);
+}
+
+/**
+ * Prompt section listing each term in the given languages; empty when there
+ * are no terms
+ */
+export function glossaryPrompt(entries: GlossaryEntry[], languages: string[]): string {
+  if (entries.length === 0) return "";
+
+  const lines = entries.map((entry) => {
+    const variants = languages
+      .filter((language) => entry.variants[language])
+      .map((language) => `${languageName(language)}: "${entry.variants[language]}"`);
+    const definition = entry.definition ? ` (${entry.definition})` : "";
+    return `- ${entry.term}${variants.length ? ` = ${variants.join(", ")}` : ""}${definition}`;
+  });
+
+  return `GLOSSARY (always use exactly these terms for the concepts below):
+${lines.join("\n")}`;
+}
@@ -0,0 +1,70 @@
+// Source grounding shared with the app (src/lib/grounding.ts): every
+// generated card, question and summary point comes with a passage quoted
+// from the lecture text. The quote is looked up in the text the item was
+// generated from; a quote that cannot be found flags the item.
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+// The source columns of flashcards and quiz_questions
+export interface SourceColumns {
+  source_quote: string;
+  source_start: number | null;
+  source_end: number | null;
+}
+
+// Left out when comparing: whitespace, hyphens and dashes (line-break
+// hyphenation, "5-10" vs "5 – 10") and quotation marks
+const IGNORED = /[\s\-\u00AD\u2010-\u2015"'\u00AB\u00BB\u2018-\u201F]/;
+
+// Quoted passages may skip text with an ellipsis
+const ELLIPSIS = /\.\.\.|\u2026/;
+
+// Shorter quotes match too easily to prove anything
+const MIN_QUOTE_LENGTH = 8;
+
+/**
+ * The text without the ignored characters, case-folded, with the index of
+ * every remaining character in the original text
+ */
+function normalize(text: string): { chars: string; index: number[] } {
+  let chars = '';
+  const index: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (IGNORED.test(text[i])) continue;
+    for (const c of text[i].normalize('NFKC').toLowerCase()) {
+      chars += c;
+      index.push(i);
+    }
+  }
+  return { chars, index };
+}
+
+/**
+ * Where a quote occurs in the text, ignoring case, spacing, hyphenation and
+ * quotation marks. Parts of a quote separated by an ellipsis have to occur
+ * in order. Null when the quote is not in the text.
+ */
+export function locateQuote(text: string, quote: string): SourceSpan | null {
+  const parts = quote.split(ELLIPSIS).map((part) => normalize(part).chars).filter(Boolean);
+  if (parts.join('').length < MIN_QUOTE_LENGTH) return null;
+
+  const source = normalize(text);
+  let from = 0;
+  let start = -1;
+  for (const part of parts) {
+    const found = source.chars.indexOf(part, from);
+    if (found === -1) return null;
+    if (start === -1) start = found;
+    from = found + part.length;
+  }
+
+  return { start: source.index[start], end: source.index[from - 1] + 1 };
+}
+
+export function groundQuote(text: string, quote: string | null | undefined): SourceColumns {
+  const span = quote ? locateQuote(text, quote) : null;
+  return { source_quote: quote ?? '', source_start: span?.start ?? null, source_end: span?.end ?? null };
+}
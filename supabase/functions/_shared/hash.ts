@@ -0,0 +1,16 @@
+// Source-text hashes for outdated detection.
+//
+// Versions and generated artifacts store the hash of the text they were made
+// from; when the material's text changes the hashes stop matching. The client
+// computes the same hash in src/lib/translations.ts (hashSourceText).
+
+// Line endings and surrounding whitespace do not change the content
+function normalize(text: string): string {
+  return text.replace(/\r\n?/g, "\n").trim();
+}
+
+export async function hashSourceText(text: string): Promise<string> {
+  const bytes = new TextEncoder().encode(normalize(text));
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,40 @@
+// Shared HTTP helpers for edge functions
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Structured failure in the EdgeFail shape understood by src/lib/ai.ts
+ */
+export function failResponse(code: string, message: string, status: number): Response {
+  return jsonResponse({ success: false, code, message }, status);
+}
+
+/**
+ * Successful response in the EdgeOk shape
+ */
+export function okResponse<T>(data: T): Response {
+  return jsonResponse({ success: true, code: 'OK', message: null, data });
+}
+
+/**
+ * Map a failed AI gateway status to a structured failure
+ */
+export function gatewayFailResponse(status: number): Response {
+  if (status === 429) {
+    return failResponse('RATE_LIMITED', 'AI service is busy. Please try again later.', 429);
+  }
+  if (status === 402) {
+    return failResponse('CREDITS_EXHAUSTED', 'AI credits exhausted. Please add funds.', 402);
+  }
+  return failResponse('AI_GATEWAY_ERROR', `AI gateway request failed (${status})`, 502);
+}
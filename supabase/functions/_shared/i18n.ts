@@ -0,0 +1,51 @@
+// Material language versions: rows of material_versions plus
+// materials.source_language (see src/lib/translations.ts)
+
+import type { SupportedLanguage } from "./languages.ts";
+
+export type { SupportedLanguage };
+
+export interface LanguageVersion {
+  title?: string;
+  text: string;
+  isManual: boolean;
+  // Hash of the source text the version was translated from
+  sourceHash?: string | null;
+}
+
+export interface I18nData {
+  sourceLanguage: SupportedLanguage;
+  versions: Partial<Record<SupportedLanguage, LanguageVersion>>;
+}
+
+export interface MaterialVersionRow {
+  language: string;
+  title: string | null;
+  text: string;
+  is_manual: boolean;
+  source_hash: string | null;
+}
+
+export const MATERIAL_VERSION_COLUMNS = "language, title, text, is_manual, source_hash";
+
+// Combine version rows; without a stored source language the first manual
+// version is the source
+export function toI18nData(sourceLanguage: string | null, rows: MaterialVersionRow[] | null): I18nData | null {
+  if (!rows || rows.length === 0) return null;
+
+  const versions: Partial<Record<SupportedLanguage, LanguageVersion>> = {};
+  for (const row of rows) {
+    versions[row.language as SupportedLanguage] = {
+      ...(row.title && { title: row.title }),
+      text: row.text,
+      isManual: row.is_manual,
+      sourceHash: row.source_hash,
+    };
+  }
+
+  const source = sourceLanguage ?? rows.find((row) => row.is_manual)?.language ?? rows[0].language;
+  return {
+    sourceLanguage: source as SupportedLanguage,
+    versions,
+  };
+}
@@ -0,0 +1,27 @@
+// Study languages (same list as src/lib/languages.ts). The English names are
+// what the model is told to read and write.
+
+export const LANGUAGES = [
+  { code: "ru", name: "Russian" },
+  { code: "de", name: "German" },
+  { code: "en", name: "English" },
+  { code: "tr", name: "Turkish" },
+  { code: "sr-Latn", name: "Serbian (Latin script)" },
+] as const;
+
+export type SupportedLanguage = (typeof LANGUAGES)[number]["code"];
+
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = LANGUAGES.map((language) => language.code);
+
+export function isSupportedLanguage(value: unknown): value is SupportedLanguage {
+  return typeof value === "string" && (SUPPORTED_LANGUAGES as string[]).includes(value);
+}
+
+export function languageName(code: string): string {
+  return LANGUAGES.find((language) => language.code === code)?.name ?? code;
+}
+
+// Prompt line that pins generated content to the study language
+export function outputLanguageRule(code: SupportedLanguage): string {
+  return `Write all output in ${languageName(code)}.`;
+}
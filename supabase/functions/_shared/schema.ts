@@ -0,0 +1,70 @@
+// Minimal JSON Schema checks for AI tool-call arguments.
+//
+// Covers the subset the functions use in their tool definitions: type,
+// properties, required, items, enum and additionalProperties.
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+}
+
+function typeMatches(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validate a value against a schema. Returns a list of problems
+ * (empty when the value is valid), each prefixed with its JSON path.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.type && !typeMatches(value, schema.type)) {
+    return [`${path}: expected ${schema.type}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: must be one of ${schema.enum.join(', ')}`];
+  }
+
+  const errors: string[] = [];
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) errors.push(`${path}.${key}: is required`);
+    }
+
+    for (const [key, child] of Object.entries(record)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        errors.push(...validateSchema(child, childSchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,84 @@
+// supabase/functions/_shared/similarity.ts
+// Fuzzy matching of regenerated items (flashcards, quiz questions) against
+// the ones already stored, so review/attempt history survives regeneration.
+
+export const DEFAULT_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace.
+ * Keeps letters of any script (Cyrillic, umlauts) and digits.
+ */
+export function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKC")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tokens(text: string): Set<string> {
+  return new Set(normalizeForMatch(text).split(" ").filter((t) => t.length > 1));
+}
+
+/**
+ * Dice coefficient over word tokens: 1 = same words, 0 = nothing in common.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.size === 0 && tb.size === 0) return normalizeForMatch(a) === normalizeForMatch(b) ? 1 : 0;
+  if (ta.size === 0 || tb.size === 0) return 0;
+
+  let shared = 0;
+  for (const t of ta) {
+    if (tb.has(t)) shared++;
+  }
+  return (2 * shared) / (ta.size + tb.size);
+}
+
+export interface MatchResult<E, N> {
+  matched: Array<{ existing: E; incoming: N; score: number }>;
+  added: N[];
+  dropped: E[];
+}
+
+/**
+ * Pair incoming items with existing ones one-to-one, best scores first.
+ * Pairs below the threshold are not matched.
+ */
+export function matchItems<E, N>(
+  existing: E[],
+  incoming: N[],
+  existingText: (item: E) => string,
+  incomingText: (item: N) => string,
+  threshold = DEFAULT_MATCH_THRESHOLD,
+): MatchResult<E, N> {
+  const candidates: Array<{ e: number; n: number; score: number }> = [];
+
+  existing.forEach((e, ei) => {
+    incoming.forEach((n, ni) => {
+      const score = textSimilarity(existingText(e), incomingText(n));
+      if (score >= threshold) candidates.push({ e: ei, n: ni, score });
+    });
+  });
+
+  candidates.sort((x, y) => y.score - x.score);
+
+  const usedExisting = new Set<number>();
+  const usedIncoming = new Set<number>();
+  const matched: MatchResult<E, N>["matched"] = [];
+
+  for (const c of candidates) {
+    if (usedExisting.has(c.e) || usedIncoming.has(c.n)) continue;
+    usedExisting.add(c.e);
+    usedIncoming.add(c.n);
+    matched.push({ existing: existing[c.e], incoming: incoming[c.n], score: c.score });
+  }
+
+  return {
+    matched,
+    added: incoming.filter((_, i) => !usedIncoming.has(i)),
+    dropped: existing.filter((_, i) => !usedExisting.has(i)),
+  };
+}
@@ -0,0 +1,80 @@
+// Per-user AI quota enforcement and usage ledger (public.ai_usage).
+//
+// Call checkQuota before hitting the AI gateway and recordUsage after a
+// successful response. Limits come from public.get_ai_quota, which applies
+// per-user overrides from public.ai_quotas on top of the defaults.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { failResponse } from "./http.ts";
+
+export interface QuotaStatus {
+  daily_limit: number;
+  daily_used: number;
+  monthly_limit: number;
+  monthly_used: number;
+}
+
+export interface UsageEntry {
+  userId: string;
+  functionName: string;
+  model: string;
+  materialId?: string | null;
+  inputChars: number;
+  outputChars: number;
+  // OpenAI-compatible usage block from the gateway response, if present
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+export type QuotaResult =
+  | { ok: true; quota: QuotaStatus }
+  | { ok: false; response: Response };
+
+/**
+ * Check that the user still has AI calls left today and this month.
+ */
+export async function checkQuota(supabase: SupabaseClient, userId: string): Promise<QuotaResult> {
+  const { data, error } = await supabase.rpc('get_ai_quota', { p_user_id: userId });
+  const quota = (Array.isArray(data) ? data[0] : data) as QuotaStatus | null;
+
+  if (error || !quota) {
+    console.error('Failed to load AI quota:', error);
+    return { ok: false, response: failResponse('DB_ERROR', 'Failed to check AI quota', 500) };
+  }
+
+  if (quota.daily_used >= quota.daily_limit) {
+    return {
+      ok: false,
+      response: failResponse('RATE_LIMITED', `Daily AI limit reached (${quota.daily_limit} requests). Try again tomorrow.`, 429),
+    };
+  }
+
+  if (quota.monthly_used >= quota.monthly_limit) {
+    return {
+      ok: false,
+      response: failResponse('RATE_LIMITED', `Monthly AI limit reached (${quota.monthly_limit} requests).`, 429),
+    };
+  }
+
+  return { ok: true, quota };
+}
+
+/**
+ * Write a ledger row. Never throws - a failed write must not lose the result
+ * the user already paid for.
+ */
+export async function recordUsage(supabase: SupabaseClient, entry: UsageEntry): Promise<void> {
+  const { error } = await supabase.from('ai_usage').insert({
+    user_id: entry.userId,
+    function_name: entry.functionName,
+    model: entry.model,
+    material_id: entry.materialId ?? null,
+    input_chars: entry.inputChars,
+    output_chars: entry.outputChars,
+    prompt_tokens: entry.usage?.prompt_tokens ?? null,
+    completion_tokens: entry.usage?.completion_tokens ?? null,
+  });
+
+  if (error) {
+    console.error('Failed to record AI usage:', error);
+  }
+}
@@ -0,0 +1,400 @@
+import { matchItems } from "../_shared/similarity.ts";
+import { corsHeaders, failResponse, okResponse } from "../_shared/http.ts";
+import { authorizeMaterial, resolveMaterialText, resolveMaterialTitle } from "../_shared/auth.ts";
+import { checkQuota, recordUsage } from "../_shared/usage.ts";
+import { callTool, ToolDefinition } from "../_shared/gateway.ts";
+import { hashSourceText } from "../_shared/hash.ts";
+import { isSupportedLanguage, languageName, outputLanguageRule } from "../_shared/languages.ts";
+import { glossaryPrompt, loadGlossary } from "../_shared/glossary.ts";
+import { hasCloze, revealCloze } from "../_shared/cloze.ts";
+import { groundQuote } from "../_shared/grounding.ts";
+
+interface GeneratedCard {
+  q: string;
+  a: string;
+  source: string;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+interface FlashcardsToolResult {
+  flashcards: GeneratedCard[];
+  warnings: string[];
+}
+
+interface ClozeToolResult {
+  cloze: { text: string; confidence: 'high' | 'medium' | 'low' }[];
+  warnings: string[];
+}
+
+type CardType = 'basic' | 'cloze';
+
+const MODEL = 'google/gemini-3-flash-preview';
+
+const FLASHCARDS_TOOL: ToolDefinition = {
+  name: "generate_flashcards",
+  description: "Generate flashcards for spaced repetition learning",
+  parameters: {
+    type: "object",
+    properties: {
+      flashcards: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            q: { type: "string", description: "The question" },
+            a: { type: "string", description: "The answer" },
+            source: { type: "string", description: "The passage of the lecture text the card is based on, copied word for word" },
+            confidence: { 
+              type: "string", 
+              enum: ["high", "medium", "low"],
+              description: "Confidence level based on source clarity" 
+            }
+          },
+          required: ["q", "a", "source", "confidence"],
+          additionalProperties: false
+        }
+      },
+      warnings: {
+        type: "array",
+        items: { type: "string" },
+        description: "Any issues or unclear content"
+      }
+    },
+    required: ["flashcards", "warnings"],
+    additionalProperties: false
+  }
+};
+
+const CLOZE_TOOL: ToolDefinition = {
+  name: "generate_cloze_cards",
+  description: "Generate cloze-deletion cards for memorising exact facts",
+  parameters: {
+    type: "object",
+    properties: {
+      cloze: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            text: { type: "string", description: "A sentence from the text with {{c1::...}} blanks" },
+            confidence: {
+              type: "string",
+              enum: ["high", "medium", "low"],
+              description: "Confidence level based on source clarity"
+            }
+          },
+          required: ["text", "confidence"],
+          additionalProperties: false
+        }
+      },
+      warnings: {
+        type: "array",
+        items: { type: "string" },
+        description: "Any issues or unclear content"
+      }
+    },
+    required: ["cloze", "warnings"],
+    additionalProperties: false
+  }
+};
+
+/**
+ * Cards from either tool as question/answer pairs. A cloze card keeps the
+ * marked-up sentence as its question and the filled-in sentence as its
+ * answer; sentences without a blank are dropped with a warning.
+ */
+function toGeneratedCards(data: FlashcardsToolResult | ClozeToolResult): FlashcardsToolResult {
+  if (!('cloze' in data)) {
+    return { flashcards: data.flashcards || [], warnings: data.warnings || [] };
+  }
+
+  const flashcards: GeneratedCard[] = [];
+  const warnings = [...(data.warnings || [])];
+  for (const item of data.cloze || []) {
+    if (hasCloze(item.text)) {
+      // The sentence is copied from the text, so it is its own source
+      const sentence = revealCloze(item.text);
+      flashcards.push({ q: item.text, a: sentence, source: sentence, confidence: item.confidence });
+    } else {
+      warnings.push(`Skipped a cloze card without blanks: ${item.text}`);
+    }
+  }
+  return { flashcards, warnings };
+}
+
+export async function handler(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      material_id,
+      count = 15,
+      language = 'ru',
+      answer_language = null,
+      card_type = 'basic',
+      mode = 'merge',
+    } = await req.json();
+
+    if (!material_id) {
+      return failResponse('BAD_REQUEST', 'material_id is required', 400);
+    }
+
+    if (!isSupportedLanguage(language)) {
+      return failResponse('BAD_REQUEST', `Unsupported language: ${language}`, 400);
+    }
+
+    if (answer_language !== null && !isSupportedLanguage(answer_language)) {
+      return failResponse('BAD_REQUEST', `Unsupported language: ${answer_language}`, 400);
+    }
+
+    // Bilingual deck: questions in `language`, answers in this one.
+    // Asking for the same language twice is an ordinary deck.
+    const answerLanguage: string | null = answer_language !== language ? answer_language : null;
+
+    if (card_type !== 'basic' && card_type !== 'cloze') {
+      return failResponse('BAD_REQUEST', `Unsupported card_type: ${card_type}`, 400);
+    }
+    const cardType: CardType = card_type;
+
+    if (cardType === 'cloze' && answerLanguage) {
+      return failResponse('BAD_REQUEST', 'Cloze cards cannot have an answer language', 400);
+    }
+
+    const auth = await authorizeMaterial(req, material_id);
+    if (!auth.ok) return auth.response;
+
+    // Always use the stored text - never text sent by the client
+    const ocr_text = resolveMaterialText(auth.material, language);
+    const title = resolveMaterialTitle(auth.material, language);
+    const topic = auth.material.topic;
+
+    if (!ocr_text.trim()) {
+      return failResponse('BAD_REQUEST', 'Material has no text', 400);
+    }
+
+    // Recorded on every saved item so edits to the text mark it outdated
+    const source_hash = await hashSourceText(ocr_text);
+
+    console.log('Generating flashcards for material:', material_id, 'count:', count, 'language:', language, 'answer language:', answerLanguage, 'type:', cardType);
+
+    const quota = await checkQuota(auth.supabase, auth.user.id);
+    if (!quota.ok) return quota.response;
+
+    const glossary = await loadGlossary(auth.supabase, auth.user.id, ocr_text);
+    const glossarySection = glossaryPrompt(glossary, answerLanguage ? [language, answerLanguage] : [language]);
+
+    const languageRule = answerLanguage
+      ? `Write every question (q) in ${languageName(language)} and every answer (a) in ${languageName(answerLanguage)}.
+Put the medical term itself on the question side, worded as in the lecture text, and explain it on the answer side.`
+      : outputLanguageRule(language);
+
+    const systemPrompt = cardType === 'cloze'
+      ? `You are an AI assistant for medical students preparing for exams.
+Your task is to create cloze-deletion cards for memorising exact facts.
+
+CRITICAL RULES:
+1. Copy each sentence from the provided text word for word - do not rephrase
+2. Blank the facts worth memorising as {{c1::...}}; further blanks in the same sentence are {{c2::...}}, {{c3::...}}
+3. Prefer dosages, limits, time spans, steps of procedures (e.g. hygiene) and legal paragraphs
+4. Keep each blank short: a number with its unit, a term or a few words
+5. NEVER invent, assume, or add facts not present in the source
+6. If the sentence is unclear in the source, set confidence to "low"
+
+Create exactly ${count} cloze cards.
+${languageRule}${glossarySection ? `\n\n${glossarySection}` : ''}`
+      : `You are an AI assistant for medical students preparing for exams.
+Your task is to create flashcards for spaced repetition learning.
+
+CRITICAL RULES:
+1. ONLY use information explicitly stated in the provided text
+2. NEVER invent, assume, or add facts not present in the source
+3. If information is unclear or incomplete:
+   - Set confidence to "low"
+   - Keep the card but note uncertainty in the answer
+4. Create clear, concise question-answer pairs suitable for quick review
+5. Focus on key facts, definitions, and concepts important for exams
+6. Preserve medical terminology exactly as written
+7. In "source", quote the passage of the text the card is based on word for word (one or two sentences)
+
+Create exactly ${count} flashcards.
+${languageRule}${glossarySection ? `\n\n${glossarySection}` : ''}`;
+
+    const userPrompt = `Create ${count} ${cardType === 'cloze' ? 'cloze cards' : 'flashcards'} from this lecture material:
+
+${title ? `Title: ${title}` : ''}
+${topic ? `Topic: ${topic}` : ''}
+
+LECTURE TEXT:
+${ocr_text}`;
+
+    const messages = [
+      { role: 'system' as const, content: systemPrompt },
+      { role: 'user' as const, content: userPrompt },
+    ];
+    const result = cardType === 'cloze'
+      ? await callTool<ClozeToolResult>(messages, CLOZE_TOOL, { model: MODEL })
+      : await callTool<FlashcardsToolResult>(messages, FLASHCARDS_TOOL, { model: MODEL });
+    if (!result.ok) return result.response;
+
+    await recordUsage(auth.supabase, {
+      userId: auth.user.id,
+      functionName: 'generate-flashcards',
+      model: result.model,
+      materialId: material_id,
+      inputChars: systemPrompt.length + userPrompt.length,
+      outputChars: result.outputChars,
+      usage: result.usage,
+    });
+
+    const flashcardsData = toGeneratedCards(result.data);
+    console.log('Parsed flashcards:', flashcardsData.flashcards.length);
+
+    // Save to database
+    const { supabase } = auth;
+
+    const generated: GeneratedCard[] = flashcardsData.flashcards;
+    const today = new Date().toISOString().split('T')[0];
+
+    const toNewRow = (fc: GeneratedCard) => ({
+      material_id,
+      question: fc.q,
+      answer: fc.a,
+      confidence: fc.confidence,
+      stage: 0,
+      due_date: today,
+      language,
+      answer_language: answerLanguage,
+      card_type: cardType,
+      source_hash,
+      ...groundQuote(ocr_text, fc.source),
+    });
+
+    const stats = { kept: 0, added: 0, archived: 0 };
+
+    if (mode === 'replace') {
+      // Explicit replace: wipe generated cards of this type in this deck and
+      // start over. Cards the user wrote or edited stay.
+      const deleteQuery = supabase
+        .from('flashcards')
+        .delete()
+        .eq('material_id', material_id)
+        .eq('language', language)
+        .eq('card_type', cardType)
+        .eq('is_manual', false);
+      const { error: deleteError } = await (answerLanguage
+        ? deleteQuery.eq('answer_language', answerLanguage)
+        : deleteQuery.is('answer_language', null));
+
+      if (deleteError) {
+        console.error('Database error:', deleteError);
+        return failResponse('DB_ERROR', 'Failed to remove old flashcards', 500);
+      }
+
+      const { error: insertError } = await supabase
+        .from('flashcards')
+        .insert(generated.map(toNewRow));
+
+      if (insertError) {
+        console.error('Database error:', insertError);
+        return failResponse('DB_ERROR', 'Failed to save flashcards', 500);
+      }
+      stats.added = generated.length;
+    } else {
+      // Merge: match by question so scheduling state survives regeneration.
+      // Archived cards take part too - a card that comes back is restored.
+      // Manual cards are matched so they are not generated twice, but never
+      // changed or archived.
+      const existingQuery = supabase
+        .from('flashcards')
+        .select('id, question, archived_at, is_manual')
+        .eq('material_id', material_id)
+        .eq('language', language)
+        .eq('card_type', cardType);
+      const { data: existingCards, error: fetchError } = await (answerLanguage
+        ? existingQuery.eq('answer_language', answerLanguage)
+        : existingQuery.is('answer_language', null));
+
+      if (fetchError) {
+        console.error('Database error:', fetchError);
+        return failResponse('DB_ERROR', 'Failed to load existing flashcards', 500);
+      }
+
+      const { matched, added, dropped } = matchItems(
+        existingCards || [],
+        generated,
+        (card) => card.question,
+        (fc) => fc.q,
+      );
+
+      for (const { existing, incoming } of matched) {
+        if (existing.is_manual) continue;
+        const { error } = await supabase
+          .from('flashcards')
+          .update({
+            question: incoming.q,
+            answer: incoming.a,
+            confidence: incoming.confidence,
+            source_hash,
+            ...groundQuote(ocr_text, incoming.source),
+            archived_at: null,
+          })
+          .eq('id', existing.id);
+        if (error) console.error('Failed to update matched card:', existing.id, error);
+      }
+
+      if (added.length > 0) {
+        const { error: insertError } = await supabase
+          .from('flashcards')
+          .insert(added.map(toNewRow));
+
+        if (insertError) {
+          console.error('Database error:', insertError);
+          return failResponse('DB_ERROR', 'Failed to save flashcards', 500);
+        }
+      }
+
+      const toArchive = dropped.filter((card) => !card.archived_at && !card.is_manual).map((card) => card.id);
+      if (toArchive.length > 0) {
+        const { error } = await supabase
+          .from('flashcards')
+          .update({ archived_at: new Date().toISOString() })
+          .in('id', toArchive);
+        if (error) console.error('Failed to archive dropped cards:', error);
+      }
+
+      stats.kept = matched.length;
+      stats.added = added.length;
+      stats.archived = toArchive.length;
+    }
+
+    const savedQuery = supabase
+      .from('flashcards')
+      .select()
+      .eq('material_id', material_id)
+      .eq('language', language)
+      .is('archived_at', null);
+    const { data: insertedCards, error: selectError } = await (answerLanguage
+      ? savedQuery.eq('answer_language', answerLanguage)
+      : savedQuery.is('answer_language', null)
+    ).order('created_at', { ascending: true });
+
+    if (selectError) {
+      console.error('Database error:', selectError);
+      return failResponse('DB_ERROR', 'Failed to load saved flashcards', 500);
+    }
+
+    console.log('Flashcards saved successfully:', insertedCards?.length, stats);
+
+    return okResponse({
+      flashcards: insertedCards,
+      warnings: flashcardsData.warnings,
+      merge: stats,
+    });
+
+  } catch (error) {
+    console.error('Generate flashcards error:', error);
+    return failResponse('INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
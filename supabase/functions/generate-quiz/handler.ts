@@ -0,0 +1,400 @@
+import { matchItems } from "../_shared/similarity.ts";
+import { corsHeaders, failResponse, okResponse } from "../_shared/http.ts";
+import { authorizeMaterial, resolveMaterialText, resolveMaterialTitle } from "../_shared/auth.ts";
+import { checkQuota, recordUsage } from "../_shared/usage.ts";
+import { callTool, ToolDefinition } from "../_shared/gateway.ts";
+import { JsonSchema } from "../_shared/schema.ts";
+import { SourceColumns, groundQuote } from "../_shared/grounding.ts";
+import { hashSourceText } from "../_shared/hash.ts";
+import { isSupportedLanguage, outputLanguageRule } from "../_shared/languages.ts";
+import { glossaryPrompt, loadGlossary } from "../_shared/glossary.ts";
+
+type QuestionType = 'single' | 'multiple' | 'true_false' | 'ordering';
+
+interface GeneratedQuestion {
+  type?: QuestionType;
+  question: string;
+  options: string[];
+  correctIndex?: number;
+  correctIndices?: number[];
+  explanation: string;
+  source: string;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+interface GeneratedCase {
+  vignette: string;
+  questions: GeneratedQuestion[];
+}
+
+interface QuizToolResult {
+  questions: GeneratedQuestion[];
+  cases?: GeneratedCase[];
+  warnings: string[];
+}
+
+// A generated question checked and mapped onto the answer columns
+// (see the quiz_questions migration for their meaning per type)
+interface QuestionRow extends SourceColumns {
+  question_type: QuestionType;
+  question: string;
+  options: string[];
+  correct_index: number | null;
+  correct_indices: number[] | null;
+  case_text: string | null;
+  explanation: string;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+const MODEL = 'google/gemini-3-flash-preview';
+
+const isIndex = (value: unknown, options: string[]) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < options.length;
+
+/**
+ * Check a generated question against its type and map it onto the answer
+ * columns; returns null when the answer does not fit the options
+ */
+function toQuestionRow(q: GeneratedQuestion, caseText: string | null, text: string): QuestionRow | null {
+  const type: QuestionType = q.type ?? 'single';
+  const options = q.options || [];
+  const base = {
+    question_type: type,
+    question: q.question,
+    options,
+    case_text: caseText,
+    explanation: q.explanation,
+    confidence: q.confidence,
+    ...groundQuote(text, q.source),
+  };
+
+  switch (type) {
+    case 'multiple': {
+      const indices = [...new Set(q.correctIndices || [])].sort((a, b) => a - b);
+      if (indices.length === 0 || !indices.every((i) => isIndex(i, options))) return null;
+      return { ...base, correct_index: null, correct_indices: indices };
+    }
+    case 'ordering':
+      // Steps come in the correct order
+      if (options.length < 2) return null;
+      return { ...base, correct_index: null, correct_indices: options.map((_, i) => i) };
+    case 'true_false':
+      if (options.length !== 2 || !isIndex(q.correctIndex, options)) return null;
+      return { ...base, correct_index: q.correctIndex!, correct_indices: null };
+    default:
+      if (!isIndex(q.correctIndex, options)) return null;
+      return { ...base, correct_index: q.correctIndex!, correct_indices: null };
+  }
+}
+
+/**
+ * Questions and the questions of every case as rows, grounded in the text;
+ * questions whose answer does not fit are dropped with a warning
+ */
+function toQuestionRows(data: QuizToolResult, text: string): { questions: QuestionRow[]; warnings: string[] } {
+  const questions: QuestionRow[] = [];
+  const warnings = [...(data.warnings || [])];
+
+  const add = (q: GeneratedQuestion, caseText: string | null) => {
+    const row = toQuestionRow(q, caseText, text);
+    if (row) {
+      questions.push(row);
+    } else {
+      warnings.push(`Skipped a question with an invalid answer: ${q.question}`);
+    }
+  };
+
+  for (const q of data.questions || []) add(q, null);
+  for (const c of data.cases || []) {
+    for (const q of c.questions || []) add(q, c.vignette);
+  }
+  return { questions, warnings };
+}
+
+const QUESTION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    type: {
+      type: "string",
+      enum: ["single", "multiple", "true_false", "ordering"],
+      description: "single: one correct option; multiple: several correct options; true_false: a statement to judge; ordering: steps to put in order"
+    },
+    question: { type: "string", description: "The question text, or the statement for true_false" },
+    options: { 
+      type: "array", 
+      items: { type: "string" },
+      description: "single/multiple: exactly 4 options; true_false: the words for true and false; ordering: 3-6 steps in the CORRECT order" 
+    },
+    correctIndex: { 
+      type: "number", 
+      description: "single/true_false: index of the correct option" 
+    },
+    correctIndices: {
+      type: "array",
+      items: { type: "number" },
+      description: "multiple: indices of all correct options (at least 2)"
+    },
+    explanation: { 
+      type: "string", 
+      description: "Why the correct answer is right" 
+    },
+    source: {
+      type: "string",
+      description: "The passage of the lecture text the answer is based on, copied word for word"
+    },
+    confidence: { 
+      type: "string", 
+      enum: ["high", "medium", "low"],
+      description: "Confidence based on source clarity" 
+    }
+  },
+  required: ["question", "options", "explanation", "source", "confidence"],
+  additionalProperties: false
+};
+
+const QUIZ_TOOL: ToolDefinition = {
+  name: "generate_quiz",
+  description: "Generate exam-style quiz questions of several types",
+  parameters: {
+    type: "object",
+    properties: {
+      questions: {
+        type: "array",
+        items: QUESTION_SCHEMA
+      },
+      cases: {
+        type: "array",
+        description: "Short clinical case vignettes, each with its own questions",
+        items: {
+          type: "object",
+          properties: {
+            vignette: { type: "string", description: "The case: patient, situation and findings" },
+            questions: { type: "array", items: QUESTION_SCHEMA }
+          },
+          required: ["vignette", "questions"],
+          additionalProperties: false
+        }
+      },
+      warnings: {
+        type: "array",
+        items: { type: "string" },
+        description: "Any issues or unclear content"
+      }
+    },
+    required: ["questions", "warnings"],
+    additionalProperties: false
+  }
+};
+
+export async function handler(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { material_id, count = 8, language = 'ru', mode = 'merge' } = await req.json();
+
+    if (!material_id) {
+      return failResponse('BAD_REQUEST', 'material_id is required', 400);
+    }
+
+    if (!isSupportedLanguage(language)) {
+      return failResponse('BAD_REQUEST', `Unsupported language: ${language}`, 400);
+    }
+
+    const auth = await authorizeMaterial(req, material_id);
+    if (!auth.ok) return auth.response;
+
+    // Always use the stored text - never text sent by the client
+    const ocr_text = resolveMaterialText(auth.material, language);
+    const title = resolveMaterialTitle(auth.material, language);
+    const topic = auth.material.topic;
+
+    if (!ocr_text.trim()) {
+      return failResponse('BAD_REQUEST', 'Material has no text', 400);
+    }
+
+    // Recorded on every saved item so edits to the text mark it outdated
+    const source_hash = await hashSourceText(ocr_text);
+
+    console.log('Generating quiz for material:', material_id, 'count:', count, 'language:', language);
+
+    const quota = await checkQuota(auth.supabase, auth.user.id);
+    if (!quota.ok) return quota.response;
+
+    const glossary = await loadGlossary(auth.supabase, auth.user.id, ocr_text);
+    const glossarySection = glossaryPrompt(glossary, [language]);
+
+    const systemPrompt = `You are an AI assistant for medical students preparing for exams.
+Your task is to create exam-style quiz questions for exam practice.
+
+CRITICAL RULES:
+1. ONLY use information explicitly stated in the provided text
+2. NEVER invent, assume, or add facts not present in the source
+3. If information is unclear:
+   - Set confidence to "low"
+   - Note in explanation that source was unclear
+4. Make wrong options plausible but clearly incorrect based on the material
+5. Provide clear explanations referencing the source material
+6. Preserve medical terminology exactly as written
+7. In "source", quote the passage of the text the correct answer is based on word for word (one or two sentences)
+
+QUESTION TYPES (set "type" on every question):
+- single: 4 options, exactly one correct (correctIndex) - most questions should be this type
+- multiple: 4 options, two or more correct (correctIndices); say in the question that several answers apply
+- true_false: a statement from the text; options are the words for "true" and "false" in the output language, correctIndex 0 or 1
+- ordering: 3-6 steps of a procedure or sequence described in the text (e.g. care or hygiene steps), listed in the correct order
+Use multiple, true_false and ordering only where the text supports them.
+
+CLINICAL CASES:
+If the text describes patients, symptoms or care situations, add 1-2 short case vignettes in "cases",
+each with 2-3 questions about that case. Case vignettes may only use facts from the text.
+
+Create exactly ${count} questions in total, counting the questions of the cases.
+${outputLanguageRule(language)}${glossarySection ? `\n\n${glossarySection}` : ''}`;
+
+    const userPrompt = `Create ${count} quiz questions from this lecture material:
+
+${title ? `Title: ${title}` : ''}
+${topic ? `Topic: ${topic}` : ''}
+
+LECTURE TEXT:
+${ocr_text}`;
+
+    const result = await callTool<QuizToolResult>(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      QUIZ_TOOL,
+      { model: MODEL },
+    );
+    if (!result.ok) return result.response;
+
+    await recordUsage(auth.supabase, {
+      userId: auth.user.id,
+      functionName: 'generate-quiz',
+      model: result.model,
+      materialId: material_id,
+      inputChars: systemPrompt.length + userPrompt.length,
+      outputChars: result.outputChars,
+      usage: result.usage,
+    });
+
+    const { questions: generated, warnings } = toQuestionRows(result.data, ocr_text);
+    console.log('Parsed quiz questions:', generated.length);
+
+    // Save to database
+    const { supabase } = auth;
+
+    const toRow = (q: QuestionRow) => ({ ...q, source_hash });
+
+    const stats = { kept: 0, added: 0, archived: 0 };
+
+    if (mode === 'replace') {
+      // Explicit replace: archive every question of this material+language
+      // and start over. Archived questions keep their answers, so attempt
+      // history and error rates stay intact.
+      const { data: archivedQuestions, error: archiveError } = await supabase
+        .from('quiz_questions')
+        .update({ archived_at: new Date().toISOString() })
+        .eq('material_id', material_id)
+        .eq('language', language)
+        .is('archived_at', null)
+        .select('id');
+
+      if (archiveError) {
+        console.error('Database error:', archiveError);
+        return failResponse('DB_ERROR', 'Failed to archive old quiz questions', 500);
+      }
+
+      const { error: insertError } = await supabase
+        .from('quiz_questions')
+        .insert(generated.map((q) => ({ ...toRow(q), material_id, language })));
+
+      if (insertError) {
+        console.error('Database error:', insertError);
+        return failResponse('DB_ERROR', 'Failed to save quiz questions', 500);
+      }
+      stats.added = generated.length;
+      stats.archived = archivedQuestions?.length ?? 0;
+    } else {
+      // Merge: matched questions keep their id, so attempt history stays attached.
+      // Archived questions take part too - a question that comes back is restored.
+      const { data: existingQuestions, error: fetchError } = await supabase
+        .from('quiz_questions')
+        .select('id, question, archived_at')
+        .eq('material_id', material_id)
+        .eq('language', language);
+
+      if (fetchError) {
+        console.error('Database error:', fetchError);
+        return failResponse('DB_ERROR', 'Failed to load existing quiz questions', 500);
+      }
+
+      const { matched, added, dropped } = matchItems(
+        existingQuestions || [],
+        generated,
+        (existing) => existing.question,
+        (q) => q.question,
+      );
+
+      for (const { existing, incoming } of matched) {
+        const { error } = await supabase
+          .from('quiz_questions')
+          .update({ ...toRow(incoming), archived_at: null })
+          .eq('id', existing.id);
+        if (error) console.error('Failed to update matched question:', existing.id, error);
+      }
+
+      if (added.length > 0) {
+        const { error: insertError } = await supabase
+          .from('quiz_questions')
+          .insert(added.map((q) => ({ ...toRow(q), material_id, language })));
+
+        if (insertError) {
+          console.error('Database error:', insertError);
+          return failResponse('DB_ERROR', 'Failed to save quiz questions', 500);
+        }
+      }
+
+      const toArchive = dropped.filter((q) => !q.archived_at).map((q) => q.id);
+      if (toArchive.length > 0) {
+        const { error } = await supabase
+          .from('quiz_questions')
+          .update({ archived_at: new Date().toISOString() })
+          .in('id', toArchive);
+        if (error) console.error('Failed to archive dropped questions:', error);
+      }
+
+      stats.kept = matched.length;
+      stats.added = added.length;
+      stats.archived = toArchive.length;
+    }
+
+    const { data: insertedQuestions, error: selectError } = await supabase
+      .from('quiz_questions')
+      .select()
+      .eq('material_id', material_id)
+      .eq('language', language)
+      .is('archived_at', null)
+      .order('created_at', { ascending: true });
+
+    if (selectError) {
+      console.error('Database error:', selectError);
+      return failResponse('DB_ERROR', 'Failed to load saved quiz questions', 500);
+    }
+
+    console.log('Quiz questions saved successfully:', insertedQuestions?.length, stats);
+
+    return okResponse({
+      questions: insertedQuestions,
+      warnings,
+      merge: stats,
+    });
+
+  } catch (error) {
+    console.error('Generate quiz error:', error);
+    return failResponse('INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
@@ -0,0 +1,238 @@
+import { corsHeaders, failResponse, okResponse } from "../_shared/http.ts";
+import { authorizeMaterial, resolveMaterialText, resolveMaterialTitle } from "../_shared/auth.ts";
+import { checkQuota, recordUsage } from "../_shared/usage.ts";
+import { callTool, ToolDefinition } from "../_shared/gateway.ts";
+import { hashSourceText } from "../_shared/hash.ts";
+import { isSupportedLanguage, outputLanguageRule } from "../_shared/languages.ts";
+import { glossaryPrompt, loadGlossary } from "../_shared/glossary.ts";
+import { locateQuote } from "../_shared/grounding.ts";
+
+interface SummaryToolResult {
+  short: string;
+  medium: string;
+  long: string;
+  sources: { point: string; quote: string }[];
+  warnings: string[];
+  confidence: 'high' | 'medium' | 'low';
+}
+
+const MODEL = 'google/gemini-3-flash-preview';
+
+/**
+ * The quoted passage of every short summary point with its offsets in the
+ * text (null offsets: not found)
+ */
+function groundSources(text: string, sources: SummaryToolResult['sources']) {
+  return (sources || []).map(({ point, quote }) => {
+    const span = locateQuote(text, quote);
+    return { point, quote, start: span?.start ?? null, end: span?.end ?? null };
+  });
+}
+
+const SUMMARY_TOOL: ToolDefinition = {
+  name: "generate_summary",
+  description: "Generate structured summaries for exam preparation",
+  parameters: {
+    type: "object",
+    properties: {
+      short: {
+        type: "string",
+        description: "5-8 bullet points covering key exam facts"
+      },
+      medium: {
+        type: "string",
+        description: "Structured outline with main topics and subtopics"
+      },
+      long: {
+        type: "string",
+        description: "Detailed summary preserving important details"
+      },
+      sources: {
+        type: "array",
+        description: "For every bullet point of the short summary, the passage of the text it is based on",
+        items: {
+          type: "object",
+          properties: {
+            point: { type: "string", description: "The bullet point as written in short" },
+            quote: { type: "string", description: "The supporting passage, copied word for word" }
+          },
+          required: ["point", "quote"],
+          additionalProperties: false
+        }
+      },
+      warnings: {
+        type: "array",
+        items: { type: "string" },
+        description: "List of unclear or missing information"
+      },
+      confidence: {
+        type: "string",
+        enum: ["high", "medium", "low"],
+        description: "Overall confidence in the summary accuracy"
+      }
+    },
+    required: ["short", "medium", "long", "sources", "warnings", "confidence"],
+    additionalProperties: false
+  }
+};
+
+export async function handler(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { material_id, language = 'ru' } = await req.json();
+
+    if (!material_id) {
+      return failResponse('BAD_REQUEST', 'material_id is required', 400);
+    }
+
+    if (!isSupportedLanguage(language)) {
+      return failResponse('BAD_REQUEST', `Unsupported language: ${language}`, 400);
+    }
+
+    const auth = await authorizeMaterial(req, material_id);
+    if (!auth.ok) return auth.response;
+
+    // Always use the stored text - never text sent by the client
+    const ocr_text = resolveMaterialText(auth.material, language);
+    const title = resolveMaterialTitle(auth.material, language);
+    const topic = auth.material.topic;
+
+    if (!ocr_text.trim()) {
+      return failResponse('BAD_REQUEST', 'Material has no text', 400);
+    }
+
+    // Recorded on every saved item so edits to the text mark it outdated
+    const source_hash = await hashSourceText(ocr_text);
+
+    console.log('Generating summary for material:', material_id, 'language:', language);
+
+    const quota = await checkQuota(auth.supabase, auth.user.id);
+    if (!quota.ok) return quota.response;
+
+    const glossary = await loadGlossary(auth.supabase, auth.user.id, ocr_text);
+    const glossarySection = glossaryPrompt(glossary, [language]);
+
+    const systemPrompt = `You are an AI assistant for medical students preparing for exams.
+Your task is to summarize lecture notes accurately for exam preparation.
+
+CRITICAL RULES:
+1. ONLY use information explicitly stated in the provided text
+2. NEVER invent, assume, or add facts not present in the source
+3. If information is unclear, incomplete, or ambiguous:
+   - Mark that section with [needs clarification]
+   - Add it to the warnings array
+4. Preserve medical terminology exactly as written
+5. Structure content for easy exam review
+
+OUTPUT FORMAT (JSON only, no markdown):
+{
+  "short": "5-8 bullet points covering key exam facts",
+  "medium": "Structured outline with main topics and subtopics",
+  "long": "Detailed summary preserving important details, still concise",
+  "sources": [{ "point": "a bullet point of short", "quote": "the passage of the text it is based on, copied word for word" }],
+  "warnings": ["list of unclear or missing information that needs clarification"],
+  "confidence": "high | medium | low"
+}
+
+If the text is too short or unclear to summarize meaningfully, set confidence to "low" and explain in warnings.
+
+${outputLanguageRule(language)}${glossarySection ? `\n\n${glossarySection}` : ''}`;
+
+    const userPrompt = `Summarize this lecture material for exam preparation:
+
+${title ? `Title: ${title}` : ''}
+${topic ? `Topic: ${topic}` : ''}
+
+LECTURE TEXT:
+${ocr_text}`;
+
+    const result = await callTool<SummaryToolResult>(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      SUMMARY_TOOL,
+      { model: MODEL },
+    );
+    if (!result.ok) return result.response;
+
+    await recordUsage(auth.supabase, {
+      userId: auth.user.id,
+      functionName: 'generate-summary',
+      model: result.model,
+      materialId: material_id,
+      inputChars: systemPrompt.length + userPrompt.length,
+      outputChars: result.outputChars,
+      usage: result.usage,
+    });
+
+    const summaryData = result.data;
+    console.log('Parsed summary, confidence:', summaryData.confidence);
+    const sources = groundSources(ocr_text, summaryData.sources);
+
+    // Save to database
+    const { supabase } = auth;
+
+    // Check if summary already exists for this material AND language
+    const { data: existing } = await supabase
+      .from('summaries')
+      .select('id')
+      .eq('material_id', material_id)
+      .eq('language', language)
+      .maybeSingle();
+
+    let dbResult;
+    if (existing) {
+      // Update existing summary
+      dbResult = await supabase
+        .from('summaries')
+        .update({
+          short_summary: summaryData.short,
+          medium_summary: summaryData.medium,
+          long_summary: summaryData.long,
+          warnings: summaryData.warnings || [],
+          sources,
+          source_hash,
+          generated_at: new Date().toISOString(),
+        })
+        .eq('id', existing.id)
+        .select()
+        .single();
+    } else {
+      // Insert new summary with language
+      dbResult = await supabase
+        .from('summaries')
+        .insert({
+          material_id,
+          short_summary: summaryData.short,
+          medium_summary: summaryData.medium,
+          long_summary: summaryData.long,
+          warnings: summaryData.warnings || [],
+          sources,
+          source_hash,
+          language,
+        })
+        .select()
+        .single();
+    }
+
+    if (dbResult.error) {
+      console.error('Database error:', dbResult.error);
+      return failResponse('DB_ERROR', 'Failed to save summary', 500);
+    }
+
+    console.log('Summary saved successfully');
+
+    return okResponse({
+      summary: dbResult.data,
+      confidence: summaryData.confidence,
+    });
+
+  } catch (error) {
+    console.error('Generate summary error:', error);
+    return failResponse('INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
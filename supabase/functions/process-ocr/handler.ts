@@ -0,0 +1,99 @@
+import { corsHeaders, failResponse, okResponse } from "../_shared/http.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { checkQuota, recordUsage } from "../_shared/usage.ts";
+import { callChat } from "../_shared/gateway.ts";
+
+const MODEL = 'google/gemini-2.5-flash';
+
+export async function handler(req: Request): Promise<Response> {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (!auth.ok) return auth.response;
+
+    const { imageBase64 } = await req.json();
+
+    if (!imageBase64) {
+      console.error('No image provided');
+      return failResponse('BAD_REQUEST', 'No image provided', 400);
+    }
+
+    console.log('Processing OCR request, image size:', imageBase64.length);
+
+    const quota = await checkQuota(auth.supabase, auth.user.id);
+    if (!quota.ok) return quota.response;
+
+    // Use Gemini Vision for OCR via the AI gateway
+    const result = await callChat(
+      [
+        {
+          role: 'system',
+          content: `You are an OCR assistant for medical study materials. Extract ALL text from the image accurately.
+            
+RULES:
+1. Extract text exactly as written, preserving structure
+2. Keep bullet points, numbering, and formatting
+3. If handwritten text is unclear, mark with [unclear]
+4. Preserve medical terminology accurately
+5. Return ONLY the extracted text, no explanations
+
+After the text, add a new line and rate your confidence:
+CONFIDENCE: high | medium | low`
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: 'Extract all text from this image of study material:'
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: imageBase64.startsWith('data:') ? imageBase64 : `data:image/jpeg;base64,${imageBase64}`
+              }
+            }
+          ]
+        }
+      ],
+      { model: MODEL, maxTokens: 4096 },
+    );
+    if (!result.ok) return result.response;
+
+    console.log('AI Gateway response received');
+
+    const fullText = result.data;
+
+    await recordUsage(auth.supabase, {
+      userId: auth.user.id,
+      functionName: 'process-ocr',
+      model: result.model,
+      inputChars: imageBase64.length,
+      outputChars: result.outputChars,
+      usage: result.usage,
+    });
+    
+    // Parse confidence from response
+    let text = fullText;
+    let confidence: 'high' | 'medium' | 'low' = 'medium';
+    
+    const confidenceMatch = fullText.match(/CONFIDENCE:\s*(high|medium|low)/i);
+    if (confidenceMatch) {
+      confidence = confidenceMatch[1].toLowerCase() as 'high' | 'medium' | 'low';
+      text = fullText.replace(/\n?CONFIDENCE:\s*(high|medium|low)/i, '').trim();
+    }
+
+    console.log('OCR completed, confidence:', confidence, 'text length:', text.length);
+
+    return okResponse({ text, confidence });
+
+  } catch (error) {
+    console.error('OCR error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return failResponse('INTERNAL_ERROR', errorMessage, 500);
+  }
+}
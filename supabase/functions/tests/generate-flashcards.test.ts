@@ -0,0 +1,260 @@
+import { describe, it, expect } from "vitest";
+import { handler } from "../generate-flashcards/handler";
+import { createMaterial, createUser, selectRows } from "./support/db";
+import { malformedToolReply, statusReply, toolReply } from "./support/mockGateway";
+import { invoke, setupFunctionTests } from "./support/harness";
+
+const ctx = setupFunctionTests();
+
+interface CardRow {
+  id: string;
+  question: string;
+  stage: number;
+  language: string;
+  archived_at: string | null;
+}
+
+const loadCards = (materialId: string) =>
+  selectRows<CardRow>(
+    ctx.db,
+    "SELECT id, question, stage, language, archived_at FROM public.flashcards WHERE material_id = $1 ORDER BY question",
+    [materialId],
+  );
+
+describe("generate-flashcards", () => {
+  it("writes the requested number of new cards in the study language", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    const { status, json } = await invoke<{ flashcards: unknown[] }>(
+      handler,
+      { material_id: materialId, language: "de", count: 4 },
+      user.token,
+    );
+
+    expect(status).toBe(200);
+    expect(json.data?.flashcards).toHaveLength(4);
+
+    const cards = await loadCards(materialId);
+    expect(cards).toHaveLength(4);
+    expect(cards.every((card) => card.language === "de" && card.stage === 0)).toBe(true);
+  });
+
+  it("keeps review progress for matching cards when regenerating", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    await invoke(handler, { material_id: materialId, count: 2 }, user.token);
+    const [first] = await loadCards(materialId);
+    await ctx.db.query("UPDATE public.flashcards SET stage = 3 WHERE id = $1", [first.id]);
+
+    ctx.gateway.enqueue(
+      toolReply({
+        flashcards: [
+          { q: first.question, a: "Updated answer", source: "The heart has four chambers.", confidence: "high" },
+          {
+            q: "What does the right atrium receive?",
+            a: "Venous blood",
+            source: "The right atrium receives venous blood.",
+            confidence: "medium",
+          },
+        ],
+        warnings: [],
+      }),
+    );
+    const { json } = await invoke(handler, { material_id: materialId, count: 2 }, user.token);
+
+    expect(json.data?.merge).toEqual({ kept: 1, added: 1, archived: 1 });
+
+    const cards = await loadCards(materialId);
+    const kept = cards.find((card) => card.id === first.id);
+    expect(kept).toMatchObject({ stage: 3, archived_at: null });
+    expect(cards.filter((card) => card.archived_at !== null)).toHaveLength(1);
+  });
+
+  it("never changes, archives or deletes manual cards", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    await invoke(handler, { material_id: materialId, count: 2 }, user.token);
+    const [edited, other] = await loadCards(materialId);
+    await ctx.db.query("UPDATE public.flashcards SET answer = 'My answer', is_manual = true WHERE id = $1", [edited.id]);
+    await ctx.db.query("UPDATE public.flashcards SET is_manual = true WHERE id = $1", [other.id]);
+
+    ctx.gateway.enqueue(
+      toolReply({
+        flashcards: [{ q: edited.question, a: "AI answer", source: "The heart has four chambers.", confidence: "high" }],
+        warnings: [],
+      }),
+    );
+    const { json } = await invoke(handler, { material_id: materialId, count: 1 }, user.token);
+    expect(json.data?.merge).toEqual({ kept: 1, added: 0, archived: 0 });
+
+    await invoke(handler, { material_id: materialId, count: 1, mode: "replace" }, user.token);
+
+    const manual = await selectRows<{ answer: string; archived_at: string | null }>(
+      ctx.db,
+      "SELECT answer, archived_at FROM public.flashcards WHERE material_id = $1 AND is_manual ORDER BY question",
+      [materialId],
+    );
+    expect(manual).toHaveLength(2);
+    expect(manual.every((card) => card.archived_at === null)).toBe(true);
+    expect(manual.map((card) => card.answer)).toContain("My answer");
+    expect(await loadCards(materialId)).toHaveLength(3);
+  });
+
+  it("replaces all cards in replace mode", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    await invoke(handler, { material_id: materialId, count: 3 }, user.token);
+    await invoke(handler, { material_id: materialId, count: 2, mode: "replace" }, user.token);
+
+    expect(await loadCards(materialId)).toHaveLength(2);
+  });
+
+  it("keeps bilingual decks apart from the deck in the question language", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    await invoke(handler, { material_id: materialId, language: "de", count: 2 }, user.token);
+    const { status, json } = await invoke<{ flashcards: unknown[] }>(
+      handler,
+      { material_id: materialId, language: "de", answer_language: "ru", count: 3 },
+      user.token,
+    );
+
+    expect(status).toBe(200);
+    expect(json.data?.flashcards).toHaveLength(3);
+    expect(ctx.gateway.requests[1].messages[0].content).toContain(
+      "Write every question (q) in German and every answer (a) in Russian.",
+    );
+
+    const decks = await selectRows<{ answer_language: string | null; active: number }>(
+      ctx.db,
+      `SELECT answer_language, count(*)::int AS active FROM public.flashcards
+        WHERE material_id = $1 AND archived_at IS NULL GROUP BY answer_language ORDER BY answer_language`,
+      [materialId],
+    );
+    expect(decks).toEqual([
+      { answer_language: "ru", active: 3 },
+      { answer_language: null, active: 2 },
+    ]);
+  });
+
+  it("stores cloze cards next to the question/answer cards", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+    await invoke(handler, { material_id: materialId, count: 2 }, user.token);
+
+    ctx.gateway.enqueue(
+      toolReply({
+        cloze: [
+          { text: "Die Händedesinfektion dauert {{c1::30 Sekunden}}.", confidence: "high" },
+          { text: "Ein Satz ohne Lücke.", confidence: "low" },
+        ],
+        warnings: [],
+      }),
+    );
+    const { status, json } = await invoke<{ flashcards: unknown[]; warnings: string[] }>(
+      handler,
+      { material_id: materialId, card_type: "cloze", count: 2 },
+      user.token,
+    );
+
+    expect(status).toBe(200);
+    expect(json.data?.flashcards).toHaveLength(3);
+    expect(json.data?.warnings).toEqual(["Skipped a cloze card without blanks: Ein Satz ohne Lücke."]);
+
+    const cloze = await selectRows<{ question: string; answer: string }>(
+      ctx.db,
+      "SELECT question, answer FROM public.flashcards WHERE material_id = $1 AND card_type = 'cloze'",
+      [materialId],
+    );
+    expect(cloze).toEqual([
+      {
+        question: "Die Händedesinfektion dauert {{c1::30 Sekunden}}.",
+        answer: "Die Händedesinfektion dauert 30 Sekunden.",
+      },
+    ]);
+    const active = await selectRows(
+      ctx.db,
+      "SELECT id FROM public.flashcards WHERE material_id = $1 AND card_type = 'basic' AND archived_at IS NULL",
+      [materialId],
+    );
+    expect(active).toHaveLength(2);
+  });
+
+  it("records where each card's quote is in the text and leaves quotes not found without offsets", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+    ctx.gateway.enqueue(
+      toolReply({
+        flashcards: [
+          {
+            q: "Where does the left ventricle pump blood?",
+            a: "Into the aorta",
+            source: "the LEFT ventricle pumps blood\ninto the aorta",
+            confidence: "high",
+          },
+          { q: "How many chambers?", a: "Five", source: "The heart has five chambers.", confidence: "high" },
+        ],
+        warnings: [],
+      }),
+    );
+
+    await invoke(handler, { material_id: materialId, language: "en", count: 2 }, user.token);
+
+    expect(
+      await selectRows(
+        ctx.db,
+        "SELECT question, source_start, source_end FROM public.flashcards WHERE material_id = $1 ORDER BY question",
+        [materialId],
+      ),
+    ).toEqual([
+      { question: "How many chambers?", source_start: null, source_end: null },
+      { question: "Where does the left ventricle pump blood?", source_start: 29, source_end: 74 },
+    ]);
+  });
+
+  it("does not retry when credits are exhausted", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+    ctx.gateway.enqueue(statusReply(402));
+
+    const { status, json } = await invoke(handler, { material_id: materialId }, user.token);
+
+    expect(status).toBe(402);
+    expect(json.code).toBe("CREDITS_EXHAUSTED");
+    expect(ctx.gateway.requests).toHaveLength(1);
+    expect(await loadCards(materialId)).toHaveLength(0);
+  });
+
+  it("falls back to the secondary model on malformed tool arguments", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+    ctx.gateway.enqueue(malformedToolReply());
+
+    const { status } = await invoke(handler, { material_id: materialId, count: 2 }, user.token);
+
+    expect(status).toBe(200);
+    expect(ctx.gateway.requests.map((request) => request.model)).toEqual([
+      "google/gemini-3-flash-preview",
+      "google/gemini-2.5-flash",
+    ]);
+    expect(await loadCards(materialId)).toHaveLength(2);
+  });
+
+  it("writes nothing when both models return arguments that break the schema", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+    const invalid = toolReply({ flashcards: [{ q: "Missing answer", confidence: "high" }], warnings: [] });
+    ctx.gateway.enqueue(invalid, invalid);
+
+    const { status, json } = await invoke(handler, { material_id: materialId }, user.token);
+
+    expect(status).toBe(500);
+    expect(json.code).toBe("INVALID_AI_RESPONSE");
+    expect(await loadCards(materialId)).toHaveLength(0);
+  });
+});
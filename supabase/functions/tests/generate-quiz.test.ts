@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import { handler } from "../generate-quiz/handler";
+import { createMaterial, createUser, selectRows } from "./support/db";
+import { toolReply } from "./support/mockGateway";
+import { invoke, setupFunctionTests } from "./support/harness";
+
+const ctx = setupFunctionTests();
+
+interface QuestionRow {
+  question: string;
+  options: string[];
+  correct_index: number;
+  explanation: string | null;
+  source_quote: string | null;
+  source_start: number | null;
+  source_end: number | null;
+  language: string;
+  archived_at: string | null;
+}
+
+const loadQuestions = (materialId: string) =>
+  selectRows<QuestionRow>(
+    ctx.db,
+    `SELECT question, options, correct_index, explanation, source_quote, source_start, source_end, language, archived_at
+     FROM public.quiz_questions WHERE material_id = $1 ORDER BY question`,
+    [materialId],
+  );
+
+describe("generate-quiz", () => {
+  it("maps tool output onto quiz_questions columns", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+    ctx.gateway.enqueue(
+      toolReply({
+        questions: [
+          {
+            question: "How many chambers does the heart have?",
+            options: ["Two", "Three", "Four", "Five"],
+            correctIndex: 2,
+            explanation: "The lecture states four chambers",
+            source: "The heart has four chambers.",
+            confidence: "high",
+          },
+        ],
+        warnings: [],
+      }),
+    );
+
+    const { status, json } = await invoke(handler, { material_id: materialId, language: "en", count: 1 }, user.token);
+
+    expect(status).toBe(200);
+    expect(json.success).toBe(true);
+    expect(await loadQuestions(materialId)).toEqual([
+      {
+        question: "How many chambers does the heart have?",
+        options: ["Two", "Three", "Four", "Five"],
+        correct_index: 2,
+        explanation: "The lecture states four chambers",
+        source_quote: "The heart has four chambers.",
+        source_start: 0,
+        source_end: 28,
+        language: "en",
+        archived_at: null,
+      },
+    ]);
+  });
+
+  it("saves question types and case questions, skipping answers that do not fit", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+    const question = (fields: object) => ({
+      explanation: "From the lecture",
+      source: "The heart has four chambers.",
+      confidence: "high",
+      ...fields,
+    });
+    ctx.gateway.enqueue(
+      toolReply({
+        questions: [
+          question({
+            type: "multiple",
+            question: "Which are vital signs?",
+            options: ["Pulse", "Hair", "Temperature", "Mood"],
+            correctIndices: [2, 0],
+          }),
+          question({
+            type: "true_false",
+            question: "Hands are disinfected for 30 seconds.",
+            options: ["True", "False"],
+            correctIndex: 0,
+          }),
+          question({
+            type: "ordering",
+            question: "Order the steps of hand hygiene",
+            options: ["Remove jewellery", "Apply disinfectant", "Rub for 30 seconds"],
+          }),
+          question({ type: "single", question: "Broken question", options: ["A", "B"], correctIndex: 5 }),
+        ],
+        cases: [
+          {
+            vignette: "Mrs K., 82, fell at home and has a swollen hip.",
+            questions: [
+              question({ question: "What is checked first?", options: ["Pain", "Diet", "Sleep", "Hobbies"], correctIndex: 0 }),
+            ],
+          },
+        ],
+        warnings: [],
+      }),
+    );
+
+    const { json } = await invoke(handler, { material_id: materialId, language: "en", count: 5 }, user.token);
+
+    expect(json.data?.warnings).toEqual(["Skipped a question with an invalid answer: Broken question"]);
+    expect(
+      await selectRows(
+        ctx.db,
+        `SELECT question, question_type, correct_index, correct_indices, case_text
+         FROM public.quiz_questions WHERE material_id = $1 ORDER BY question`,
+        [materialId],
+      ),
+    ).toEqual([
+      {
+        question: "Hands are disinfected for 30 seconds.",
+        question_type: "true_false",
+        correct_index: 0,
+        correct_indices: null,
+        case_text: null,
+      },
+      {
+        question: "Order the steps of hand hygiene",
+        question_type: "ordering",
+        correct_index: null,
+        correct_indices: [0, 1, 2],
+        case_text: null,
+      },
+      {
+        question: "What is checked first?",
+        question_type: "single",
+        correct_index: 0,
+        correct_indices: null,
+        case_text: "Mrs K., 82, fell at home and has a swollen hip.",
+      },
+      {
+        question: "Which are vital signs?",
+        question_type: "multiple",
+        correct_index: null,
+        correct_indices: [0, 2],
+        case_text: null,
+      },
+    ]);
+  });
+
+  it("archives questions that are not generated again", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    await invoke(handler, { material_id: materialId, count: 3 }, user.token);
+    const { json } = await invoke(handler, { material_id: materialId, count: 2 }, user.token);
+
+    expect(json.data?.merge).toMatchObject({ kept: 2, added: 0, archived: 1 });
+    const questions = await loadQuestions(materialId);
+    expect(questions.filter((q) => q.archived_at === null)).toHaveLength(2);
+  });
+
+  it("archives the old questions in replace mode so their answers stay", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    await invoke(handler, { material_id: materialId, count: 2 }, user.token);
+    const [old] = await selectRows<{ id: string }>(
+      ctx.db,
+      "SELECT id FROM public.quiz_questions WHERE material_id = $1 ORDER BY question LIMIT 1",
+      [materialId],
+    );
+    const [attempt] = await selectRows<{ id: string }>(
+      ctx.db,
+      `INSERT INTO public.quiz_attempts (user_id, material_id, language, correct_count, total_count)
+       VALUES ($1, $2, 'ru', 0, 1) RETURNING id`,
+      [user.id, materialId],
+    );
+    await ctx.db.query(
+      "INSERT INTO public.quiz_attempt_answers (attempt_id, user_id, question_id, selected_index, is_correct) VALUES ($1, $2, $3, 1, false)",
+      [attempt.id, user.id, old.id],
+    );
+
+    const { json } = await invoke(handler, { material_id: materialId, count: 2, mode: "replace" }, user.token);
+
+    expect(json.data?.merge).toMatchObject({ kept: 0, added: 2, archived: 2 });
+    const questions = await loadQuestions(materialId);
+    expect(questions.filter((q) => q.archived_at === null)).toHaveLength(2);
+    expect(questions.filter((q) => q.archived_at !== null)).toHaveLength(2);
+    const answers = await selectRows(ctx.db, "SELECT 1 FROM public.quiz_attempt_answers WHERE question_id = $1", [old.id]);
+    expect(answers).toHaveLength(1);
+  });
+});
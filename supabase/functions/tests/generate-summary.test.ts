@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { handler } from "../generate-summary/handler";
+import { createMaterial, createUser, selectRows } from "./support/db";
+import { statusReply } from "./support/mockGateway";
+import { invoke, setupFunctionTests } from "./support/harness";
+import { hashSourceText } from "../_shared/hash";
+
+const ctx = setupFunctionTests();
+
+describe("generate-summary", () => {
+  it("summarizes the stored text and writes a summaries row", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id, { ocr_text: "Stored lecture text about the aorta." });
+
+    const { status, json } = await invoke(handler, { material_id: materialId, language: "en" }, user.token);
+
+    expect(status).toBe(200);
+    expect(json).toMatchObject({ success: true, code: "OK", data: { confidence: "high" } });
+
+    const rows = await selectRows<{ language: string; short_summary: string; source_hash: string }>(
+      ctx.db,
+      "SELECT language, short_summary, source_hash FROM public.summaries WHERE material_id = $1",
+      [materialId],
+    );
+    expect(rows).toEqual([
+      {
+        language: "en",
+        short_summary: "- The heart has four chambers",
+        source_hash: await hashSourceText("Stored lecture text about the aorta."),
+      },
+    ]);
+
+    // The prompt is built from the database, not from the request
+    const prompt = ctx.gateway.requests[0].messages[1].content as string;
+    expect(prompt).toContain("Stored lecture text about the aorta.");
+  });
+
+  it("stores the quoted passage of every point with its offsets in the text", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    await invoke(handler, { material_id: materialId, language: "en" }, user.token);
+
+    const rows = await selectRows<{ sources: unknown }>(
+      ctx.db,
+      "SELECT sources FROM public.summaries WHERE material_id = $1",
+      [materialId],
+    );
+    expect(rows[0].sources).toEqual([
+      { point: "The heart has four chambers", quote: "The heart has four chambers.", start: 0, end: 28 },
+    ]);
+  });
+
+  it("asks for output in the study language and rejects unknown languages", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    await invoke(handler, { material_id: materialId, language: "sr-Latn" }, user.token);
+    const systemPrompt = ctx.gateway.requests[0].messages[0].content as string;
+    expect(systemPrompt).toContain("Write all output in Serbian (Latin script).");
+
+    const { status, json } = await invoke(handler, { material_id: materialId, language: "xx" }, user.token);
+    expect(status).toBe(400);
+    expect(json).toMatchObject({ success: false, code: "BAD_REQUEST" });
+  });
+
+  it("updates the existing summary for the same language instead of adding one", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    await invoke(handler, { material_id: materialId, language: "ru" }, user.token);
+    await invoke(handler, { material_id: materialId, language: "ru" }, user.token);
+
+    const rows = await selectRows(ctx.db, "SELECT id FROM public.summaries WHERE material_id = $1", [materialId]);
+    expect(rows).toHaveLength(1);
+  });
+
+  it("records usage in the ledger", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+
+    await invoke(handler, { material_id: materialId, language: "ru" }, user.token);
+
+    const usage = await selectRows<{ function_name: string; prompt_tokens: number; material_id: string }>(
+      ctx.db,
+      "SELECT function_name, prompt_tokens, material_id FROM public.ai_usage WHERE user_id = $1",
+      [user.id],
+    );
+    expect(usage).toEqual([{ function_name: "generate-summary", prompt_tokens: 120, material_id: materialId }]);
+  });
+
+  it("rejects callers without a session and callers who do not own the material", async () => {
+    const owner = await createUser(ctx.db, "owner@example.com");
+    const other = await createUser(ctx.db, "other@example.com");
+    const materialId = await createMaterial(ctx.db, owner.id);
+
+    const anonymous = await invoke(handler, { material_id: materialId });
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.json.code).toBe("UNAUTHORIZED");
+
+    const foreign = await invoke(handler, { material_id: materialId }, other.token);
+    expect(foreign.status).toBe(403);
+    expect(foreign.json.code).toBe("FORBIDDEN");
+
+    expect(ctx.gateway.requests).toHaveLength(0);
+  });
+
+  it("surfaces RATE_LIMITED once retries and the fallback model are exhausted", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id);
+    // One retry per model, two models
+    ctx.gateway.enqueue(statusReply(429), statusReply(429), statusReply(429), statusReply(429));
+
+    const { status, json } = await invoke(handler, { material_id: materialId }, user.token);
+
+    expect(status).toBe(429);
+    expect(json).toMatchObject({ success: false, code: "RATE_LIMITED" });
+    expect(ctx.gateway.requests).toHaveLength(4);
+
+    const rows = await selectRows(ctx.db, "SELECT id FROM public.summaries WHERE material_id = $1", [materialId]);
+    expect(rows).toHaveLength(0);
+  });
+});
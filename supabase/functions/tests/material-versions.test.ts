@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { createMaterial, createUser, selectRows } from "./support/db";
+import { setupFunctionTests } from "./support/harness";
+
+const ctx = setupFunctionTests();
+
+interface VersionRow {
+  language: string;
+  title: string | null;
+  text: string;
+  is_manual: boolean;
+}
+
+async function migrate(notes: unknown) {
+  const user = await createUser(ctx.db);
+  const materialId = await createMaterial(ctx.db, user.id, {
+    notes: typeof notes === "string" ? notes : JSON.stringify(notes),
+  });
+  await ctx.db.query("SELECT public.migrate_material_notes()");
+
+  const [material] = await selectRows<{ notes: string | null; source_language: string | null }>(
+    ctx.db,
+    "SELECT notes, source_language FROM public.materials WHERE id = $1",
+    [materialId],
+  );
+  const versions = await selectRows<VersionRow>(
+    ctx.db,
+    "SELECT language, title, text, is_manual FROM public.material_versions WHERE material_id = $1 ORDER BY language",
+    [materialId],
+  );
+  return { material, versions };
+}
+
+describe("migrate_material_notes", () => {
+  it("moves the current i18n format into material_versions", async () => {
+    const { material, versions } = await migrate({
+      i18n: {
+        sourceLanguage: "de",
+        versions: {
+          de: { title: "Herz", text: "Das Herz hat vier Kammern.", isManual: true },
+          en: { text: "The heart has four chambers.", isManual: false },
+        },
+      },
+    });
+
+    expect(material).toEqual({ notes: null, source_language: "de" });
+    expect(versions).toEqual([
+      { language: "de", title: "Herz", text: "Das Herz hat vier Kammern.", is_manual: true },
+      { language: "en", title: null, text: "The heart has four chambers.", is_manual: false },
+    ]);
+  });
+
+  it("migrates the format with translated titles", async () => {
+    const { material, versions } = await migrate({
+      originalLanguage: "ru",
+      originalText: { title: "Сердце", text: "Сердце имеет четыре камеры." },
+      translations: { en: { title: "Heart", text: "The heart has four chambers." } },
+    });
+
+    expect(material.source_language).toBe("ru");
+    expect(versions).toEqual([
+      { language: "en", title: "Heart", text: "The heart has four chambers.", is_manual: false },
+      { language: "ru", title: "Сердце", text: "Сердце имеет четыре камеры.", is_manual: true },
+    ]);
+  });
+
+  it("migrates the legacy text-only format", async () => {
+    const { material, versions } = await migrate({
+      originalText: "Сердце имеет четыре камеры.",
+      sourceLanguage: "ru",
+      translations: { de: "Das Herz hat vier Kammern.", en: "" },
+    });
+
+    expect(material).toEqual({ notes: null, source_language: "ru" });
+    expect(versions).toEqual([
+      { language: "de", title: null, text: "Das Herz hat vier Kammern.", is_manual: false },
+      { language: "ru", title: null, text: "Сердце имеет четыре камеры.", is_manual: true },
+    ]);
+  });
+
+  it("keeps versions that already exist when run again", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id, {
+      notes: JSON.stringify({ originalText: "Сердце", sourceLanguage: "ru", translations: { de: "Herzkammern" } }),
+    });
+    await ctx.db.query(
+      "INSERT INTO public.material_versions (material_id, language, text, is_manual) VALUES ($1, 'de', 'Das Herz', true)",
+      [materialId],
+    );
+    await ctx.db.query("SELECT public.migrate_material_notes()");
+    await ctx.db.query("SELECT public.migrate_material_notes()");
+
+    const versions = await selectRows<VersionRow>(
+      ctx.db,
+      "SELECT language, title, text, is_manual FROM public.material_versions WHERE material_id = $1 ORDER BY language",
+      [materialId],
+    );
+    expect(versions).toEqual([
+      { language: "de", title: null, text: "Das Herz", is_manual: true },
+      { language: "ru", title: null, text: "Сердце", is_manual: true },
+    ]);
+  });
+
+  it("keeps notes that are not translation data", async () => {
+    const { material, versions } = await migrate("Ask about the exam date");
+
+    expect(material).toEqual({ notes: "Ask about the exam date", source_language: null });
+    expect(versions).toEqual([]);
+  });
+
+  it("indexes migrated versions for search", async () => {
+    const user = await createUser(ctx.db);
+    await createMaterial(ctx.db, user.id, {
+      ocr_text: "Сердце",
+      notes: JSON.stringify({ originalText: "Сердце", sourceLanguage: "ru", translations: { de: "Herzkammern" } }),
+    });
+    await ctx.db.query("SELECT public.migrate_material_notes()");
+
+    const documents = await selectRows<{ source_kind: string; language: string }>(
+      ctx.db,
+      "SELECT source_kind, language FROM public.search_documents WHERE user_id = $1 ORDER BY source_kind, language",
+      [user.id],
+    );
+    expect(documents).toEqual([
+      { source_kind: "material", language: "ru" },
+      { source_kind: "version", language: "de" },
+      { source_kind: "version", language: "ru" },
+    ]);
+  });
+});
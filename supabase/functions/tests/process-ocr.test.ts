@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { handler } from "../process-ocr/handler";
+import { createUser, selectRows } from "./support/db";
+import { invoke, setupFunctionTests } from "./support/harness";
+
+const ctx = setupFunctionTests();
+
+describe("process-ocr", () => {
+  it("returns the recognized text with the confidence line stripped", async () => {
+    const user = await createUser(ctx.db);
+
+    const { status, json } = await invoke(handler, { imageBase64: "aGVsbG8=" }, user.token);
+
+    expect(status).toBe(200);
+    expect(json.data).toEqual({ text: "The heart has four chambers.", confidence: "high" });
+
+    const request = ctx.gateway.requests[0];
+    expect(request.max_tokens).toBe(4096);
+    expect(JSON.stringify(request.messages)).toContain("data:image/jpeg;base64,aGVsbG8=");
+  });
+
+  it("refuses to call the gateway once the daily quota is used up", async () => {
+    const user = await createUser(ctx.db);
+    await ctx.db.query(
+      "INSERT INTO public.ai_quotas (user_id, daily_limit, monthly_limit) VALUES ($1, 0, 100)",
+      [user.id],
+    );
+
+    const { status, json } = await invoke(handler, { imageBase64: "aGVsbG8=" }, user.token);
+
+    expect(status).toBe(429);
+    expect(json.code).toBe("RATE_LIMITED");
+    expect(ctx.gateway.requests).toHaveLength(0);
+    expect(await selectRows(ctx.db, "SELECT id FROM public.ai_usage")).toHaveLength(0);
+  });
+});
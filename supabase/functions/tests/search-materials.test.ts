@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { createMaterial, createUser, selectRows } from "./support/db";
+import { setupFunctionTests } from "./support/harness";
+
+const ctx = setupFunctionTests();
+
+interface SearchRow {
+  id: string;
+  title: string;
+  snippet: string | null;
+  matched_source: string | null;
+  matched_language: string | null;
+  total_count: number;
+}
+
+async function search(userId: string, query: string, options: { topic?: string; limit?: number; offset?: number } = {}) {
+  await ctx.db.query("SELECT set_config('request.jwt.claim.sub', $1, false)", [userId]);
+  return selectRows<SearchRow>(
+    ctx.db,
+    "SELECT * FROM public.search_materials($1, $2, $3, $4)",
+    [query, options.topic ?? null, options.limit ?? 20, options.offset ?? 0],
+  );
+}
+
+describe("search_materials", () => {
+  it("finds words in any language version using that language's stemming", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id, {
+      title: "Лекция 3",
+      ocr_text: "Сердце состоит из четырёх камер.",
+      source_language: "ru",
+      versions: {
+        ru: { text: "Сердце состоит из четырёх камер.", isManual: true },
+        de: { text: "Das Herz besteht aus vier Kammern." },
+      },
+    });
+
+    // "Kammer" only matches "Kammern" through the German stemmer
+    const rows = await search(user.id, "Kammer");
+
+    expect(rows.map((row) => row.id)).toEqual([materialId]);
+    expect(rows[0]).toMatchObject({ matched_source: "version", matched_language: "de" });
+    expect(rows[0].snippet).toContain("<mark>Kammern</mark>");
+  });
+
+  it("stems Turkish and Serbian versions", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id, {
+      ocr_text: "The heart has four chambers.",
+      source_language: "en",
+      versions: {
+        en: { text: "The heart has four chambers.", isManual: true },
+        tr: { text: "Kalbin dört odacığı vardır. Hastaneler" },
+        "sr-Latn": { text: "Srce ima četiri komore." },
+      },
+    });
+
+    expect((await search(user.id, "hastane"))[0]).toMatchObject({ id: materialId, matched_language: "tr" });
+    expect((await search(user.id, "komora"))[0]).toMatchObject({ id: materialId, matched_language: "sr-Latn" });
+  });
+
+  it("searches summaries and active flashcards", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id, { ocr_text: "Unrelated text" });
+    await ctx.db.query(
+      "INSERT INTO public.flashcards (material_id, question, answer, confidence, due_date, language) VALUES ($1, $2, $3, 'high', CURRENT_DATE, 'en')",
+      [materialId, "Which valve separates the left atrium and ventricle?", "The mitral valve"],
+    );
+
+    expect((await search(user.id, "mitral"))[0]).toMatchObject({ id: materialId, matched_source: "flashcard" });
+
+    await ctx.db.query("UPDATE public.flashcards SET archived_at = now() WHERE material_id = $1", [materialId]);
+    expect(await search(user.id, "mitral")).toHaveLength(0);
+
+    await ctx.db.query(
+      "INSERT INTO public.summaries (material_id, short_summary, language) VALUES ($1, $2, 'en')",
+      [materialId, "- Myocarditis is inflammation of the heart muscle"],
+    );
+    expect((await search(user.id, "myocarditis"))[0]).toMatchObject({ matched_source: "summary" });
+  });
+
+  it("only returns the caller's materials", async () => {
+    const owner = await createUser(ctx.db, "owner@example.com");
+    const other = await createUser(ctx.db, "other@example.com");
+    await createMaterial(ctx.db, owner.id, { ocr_text: "Pericardium basics" });
+
+    expect(await search(other.id, "pericardium")).toHaveLength(0);
+  });
+
+  it("paginates with a total count and filters by topic", async () => {
+    const user = await createUser(ctx.db);
+    for (let i = 0; i < 3; i++) {
+      await createMaterial(ctx.db, user.id, { ocr_text: `Arrhythmia lecture ${i}`, topic: i === 0 ? "neurology" : "cardiology" });
+    }
+
+    const firstPage = await search(user.id, "arrhythmia", { limit: 2 });
+    const secondPage = await search(user.id, "arrhythmia", { limit: 2, offset: 2 });
+    expect(firstPage).toHaveLength(2);
+    expect(secondPage).toHaveLength(1);
+    expect(Number(firstPage[0].total_count)).toBe(3);
+
+    expect(await search(user.id, "arrhythmia", { topic: "neurology" })).toHaveLength(1);
+  });
+
+  it("lists the newest materials for an empty query", async () => {
+    const user = await createUser(ctx.db);
+    await createMaterial(ctx.db, user.id, { title: "First" });
+    await createMaterial(ctx.db, user.id, { title: "Second" });
+
+    const rows = await search(user.id, "  ");
+    expect(rows).toHaveLength(2);
+    expect(rows[0].snippet).toBeNull();
+  });
+});
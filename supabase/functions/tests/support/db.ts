@@ -0,0 +1,142 @@
+// Local Postgres for edge-function tests: an in-memory PGlite instance with
+// the Supabase-provided schemas stubbed out and every migration from
+// supabase/migrations applied in order.
+
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { PGlite, types } from "@electric-sql/pglite";
+
+const MIGRATIONS_DIR = path.resolve(__dirname, "../../../migrations");
+
+// The parts of auth/storage that the migrations reference. On a real project
+// these are owned by Supabase.
+const BOOTSTRAP_SQL = `
+CREATE ROLE anon NOLOGIN;
+CREATE ROLE authenticated NOLOGIN;
+CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+CREATE SCHEMA auth;
+
+CREATE TABLE auth.users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE FUNCTION auth.uid() RETURNS UUID
+LANGUAGE sql STABLE
+AS $$ SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::uuid $$;
+
+CREATE SCHEMA storage;
+
+CREATE TABLE storage.buckets (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  public BOOLEAN DEFAULT false
+);
+
+CREATE TABLE storage.objects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id TEXT REFERENCES storage.buckets(id),
+  name TEXT,
+  owner UUID
+);
+
+CREATE FUNCTION storage.foldername(name TEXT) RETURNS TEXT[]
+LANGUAGE sql IMMUTABLE
+AS $$ SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1] $$;
+`;
+
+export interface TestUser {
+  id: string;
+  token: string;
+}
+
+/**
+ * Fresh database with all migrations applied. Dates and timestamps are
+ * returned as strings, like PostgREST does.
+ */
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite({
+    parsers: {
+      [types.DATE]: (value: string) => value,
+      [types.TIMESTAMP]: (value: string) => value,
+      [types.TIMESTAMPTZ]: (value: string) => value,
+    },
+  });
+
+  await db.exec(BOOTSTRAP_SQL);
+
+  const migrations = readdirSync(MIGRATIONS_DIR).filter((file) => file.endsWith(".sql")).sort();
+  for (const file of migrations) {
+    try {
+      await db.exec(readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"));
+    } catch (error) {
+      throw new Error(`Migration ${file} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return db;
+}
+
+/**
+ * Token accepted by the fake client's auth.getUser for a user
+ */
+export function tokenForUser(userId: string): string {
+  return `test-token:${userId}`;
+}
+
+export async function createUser(db: PGlite, email = "student@example.com"): Promise<TestUser> {
+  const { rows } = await db.query<{ id: string }>(
+    "INSERT INTO auth.users (email) VALUES ($1) RETURNING id",
+    [email],
+  );
+  const id = rows[0].id;
+  return { id, token: tokenForUser(id) };
+}
+
+export interface VersionSeed {
+  title?: string;
+  text: string;
+  isManual?: boolean;
+}
+
+export interface MaterialSeed {
+  title?: string;
+  topic?: string;
+  ocr_text?: string;
+  notes?: string | null;
+  source_language?: string | null;
+  // Rows for material_versions, keyed by language
+  versions?: Record<string, VersionSeed>;
+}
+
+export async function createMaterial(db: PGlite, userId: string, seed: MaterialSeed = {}): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO public.materials (user_id, title, topic, ocr_text, notes, source_language)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+    [
+      userId,
+      seed.title ?? "Cardiology basics",
+      seed.topic ?? "cardiology",
+      seed.ocr_text ?? "The heart has four chambers. The left ventricle pumps blood into the aorta.",
+      seed.notes ?? null,
+      seed.source_language ?? null,
+    ],
+  );
+  const id = rows[0].id;
+
+  for (const [language, version] of Object.entries(seed.versions ?? {})) {
+    await db.query(
+      `INSERT INTO public.material_versions (material_id, language, title, text, is_manual)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [id, language, version.title ?? null, version.text, version.isManual ?? false],
+    );
+  }
+  return id;
+}
+
+export async function selectRows<T>(db: PGlite, sql: string, params: unknown[] = []): Promise<T[]> {
+  const { rows } = await db.query<T>(sql, params);
+  return rows;
+}
@@ -0,0 +1,81 @@
+// Shared setup for edge-function integration tests: one migrated database and
+// one mock gateway per test file, reset between tests.
+
+import { afterAll, beforeAll, beforeEach } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDatabase } from "./db";
+import { MockGateway, startMockGateway } from "./mockGateway";
+import { setTestDatabase } from "./supabaseClient";
+
+export interface FunctionTestContext {
+  db: PGlite;
+  gateway: MockGateway;
+}
+
+const TRUNCATE_SQL = `
+TRUNCATE auth.users CASCADE;
+TRUNCATE public.ai_usage, public.ai_quotas;
+`;
+
+/**
+ * Register hooks that provide a database and mock gateway to the tests in
+ * the calling file. The returned object is filled in by beforeAll.
+ */
+export function setupFunctionTests(): FunctionTestContext {
+  const context = {} as FunctionTestContext;
+
+  beforeAll(async () => {
+    context.db = await createTestDatabase();
+    context.gateway = await startMockGateway();
+    setTestDatabase(context.db);
+
+    process.env.SUPABASE_URL = "http://supabase.test";
+    process.env.SUPABASE_SERVICE_ROLE_KEY = "service-role-key";
+    process.env.LOVABLE_API_KEY = "test-api-key";
+    process.env.AI_GATEWAY_URL = context.gateway.url;
+    process.env.AI_GATEWAY_MAX_RETRIES = "1";
+    process.env.AI_GATEWAY_RETRY_BASE_MS = "1";
+  }, 60_000);
+
+  beforeEach(async () => {
+    context.gateway.reset();
+    await context.db.exec(TRUNCATE_SQL);
+  });
+
+  afterAll(async () => {
+    setTestDatabase(null);
+    await context.gateway?.close();
+    await context.db?.close();
+  });
+
+  return context;
+}
+
+export interface InvokeEnvelope<T> {
+  success: boolean;
+  code: string;
+  message: string | null;
+  data?: T;
+}
+
+/**
+ * POST a JSON body to a function handler the way supabase.functions.invoke does
+ */
+export async function invoke<T = Record<string, unknown>>(
+  handler: (req: Request) => Promise<Response>,
+  body: unknown,
+  token?: string,
+): Promise<{ status: number; json: InvokeEnvelope<T> }> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const response = await handler(
+    new Request("http://localhost/functions/v1/test", {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+    }),
+  );
+
+  return { status: response.status, json: await response.json() };
+}
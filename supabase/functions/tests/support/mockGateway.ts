@@ -0,0 +1,159 @@
+// Local stand-in for the AI gateway's chat-completions endpoint.
+//
+// Functions reach it through AI_GATEWAY_URL. Every request is recorded.
+// Queued replies are served first (to inject 429/402/5xx or malformed
+// payloads); otherwise a deterministic reply is built from the request.
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface ChatRequest {
+  model: string;
+  messages: { role: string; content: unknown }[];
+  tools?: { type: string; function: { name: string } }[];
+  tool_choice?: unknown;
+  max_tokens?: number;
+}
+
+export interface MockReply {
+  status: number;
+  body: string;
+}
+
+export interface MockGateway {
+  /** Base URL to put into AI_GATEWAY_URL */
+  url: string;
+  requests: ChatRequest[];
+  enqueue: (...replies: MockReply[]) => void;
+  reset: () => void;
+  close: () => Promise<void>;
+}
+
+const USAGE = { prompt_tokens: 120, completion_tokens: 80 };
+
+export function toolReply(args: unknown): MockReply {
+  return completion({ tool_calls: [{ type: "function", function: { name: "tool", arguments: JSON.stringify(args) } }] });
+}
+
+export function chatReply(content: string): MockReply {
+  return completion({ role: "assistant", content });
+}
+
+export function statusReply(status: number, message = "mock gateway error"): MockReply {
+  return { status, body: JSON.stringify({ error: { message } }) };
+}
+
+/** Tool call whose arguments are not valid JSON */
+export function malformedToolReply(): MockReply {
+  return completion({ tool_calls: [{ type: "function", function: { name: "tool", arguments: "{\"flashcards\": [" } }] });
+}
+
+function completion(message: Record<string, unknown>): MockReply {
+  return {
+    status: 200,
+    body: JSON.stringify({ choices: [{ message: { role: "assistant", ...message } }], usage: USAGE }),
+  };
+}
+
+function lastUserText(request: ChatRequest): string {
+  const message = [...request.messages].reverse().find((m) => m.role === "user");
+  return typeof message?.content === "string" ? message.content : "";
+}
+
+function requestedCount(request: ChatRequest, fallback: number): number {
+  const match = lastUserText(request).match(/Create (\d+)/);
+  return match ? Number(match[1]) : fallback;
+}
+
+/**
+ * Deterministic fixtures, keyed by the forced tool name
+ */
+export function defaultReply(request: ChatRequest): MockReply {
+  const tool = request.tools?.[0]?.function.name;
+
+  switch (tool) {
+    case "generate_summary":
+      return toolReply({
+        short: "- The heart has four chambers",
+        medium: "1. Anatomy\n   - Four chambers",
+        long: "The heart has four chambers. The left ventricle pumps blood into the aorta.",
+        sources: [{ point: "The heart has four chambers", quote: "The heart has four chambers." }],
+        warnings: [],
+        confidence: "high",
+      });
+    case "generate_flashcards":
+      return toolReply({
+        flashcards: Array.from({ length: requestedCount(request, 3) }, (_, i) => ({
+          q: `Mock question ${i + 1} about the heart?`,
+          a: `Mock answer ${i + 1}`,
+          source: "The heart has four chambers.",
+          confidence: "high",
+        })),
+        warnings: [],
+      });
+    case "generate_quiz":
+      return toolReply({
+        questions: Array.from({ length: requestedCount(request, 3) }, (_, i) => ({
+          question: `Mock quiz question ${i + 1} about the heart?`,
+          options: ["A", "B", "C", "D"],
+          correctIndex: i % 4,
+          explanation: "Stated in the lecture",
+          source: "The heart has four chambers.",
+          confidence: "medium",
+        })),
+        warnings: [],
+      });
+    case "transform_text":
+      return toolReply({
+        detected_language: "en",
+        texts: { de: "[de] text", en: "[en] text", ru: "[ru] text", tr: "[tr] text", "sr-Latn": "[sr-Latn] text" },
+        warnings: [],
+      });
+    case undefined: {
+      const user = request.messages.find((m) => m.role === "user");
+      // Image input means OCR, plain text means translation
+      if (Array.isArray(user?.content)) {
+        return chatReply("The heart has four chambers.\nCONFIDENCE: high");
+      }
+      return chatReply(`[translated] ${lastUserText(request)}`);
+    }
+    default:
+      return statusReply(400, `No fixture for tool ${tool}`);
+  }
+}
+
+export async function startMockGateway(): Promise<MockGateway> {
+  const requests: ChatRequest[] = [];
+  let queue: MockReply[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      if (req.method !== "POST" || req.url !== "/v1/chat/completions") {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const request = JSON.parse(raw) as ChatRequest;
+      requests.push(request);
+
+      const reply = queue.shift() ?? defaultReply(request);
+      res.writeHead(reply.status, { "Content-Type": "application/json" }).end(reply.body);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    enqueue: (...replies) => queue.push(...replies),
+    reset: () => {
+      requests.length = 0;
+      queue = [];
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
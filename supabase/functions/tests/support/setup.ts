@@ -0,0 +1,11 @@
+// Edge functions read configuration through Deno.env; back it with process.env
+// so tests can set variables per suite.
+
+Object.defineProperty(globalThis, "Deno", {
+  configurable: true,
+  value: {
+    env: {
+      get: (name: string) => process.env[name],
+    },
+  },
+});
@@ -0,0 +1,274 @@
+// Stand-in for "https://esm.sh/@supabase/supabase-js@2" in edge-function
+// tests (wired up as an alias in vitest.config.ts).
+//
+// createClient returns a client that runs queries directly against the test
+// PGlite database instead of going through PostgREST. It implements the
+// subset of the query builder the functions use and, like the service role
+// key, bypasses RLS.
+
+import type { PGlite } from "@electric-sql/pglite";
+
+export type { SupabaseClient, User } from "@supabase/supabase-js";
+
+let database: PGlite | null = null;
+
+/**
+ * Point every client created by the functions at this database
+ */
+export function setTestDatabase(db: PGlite | null): void {
+  database = db;
+}
+
+function requireDatabase(): PGlite {
+  if (!database) throw new Error("setTestDatabase() was not called");
+  return database;
+}
+
+interface QueryError {
+  message: string;
+  code?: string;
+}
+
+interface QueryResult<T> {
+  data: T;
+  error: QueryError | null;
+}
+
+type Operation = "select" | "insert" | "upsert" | "update" | "delete";
+type Row = Record<string, unknown>;
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+
+function quoteIdent(name: string): string {
+  if (!IDENTIFIER.test(name)) throw new Error(`Unsupported identifier: ${name}`);
+  return `"${name}"`;
+}
+
+function columnList(columns: string): string {
+  const trimmed = columns.trim();
+  if (trimmed === "" || trimmed === "*") return "*";
+  return trimmed.split(",").map((column) => quoteIdent(column.trim())).join(", ");
+}
+
+function toParam(value: unknown): unknown {
+  if (value !== null && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+class QueryBuilder<T = Row[]> implements PromiseLike<QueryResult<T>> {
+  private operation: Operation = "select";
+  private columns = "*";
+  private returning: string | null = null;
+  private values: Row[] = [];
+  private onConflict: string | null = null;
+  private filters: { sql: string; params: unknown[] }[] = [];
+  private orderBy: string[] = [];
+  private limitCount: number | null = null;
+  private expect: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(private readonly table: string) {}
+
+  select(columns = "*"): this {
+    if (this.operation === "select") {
+      this.columns = columns;
+    } else {
+      this.returning = columns;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.operation = "upsert";
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = options.onConflict ?? "id";
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = "update";
+    this.values = [values];
+    return this;
+  }
+
+  delete(): this {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.addFilter(`${quoteIdent(column)} = $?`, [value]);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.addFilter(`${quoteIdent(column)} <> $?`, [value]);
+  }
+
+  is(column: string, value: null | boolean): this {
+    const literal = value === null ? "NULL" : value ? "TRUE" : "FALSE";
+    return this.addFilter(`${quoteIdent(column)} IS ${literal}`, []);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.addFilter(`${quoteIdent(column)} = ANY($?)`, [values]);
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orderBy.push(`${quoteIdent(column)} ${options.ascending === false ? "DESC" : "ASC"}`);
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  single(): PromiseLike<QueryResult<Row>> {
+    this.expect = "single";
+    return this as unknown as PromiseLike<QueryResult<Row>>;
+  }
+
+  maybeSingle(): PromiseLike<QueryResult<Row | null>> {
+    this.expect = "maybeSingle";
+    return this as unknown as PromiseLike<QueryResult<Row | null>>;
+  }
+
+  then<TResult1 = QueryResult<T>, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult<T>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private addFilter(sql: string, params: unknown[]): this {
+    this.filters.push({ sql, params });
+    return this;
+  }
+
+  private async execute(): Promise<QueryResult<T>> {
+    try {
+      const rows = await this.run();
+      return { data: this.shape(rows), error: null };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { data: null as T, error: { message, code: (error as { code?: string }).code } };
+    }
+  }
+
+  private async run(): Promise<Row[]> {
+    const db = requireDatabase();
+    const params: unknown[] = [];
+    const bind = (value: unknown) => {
+      params.push(toParam(value));
+      return `$${params.length}`;
+    };
+
+    const table = `public.${quoteIdent(this.table)}`;
+    // Placeholders are numbered in bind order, so build WHERE only once
+    // anything that precedes it (UPDATE ... SET) has been bound
+    const where = () =>
+      this.filters.length
+        ? ` WHERE ${this.filters
+            .map((filter) => {
+              let index = 0;
+              return filter.sql.replace(/\$\?/g, () => bind(filter.params[index++]));
+            })
+            .join(" AND ")}`
+        : "";
+    const returning = this.returning !== null ? ` RETURNING ${columnList(this.returning)}` : "";
+
+    let sql: string;
+    switch (this.operation) {
+      case "select": {
+        const order = this.orderBy.length ? ` ORDER BY ${this.orderBy.join(", ")}` : "";
+        const limit = this.limitCount !== null ? ` LIMIT ${this.limitCount}` : "";
+        sql = `SELECT ${columnList(this.columns)} FROM ${table}${where()}${order}${limit}`;
+        break;
+      }
+      case "insert":
+      case "upsert": {
+        if (this.values.length === 0) return [];
+        const columns = [...new Set(this.values.flatMap((row) => Object.keys(row)))];
+        const tuples = this.values.map(
+          (row) => `(${columns.map((column) => (column in row ? bind(row[column]) : "DEFAULT")).join(", ")})`,
+        );
+        let conflict = "";
+        if (this.operation === "upsert") {
+          const target = this.onConflict!.split(",").map((column) => quoteIdent(column.trim()));
+          const assignments = columns.map((column) => `${quoteIdent(column)} = EXCLUDED.${quoteIdent(column)}`);
+          conflict = ` ON CONFLICT (${target.join(", ")}) DO UPDATE SET ${assignments.join(", ")}`;
+        }
+        sql = `INSERT INTO ${table} (${columns.map(quoteIdent).join(", ")}) VALUES ${tuples.join(", ")}${conflict}${returning}`;
+        break;
+      }
+      case "update": {
+        const assignments = Object.entries(this.values[0]).map(
+          ([column, value]) => `${quoteIdent(column)} = ${bind(value)}`,
+        );
+        sql = `UPDATE ${table} SET ${assignments.join(", ")}${where()}${returning}`;
+        break;
+      }
+      case "delete":
+        sql = `DELETE FROM ${table}${where()}${returning}`;
+        break;
+    }
+
+    const { rows } = await db.query<Row>(sql, params);
+    return rows;
+  }
+
+  private shape(rows: Row[]): T {
+    if (this.expect === "many") {
+      return (this.operation === "select" || this.returning !== null ? rows : null) as T;
+    }
+    if (rows.length > 1 || (this.expect === "single" && rows.length === 0)) {
+      throw new Error(`Expected a single row, got ${rows.length}`);
+    }
+    return (rows[0] ?? null) as T;
+  }
+}
+
+export function createClient(_url?: string, _key?: string) {
+  return {
+    from(table: string) {
+      return new QueryBuilder(table);
+    },
+
+    async rpc(fn: string, args: Record<string, unknown> = {}): Promise<QueryResult<Row[] | null>> {
+      try {
+        const names = Object.keys(args);
+        const named = names.map((name, index) => `${quoteIdent(name)} => $${index + 1}`).join(", ");
+        const { rows } = await requireDatabase().query<Row>(
+          `SELECT * FROM public.${quoteIdent(fn)}(${named})`,
+          names.map((name) => toParam(args[name])),
+        );
+        return { data: rows, error: null };
+      } catch (error) {
+        return { data: null, error: { message: error instanceof Error ? error.message : String(error) } };
+      }
+    },
+
+    auth: {
+      async getUser(token: string) {
+        const userId = token.startsWith("test-token:") ? token.slice("test-token:".length) : null;
+        if (userId) {
+          const { rows } = await requireDatabase().query<{ id: string; email: string }>(
+            "SELECT id, email FROM auth.users WHERE id::text = $1",
+            [userId],
+          );
+          if (rows[0]) {
+            return { data: { user: { id: rows[0].id, email: rows[0].email } }, error: null };
+          }
+        }
+        return { data: { user: null }, error: { message: "Invalid JWT" } };
+      },
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { handler } from "../transform-text/handler";
+import { createUser } from "./support/db";
+import { toolReply } from "./support/mockGateway";
+import { invoke, setupFunctionTests } from "./support/harness";
+
+const ctx = setupFunctionTests();
+
+describe("transform-text", () => {
+  it("returns a text for every target language", async () => {
+    const user = await createUser(ctx.db);
+
+    const { status, json } = await invoke<{ texts: Record<string, string> }>(
+      handler,
+      { ocr_text: "The heart has four chambers." },
+      user.token,
+    );
+
+    expect(status).toBe(200);
+    expect(Object.keys(json.data?.texts ?? {}).sort()).toEqual(["de", "en", "ru", "sr-Latn", "tr"]);
+  });
+
+  it("sends the source text to the model", async () => {
+    const user = await createUser(ctx.db);
+
+    await invoke(handler, { ocr_text: "Das Herz hat vier Kammern." }, user.token);
+
+    const prompt = ctx.gateway.requests[0].messages[1].content as string;
+    expect(prompt).toContain("Das Herz hat vier Kammern.");
+  });
+
+  it("rejects output that is missing a language", async () => {
+    const user = await createUser(ctx.db);
+    const incomplete = toolReply({
+      detected_language: "en",
+      texts: { de: "de", en: "en", ru: "ru", tr: "tr" },
+      warnings: [],
+    });
+    ctx.gateway.enqueue(incomplete, incomplete);
+
+    const { json } = await invoke(handler, { ocr_text: "The heart has four chambers." }, user.token);
+
+    expect(json).toMatchObject({ success: false, code: "INVALID_AI_RESPONSE" });
+  });
+});
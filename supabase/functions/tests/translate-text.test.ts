@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { handler } from "../translate-text/handler";
+import { createMaterial, createUser, selectRows } from "./support/db";
+import { invoke, setupFunctionTests } from "./support/harness";
+import { hashSourceText } from "../_shared/hash";
+
+const ctx = setupFunctionTests();
+
+describe("translate-text", () => {
+  it("translates the source version and stores it as a new version", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id, {
+      source_language: "ru",
+      versions: { ru: { text: "Сердце имеет четыре камеры.", isManual: true } },
+    });
+
+    const { status, json } = await invoke(handler, { materialId, targetLanguage: "de" }, user.token);
+
+    expect(status).toBe(200);
+    const sourceHash = await hashSourceText("Сердце имеет четыре камеры.");
+    expect(json.data).toEqual({
+      translatedText: "[translated] Сердце имеет четыре камеры.",
+      isManual: false,
+      sourceHash,
+    });
+
+    const versions = await selectRows<{ language: string; text: string; is_manual: boolean; source_hash: string | null }>(
+      ctx.db,
+      "SELECT language, text, is_manual, source_hash FROM public.material_versions WHERE material_id = $1 ORDER BY language",
+      [materialId],
+    );
+    expect(versions).toEqual([
+      { language: "de", text: "[translated] Сердце имеет четыре камеры.", is_manual: false, source_hash: sourceHash },
+      { language: "ru", text: "Сердце имеет четыре камеры.", is_manual: true, source_hash: null },
+    ]);
+  });
+
+  it("never overwrites a manual version", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id, {
+      source_language: "ru",
+      versions: {
+        ru: { text: "Сердце", isManual: true },
+        de: { text: "Mein eigener Text", isManual: true },
+      },
+    });
+
+    const { json } = await invoke(handler, { materialId, targetLanguage: "de" }, user.token);
+
+    expect(json.data).toMatchObject({ translatedText: "Mein eigener Text", isManual: true });
+    expect(ctx.gateway.requests).toHaveLength(0);
+  });
+
+  it("replaces an earlier automatic translation", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id, {
+      source_language: "ru",
+      versions: {
+        ru: { text: "Сердце", isManual: true },
+        de: { text: "Alte Übersetzung" },
+      },
+    });
+
+    await invoke(handler, { materialId, targetLanguage: "de" }, user.token);
+
+    const versions = await selectRows<{ text: string }>(
+      ctx.db,
+      "SELECT text FROM public.material_versions WHERE material_id = $1 AND language = 'de'",
+      [materialId],
+    );
+    expect(versions).toEqual([{ text: "[translated] Сердце" }]);
+  });
+
+  it("replaces a manual version only when asked to", async () => {
+    const user = await createUser(ctx.db);
+    const materialId = await createMaterial(ctx.db, user.id, {
+      source_language: "ru",
+      versions: {
+        ru: { text: "Сердце", isManual: true },
+        de: { text: "Mein eigener Text", isManual: true },
+      },
+    });
+
+    const { json } = await invoke(handler, { materialId, targetLanguage: "de", overwriteManual: true }, user.token);
+
+    expect(json.data).toMatchObject({ translatedText: "[translated] Сердце", isManual: false });
+    const versions = await selectRows<{ text: string; is_manual: boolean }>(
+      ctx.db,
+      "SELECT text, is_manual FROM public.material_versions WHERE material_id = $1 AND language = 'de'",
+      [materialId],
+    );
+    expect(versions).toEqual([{ text: "[translated] Сердце", is_manual: false }]);
+  });
+
+  it("passes the user's glossary terms found in the text to the model", async () => {
+    const user = await createUser(ctx.db);
+    const other = await createUser(ctx.db, "other@example.com");
+    const materialId = await createMaterial(ctx.db, user.id, {
+      source_language: "de",
+      versions: { de: { text: "Der Patient hat einen Dekubitus am Steiß.", isManual: true } },
+    });
+    await ctx.db.query(
+      `INSERT INTO public.glossary_terms (user_id, term, variants, definition) VALUES
+        ($1, 'Dekubitus', '{"de": "Dekubitus", "ru": "пролежень"}', 'Druckgeschwür'),
+        ($1, 'Sturzprophylaxe', '{"ru": "профилактика падений"}', NULL),
+        ($2, 'Patient', '{"ru": "больной"}', NULL)`,
+      [user.id, other.id],
+    );
+
+    await invoke(handler, { materialId, targetLanguage: "ru" }, user.token);
+
+    const systemPrompt = ctx.gateway.requests[0].messages[0].content;
+    expect(systemPrompt).toContain('- Dekubitus = German: "Dekubitus", Russian: "пролежень" (Druckgeschwür)');
+    expect(systemPrompt).not.toContain("Sturzprophylaxe");
+    expect(systemPrompt).not.toContain("больной");
+  });
+});
@@ -0,0 +1,122 @@
+import { corsHeaders, failResponse, okResponse } from "../_shared/http.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { checkQuota, recordUsage } from "../_shared/usage.ts";
+import { callTool, ToolDefinition } from "../_shared/gateway.ts";
+import { glossaryPrompt, loadGlossary } from "../_shared/glossary.ts";
+import { LANGUAGES, SUPPORTED_LANGUAGES, SupportedLanguage } from "../_shared/languages.ts";
+
+interface TransformResult {
+  detected_language: string;
+  texts: Record<SupportedLanguage, string>;
+  warnings: string[];
+}
+
+const MODEL = "google/gemini-3-flash-preview";
+
+const TRANSFORM_TOOL: ToolDefinition = {
+  name: "transform_text",
+  description:
+    "Detect language and transform medical text into multiple target languages.",
+  parameters: {
+    type: "object",
+    properties: {
+      detected_language: {
+        type: "string",
+        description:
+          `Detected language code of the source text (${SUPPORTED_LANGUAGES.join("/")}).`,
+      },
+      texts: {
+        type: "object",
+        properties: Object.fromEntries(SUPPORTED_LANGUAGES.map((code) => [code, { type: "string" }])),
+        required: SUPPORTED_LANGUAGES,
+        additionalProperties: false,
+      },
+      warnings: {
+        type: "array",
+        items: { type: "string" },
+        description: "Any issues or unclear content warnings.",
+      },
+    },
+    required: ["detected_language", "texts", "warnings"],
+    additionalProperties: false,
+  },
+};
+
+export async function handler(req: Request): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (!auth.ok) return auth.response;
+
+    const body = await req.json().catch(() => ({}));
+    const ocr_text = body?.ocr_text;
+
+    if (!ocr_text || typeof ocr_text !== "string") {
+      return failResponse("BAD_REQUEST", "ocr_text is required", 400);
+    }
+
+    const quota = await checkQuota(auth.supabase, auth.user.id);
+    if (!quota.ok) return quota.response;
+
+    const glossary = await loadGlossary(auth.supabase, auth.user.id, ocr_text);
+    const glossarySection = glossaryPrompt(glossary, SUPPORTED_LANGUAGES);
+
+    const systemPrompt = `
+You are a medical language assistant.
+
+Your tasks:
+1) Detect the language of the input text.
+2) Transform the SAME medical content into multiple target languages.
+
+CRITICAL RULES:
+- Preserve medical meaning exactly.
+- Do NOT add new facts.
+- Do NOT remove important information.
+- Do NOT invent or assume anything.
+- Use correct medical terminology for each language.
+- Do NOT mix languages.
+- If the source text is unclear, keep the uncertainty in all languages.
+
+Target languages:
+${LANGUAGES.map((language) => `- ${language.code} (${language.name})`).join("\n")}
+
+Serbian MUST be written in Latin script (sr-Latn).
+Return ALL languages even if the source is already in one of them.
+
+${glossarySection}
+`.trim();
+
+    const userPrompt = `
+SOURCE TEXT (from OCR):
+${ocr_text}
+`.trim();
+
+    // The schema already guarantees every target language is present
+    const result = await callTool<TransformResult>(
+      [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      TRANSFORM_TOOL,
+      { model: MODEL },
+    );
+    if (!result.ok) return result.response;
+
+    await recordUsage(auth.supabase, {
+      userId: auth.user.id,
+      functionName: "transform-text",
+      model: result.model,
+      inputChars: systemPrompt.length + userPrompt.length,
+      outputChars: result.outputChars,
+      usage: result.usage,
+    });
+
+    return okResponse(result.data);
+  } catch (error) {
+    console.error("transform-text error:", error);
+    return failResponse("INTERNAL_ERROR", error instanceof Error ? error.message : "Unknown error", 500);
+  }
+}
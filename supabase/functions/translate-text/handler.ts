@@ -0,0 +1,211 @@
+import { corsHeaders, failResponse, okResponse } from "../_shared/http.ts";
+import { authenticate, authorizeMaterial } from "../_shared/auth.ts";
+import { SupportedLanguage } from "../_shared/i18n.ts";
+import { isSupportedLanguage, languageName } from "../_shared/languages.ts";
+import { checkQuota, recordUsage } from "../_shared/usage.ts";
+import { callChat } from "../_shared/gateway.ts";
+import { hashSourceText } from "../_shared/hash.ts";
+import { glossaryPrompt, loadGlossary } from "../_shared/glossary.ts";
+
+const MODEL = "google/gemini-3-flash-preview";
+
+export async function handler(req: Request): Promise<Response> {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { materialId, targetLanguage, text, sourceLanguage, includeTitle, overwriteManual } = await req.json();
+
+    // Support both new (materialId) and legacy (text+sourceLanguage) calls
+    const isLegacyCall = !materialId && text && sourceLanguage;
+
+    if (!isLegacyCall && !materialId) {
+      console.error("Missing materialId");
+      return failResponse("BAD_REQUEST", "Missing required field: materialId", 400);
+    }
+
+    if (!targetLanguage) {
+      console.error("Missing targetLanguage");
+      return failResponse("BAD_REQUEST", "Missing required field: targetLanguage", 400);
+    }
+
+    if (!isSupportedLanguage(targetLanguage)) {
+      console.error("Unsupported targetLanguage:", targetLanguage);
+      return failResponse("BAD_REQUEST", `Unsupported language: ${targetLanguage}`, 400);
+    }
+
+    // Resolve the caller; material-bound calls must own the material
+    const auth = isLegacyCall ? await authenticate(req) : await authorizeMaterial(req, materialId);
+    if (!auth.ok) return auth.response;
+    const { supabase } = auth;
+    // Only set for material-bound calls
+    const material = "material" in auth ? auth.material : null;
+
+    let actualSourceLanguage: SupportedLanguage;
+    let textToTranslate: string;
+    let titleToTranslate: string | undefined;
+    const shouldTranslateTitle = includeTitle === true;
+
+    if (isLegacyCall) {
+      // Legacy call - use provided text and source
+      textToTranslate = text;
+      actualSourceLanguage = sourceLanguage;
+
+      // Same language - return as-is
+      if (sourceLanguage === targetLanguage) {
+        return okResponse({ translatedText: text, isManual: false });
+      }
+    } else {
+      // New flow - use the stored material's language versions
+      const parsed = material!.i18n;
+
+      if (!parsed) {
+        console.error("No language versions for material");
+        return failResponse("BAD_REQUEST", "No translation data available", 400);
+      }
+
+      actualSourceLanguage = parsed.sourceLanguage;
+
+      // Check if target version exists and is manual - only overwrite when the user confirmed it
+      const existingVersion = parsed.versions[targetLanguage];
+      if (existingVersion?.isManual && overwriteManual !== true) {
+        console.log("Version is manual, returning existing text");
+        return okResponse({
+          translatedText: existingVersion.text,
+          translatedTitle: existingVersion.title,
+          isManual: true,
+        });
+      }
+
+      // Get source text to translate from
+      const sourceVersion = parsed.versions[actualSourceLanguage];
+      const sourceText = sourceVersion?.text || material!.ocr_text;
+      if (!sourceText) {
+        return failResponse("BAD_REQUEST", "Source text not available", 400);
+      }
+
+      textToTranslate = sourceText;
+
+      // Get title if we should translate it
+      if (shouldTranslateTitle) {
+        titleToTranslate = sourceVersion?.title || material!.title || undefined;
+      }
+
+      // Same language check
+      if (actualSourceLanguage === targetLanguage) {
+        return okResponse({
+          translatedText: textToTranslate,
+          translatedTitle: titleToTranslate,
+          isManual: false,
+        });
+      }
+    }
+
+    console.log(
+      `Translating from ${actualSourceLanguage} to ${targetLanguage}, text length: ${textToTranslate.length}, includeTitle: ${shouldTranslateTitle}`,
+    );
+
+    const sourceLangName = languageName(actualSourceLanguage);
+    const targetLangName = languageName(targetLanguage);
+
+    // Prepare content for translation
+    let contentToTranslate = textToTranslate;
+    if (shouldTranslateTitle && titleToTranslate) {
+      contentToTranslate = `TITLE: ${titleToTranslate}\n\nCONTENT:\n${textToTranslate}`;
+    }
+
+    const quota = await checkQuota(supabase, auth.user.id);
+    if (!quota.ok) return quota.response;
+
+    const glossary = await loadGlossary(supabase, auth.user.id, contentToTranslate);
+    const glossarySection = glossaryPrompt(glossary, [actualSourceLanguage, targetLanguage]);
+
+    const systemPrompt = `You are a professional medical translator for nursing students.
+Translate the text from ${sourceLangName} to ${targetLangName}.
+
+RULES:
+1. Preserve medical meaning and terminology exactly
+2. Keep the original structure: headings, bullet points, numbering, line breaks
+3. Do NOT add, remove, or explain anything
+4. Keep [unclear] and [needs clarification] markers as they are
+5. Return ONLY the translation${shouldTranslateTitle && titleToTranslate ? "\n6. Keep the TITLE: and CONTENT: labels in English and translate what follows them" : ""}${glossarySection ? `\n\n${glossarySection}` : ""}`;
+
+    const result = await callChat(
+      [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: contentToTranslate },
+      ],
+      { model: MODEL },
+    );
+    if (!result.ok) return result.response;
+
+    const rawResult = result.data;
+
+    await recordUsage(supabase, {
+      userId: auth.user.id,
+      functionName: "translate-text",
+      model: result.model,
+      materialId: material?.id ?? null,
+      inputChars: systemPrompt.length + contentToTranslate.length,
+      outputChars: result.outputChars,
+      usage: result.usage,
+    });
+
+    let translatedText: string;
+    let translatedTitle: string | undefined;
+
+    // Parse the result based on whether we requested title translation
+    if (shouldTranslateTitle && titleToTranslate) {
+      const titleMatch = rawResult.match(/TITLE:\s*(.+?)(?:\n\n|$)/s);
+      const contentMatch = rawResult.match(/CONTENT:\s*(.+)/s);
+
+      translatedTitle = titleMatch?.[1]?.trim();
+      translatedText = contentMatch?.[1]?.trim() || rawResult.trim();
+    } else {
+      translatedText = rawResult.trim();
+    }
+
+    console.log(
+      `Translation completed, text length: ${translatedText.length}${translatedTitle ? `, title: "${translatedTitle}"` : ""}`,
+    );
+
+    const sourceHash = await hashSourceText(textToTranslate);
+
+    // For new flow, save translation to database
+    if (!isLegacyCall && materialId) {
+      const { error: updateError } = await supabase
+        .from("material_versions")
+        .upsert(
+          {
+            material_id: materialId,
+            language: targetLanguage,
+            title: translatedTitle ?? null,
+            text: translatedText,
+            is_manual: false,
+            source_hash: sourceHash,
+          },
+          { onConflict: "material_id,language" },
+        );
+
+      if (updateError) {
+        console.error("Failed to save translation:", updateError);
+        // Still return the translation even if save failed
+      } else {
+        console.log("Translation saved to database");
+      }
+    }
+
+    return okResponse({
+      translatedText,
+      translatedTitle,
+      isManual: false,
+      sourceHash,
+    });
+  } catch (error) {
+    console.error("Translation error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return failResponse("INTERNAL_ERROR", errorMessage, 500);
+  }
+}
@@ -0,0 +1,29 @@
+-- SM-2 scheduling columns for flashcards
+ALTER TABLE public.flashcards
+ADD COLUMN IF NOT EXISTS ease_factor REAL NOT NULL DEFAULT 2.5,
+ADD COLUMN IF NOT EXISTS interval_days INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS lapses INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMPTZ;
+
+-- Stage is now the count of consecutive successful reviews - no upper bound
+ALTER TABLE public.flashcards
+DROP CONSTRAINT IF EXISTS flashcards_stage_check;
+
+ALTER TABLE public.flashcards
+ADD CONSTRAINT flashcards_stage_check CHECK (stage >= 0);
+
+ALTER TABLE public.flashcards
+ADD CONSTRAINT flashcards_ease_factor_check CHECK (ease_factor >= 1.3);
+
+-- Carry over progress from the old 4-stage Leitner intervals [1, 2, 4, 7]
+UPDATE public.flashcards
+SET interval_days = CASE stage
+  WHEN 1 THEN 2
+  WHEN 2 THEN 4
+  WHEN 3 THEN 7
+  ELSE 0
+END
+WHERE stage > 0;
+
+-- Index for due card lookups
+CREATE INDEX IF NOT EXISTS idx_flashcards_due_date ON public.flashcards(language, due_date);
@@ -0,0 +1,16 @@
+-- Archive instead of delete when flashcards / quiz questions are regenerated,
+-- so scheduling progress and attempt history are kept
+ALTER TABLE public.flashcards
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+ALTER TABLE public.quiz_questions
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- Active items are looked up far more often than archived ones
+CREATE INDEX IF NOT EXISTS idx_flashcards_active
+  ON public.flashcards(material_id, language)
+  WHERE archived_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_active
+  ON public.quiz_questions(material_id, language)
+  WHERE archived_at IS NULL;
@@ -0,0 +1,38 @@
+-- Per-answer review log for retention analytics
+CREATE TABLE public.review_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  flashcard_id UUID REFERENCES public.flashcards(id) ON DELETE CASCADE NOT NULL,
+  grade TEXT NOT NULL CHECK (grade IN ('again', 'hard', 'good', 'easy')),
+  time_to_answer_ms INTEGER CHECK (time_to_answer_ms >= 0),
+  previous_interval INTEGER NOT NULL DEFAULT 0,
+  new_interval INTEGER NOT NULL,
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on review_logs
+ALTER TABLE public.review_logs ENABLE ROW LEVEL SECURITY;
+
+-- Review logs policies (logs are append-only: no UPDATE policy)
+CREATE POLICY "Users can view own review logs"
+  ON public.review_logs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own review logs"
+  ON public.review_logs FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.flashcards
+      JOIN public.materials ON materials.id = flashcards.material_id
+      WHERE flashcards.id = review_logs.flashcard_id
+      AND materials.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own review logs"
+  ON public.review_logs FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_review_logs_user_reviewed_at ON public.review_logs(user_id, reviewed_at);
+CREATE INDEX IF NOT EXISTS idx_review_logs_flashcard ON public.review_logs(flashcard_id);
@@ -0,0 +1,77 @@
+-- AI usage ledger: one row per successful AI gateway call made by an edge function
+CREATE TABLE public.ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  function_name TEXT NOT NULL,
+  model TEXT NOT NULL,
+  material_id UUID REFERENCES public.materials(id) ON DELETE SET NULL,
+  input_chars INTEGER NOT NULL DEFAULT 0,
+  output_chars INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Per-user limit overrides; users without a row get the defaults in get_ai_quota
+CREATE TABLE public.ai_quotas (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  daily_limit INTEGER NOT NULL CHECK (daily_limit >= 0),
+  monthly_limit INTEGER NOT NULL CHECK (monthly_limit >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_quotas ENABLE ROW LEVEL SECURITY;
+
+-- Users can only read their own usage and limits; writes go through the service role
+CREATE POLICY "Users can view own AI usage"
+  ON public.ai_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own AI quota"
+  ON public.ai_quotas FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created_at ON public.ai_usage(user_id, created_at);
+
+CREATE TRIGGER update_ai_quotas_updated_at
+  BEFORE UPDATE ON public.ai_quotas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Current limits and usage (UTC day / month) for a user.
+-- Default limits apply when the user has no ai_quotas row.
+CREATE OR REPLACE FUNCTION public.get_ai_quota(p_user_id UUID DEFAULT auth.uid())
+RETURNS TABLE (
+  daily_limit INTEGER,
+  daily_used INTEGER,
+  monthly_limit INTEGER,
+  monthly_used INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Signed-in users may only look at their own quota
+  IF auth.uid() IS NOT NULL AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to read quota of another user';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(q.daily_limit, 50),
+    (SELECT COUNT(*)::INTEGER FROM public.ai_usage u
+      WHERE u.user_id = p_user_id AND u.created_at >= date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'),
+    COALESCE(q.monthly_limit, 500),
+    (SELECT COUNT(*)::INTEGER FROM public.ai_usage u
+      WHERE u.user_id = p_user_id AND u.created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC')
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.ai_quotas q ON q.user_id = p_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_ai_quota(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_ai_quota(UUID) TO authenticated, service_role;
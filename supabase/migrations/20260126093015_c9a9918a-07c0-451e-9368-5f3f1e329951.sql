@@ -0,0 +1,298 @@
+-- Full-text search over materials, their i18n versions, summaries and flashcards.
+--
+-- Every searchable piece of text gets a row in search_documents with a
+-- tsvector built in the text-search configuration of its language. Triggers
+-- keep the rows in sync; search_materials() ranks them and returns one row
+-- per material with a highlighted snippet.
+
+-- Text-search configuration for a study language
+CREATE OR REPLACE FUNCTION public.search_config(p_language TEXT)
+RETURNS regconfig
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_language
+    WHEN 'ru' THEN 'russian'::regconfig
+    WHEN 'de' THEN 'german'::regconfig
+    WHEN 'en' THEN 'english'::regconfig
+    ELSE 'simple'::regconfig
+  END
+$$;
+
+-- materials.notes is free text that usually holds the i18n JSON
+CREATE OR REPLACE FUNCTION public.try_parse_jsonb(p_text TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN p_text::jsonb;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+CREATE TABLE public.search_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  material_id UUID REFERENCES public.materials(id) ON DELETE CASCADE NOT NULL,
+  -- material | version | summary | flashcard
+  source_kind TEXT NOT NULL,
+  -- summaries.id / flashcards.id; NULL for the material and its versions
+  source_id UUID,
+  language TEXT,
+  ts_config regconfig NOT NULL DEFAULT 'simple',
+  heading TEXT NOT NULL DEFAULT '',
+  content TEXT NOT NULL DEFAULT '',
+  tsv tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector(ts_config, heading), 'A') || setweight(to_tsvector(ts_config, content), 'B')
+  ) STORED
+);
+
+ALTER TABLE public.search_documents ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the triggers below only
+CREATE POLICY "Users can view own search documents"
+  ON public.search_documents FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_search_documents_tsv ON public.search_documents USING GIN (tsv);
+CREATE INDEX idx_search_documents_material ON public.search_documents(material_id, source_kind);
+CREATE INDEX idx_search_documents_source ON public.search_documents(source_id);
+
+-- Rebuild the documents for a material's own text and all of its i18n versions
+CREATE OR REPLACE FUNCTION public.index_material_text(p_material_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  m public.materials%ROWTYPE;
+  v_i18n JSONB;
+  v_source_language TEXT;
+BEGIN
+  DELETE FROM public.search_documents
+  WHERE material_id = p_material_id AND source_kind IN ('material', 'version');
+
+  SELECT * INTO m FROM public.materials WHERE id = p_material_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_i18n := public.try_parse_jsonb(m.notes) -> 'i18n';
+  v_source_language := v_i18n ->> 'sourceLanguage';
+
+  INSERT INTO public.search_documents (user_id, material_id, source_kind, language, ts_config, heading, content)
+  VALUES (
+    m.user_id,
+    m.id,
+    'material',
+    v_source_language,
+    public.search_config(v_source_language),
+    concat_ws(' ', m.title, array_to_string(m.tags, ' ')),
+    coalesce(m.ocr_text, '')
+  );
+
+  IF jsonb_typeof(v_i18n -> 'versions') = 'object' THEN
+    INSERT INTO public.search_documents (user_id, material_id, source_kind, language, ts_config, heading, content)
+    SELECT
+      m.user_id,
+      m.id,
+      'version',
+      version.key,
+      public.search_config(version.key),
+      coalesce(version.value ->> 'title', ''),
+      coalesce(version.value ->> 'text', '')
+    FROM jsonb_each(v_i18n -> 'versions') AS version
+    WHERE coalesce(version.value ->> 'text', '') <> '';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_index_materials()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.index_material_text(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER search_index_materials
+  AFTER INSERT OR UPDATE OF title, tags, ocr_text, notes ON public.materials
+  FOR EACH ROW
+  EXECUTE FUNCTION public.search_index_materials();
+
+CREATE OR REPLACE FUNCTION public.search_index_summary()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.search_documents WHERE source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  DELETE FROM public.search_documents WHERE source_id = NEW.id;
+
+  INSERT INTO public.search_documents (user_id, material_id, source_kind, source_id, language, ts_config, content)
+  SELECT m.user_id, m.id, 'summary', NEW.id, NEW.language, public.search_config(NEW.language),
+         concat_ws(E'\n', NEW.short_summary, NEW.medium_summary, NEW.long_summary)
+  FROM public.materials m
+  WHERE m.id = NEW.material_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER search_index_summary
+  AFTER INSERT OR UPDATE OR DELETE ON public.summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.search_index_summary();
+
+CREATE OR REPLACE FUNCTION public.search_index_flashcard()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.search_documents WHERE source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  DELETE FROM public.search_documents WHERE source_id = NEW.id;
+
+  -- Archived cards are not part of the material any more
+  IF NEW.archived_at IS NULL THEN
+    INSERT INTO public.search_documents (user_id, material_id, source_kind, source_id, language, ts_config, heading, content)
+    SELECT m.user_id, m.id, 'flashcard', NEW.id, NEW.language, public.search_config(NEW.language),
+           NEW.question, NEW.answer
+    FROM public.materials m
+    WHERE m.id = NEW.material_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Review updates (stage, due_date, ...) do not change the searchable text
+CREATE TRIGGER search_index_flashcard
+  AFTER INSERT OR DELETE OR UPDATE OF question, answer, language, archived_at ON public.flashcards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.search_index_flashcard();
+
+-- Ranked search for the calling user. An empty query lists materials newest
+-- first. Snippets mark matches with <mark>...</mark>.
+CREATE OR REPLACE FUNCTION public.search_materials(
+  p_query TEXT,
+  p_topic TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  topic TEXT,
+  tags TEXT[],
+  ocr_text TEXT,
+  notes TEXT,
+  images TEXT[],
+  photos JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank REAL,
+  snippet TEXT,
+  matched_source TEXT,
+  matched_language TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query tsquery;
+  v_limit INTEGER := least(greatest(coalesce(p_limit, 20), 1), 50);
+  v_offset INTEGER := greatest(coalesce(p_offset, 0), 0);
+BEGIN
+  IF coalesce(trim(p_query), '') = '' THEN
+    RETURN QUERY
+    SELECT m.id, m.user_id, m.title, m.topic, m.tags, m.ocr_text, m.notes, m.images, m.photos,
+           m.created_at, m.updated_at, 0::real, NULL::text, NULL::text, NULL::text, count(*) OVER ()
+    FROM public.materials m
+    WHERE m.user_id = auth.uid()
+      AND (p_topic IS NULL OR m.topic = p_topic)
+    ORDER BY m.created_at DESC
+    LIMIT v_limit OFFSET v_offset;
+    RETURN;
+  END IF;
+
+  -- Match the query in every supported language; each document only matches
+  -- lexemes produced by its own configuration
+  v_query := websearch_to_tsquery('russian', p_query)
+          || websearch_to_tsquery('german', p_query)
+          || websearch_to_tsquery('english', p_query)
+          || websearch_to_tsquery('simple', p_query);
+
+  RETURN QUERY
+  WITH hits AS (
+    SELECT d.material_id, d.source_kind, d.language, d.ts_config, d.heading, d.content,
+           ts_rank(d.tsv, v_query) * CASE d.source_kind
+             WHEN 'summary' THEN 0.8
+             WHEN 'flashcard' THEN 0.6
+             ELSE 1.0
+           END AS score
+    FROM public.search_documents d
+    WHERE d.user_id = auth.uid()
+      AND d.tsv @@ v_query
+  ),
+  best AS (
+    SELECT DISTINCT ON (h.material_id) h.*
+    FROM hits h
+    ORDER BY h.material_id, h.score DESC
+  )
+  SELECT m.id, m.user_id, m.title, m.topic, m.tags, m.ocr_text, m.notes, m.images, m.photos,
+         m.created_at, m.updated_at,
+         b.score::real,
+         ts_headline(
+           b.ts_config,
+           concat_ws(' — ', nullif(b.heading, ''), b.content),
+           v_query,
+           'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+         ),
+         b.source_kind, b.language, count(*) OVER ()
+  FROM best b
+  JOIN public.materials m ON m.id = b.material_id
+  WHERE p_topic IS NULL OR m.topic = p_topic
+  ORDER BY b.score DESC, m.created_at DESC
+  LIMIT v_limit OFFSET v_offset;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_materials(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_materials(TEXT, TEXT, INTEGER, INTEGER) TO authenticated;
+
+-- Index what already exists
+SELECT public.index_material_text(id) FROM public.materials;
+
+INSERT INTO public.search_documents (user_id, material_id, source_kind, source_id, language, ts_config, content)
+SELECT m.user_id, m.id, 'summary', s.id, s.language, public.search_config(s.language),
+       concat_ws(E'\n', s.short_summary, s.medium_summary, s.long_summary)
+FROM public.summaries s
+JOIN public.materials m ON m.id = s.material_id;
+
+INSERT INTO public.search_documents (user_id, material_id, source_kind, source_id, language, ts_config, heading, content)
+SELECT m.user_id, m.id, 'flashcard', f.id, f.language, public.search_config(f.language), f.question, f.answer
+FROM public.flashcards f
+JOIN public.materials m ON m.id = f.material_id
+WHERE f.archived_at IS NULL;
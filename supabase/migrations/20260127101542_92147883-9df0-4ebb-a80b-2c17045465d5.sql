@@ -0,0 +1,319 @@
+-- Language versions of a material in their own table.
+--
+-- Until now every version lived as JSON in materials.notes (three different
+-- shapes over time, see the data migration below). Versions get one row per
+-- material and language; the language the material was written in moves to
+-- materials.source_language. notes is left to the user.
+
+ALTER TABLE public.materials ADD COLUMN source_language TEXT;
+
+CREATE TABLE public.material_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  material_id UUID REFERENCES public.materials(id) ON DELETE CASCADE NOT NULL,
+  language TEXT NOT NULL,
+  title TEXT,
+  text TEXT NOT NULL DEFAULT '',
+  -- Written or edited by the user; automatic translations never overwrite it
+  is_manual BOOLEAN NOT NULL DEFAULT false,
+  -- Hash of the source text this version was produced from
+  source_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (material_id, language)
+);
+
+ALTER TABLE public.material_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own material versions"
+  ON public.material_versions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.materials
+      WHERE materials.id = material_versions.material_id
+      AND materials.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own material versions"
+  ON public.material_versions FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.materials
+      WHERE materials.id = material_versions.material_id
+      AND materials.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own material versions"
+  ON public.material_versions FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.materials
+      WHERE materials.id = material_versions.material_id
+      AND materials.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own material versions"
+  ON public.material_versions FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.materials
+      WHERE materials.id = material_versions.material_id
+      AND materials.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_material_versions_updated_at
+  BEFORE UPDATE ON public.material_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Search: versions are indexed from the new table
+
+CREATE OR REPLACE FUNCTION public.index_material_text(p_material_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  m public.materials%ROWTYPE;
+BEGIN
+  DELETE FROM public.search_documents
+  WHERE material_id = p_material_id AND source_kind IN ('material', 'version');
+
+  SELECT * INTO m FROM public.materials WHERE id = p_material_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.search_documents (user_id, material_id, source_kind, language, ts_config, heading, content)
+  VALUES (
+    m.user_id,
+    m.id,
+    'material',
+    m.source_language,
+    public.search_config(m.source_language),
+    concat_ws(' ', m.title, array_to_string(m.tags, ' ')),
+    coalesce(m.ocr_text, '')
+  );
+
+  INSERT INTO public.search_documents (user_id, material_id, source_kind, language, ts_config, heading, content)
+  SELECT m.user_id, m.id, 'version', v.language, public.search_config(v.language), coalesce(v.title, ''), v.text
+  FROM public.material_versions v
+  WHERE v.material_id = m.id
+    AND v.text <> '';
+END;
+$$;
+
+DROP TRIGGER search_index_materials ON public.materials;
+
+CREATE TRIGGER search_index_materials
+  AFTER INSERT OR UPDATE OF title, tags, ocr_text, source_language ON public.materials
+  FOR EACH ROW
+  EXECUTE FUNCTION public.search_index_materials();
+
+CREATE OR REPLACE FUNCTION public.search_index_material_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.index_material_text(OLD.material_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.index_material_text(NEW.material_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER search_index_material_version
+  AFTER INSERT OR DELETE OR UPDATE OF language, title, text ON public.material_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.search_index_material_version();
+
+-- The result row now carries the source language instead of relying on notes
+DROP FUNCTION public.search_materials(TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_materials(
+  p_query TEXT,
+  p_topic TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  topic TEXT,
+  tags TEXT[],
+  ocr_text TEXT,
+  notes TEXT,
+  source_language TEXT,
+  images TEXT[],
+  photos JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank REAL,
+  snippet TEXT,
+  matched_source TEXT,
+  matched_language TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query tsquery;
+  v_limit INTEGER := least(greatest(coalesce(p_limit, 20), 1), 50);
+  v_offset INTEGER := greatest(coalesce(p_offset, 0), 0);
+BEGIN
+  IF coalesce(trim(p_query), '') = '' THEN
+    RETURN QUERY
+    SELECT m.id, m.user_id, m.title, m.topic, m.tags, m.ocr_text, m.notes, m.source_language, m.images, m.photos,
+           m.created_at, m.updated_at, 0::real, NULL::text, NULL::text, NULL::text, count(*) OVER ()
+    FROM public.materials m
+    WHERE m.user_id = auth.uid()
+      AND (p_topic IS NULL OR m.topic = p_topic)
+    ORDER BY m.created_at DESC
+    LIMIT v_limit OFFSET v_offset;
+    RETURN;
+  END IF;
+
+  -- Match the query in every supported language; each document only matches
+  -- lexemes produced by its own configuration
+  v_query := websearch_to_tsquery('russian', p_query)
+          || websearch_to_tsquery('german', p_query)
+          || websearch_to_tsquery('english', p_query)
+          || websearch_to_tsquery('simple', p_query);
+
+  RETURN QUERY
+  WITH hits AS (
+    SELECT d.material_id, d.source_kind, d.language, d.ts_config, d.heading, d.content,
+           ts_rank(d.tsv, v_query) * CASE d.source_kind
+             WHEN 'summary' THEN 0.8
+             WHEN 'flashcard' THEN 0.6
+             ELSE 1.0
+           END AS score
+    FROM public.search_documents d
+    WHERE d.user_id = auth.uid()
+      AND d.tsv @@ v_query
+  ),
+  best AS (
+    SELECT DISTINCT ON (h.material_id) h.*
+    FROM hits h
+    ORDER BY h.material_id, h.score DESC
+  )
+  SELECT m.id, m.user_id, m.title, m.topic, m.tags, m.ocr_text, m.notes, m.source_language, m.images, m.photos,
+         m.created_at, m.updated_at,
+         b.score::real,
+         ts_headline(
+           b.ts_config,
+           concat_ws(' — ', nullif(b.heading, ''), b.content),
+           v_query,
+           'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+         ),
+         b.source_kind, b.language, count(*) OVER ()
+  FROM best b
+  JOIN public.materials m ON m.id = b.material_id
+  WHERE p_topic IS NULL OR m.topic = p_topic
+  ORDER BY b.score DESC, m.created_at DESC
+  LIMIT v_limit OFFSET v_offset;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_materials(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_materials(TEXT, TEXT, INTEGER, INTEGER) TO authenticated;
+
+-- Data migration. notes held one of three JSON shapes:
+--   current: { "i18n": { "sourceLanguage", "versions": { lang: { title, text, isManual } } } }
+--   interim: { "originalLanguage", "originalText": { title, text }, "translations": { lang: { title, text } } }
+--   legacy:  { "originalText": "...", "sourceLanguage", "translations": { lang: "..." } }
+-- In the older two the original is manual and every translation automatic.
+-- Anything else in notes is the user's own text and stays. Kept as a function
+-- so data restored from older backups can be migrated the same way; versions
+-- that already exist are kept, so it can run any number of times.
+CREATE OR REPLACE FUNCTION public.migrate_material_notes()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+  v_notes JSONB;
+  v_source TEXT;
+  v_migrated INTEGER := 0;
+BEGIN
+  FOR r IN SELECT id, notes FROM public.materials WHERE notes IS NOT NULL LOOP
+    v_notes := public.try_parse_jsonb(r.notes);
+    IF jsonb_typeof(v_notes) IS DISTINCT FROM 'object' THEN
+      CONTINUE;
+    END IF;
+
+    IF v_notes #>> '{i18n,sourceLanguage}' IS NOT NULL
+       AND jsonb_typeof(v_notes #> '{i18n,versions}') = 'object' THEN
+      v_source := v_notes #>> '{i18n,sourceLanguage}';
+
+      INSERT INTO public.material_versions (material_id, language, title, text, is_manual)
+      SELECT r.id, version.key, version.value ->> 'title', coalesce(version.value ->> 'text', ''),
+             coalesce(version.value -> 'isManual' = 'true'::jsonb, false)
+      FROM jsonb_each(v_notes #> '{i18n,versions}') AS version
+      WHERE jsonb_typeof(version.value) = 'object'
+      ON CONFLICT (material_id, language) DO NOTHING;
+
+    ELSIF v_notes ->> 'originalLanguage' IS NOT NULL
+       AND coalesce(v_notes #>> '{originalText,text}', '') <> '' THEN
+      v_source := v_notes ->> 'originalLanguage';
+
+      INSERT INTO public.material_versions (material_id, language, title, text, is_manual)
+      VALUES (r.id, v_source, v_notes #>> '{originalText,title}', v_notes #>> '{originalText,text}', true)
+      ON CONFLICT (material_id, language) DO NOTHING;
+
+      IF jsonb_typeof(v_notes -> 'translations') = 'object' THEN
+        INSERT INTO public.material_versions (material_id, language, title, text, is_manual)
+        SELECT r.id, translation.key, translation.value ->> 'title', coalesce(translation.value ->> 'text', ''), false
+        FROM jsonb_each(v_notes -> 'translations') AS translation
+        WHERE translation.key <> v_source
+          AND jsonb_typeof(translation.value) = 'object'
+        ON CONFLICT (material_id, language) DO NOTHING;
+      END IF;
+
+    ELSIF jsonb_typeof(v_notes -> 'originalText') = 'string'
+       AND v_notes ->> 'originalText' <> ''
+       AND v_notes ->> 'sourceLanguage' IS NOT NULL THEN
+      v_source := v_notes ->> 'sourceLanguage';
+
+      INSERT INTO public.material_versions (material_id, language, text, is_manual)
+      VALUES (r.id, v_source, v_notes ->> 'originalText', true)
+      ON CONFLICT (material_id, language) DO NOTHING;
+
+      IF jsonb_typeof(v_notes -> 'translations') = 'object' THEN
+        INSERT INTO public.material_versions (material_id, language, text, is_manual)
+        SELECT r.id, translation.key, translation.value, false
+        FROM jsonb_each_text(v_notes -> 'translations') AS translation
+        WHERE translation.key <> v_source
+          AND coalesce(translation.value, '') <> ''
+        ON CONFLICT (material_id, language) DO NOTHING;
+      END IF;
+
+    ELSE
+      CONTINUE;
+    END IF;
+
+    UPDATE public.materials SET source_language = v_source, notes = NULL WHERE id = r.id;
+    v_migrated := v_migrated + 1;
+  END LOOP;
+
+  RETURN v_migrated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.migrate_material_notes() FROM PUBLIC, anon, authenticated;
+
+SELECT public.migrate_material_notes();
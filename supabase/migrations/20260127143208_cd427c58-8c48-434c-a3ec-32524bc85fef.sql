@@ -0,0 +1,6 @@
+-- Hash of the source text each generated artifact was produced from.
+-- material_versions.source_hash already exists; a differing hash marks the
+-- row as outdated. NULL means unknown (created before hashes were recorded).
+ALTER TABLE public.summaries ADD COLUMN source_hash TEXT;
+ALTER TABLE public.flashcards ADD COLUMN source_hash TEXT;
+ALTER TABLE public.quiz_questions ADD COLUMN source_hash TEXT;
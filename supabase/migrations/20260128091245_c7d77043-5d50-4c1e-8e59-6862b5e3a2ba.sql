@@ -0,0 +1,125 @@
+-- Turkish and Serbian (Latin) study languages.
+--
+-- Their documents get their own text-search configurations, and the search
+-- query is built from one place so the next language only touches
+-- search_config() and search_tsquery().
+
+CREATE OR REPLACE FUNCTION public.search_config(p_language TEXT)
+RETURNS regconfig
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_language
+    WHEN 'ru' THEN 'russian'::regconfig
+    WHEN 'de' THEN 'german'::regconfig
+    WHEN 'en' THEN 'english'::regconfig
+    WHEN 'tr' THEN 'turkish'::regconfig
+    -- The serbian stemmer handles both scripts
+    WHEN 'sr-Latn' THEN 'serbian'::regconfig
+    ELSE 'simple'::regconfig
+  END
+$$;
+
+-- Match the query in every supported language; each document only matches
+-- lexemes produced by its own configuration
+CREATE OR REPLACE FUNCTION public.search_tsquery(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT websearch_to_tsquery('russian', p_query)
+      || websearch_to_tsquery('german', p_query)
+      || websearch_to_tsquery('english', p_query)
+      || websearch_to_tsquery('turkish', p_query)
+      || websearch_to_tsquery('serbian', p_query)
+      || websearch_to_tsquery('simple', p_query)
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_materials(
+  p_query TEXT,
+  p_topic TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  topic TEXT,
+  tags TEXT[],
+  ocr_text TEXT,
+  notes TEXT,
+  source_language TEXT,
+  images TEXT[],
+  photos JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank REAL,
+  snippet TEXT,
+  matched_source TEXT,
+  matched_language TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query tsquery;
+  v_limit INTEGER := least(greatest(coalesce(p_limit, 20), 1), 50);
+  v_offset INTEGER := greatest(coalesce(p_offset, 0), 0);
+BEGIN
+  IF coalesce(trim(p_query), '') = '' THEN
+    RETURN QUERY
+    SELECT m.id, m.user_id, m.title, m.topic, m.tags, m.ocr_text, m.notes, m.source_language, m.images, m.photos,
+           m.created_at, m.updated_at, 0::real, NULL::text, NULL::text, NULL::text, count(*) OVER ()
+    FROM public.materials m
+    WHERE m.user_id = auth.uid()
+      AND (p_topic IS NULL OR m.topic = p_topic)
+    ORDER BY m.created_at DESC
+    LIMIT v_limit OFFSET v_offset;
+    RETURN;
+  END IF;
+
+  v_query := public.search_tsquery(p_query);
+
+  RETURN QUERY
+  WITH hits AS (
+    SELECT d.material_id, d.source_kind, d.language, d.ts_config, d.heading, d.content,
+           ts_rank(d.tsv, v_query) * CASE d.source_kind
+             WHEN 'summary' THEN 0.8
+             WHEN 'flashcard' THEN 0.6
+             ELSE 1.0
+           END AS score
+    FROM public.search_documents d
+    WHERE d.user_id = auth.uid()
+      AND d.tsv @@ v_query
+  ),
+  best AS (
+    SELECT DISTINCT ON (h.material_id) h.*
+    FROM hits h
+    ORDER BY h.material_id, h.score DESC
+  )
+  SELECT m.id, m.user_id, m.title, m.topic, m.tags, m.ocr_text, m.notes, m.source_language, m.images, m.photos,
+         m.created_at, m.updated_at,
+         b.score::real,
+         ts_headline(
+           b.ts_config,
+           concat_ws(' — ', nullif(b.heading, ''), b.content),
+           v_query,
+           'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+         ),
+         b.source_kind, b.language, count(*) OVER ()
+  FROM best b
+  JOIN public.materials m ON m.id = b.material_id
+  WHERE p_topic IS NULL OR m.topic = p_topic
+  ORDER BY b.score DESC, m.created_at DESC
+  LIMIT v_limit OFFSET v_offset;
+END;
+$$;
+
+-- Documents already stored in these languages were indexed as 'simple'
+UPDATE public.search_documents
+SET ts_config = public.search_config(language)
+WHERE language IN ('tr', 'sr-Latn');
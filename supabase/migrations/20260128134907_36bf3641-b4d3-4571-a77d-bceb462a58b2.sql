@@ -0,0 +1,39 @@
+-- Per-user medical glossary. Terms are injected into translation and
+-- generation prompts so the same term is rendered the same way in every
+-- lecture, and highlighted with their definition in the lecture text.
+CREATE TABLE public.glossary_terms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- The term as taught (the German nursing term for the bundled glossary)
+  term TEXT NOT NULL CHECK (trim(term) <> ''),
+  -- Language code -> the term in that language, e.g. { "en": "pressure ulcer" }
+  variants JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(variants) = 'object'),
+  definition TEXT,
+  topic TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, term)
+);
+
+ALTER TABLE public.glossary_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own glossary terms"
+  ON public.glossary_terms FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own glossary terms"
+  ON public.glossary_terms FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own glossary terms"
+  ON public.glossary_terms FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own glossary terms"
+  ON public.glossary_terms FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_glossary_terms_updated_at
+  BEFORE UPDATE ON public.glossary_terms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,10 @@
+-- Bilingual flashcards: the question in one language, the answer in another
+-- (e.g. the German term on the front, the Russian explanation on the back).
+--
+-- flashcards.language stays the language of the question. answer_language is
+-- NULL for ordinary cards, whose answer is in the same language.
+
+ALTER TABLE public.flashcards
+  ADD COLUMN answer_language TEXT,
+  ADD CONSTRAINT flashcards_answer_language_differs
+    CHECK (answer_language IS NULL OR answer_language <> language);
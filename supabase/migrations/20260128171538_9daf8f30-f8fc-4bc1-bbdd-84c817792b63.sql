@@ -0,0 +1,9 @@
+-- Cloze-deletion cards next to question/answer cards.
+--
+-- A cloze card keeps a sentence with its blanks marked as {{c1::...}} in
+-- question and the sentence with the blanks filled in as answer, so search
+-- and the card lists keep working on plain text.
+
+ALTER TABLE public.flashcards
+  ADD COLUMN card_type TEXT NOT NULL DEFAULT 'basic'
+    CHECK (card_type IN ('basic', 'cloze'));
@@ -0,0 +1,45 @@
+-- Hand-made and hand-edited flashcards, suspension and "flag as wrong".
+--
+-- is_manual marks cards written or edited by the user: regeneration neither
+-- updates, archives nor deletes them. Suspended cards stay in the card list
+-- but are left out of review until they are resumed.
+ALTER TABLE public.flashcards
+  ADD COLUMN is_manual BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN suspended_at TIMESTAMPTZ;
+
+-- Reports of wrong cards. The card text is copied so the report outlives
+-- later edits or the deletion of the card.
+CREATE TABLE public.flashcard_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  flashcard_id UUID REFERENCES public.flashcards(id) ON DELETE SET NULL,
+  question TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.flashcard_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Feedback is append-only: no UPDATE policy
+CREATE POLICY "Users can view own flashcard feedback"
+  ON public.flashcard_feedback FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own flashcard feedback"
+  ON public.flashcard_feedback FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.flashcards
+      JOIN public.materials ON materials.id = flashcards.material_id
+      WHERE flashcards.id = flashcard_feedback.flashcard_id
+      AND materials.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own flashcard feedback"
+  ON public.flashcard_feedback FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_flashcard_feedback_flashcard ON public.flashcard_feedback(flashcard_id);
@@ -0,0 +1,79 @@
+-- Quiz attempts and the answer given to every question.
+--
+-- An attempt stores its score, so the history per material survives later
+-- regeneration of the quiz (replaced questions are archived, not deleted, so
+-- their answers stay); the answers give the error rate per question and the
+-- questions to retry. mode 'retry' marks attempts with only the
+-- questions answered wrongly last time.
+CREATE TABLE public.quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  material_id UUID REFERENCES public.materials(id) ON DELETE CASCADE NOT NULL,
+  language TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'full' CHECK (mode IN ('full', 'retry')),
+  correct_count INTEGER NOT NULL CHECK (correct_count >= 0),
+  total_count INTEGER NOT NULL CHECK (total_count > 0 AND correct_count <= total_count),
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.quiz_attempt_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id UUID REFERENCES public.quiz_attempts(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  question_id UUID REFERENCES public.quiz_questions(id) ON DELETE CASCADE NOT NULL,
+  selected_index INTEGER,
+  is_correct BOOLEAN NOT NULL,
+  answered_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_attempt_answers ENABLE ROW LEVEL SECURITY;
+
+-- Attempts are append-only: no UPDATE policies
+CREATE POLICY "Users can view own quiz attempts"
+  ON public.quiz_attempts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own quiz attempts"
+  ON public.quiz_attempts FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.materials
+      WHERE materials.id = quiz_attempts.material_id
+      AND materials.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own quiz attempts"
+  ON public.quiz_attempts FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own quiz answers"
+  ON public.quiz_attempt_answers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own quiz answers"
+  ON public.quiz_attempt_answers FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.quiz_attempts
+      WHERE quiz_attempts.id = quiz_attempt_answers.attempt_id
+      AND quiz_attempts.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.quiz_questions
+      JOIN public.materials ON materials.id = quiz_questions.material_id
+      WHERE quiz_questions.id = quiz_attempt_answers.question_id
+      AND materials.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own quiz answers"
+  ON public.quiz_attempt_answers FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_material ON public.quiz_attempts(material_id, completed_at);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempt_answers_attempt ON public.quiz_attempt_answers(attempt_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempt_answers_question ON public.quiz_attempt_answers(question_id, answered_at);
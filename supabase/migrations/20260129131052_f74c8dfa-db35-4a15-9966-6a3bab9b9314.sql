@@ -0,0 +1,29 @@
+-- Mock exams: quiz attempts over questions from many materials.
+--
+-- An exam attempt belongs to no single material; its answers point at the
+-- questions (and through them at materials and topics) as before.
+ALTER TABLE public.quiz_attempts
+  ALTER COLUMN material_id DROP NOT NULL,
+  ADD COLUMN duration_seconds INTEGER CHECK (duration_seconds >= 0);
+
+ALTER TABLE public.quiz_attempts DROP CONSTRAINT IF EXISTS quiz_attempts_mode_check;
+ALTER TABLE public.quiz_attempts
+  ADD CONSTRAINT quiz_attempts_mode_check CHECK (mode IN ('full', 'retry', 'exam')),
+  ADD CONSTRAINT quiz_attempts_material_check CHECK ((mode = 'exam') = (material_id IS NULL));
+
+DROP POLICY "Users can insert own quiz attempts" ON public.quiz_attempts;
+CREATE POLICY "Users can insert own quiz attempts"
+  ON public.quiz_attempts FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      material_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.materials
+        WHERE materials.id = quiz_attempts.material_id
+        AND materials.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_mode ON public.quiz_attempts(user_id, mode, completed_at);
@@ -0,0 +1,27 @@
+-- Quiz question types besides single-answer multiple choice.
+--
+-- single and true_false questions keep their answer in correct_index (a
+-- true/false question has the two options "true" and "false" in the quiz
+-- language). multiple questions list all correct option indices in
+-- correct_indices; ordering questions list the option indices in the
+-- correct order. Questions of a clinical case share the vignette in
+-- case_text.
+ALTER TABLE public.quiz_questions
+  ADD COLUMN question_type TEXT NOT NULL DEFAULT 'single'
+    CHECK (question_type IN ('single', 'multiple', 'true_false', 'ordering')),
+  ADD COLUMN correct_indices JSONB,
+  ADD COLUMN case_text TEXT,
+  ALTER COLUMN correct_index DROP NOT NULL;
+
+ALTER TABLE public.quiz_questions
+  ADD CONSTRAINT quiz_questions_answer_check CHECK (
+    CASE
+      WHEN question_type IN ('multiple', 'ordering') THEN jsonb_typeof(correct_indices) = 'array'
+      ELSE correct_index IS NOT NULL
+    END
+  );
+
+-- Answers to multiple and ordering questions: the chosen indices, or the
+-- option indices in the order the user put them
+ALTER TABLE public.quiz_attempt_answers
+  ADD COLUMN selected_indices JSONB;
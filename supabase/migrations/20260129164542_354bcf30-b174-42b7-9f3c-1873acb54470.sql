@@ -0,0 +1,22 @@
+-- Source grounding: the passage of the lecture text each generated item is
+-- based on.
+--
+-- source_quote is the passage as the AI quoted it; source_start/source_end
+-- are its character offsets in the text the item was generated from (the
+-- text source_hash was taken of). A quote without offsets was not found in
+-- the text and flags the item. Items from before grounding, manual and
+-- imported ones have no quote.
+ALTER TABLE public.flashcards
+  ADD COLUMN source_quote TEXT,
+  ADD COLUMN source_start INTEGER,
+  ADD COLUMN source_end INTEGER;
+
+ALTER TABLE public.quiz_questions
+  ADD COLUMN source_quote TEXT,
+  ADD COLUMN source_start INTEGER,
+  ADD COLUMN source_end INTEGER;
+
+-- Summaries: one quote per point of the short summary,
+-- [{ "point": ..., "quote": ..., "start": ..., "end": ... }]
+ALTER TABLE public.summaries
+  ADD COLUMN sources JSONB NOT NULL DEFAULT '[]';
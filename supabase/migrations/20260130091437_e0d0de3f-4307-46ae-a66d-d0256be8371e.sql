@@ -0,0 +1,19 @@
+-- Reverse direction of bilingual decks: the same cards asked from the answer
+-- side (answer_language → language). Each direction is learned on its own,
+-- so the reverse one keeps its own SM-2 state next to the card's. Cards
+-- without an answer_language never use these columns.
+ALTER TABLE public.flashcards
+  ADD COLUMN reverse_stage INTEGER NOT NULL DEFAULT 0 CHECK (reverse_stage >= 0),
+  ADD COLUMN reverse_ease_factor REAL NOT NULL DEFAULT 2.5 CHECK (reverse_ease_factor >= 1.3),
+  ADD COLUMN reverse_interval_days INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN reverse_lapses INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN reverse_due_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  ADD COLUMN reverse_last_reviewed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_flashcards_reverse_due_date
+  ON public.flashcards(language, answer_language, reverse_due_date)
+  WHERE answer_language IS NOT NULL;
+
+-- Direction of the review: false for the question side first
+ALTER TABLE public.review_logs
+  ADD COLUMN reversed BOOLEAN NOT NULL DEFAULT false;
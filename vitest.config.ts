@@ -3,14 +3,41 @@ import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
 export default defineConfig({
-  plugins: [react()],
   test: {
-    environment: "jsdom",
-    globals: true,
-    setupFiles: ["./src/test/setup.ts"],
-    include: ["src/**/*.{test,spec}.{ts,tsx}"],
-  },
-  resolve: {
-    alias: { "@": path.resolve(__dirname, "./src") },
+    projects: [
+      {
+        plugins: [react()],
+        test: {
+          name: "app",
+          environment: "jsdom",
+          globals: true,
+          setupFiles: ["./src/test/setup.ts"],
+          include: ["src/**/*.{test,spec}.{ts,tsx}"],
+        },
+        resolve: {
+          alias: { "@": path.resolve(__dirname, "./src") },
+        },
+      },
+      {
+        // Edge functions run against a local Postgres (PGlite) and a mock AI gateway
+        test: {
+          name: "functions",
+          environment: "node",
+          setupFiles: ["./supabase/functions/tests/support/setup.ts"],
+          include: ["supabase/functions/tests/**/*.test.ts"],
+          testTimeout: 30_000,
+          // Functions log every step; only show the logs of failing tests
+          silent: "passed-only",
+        },
+        resolve: {
+          alias: {
+            "https://esm.sh/@supabase/supabase-js@2": path.resolve(
+              __dirname,
+              "./supabase/functions/tests/support/supabaseClient.ts",
+            ),
+          },
+        },
+      },
+    ],
   },
 });